@@ -33,8 +33,11 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
   },
   plugins: [
     'expo-asset',
+    'expo-notifications',
   ],
   extra: {
+    // 'local' (AsyncStorage only) or 'firestore' (sync through Firestore)
+    storageBackend: process.env.STORAGE_BACKEND || 'local',
     firebase: {
       apiKey: process.env.FIREBASE_API_KEY,
       authDomain: process.env.FIREBASE_AUTH_DOMAIN,
@@ -42,6 +45,8 @@ export default ({ config }: ConfigContext): ExpoConfig => ({
       appId: process.env.FIREBASE_APP_ID,
       storageBucket: process.env.FIREBASE_STORAGE_BUCKET,
       messagingSenderId: process.env.FIREBASE_MESSAGING_SENDER_ID,
+      // host:port of a local Firestore emulator, e.g. localhost:8080
+      emulatorHost: process.env.FIRESTORE_EMULATOR_HOST,
     },
   },
 });
@@ -11,24 +11,35 @@ import {
   ActivityIndicator,
   Animated,
   Dimensions,
+  ScrollView,
 } from 'react-native';
 import { PanGestureHandler, State } from 'react-native-gesture-handler';
-import { Civilization, ProgressMemo, CreateProgressMemoRequest, UpdateProgressMemoRequest } from '../types';
+import { Civilization, ProgressEvent, RecordProgressRequest } from '../types';
 import { Icon } from './UI/Icon';
+import { DeadlineBadge } from './UI/DeadlineBadge';
+import { MetricChart } from './UI/MetricChart';
 import { formatDate } from '../lib/dateUtils';
+import { getBackfillDates } from '../lib/progressEvents';
+import { formatMetricAmount } from '../lib/metrics';
+import {
+  getMilestoneDeadlineState,
+  getMilestoneProgress,
+  getNextMilestone,
+  isMilestoneCompleted,
+} from '../lib/milestones';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
 import { ui } from '../theme/ui';
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { ProgressMemoModal } from './ProgressMemoModal';
-import { createProgressMemo, updateProgressMemo } from '../repositories/progressMemoRepository';
+import { useAppStore } from '../stores/useAppStore';
+import { strings } from '../i18n/strings';
 
 interface CivilizationBottomSheetProps {
   visible: boolean;
   civilization: Civilization | null;
   onClose: () => void;
-  onRecordProgress: (civilization: Civilization) => Promise<void>;
+  onRecordProgress: (civilization: Civilization, data: RecordProgressRequest) => Promise<void>;
   loading?: boolean;
 }
 
@@ -39,10 +50,19 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
   onRecordProgress,
   loading = false,
 }) => {
-  const [latestMemo, setLatestMemo] = useState<ProgressMemo | null>(null);
-  const [memoLoading, setMemoLoading] = useState(false);
+  const {
+    civilizations,
+    progressEvents,
+    getProgressEvents,
+    getTodayProgressEvent,
+    getBackfillWindowDays,
+    deleteProgressEvent,
+    toggleMilestone,
+    showToast,
+  } = useAppStore();
+  const [latestMemo, setLatestMemo] = useState<ProgressEvent | null>(null);
   const [progressMemoModalVisible, setProgressMemoModalVisible] = useState(false);
-  const [editingMemo, setEditingMemo] = useState<ProgressMemo | undefined>();
+  const [editingMemo, setEditingMemo] = useState<ProgressEvent | undefined>();
   const [memoModalLoading, setMemoModalLoading] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
   
@@ -50,12 +70,13 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
   const translateY = new Animated.Value(screenHeight);
   const fadeAnim = new Animated.Value(0);
 
-  // Load latest progress memo when civilization changes
+  // Pick the latest progress event when civilization or its events change
   useEffect(() => {
     if (civilization) {
-      loadLatestMemo();
+      const civEvents = getProgressEvents(civilization.id);
+      setLatestMemo(civEvents.length > 0 ? civEvents[0] : null);
     }
-  }, [civilization]);
+  }, [civilization, progressEvents, getProgressEvents]);
 
   // Animation control functions
   const animateIn = () => {
@@ -91,81 +112,20 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
     }
   }, [visible]);
 
-  const loadLatestMemo = async () => {
+  const handleRecordProgress = () => {
     if (!civilization) return;
-    
-    setMemoLoading(true);
-    try {
-      // Load progress memos from AsyncStorage
-      const memosData = await AsyncStorage.getItem('progress_memos');
-      if (memosData) {
-        const allMemos: ProgressMemo[] = JSON.parse(memosData);
-        const civMemos = allMemos
-          .filter(memo => memo.civId === civilization.id)
-          .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-        
-        setLatestMemo(civMemos.length > 0 ? civMemos[0] : null);
-      }
-    } catch (error) {
-      console.error('Failed to load latest memo:', error);
-    } finally {
-      setMemoLoading(false);
-    }
-  };
 
-  const handleRecordProgress = async () => {
-    if (!civilization) return;
-    
-    try {
-      // Check if today's memo already exists
-      const today = new Date().toISOString().split('T')[0];
-      const memosData = await AsyncStorage.getItem('progress_memos');
-      
-      if (memosData) {
-        const allMemos: ProgressMemo[] = JSON.parse(memosData);
-        const todayMemo = allMemos.find(memo => 
-          memo.civId === civilization.id && memo.date === today
-        );
-        
-        if (todayMemo) {
-          // Edit existing memo
-          setEditingMemo(todayMemo);
-        } else {
-          // Create new memo
-          setEditingMemo(undefined);
-        }
-      } else {
-        // Create new memo
-        setEditingMemo(undefined);
-      }
-      
-      setProgressMemoModalVisible(true);
-    } catch (error) {
-      console.error('Failed to check today\'s memo:', error);
-    }
+    // Edit today's event if progress was already recorded, otherwise create one
+    setEditingMemo(getTodayProgressEvent(civilization.id) || undefined);
+    setProgressMemoModalVisible(true);
   };
 
-  const handleSubmitProgressMemo = async (
-    data: CreateProgressMemoRequest | UpdateProgressMemoRequest
-  ) => {
+  const handleSubmitProgressMemo = async (data: RecordProgressRequest) => {
     if (!civilization) return;
     
     setMemoModalLoading(true);
     try {
-      if (editingMemo) {
-        // Update existing memo
-        await updateProgressMemo(civilization.id, data as UpdateProgressMemoRequest);
-      } else {
-        // Create new memo
-        await createProgressMemo(civilization.id, data as CreateProgressMemoRequest);
-      }
-      
-      // Update civilization's lastProgressAt timestamp
-      await onRecordProgress(civilization);
-      
-      // Reload latest memo after recording
-      await loadLatestMemo();
-      
+      await onRecordProgress(civilization, data);
       setProgressMemoModalVisible(false);
     } catch (error) {
       console.error('Failed to submit progress memo:', error);
@@ -175,6 +135,17 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
     }
   };
 
+  const handleToggleMilestone = async (milestoneId: string) => {
+    if (!civilization) return;
+
+    try {
+      await toggleMilestone(civilization.id, milestoneId);
+    } catch (error) {
+      console.error('Failed to toggle milestone:', error);
+      showToast(strings.civilization.milestones.toggleFailed, 'error');
+    }
+  };
+
   const handlePanGesture = (event: any) => {
     if (isAnimating) return; // Prevent gesture during animation
     
@@ -196,6 +167,12 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
 
   if (!civilization) return null;
 
+  // Milestones and the metric change while the sheet is open, so read them from the store
+  const liveCivilization = civilizations.find(civ => civ.id === civilization.id) ?? civilization;
+  const milestones = liveCivilization.milestones ?? [];
+  const completedMilestones = milestones.filter(milestone => isMilestoneCompleted(milestone));
+  const nextMilestone = getNextMilestone(milestones);
+
   return (
     <Modal
       visible={visible}
@@ -234,22 +211,91 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
               </View>
             </View>
 
+            {/* Milestones */}
+            {milestones.length > 0 && (
+              <View style={styles.milestoneSection}>
+                <View style={styles.milestoneHeader}>
+                  <Text style={styles.historyTitle}>{strings.civilization.milestones.title}</Text>
+                  <Text style={styles.milestoneProgress}>
+                    {strings.civilization.milestones.progress(
+                      completedMilestones.length,
+                      milestones.length
+                    )}
+                  </Text>
+                </View>
+                <View style={styles.milestoneBar}>
+                  <View
+                    style={[
+                      styles.milestoneBarFill,
+                      { width: `${Math.round(getMilestoneProgress(milestones) * 100)}%` },
+                    ]}
+                  />
+                </View>
+                <Text style={styles.milestoneNext}>
+                  {nextMilestone
+                    ? strings.civilization.milestones.next(nextMilestone.title)
+                    : strings.civilization.milestones.allCompleted}
+                </Text>
+                <ScrollView style={styles.milestoneList} nestedScrollEnabled>
+                  {milestones.map(milestone => {
+                    const completed = isMilestoneCompleted(milestone);
+                    const deadlineState = getMilestoneDeadlineState(milestone);
+                    return (
+                      <TouchableOpacity
+                        key={milestone.id}
+                        style={styles.milestoneRow}
+                        onPress={() => handleToggleMilestone(milestone.id)}
+                      >
+                        <View style={[styles.checkbox, completed && styles.checkboxChecked]}>
+                          {completed && <Icon name="success" size="xs" color="#FFFFFF" />}
+                        </View>
+                        <Text
+                          style={[styles.milestoneTitle, completed && styles.milestoneCompleted]}
+                        >
+                          {milestone.title}
+                        </Text>
+                        {milestone.dueDate && (
+                          <Text style={styles.milestoneDue}>{formatDate(milestone.dueDate)}</Text>
+                        )}
+                        {deadlineState && deadlineState !== 'completed' && (
+                          <DeadlineBadge state={deadlineState} />
+                        )}
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </View>
+            )}
+
+            {/* Metric */}
+            {liveCivilization.metric && (
+              <View style={styles.metricSection}>
+                <MetricChart
+                  metric={liveCivilization.metric}
+                  events={getProgressEvents(civilization.id)}
+                  title={strings.civilization.metric.title}
+                />
+              </View>
+            )}
+
             {/* Latest History */}
             <View style={styles.historySection}>
               <Text style={styles.historyTitle}>最新の記録</Text>
-              {memoLoading ? (
-                <View style={styles.loadingContainer}>
-                  <ActivityIndicator size="small" color={colors.primary} />
-                  <Text style={styles.loadingText}>読み込み中...</Text>
-                </View>
-              ) : latestMemo ? (
+              {latestMemo ? (
                 <View style={styles.latestMemoCard}>
                   <View style={styles.memoHeader}>
                     <Text style={styles.memoDate}>
                       {formatDate(latestMemo.date)}
                     </Text>
+                    {liveCivilization.metric && latestMemo.amount !== undefined && (
+                      <Text style={styles.memoDate}>
+                        {formatMetricAmount(latestMemo.amount, liveCivilization.metric.unit)}
+                      </Text>
+                    )}
                   </View>
-                  <Text style={styles.memoText}>{latestMemo.memo}</Text>
+                  <Text style={styles.memoText}>
+                    {latestMemo.memo || strings.civilization.progressWithoutMemo}
+                  </Text>
                 </View>
               ) : (
                 <View style={styles.emptyMemoCard}>
@@ -286,6 +332,10 @@ export const CivilizationBottomSheet: React.FC<CivilizationBottomSheetProps> = (
           memo={editingMemo}
           loading={memoModalLoading}
           isEditMode={!!editingMemo}
+          dates={getBackfillDates(getBackfillWindowDays())}
+          events={civilization ? getProgressEvents(civilization.id) : []}
+          onDelete={event => deleteProgressEvent(event.id)}
+          metric={liveCivilization.metric}
         />
       </Animated.View>
     </Modal>
@@ -357,33 +407,90 @@ const styles = StyleSheet.create({
     color: colors.textSecondary,
     textTransform: 'capitalize',
   },
-  historySection: {
+  milestoneSection: {
     paddingHorizontal: spacing.lg,
     marginBottom: spacing.lg,
   },
-  historyTitle: {
-    ...typography.subheading,
-    color: colors.text,
-    marginBottom: spacing.sm,
+  metricSection: {
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
   },
-  loadingContainer: {
+  milestoneHeader: {
     flexDirection: 'row',
+    justifyContent: 'space-between',
     alignItems: 'center',
-    justifyContent: 'center',
-    paddingVertical: spacing.lg,
-    gap: spacing.sm,
   },
-  loadingText: {
+  milestoneProgress: {
     ...typography.caption,
     color: colors.textSecondary,
   },
+  milestoneBar: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: colors.border,
+    overflow: 'hidden',
+  },
+  milestoneBarFill: {
+    height: '100%',
+    backgroundColor: colors.success,
+  },
+  milestoneNext: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  milestoneList: {
+    maxHeight: 160,
+    marginTop: spacing.sm,
+  },
+  milestoneRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: colors.success,
+    borderColor: colors.success,
+  },
+  milestoneTitle: {
+    ...typography.body,
+    color: colors.text,
+    flex: 1,
+  },
+  milestoneCompleted: {
+    color: colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+  milestoneDue: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  historySection: {
+    paddingHorizontal: spacing.lg,
+    marginBottom: spacing.lg,
+  },
+  historyTitle: {
+    ...typography.subheading,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
   latestMemoCard: {
     ...ui.card,
     padding: spacing.md,
   },
   memoHeader: {
     flexDirection: 'row',
-    justifyContent: 'flex-start',
+    justifyContent: 'space-between',
     alignItems: 'center',
     marginBottom: spacing.sm,
   },
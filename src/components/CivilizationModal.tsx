@@ -15,8 +15,19 @@ import {
   Keyboard,
   ActionSheetIOS,
   Alert,
+  ScrollView,
 } from 'react-native';
-import { Civilization, CreateCivilizationRequest, UpdateCivilizationRequest } from '../types';
+import {
+  CivCadence,
+  CivMetricMode,
+  CivMilestone,
+  Civilization,
+  CreateCivilizationRequest,
+  UpdateCivilizationRequest,
+} from '../types';
+import { DEFAULT_REVIVAL_DAYS } from '../lib/civilizationStateMachine';
+import { getTodayDate } from '../lib/calendarDay';
+import { MAX_METRIC_UNIT_LENGTH, METRIC_MODES, parseMetricAmount } from '../lib/metrics';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
@@ -25,6 +36,20 @@ import { animations, createAnimation } from '../theme/animations';
 import { Screen } from '../components/UI/Screen';
 import { Toast, ToastType } from '../components/UI/Toast';
 import { Icon } from '../components/UI/Icon';
+import { MilestoneEditor } from './MilestoneEditor';
+import { strings } from '../i18n/strings';
+
+type CadenceOption = 'default' | CivCadence['type'];
+
+const CADENCE_OPTIONS: { value: CadenceOption; label: string }[] = [
+  { value: 'default', label: '標準' },
+  { value: 'daily', label: '毎日' },
+  { value: 'weekly', label: '毎週' },
+  { value: 'interval', label: 'N日ごと' },
+  { value: 'weekdays', label: '曜日指定' },
+];
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
 
 interface CivilizationModalProps {
   visible: boolean;
@@ -41,12 +66,22 @@ export const CivilizationModal: React.FC<CivilizationModalProps> = ({
   civilization,
   loading = false,
 }) => {
+  const metricStrings = strings.civilization.metric;
   const [name, setName] = useState('');
   const [deadline, setDeadline] = useState('');
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
   const [selectedDay, setSelectedDay] = useState(new Date().getDate());
-  const [dailyTask, setDailyTask] = useState('');
+  const [purpose, setPurpose] = useState('');
+  const [milestones, setMilestones] = useState<CivMilestone[]>([]);
+  const [metricEnabled, setMetricEnabled] = useState(false);
+  const [metricUnit, setMetricUnit] = useState('');
+  const [metricTarget, setMetricTarget] = useState('');
+  const [metricMode, setMetricMode] = useState<CivMetricMode>('cumulative');
+  const [cadenceType, setCadenceType] = useState<CadenceOption>('default');
+  const [intervalDays, setIntervalDays] = useState('3');
+  const [weekdays, setWeekdays] = useState<number[]>([]);
+  const [revivalDays, setRevivalDays] = useState(DEFAULT_REVIVAL_DAYS.toString());
   const [errors, setErrors] = useState<Record<string, string>>({});
   
   // Animation values
@@ -67,7 +102,17 @@ export const CivilizationModal: React.FC<CivilizationModalProps> = ({
     if (visible) {
       setName(civilization?.name || '');
       setDeadline(civilization?.deadline || '');
-      setDailyTask(civilization?.purpose || ''); // Use purpose field for daily task
+      setPurpose(civilization?.purpose || '');
+      setMilestones(civilization?.milestones ?? []);
+      setMetricEnabled(!!civilization?.metric);
+      setMetricUnit(civilization?.metric?.unit ?? '');
+      setMetricTarget(civilization?.metric ? civilization.metric.target.toString() : '');
+      setMetricMode(civilization?.metric?.mode ?? 'cumulative');
+      const cadence = civilization?.cadence;
+      setCadenceType(cadence?.type || 'default');
+      setIntervalDays(cadence?.type === 'interval' ? cadence.days.toString() : '3');
+      setWeekdays(cadence?.type === 'weekdays' ? cadence.weekdays : []);
+      setRevivalDays((civilization?.revivalDays ?? DEFAULT_REVIVAL_DAYS).toString());
       setErrors({});
       
       // Parse deadline and set picker values
@@ -118,19 +163,69 @@ export const CivilizationModal: React.FC<CivilizationModalProps> = ({
       }
       
       // Check if date is in the past
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      if (date < today) {
+      if (deadline < getTodayDate()) {
         newErrors.deadline = '期限は今日以降の日付を選択してください';
       }
     }
 
-    // dailyTask is optional, so no validation needed
+    // purpose and milestones are optional (milestones are validated as they are added)
+
+    if (cadenceType === 'interval') {
+      const days = Number(intervalDays);
+      if (!Number.isInteger(days) || days < 1 || days > 365) {
+        newErrors.cadence = '1〜365の日数を入力してください';
+      }
+    } else if (cadenceType === 'weekdays' && weekdays.length === 0) {
+      newErrors.cadence = '曜日を1つ以上選択してください';
+    }
+
+    if (metricEnabled) {
+      const target = parseMetricAmount(metricTarget);
+      if (target === undefined || target <= 0) {
+        newErrors.metric = strings.civilization.metric.invalidTarget;
+      }
+    }
+
+    const revival = Number(revivalDays);
+    if (!Number.isInteger(revival) || revival < 1 || revival > 30) {
+      newErrors.revivalDays = '1〜30の日数を入力してください';
+    }
 
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
+  const buildCadence = (): CivCadence | undefined => {
+    switch (cadenceType) {
+      case 'daily':
+        return { type: 'daily' };
+      case 'weekly':
+        return { type: 'weekly' };
+      case 'interval':
+        return { type: 'interval', days: Number(intervalDays) };
+      case 'weekdays':
+        return { type: 'weekdays', weekdays: [...weekdays].sort((a, b) => a - b) };
+      default:
+        return undefined;
+    }
+  };
+
+  const selectCadenceType = (type: CadenceOption) => {
+    setCadenceType(type);
+    if (errors.cadence) {
+      setErrors(prev => ({ ...prev, cadence: '' }));
+    }
+  };
+
+  const toggleWeekday = (weekday: number) => {
+    setWeekdays(prev =>
+      prev.includes(weekday) ? prev.filter(day => day !== weekday) : [...prev, weekday]
+    );
+    if (errors.cadence) {
+      setErrors(prev => ({ ...prev, cadence: '' }));
+    }
+  };
+
   const handleSubmit = async () => {
     if (!validateForm()) {
       return;
@@ -140,8 +235,14 @@ export const CivilizationModal: React.FC<CivilizationModalProps> = ({
       const data = {
         name: name.trim(),
         deadline,
-        purpose: dailyTask.trim(), // Store daily task in purpose field
+        purpose: purpose.trim(),
+        milestones,
+        metric: metricEnabled
+          ? { unit: metricUnit.trim(), target: parseMetricAmount(metricTarget), mode: metricMode }
+          : undefined,
         state: civilization?.state || 'uninitialized',
+        cadence: buildCadence(),
+        revivalDays: Number(revivalDays),
       } as CreateCivilizationRequest | UpdateCivilizationRequest;
 
       await onSubmit(data);
@@ -354,7 +455,7 @@ export const CivilizationModal: React.FC<CivilizationModalProps> = ({
                   </TouchableOpacity>
                 </View>
 
-                <View style={styles.form}>
+                <ScrollView style={styles.form} keyboardShouldPersistTaps="handled">
                   <View style={styles.inputGroup}>
                     <Text style={styles.label}>タイトル *</Text>
                     <TextInput
@@ -420,19 +521,181 @@ export const CivilizationModal: React.FC<CivilizationModalProps> = ({
                   </View>
 
                   <View style={styles.inputGroup}>
-                    <Text style={styles.label}>日々の小さな一歩</Text>
+                    <Text style={styles.label}>進捗のペース</Text>
+                    <View style={styles.chipRow}>
+                      {CADENCE_OPTIONS.map(option => (
+                        <TouchableOpacity
+                          key={option.value}
+                          style={[styles.chip, cadenceType === option.value && styles.chipSelected]}
+                          onPress={() => selectCadenceType(option.value)}
+                          disabled={loading}
+                        >
+                          <Text
+                            style={[
+                              styles.chipText,
+                              cadenceType === option.value && styles.chipTextSelected,
+                            ]}
+                          >
+                            {option.label}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    {cadenceType === 'interval' && (
+                      <View style={styles.intervalRow}>
+                        <TextInput
+                          style={[styles.input, styles.intervalInput, errors.cadence && styles.inputError]}
+                          value={intervalDays}
+                          onChangeText={setIntervalDays}
+                          keyboardType="number-pad"
+                          maxLength={3}
+                          editable={!loading}
+                        />
+                        <Text style={styles.cadenceHint}>日ごと</Text>
+                      </View>
+                    )}
+                    {cadenceType === 'weekdays' && (
+                      <View style={[styles.chipRow, styles.weekdayRow]}>
+                        {WEEKDAY_LABELS.map((label, weekday) => (
+                          <TouchableOpacity
+                            key={label}
+                            style={[styles.chip, weekdays.includes(weekday) && styles.chipSelected]}
+                            onPress={() => toggleWeekday(weekday)}
+                            disabled={loading}
+                          >
+                            <Text
+                              style={[
+                                styles.chipText,
+                                weekdays.includes(weekday) && styles.chipTextSelected,
+                              ]}
+                            >
+                              {label}
+                            </Text>
+                          </TouchableOpacity>
+                        ))}
+                      </View>
+                    )}
+                    <Text style={styles.cadenceHint}>
+                      {cadenceType === 'default'
+                        ? '7日間進捗がないと衰退、21日間で海に沈みます'
+                        : '予定を2回逃すと衰退、6回逃すと海に沈みます'}
+                    </Text>
+                    {errors.cadence && <Text style={styles.errorText}>{errors.cadence}</Text>}
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>海からの復活</Text>
+                    <View style={styles.intervalRow}>
+                      <TextInput
+                        style={[
+                          styles.input,
+                          styles.intervalInput,
+                          errors.revivalDays && styles.inputError,
+                        ]}
+                        value={revivalDays}
+                        onChangeText={setRevivalDays}
+                        keyboardType="number-pad"
+                        maxLength={2}
+                        editable={!loading}
+                      />
+                      <Text style={[styles.cadenceHint, styles.rowHint]}>
+                        日連続で進捗を記録すると発展中に戻ります
+                      </Text>
+                    </View>
+                    {errors.revivalDays && (
+                      <Text style={styles.errorText}>{errors.revivalDays}</Text>
+                    )}
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>目的</Text>
                     <TextInput
                       style={styles.input}
-                      value={dailyTask}
-                      onChangeText={setDailyTask}
-                      placeholder="毎日できる小さな行動を入力"
+                      value={purpose}
+                      onChangeText={setPurpose}
+                      placeholder="この挑戦に取り組む理由を入力"
                       placeholderTextColor={colors.placeholder}
                       multiline
                       numberOfLines={3}
                       editable={!loading}
                     />
                   </View>
-                </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>マイルストーン</Text>
+                    <MilestoneEditor
+                      milestones={milestones}
+                      onChange={setMilestones}
+                      disabled={loading}
+                    />
+                  </View>
+
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{metricStrings.title}</Text>
+                    <TouchableOpacity
+                      style={styles.toggleRow}
+                      onPress={() => setMetricEnabled(prev => !prev)}
+                      disabled={loading}
+                    >
+                      <View style={[styles.checkbox, metricEnabled && styles.checkboxChecked]}>
+                        {metricEnabled && <Icon name="success" size="xs" color="#FFFFFF" />}
+                      </View>
+                      <Text style={styles.toggleText}>{metricStrings.enable}</Text>
+                    </TouchableOpacity>
+                    {metricEnabled && (
+                      <>
+                        <Text style={styles.cadenceHint}>{metricStrings.description}</Text>
+                        <View style={styles.intervalRow}>
+                          <TextInput
+                            style={[
+                              styles.input,
+                              styles.metricInput,
+                              errors.metric && styles.inputError,
+                            ]}
+                            value={metricTarget}
+                            onChangeText={setMetricTarget}
+                            placeholder={metricStrings.targetPlaceholder}
+                            placeholderTextColor={colors.placeholder}
+                            keyboardType="decimal-pad"
+                            editable={!loading}
+                          />
+                          <TextInput
+                            style={[styles.input, styles.metricInput]}
+                            value={metricUnit}
+                            onChangeText={setMetricUnit}
+                            placeholder={metricStrings.unitPlaceholder}
+                            placeholderTextColor={colors.placeholder}
+                            maxLength={MAX_METRIC_UNIT_LENGTH}
+                            editable={!loading}
+                          />
+                        </View>
+                        <View style={[styles.chipRow, styles.weekdayRow]}>
+                          {METRIC_MODES.map(mode => (
+                            <TouchableOpacity
+                              key={mode}
+                              style={[styles.chip, metricMode === mode && styles.chipSelected]}
+                              onPress={() => setMetricMode(mode)}
+                              disabled={loading}
+                            >
+                              <Text
+                                style={[
+                                  styles.chipText,
+                                  metricMode === mode && styles.chipTextSelected,
+                                ]}
+                              >
+                                {metricStrings.modes[mode]}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                        </View>
+                        <Text style={styles.cadenceHint}>
+                          {metricStrings.modeDescriptions[metricMode]}
+                        </Text>
+                        {errors.metric && <Text style={styles.errorText}>{errors.metric}</Text>}
+                      </>
+                    )}
+                  </View>
+                </ScrollView>
 
                 <View style={styles.buttonContainer}>
                   <TouchableOpacity
@@ -618,6 +881,75 @@ const styles = StyleSheet.create({
     marginLeft: 0,
     marginTop: 0,
   },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  weekdayRow: {
+    marginTop: spacing.sm,
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  intervalInput: {
+    width: 80,
+    textAlign: 'center',
+  },
+  cadenceHint: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  rowHint: {
+    flex: 1,
+  },
+  metricInput: {
+    flex: 1,
+  },
+  toggleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  toggleText: {
+    ...typography.body,
+    color: colors.text,
+  },
   buttonContainer: {
     padding: spacing.md,
     paddingTop: spacing.md,
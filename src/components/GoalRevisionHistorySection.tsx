@@ -0,0 +1,153 @@
+// Planet settings section listing past visions, each of which can be restored
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { PlanetGoal, PlanetGoalRevision } from '../types';
+import { isCurrentVision } from '../lib/goalRevisions';
+import { formatDate, formatRelativeTime } from '../lib/dateUtils';
+import { toCalendarDate } from '../lib/calendarDay';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+import { Icon } from './UI/Icon';
+
+interface GoalRevisionHistorySectionProps {
+  revisions: PlanetGoalRevision[]; // newest first
+  planetGoal: PlanetGoal | null;
+  onRestore: (revision: PlanetGoalRevision) => void;
+  disabled?: boolean;
+}
+
+export const GoalRevisionHistorySection: React.FC<GoalRevisionHistorySectionProps> = ({
+  revisions,
+  planetGoal,
+  onRestore,
+  disabled = false,
+}) => {
+  const revisionStrings = strings.screens.planetSettings.revisions;
+
+  // The latest revision holding the current vision is marked instead of offering a restore
+  const currentRevisionId = revisions.find(revision => isCurrentVision(planetGoal, revision))?.id;
+
+  const getRestoredDate = (revision: PlanetGoalRevision): string | undefined => {
+    const restored = revisions.find(r => r.id === revision.restoredFrom);
+    return restored && formatDate(toCalendarDate(restored.timestamp));
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.title}>{revisionStrings.title}</Text>
+      <Text style={styles.description}>{revisionStrings.description}</Text>
+
+      {revisions.length === 0 ? (
+        <Text style={styles.emptyText}>{revisionStrings.empty}</Text>
+      ) : (
+        revisions.map(revision => {
+          const isCurrent = revision.id === currentRevisionId;
+          const restoredDate = getRestoredDate(revision);
+          return (
+            <View key={revision.id} style={[styles.row, isCurrent && styles.rowCurrent]}>
+              <View style={styles.rowContent}>
+                <Text style={styles.visionText}>{revision.title}</Text>
+                <Text style={styles.metaText}>
+                  {revisionStrings.deadline(formatDate(revision.deadline))}・
+                  {formatRelativeTime(revision.timestamp)}
+                </Text>
+                {revision.reason && <Text style={styles.reasonText}>{revision.reason}</Text>}
+                {restoredDate && (
+                  <Text style={styles.metaText}>{revisionStrings.restoredFrom(restoredDate)}</Text>
+                )}
+              </View>
+              {isCurrent ? (
+                <Text style={styles.currentText}>{revisionStrings.current}</Text>
+              ) : (
+                <TouchableOpacity
+                  style={styles.restoreButton}
+                  onPress={() => onRestore(revision)}
+                  disabled={disabled}
+                >
+                  <Icon name="history" size="xs" color={colors.primary} />
+                  <Text style={styles.restoreButtonText}>{revisionStrings.restore}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          );
+        })
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: spacing.xl,
+    paddingTop: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+  title: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  emptyText: {
+    ...typography.small,
+    color: colors.textTertiary,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.sm,
+    marginBottom: spacing.xs,
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  rowCurrent: {
+    borderColor: colors.primary,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  visionText: {
+    ...typography.body,
+    color: colors.text,
+  },
+  metaText: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+  },
+  reasonText: {
+    ...typography.small,
+    color: colors.text,
+    marginTop: spacing.xs / 2,
+  },
+  currentText: {
+    ...typography.small,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  restoreButton: {
+    ...ui.button.outline,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  restoreButtonText: {
+    ...typography.small,
+    color: colors.primary,
+  },
+});
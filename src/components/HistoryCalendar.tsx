@@ -0,0 +1,199 @@
+// Month calendar of progress history - days coloured by the civilizations that progressed,
+// swipe or use the arrows to change months
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { PanGestureHandler, State } from 'react-native-gesture-handler';
+import {
+  DayActivity,
+  MAX_DAY_COLORS,
+  getMonthGrid,
+  shiftCalendarMonth,
+} from '../lib/historyCalendar';
+import { getTodayDate } from '../lib/calendarDay';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+
+interface HistoryCalendarProps {
+  month: string; // YYYY-MM
+  activity: Map<string, DayActivity>;
+  selectedDate?: string;
+  onChangeMonth: (month: string) => void;
+  onSelectDate: (date: string) => void;
+}
+
+// Horizontal distance a swipe needs to change the month
+const SWIPE_THRESHOLD = 50;
+
+export const HistoryCalendar: React.FC<HistoryCalendarProps> = ({
+  month,
+  activity,
+  selectedDate,
+  onChangeMonth,
+  onSelectDate,
+}) => {
+  const calendarStrings = strings.screens.history.calendar;
+  const today = getTodayDate();
+  const [year, monthNumber] = month.split('-').map(Number);
+
+  const handleSwipe = (event: any) => {
+    const { translationX, state } = event.nativeEvent;
+    if (state !== State.END || Math.abs(translationX) < SWIPE_THRESHOLD) return;
+
+    // Swiping left shows the next month, like turning a page
+    onChangeMonth(shiftCalendarMonth(month, translationX < 0 ? 1 : -1));
+  };
+
+  return (
+    <PanGestureHandler onHandlerStateChange={handleSwipe} activeOffsetX={[-20, 20]}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity
+            style={styles.navButton}
+            onPress={() => onChangeMonth(shiftCalendarMonth(month, -1))}
+          >
+            <Text style={styles.navText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>{calendarStrings.month(year, monthNumber)}</Text>
+          <TouchableOpacity
+            style={styles.navButton}
+            onPress={() => onChangeMonth(shiftCalendarMonth(month, 1))}
+          >
+            <Text style={styles.navText}>›</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.week}>
+          {calendarStrings.weekdays.map(weekday => (
+            <Text key={weekday} style={styles.weekday}>
+              {weekday}
+            </Text>
+          ))}
+        </View>
+
+        {getMonthGrid(month).map(week => (
+          <View key={week[0].date} style={styles.week}>
+            {week.map(day => {
+              const dayActivity = activity.get(day.date);
+              const isSelected = day.date === selectedDate;
+              const isFuture = day.date > today;
+              return (
+                <TouchableOpacity
+                  key={day.date}
+                  style={[
+                    styles.day,
+                    !!dayActivity && styles.activeDay,
+                    isSelected && styles.selectedDay,
+                  ]}
+                  onPress={() => onSelectDate(day.date)}
+                  disabled={isFuture}
+                >
+                  <Text
+                    style={[
+                      styles.dayNumber,
+                      !day.inMonth && styles.otherMonthText,
+                      isFuture && styles.futureText,
+                      day.date === today && styles.todayText,
+                    ]}
+                  >
+                    {Number(day.date.slice(8))}
+                  </Text>
+                  <View style={styles.dots}>
+                    {dayActivity?.levels.slice(0, MAX_DAY_COLORS).map((level, index) => (
+                      <View key={index} style={[styles.dot, { backgroundColor: colors[level] }]} />
+                    ))}
+                    {dayActivity && dayActivity.levels.length > MAX_DAY_COLORS && (
+                      <Text style={styles.more}>+{dayActivity.levels.length - MAX_DAY_COLORS}</Text>
+                    )}
+                  </View>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        ))}
+      </View>
+    </PanGestureHandler>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    ...ui.card,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  navButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+  },
+  navText: {
+    ...typography.heading,
+    color: colors.primary,
+  },
+  monthTitle: {
+    ...typography.subheading,
+    color: colors.text,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    ...typography.small,
+    flex: 1,
+    textAlign: 'center',
+    color: colors.textTertiary,
+    marginBottom: spacing.xs,
+  },
+  day: {
+    flex: 1,
+    aspectRatio: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  activeDay: {
+    backgroundColor: colors.surfaceSecondary,
+  },
+  selectedDay: {
+    borderColor: colors.primary,
+  },
+  dayNumber: {
+    ...typography.caption,
+    color: colors.text,
+  },
+  otherMonthText: {
+    color: colors.textTertiary,
+  },
+  futureText: {
+    color: colors.disabled,
+  },
+  todayText: {
+    color: colors.primary,
+    fontWeight: '700',
+  },
+  dots: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    height: 8,
+    marginTop: 2,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  more: {
+    fontSize: 8,
+    color: colors.textSecondary,
+  },
+});
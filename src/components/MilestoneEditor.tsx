@@ -0,0 +1,257 @@
+// Milestone checklist editor for the civilization modal (add, reorder, weigh and remove)
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { CivMilestone } from '../types';
+import {
+  MAX_MILESTONE_TITLE_LENGTH,
+  MILESTONE_WEIGHTS,
+  createMilestone,
+  isMilestoneCompleted,
+  moveMilestone,
+  toggleMilestone,
+} from '../lib/milestones';
+import { formatDate } from '../lib/dateUtils';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+import { Icon } from './UI/Icon';
+
+interface MilestoneEditorProps {
+  milestones: CivMilestone[];
+  onChange: (milestones: CivMilestone[]) => void;
+  disabled?: boolean;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Tapping the weight cycles through the available weights
+const getNextWeight = (weight: number): number => {
+  const index = MILESTONE_WEIGHTS.indexOf(weight);
+  return MILESTONE_WEIGHTS[(index + 1) % MILESTONE_WEIGHTS.length];
+};
+
+export const MilestoneEditor: React.FC<MilestoneEditorProps> = ({
+  milestones,
+  onChange,
+  disabled = false,
+}) => {
+  const milestoneStrings = strings.civilization.milestones;
+  const [title, setTitle] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [error, setError] = useState('');
+
+  const handleAdd = () => {
+    if (!title.trim()) {
+      setError(milestoneStrings.invalidTitle);
+      return;
+    }
+    if (dueDate && !ISO_DATE_PATTERN.test(dueDate)) {
+      setError(milestoneStrings.invalidDueDate);
+      return;
+    }
+
+    onChange([...milestones, createMilestone(title, { dueDate: dueDate || undefined })]);
+    setTitle('');
+    setDueDate('');
+    setError('');
+  };
+
+  const updateWeight = (milestone: CivMilestone) => {
+    onChange(
+      milestones.map(item =>
+        item.id === milestone.id ? { ...item, weight: getNextWeight(item.weight) } : item
+      )
+    );
+  };
+
+  return (
+    <View>
+      <Text style={styles.description}>{milestoneStrings.description}</Text>
+
+      {milestones.map((milestone, index) => {
+        const completed = isMilestoneCompleted(milestone);
+        return (
+          <View key={milestone.id} style={styles.row}>
+            <TouchableOpacity
+              style={[styles.checkbox, completed && styles.checkboxChecked]}
+              onPress={() => onChange(toggleMilestone(milestones, milestone.id))}
+              disabled={disabled}
+            >
+              {completed && <Icon name="success" size="xs" color="#FFFFFF" />}
+            </TouchableOpacity>
+            <View style={styles.rowBody}>
+              <Text style={[styles.rowTitle, completed && styles.rowTitleCompleted]}>
+                {milestone.title}
+              </Text>
+              {milestone.dueDate && (
+                <Text style={styles.rowDetail}>
+                  {milestoneStrings.due(formatDate(milestone.dueDate))}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity
+              style={styles.weightChip}
+              onPress={() => updateWeight(milestone)}
+              disabled={disabled}
+            >
+              <Text style={styles.weightText}>{milestoneStrings.weight(milestone.weight)}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() => onChange(moveMilestone(milestones, milestone.id, -1))}
+              disabled={disabled || index === 0}
+            >
+              <Text style={[styles.arrow, index === 0 && styles.arrowDisabled]}>▲</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() => onChange(moveMilestone(milestones, milestone.id, 1))}
+              disabled={disabled || index === milestones.length - 1}
+            >
+              <Text style={[styles.arrow, index === milestones.length - 1 && styles.arrowDisabled]}>
+                ▼
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.rowButton}
+              onPress={() => onChange(milestones.filter(item => item.id !== milestone.id))}
+              disabled={disabled}
+            >
+              <Icon name="close" size="xs" color={colors.textTertiary} />
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      <View style={styles.addRow}>
+        <TextInput
+          style={[styles.input, styles.titleInput]}
+          value={title}
+          onChangeText={setTitle}
+          placeholder={milestoneStrings.titlePlaceholder}
+          placeholderTextColor={colors.placeholder}
+          maxLength={MAX_MILESTONE_TITLE_LENGTH}
+          editable={!disabled}
+        />
+        <TouchableOpacity style={styles.addButton} onPress={handleAdd} disabled={disabled}>
+          <Icon name="add" size="xs" color="#FFFFFF" />
+          <Text style={styles.addButtonText}>{milestoneStrings.add}</Text>
+        </TouchableOpacity>
+      </View>
+      <TextInput
+        style={[styles.input, styles.dueDateInput]}
+        value={dueDate}
+        onChangeText={setDueDate}
+        placeholder={milestoneStrings.dueDatePlaceholder}
+        placeholderTextColor={colors.placeholder}
+        maxLength={10}
+        editable={!disabled}
+      />
+      {!!error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  description: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 1,
+    borderColor: colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxChecked: {
+    backgroundColor: colors.success,
+    borderColor: colors.success,
+  },
+  rowBody: {
+    flex: 1,
+  },
+  rowTitle: {
+    ...typography.body,
+    color: colors.text,
+  },
+  rowTitleCompleted: {
+    color: colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+  rowDetail: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  weightChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs / 2,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  weightText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  rowButton: {
+    padding: spacing.xs,
+  },
+  arrow: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  arrowDisabled: {
+    color: colors.disabled,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  input: {
+    ...ui.input,
+    ...typography.body,
+    color: colors.text,
+    minHeight: 44,
+    paddingVertical: spacing.sm,
+  },
+  titleInput: {
+    flex: 1,
+  },
+  dueDateInput: {
+    marginTop: spacing.sm,
+  },
+  addButton: {
+    ...ui.button.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  addButtonText: {
+    ...typography.button,
+    color: '#FFFFFF',
+  },
+  errorText: {
+    color: colors.error,
+    ...typography.small,
+    marginTop: spacing.xs / 2,
+  },
+});
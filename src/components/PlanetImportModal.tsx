@@ -0,0 +1,328 @@
+// Modal for importing a planet backup (paste JSON → validate → merge or replace)
+
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { Civilization } from '../types';
+import {
+  PlanetBackup,
+  PlanetImportConflict,
+  PlanetImportMode,
+  parsePlanetBackup,
+  findPlanetImportConflicts,
+} from '../lib/planetBackup';
+import { formatDate } from '../lib/dateUtils';
+import { toCalendarDate } from '../lib/calendarDay';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { Icon } from './UI/Icon';
+import { strings } from '../i18n/strings';
+
+interface PlanetImportModalProps {
+  visible: boolean;
+  civilizations: Civilization[];
+  onClose: () => void;
+  onImport: (backup: PlanetBackup, mode: PlanetImportMode) => Promise<void>;
+  loading?: boolean;
+}
+
+// Show at most this many validation errors
+const MAX_VISIBLE_ERRORS = 5;
+
+export const PlanetImportModal: React.FC<PlanetImportModalProps> = ({
+  visible,
+  civilizations,
+  onClose,
+  onImport,
+  loading = false,
+}) => {
+  const backupStrings = strings.screens.planetSettings.backup;
+  const [json, setJson] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [backup, setBackup] = useState<PlanetBackup | null>(null);
+  const [conflicts, setConflicts] = useState<PlanetImportConflict[]>([]);
+
+  // Reset when the modal opens
+  useEffect(() => {
+    if (visible) {
+      setJson('');
+      setErrors([]);
+      setBackup(null);
+      setConflicts([]);
+    }
+  }, [visible]);
+
+  const handleChangeText = (text: string) => {
+    setJson(text);
+    // Any edit invalidates the previous validation result
+    setBackup(null);
+    setErrors([]);
+  };
+
+  const handleValidate = () => {
+    const result = parsePlanetBackup(json.trim());
+    if (!result.ok) {
+      setBackup(null);
+      setConflicts([]);
+      setErrors(result.errors);
+      return;
+    }
+
+    setErrors([]);
+    setBackup(result.backup);
+    setConflicts(findPlanetImportConflicts(civilizations, result.backup));
+  };
+
+  const handleImport = (mode: PlanetImportMode) => {
+    if (!backup) return;
+
+    if (mode === 'replace') {
+      Alert.alert(backupStrings.replaceConfirmTitle, backupStrings.replaceConfirmMessage, [
+        { text: strings.actions.cancel, style: 'cancel' },
+        {
+          text: backupStrings.replace,
+          style: 'destructive',
+          onPress: () => onImport(backup, mode),
+        },
+      ]);
+      return;
+    }
+
+    onImport(backup, mode);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <KeyboardAvoidingView
+          style={styles.container}
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        >
+          <View style={styles.modalContent}>
+            <View style={styles.header}>
+              <Text style={styles.title}>{backupStrings.importTitle}</Text>
+              <TouchableOpacity onPress={onClose} style={styles.closeButton} disabled={loading}>
+                <Icon name="close" size="sm" color={colors.primary} />
+              </TouchableOpacity>
+            </View>
+
+            <ScrollView style={styles.body} keyboardShouldPersistTaps="handled">
+              <Text style={styles.helperText}>{backupStrings.importHelp}</Text>
+              <TextInput
+                style={[styles.input, errors.length > 0 && styles.inputError]}
+                value={json}
+                onChangeText={handleChangeText}
+                placeholder={backupStrings.importPlaceholder}
+                placeholderTextColor={colors.placeholder}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                editable={!loading}
+              />
+
+              {errors.length > 0 && (
+                <View style={styles.resultCard}>
+                  <Text style={styles.errorTitle}>{backupStrings.invalid}</Text>
+                  {errors.slice(0, MAX_VISIBLE_ERRORS).map(error => (
+                    <Text key={error} style={styles.errorText}>
+                      ・{error}
+                    </Text>
+                  ))}
+                  {errors.length > MAX_VISIBLE_ERRORS && (
+                    <Text style={styles.errorText}>
+                      {backupStrings.moreErrors(errors.length - MAX_VISIBLE_ERRORS)}
+                    </Text>
+                  )}
+                </View>
+              )}
+
+              {backup && (
+                <View style={styles.resultCard}>
+                  <Text style={styles.summaryText}>
+                    {backupStrings.summary(
+                      formatDate(toCalendarDate(backup.exportedAt)),
+                      backup.civilizations.length,
+                      backup.progressEvents.length
+                    )}
+                  </Text>
+                  {backup.planetGoal && (
+                    <Text style={styles.summaryText}>
+                      {strings.screens.planetSettings.fields.vision}: {backup.planetGoal.title}
+                    </Text>
+                  )}
+                  {conflicts.length > 0 ? (
+                    <>
+                      <Text style={styles.conflictTitle}>
+                        {backupStrings.conflicts(conflicts.length)}
+                      </Text>
+                      {conflicts.map(conflict => (
+                        <Text key={conflict.civId} style={styles.conflictText}>
+                          ・{conflict.localName} ← {conflict.importedName} ({conflict.civId})
+                        </Text>
+                      ))}
+                    </>
+                  ) : (
+                    <Text style={styles.summaryText}>{backupStrings.noConflicts}</Text>
+                  )}
+                </View>
+              )}
+            </ScrollView>
+
+            <View style={styles.footer}>
+              {loading ? (
+                <ActivityIndicator size="small" color={colors.primary} />
+              ) : backup ? (
+                <>
+                  <TouchableOpacity
+                    style={styles.secondaryButton}
+                    onPress={() => handleImport('replace')}
+                  >
+                    <Text style={styles.secondaryButtonText}>{backupStrings.replace}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.primaryButton}
+                    onPress={() => handleImport('merge')}
+                  >
+                    <Text style={styles.primaryButtonText}>{backupStrings.merge}</Text>
+                  </TouchableOpacity>
+                </>
+              ) : (
+                <TouchableOpacity
+                  style={[styles.primaryButton, !json.trim() && styles.buttonDisabled]}
+                  onPress={handleValidate}
+                  disabled={!json.trim()}
+                >
+                  <Text style={styles.primaryButtonText}>{backupStrings.validate}</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: spacing.lg,
+  },
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    width: '100%',
+  },
+  modalContent: {
+    ...ui.modal,
+    backgroundColor: colors.surface,
+    maxHeight: '90%',
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  title: {
+    ...typography.subheading,
+    color: colors.text,
+  },
+  closeButton: {
+    padding: spacing.sm,
+  },
+  body: {
+    padding: spacing.md,
+  },
+  helperText: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
+  input: {
+    ...ui.input,
+    ...typography.small,
+    color: colors.text,
+    minHeight: 160,
+    textAlignVertical: 'top',
+  },
+  inputError: {
+    ...ui.inputError,
+    borderColor: colors.error,
+  },
+  resultCard: {
+    ...ui.card,
+    padding: spacing.md,
+    marginTop: spacing.md,
+    gap: spacing.xs,
+  },
+  errorTitle: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.error,
+  },
+  errorText: {
+    ...typography.small,
+    color: colors.error,
+  },
+  summaryText: {
+    ...typography.small,
+    color: colors.text,
+  },
+  conflictTitle: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.warning,
+    marginTop: spacing.xs,
+  },
+  conflictText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.md,
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+  primaryButton: {
+    ...ui.button.primary,
+  },
+  primaryButtonText: {
+    ...typography.button,
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    ...ui.button.outline,
+    borderColor: colors.error,
+  },
+  secondaryButtonText: {
+    ...typography.button,
+    color: colors.error,
+  },
+  buttonDisabled: {
+    backgroundColor: colors.disabled,
+    borderColor: colors.disabled,
+  },
+});
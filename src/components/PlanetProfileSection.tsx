@@ -0,0 +1,160 @@
+// Planet settings section for the active planet's name and 3D appearance
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Planet, PlanetAppearance } from '../types';
+import {
+  PLANET_APPEARANCES,
+  getPlanetAppearance,
+  getPlanetName,
+  getPlanetSwatchColor,
+} from '../lib/planets';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+
+interface PlanetProfileSectionProps {
+  planet: Planet;
+  onChange: (patch: Partial<Pick<Planet, 'name' | 'appearance'>>) => Promise<void>;
+  onMessage: (message: string, type: 'success' | 'error') => void;
+}
+
+export const PlanetProfileSection: React.FC<PlanetProfileSectionProps> = ({
+  planet,
+  onChange,
+  onMessage,
+}) => {
+  const planetStrings = strings.planets;
+  const appearance = getPlanetAppearance(planet);
+  const [name, setName] = useState(planet.name);
+
+  useEffect(() => {
+    setName(planet.name);
+  }, [planet.name]);
+
+  const save = async (patch: Partial<Pick<Planet, 'name' | 'appearance'>>) => {
+    try {
+      await onChange(patch);
+      onMessage(planetStrings.saved, 'success');
+    } catch (error) {
+      console.error('Failed to save planet:', error);
+      onMessage(planetStrings.saveFailed, 'error');
+    }
+  };
+
+  // Names are saved when editing ends; the default planet may stay unnamed
+  const handleNameBlur = () => {
+    if (name.trim() !== planet.name) {
+      save({ name: name.trim() });
+    }
+  };
+
+  const handleAppearancePress = (selected: PlanetAppearance) => {
+    if (selected !== appearance) {
+      save({ appearance: selected });
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.title}>{planetStrings.title}</Text>
+      <Text style={styles.description}>{planetStrings.description}</Text>
+
+      <Text style={styles.label}>{planetStrings.name}</Text>
+      <TextInput
+        style={styles.input}
+        value={name}
+        onChangeText={setName}
+        onBlur={handleNameBlur}
+        placeholder={getPlanetName({ ...planet, name: '' })}
+        placeholderTextColor={colors.placeholder}
+        maxLength={20}
+        returnKeyType="done"
+      />
+
+      <Text style={styles.label}>{planetStrings.appearance}</Text>
+      <View style={styles.chipRow}>
+        {PLANET_APPEARANCES.map(option => {
+          const selected = option === appearance;
+          return (
+            <TouchableOpacity
+              key={option}
+              style={[styles.chip, selected && styles.chipSelected]}
+              onPress={() => handleAppearancePress(option)}
+            >
+              <View style={[styles.swatch, { backgroundColor: getPlanetSwatchColor(option) }]} />
+              <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                {planetStrings.appearances[option]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: spacing.xl,
+    paddingTop: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+  title: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  label: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  input: {
+    ...ui.input,
+    ...typography.body,
+    color: colors.text,
+    marginBottom: spacing.md,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  chipText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: colors.text,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,196 @@
+// Planet switcher for Home - one chip per planet and an inline form to add another
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { Planet } from '../types';
+import { getPlanetAppearance, getPlanetName, getPlanetSwatchColor } from '../lib/planets';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+import { Icon } from './UI/Icon';
+
+interface PlanetSwitcherProps {
+  planets: Planet[];
+  activePlanetId: string;
+  onSwitch: (planetId: string) => void;
+  onAdd: (name: string) => Promise<void>; // rejects to keep the form open
+  disabled?: boolean; // e.g. while a planet is loading
+}
+
+export const PlanetSwitcher: React.FC<PlanetSwitcherProps> = ({
+  planets,
+  activePlanetId,
+  onSwitch,
+  onAdd,
+  disabled = false,
+}) => {
+  const planetStrings = strings.planets;
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const closeForm = () => {
+    setAdding(false);
+    setName('');
+  };
+
+  const handleAdd = async () => {
+    if (!name.trim()) {
+      return;
+    }
+    setSaving(true);
+    try {
+      await onAdd(name.trim());
+      closeForm();
+    } catch {
+      // The caller reports the failure; the form stays open to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.chipRow}
+      >
+        {planets.map(planet => {
+          const active = planet.id === activePlanetId;
+          return (
+            <TouchableOpacity
+              key={planet.id}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onSwitch(planet.id)}
+              disabled={disabled || active}
+            >
+              <View
+                style={[
+                  styles.swatch,
+                  { backgroundColor: getPlanetSwatchColor(getPlanetAppearance(planet)) },
+                ]}
+              />
+              <Text style={[styles.chipText, active && styles.chipTextActive]} numberOfLines={1}>
+                {getPlanetName(planet)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <TouchableOpacity
+          style={styles.chip}
+          onPress={() => (adding ? closeForm() : setAdding(true))}
+          disabled={disabled}
+          accessibilityLabel={planetStrings.add}
+        >
+          <Icon name={adding ? 'close' : 'add'} size="xs" color={colors.textSecondary} />
+        </TouchableOpacity>
+      </ScrollView>
+
+      {adding && (
+        <View style={styles.addRow}>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            placeholder={planetStrings.namePlaceholder}
+            placeholderTextColor={colors.placeholder}
+            maxLength={20}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleAdd}
+            editable={!saving}
+          />
+          <TouchableOpacity
+            style={[styles.createButton, !name.trim() && styles.createButtonDisabled]}
+            onPress={handleAdd}
+            disabled={saving || !name.trim()}
+          >
+            {saving ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Text style={styles.createButtonText}>{planetStrings.create}</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    maxWidth: 160,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipActive: {
+    borderColor: colors.primary,
+    backgroundColor: colors.surface,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  chipText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  chipTextActive: {
+    color: colors.text,
+    fontWeight: '600',
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  input: {
+    ...ui.input,
+    ...typography.body,
+    flex: 1,
+    color: colors.text,
+    paddingVertical: spacing.xs,
+  },
+  createButton: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderRadius: spacing.sm,
+    backgroundColor: colors.primary,
+  },
+  createButtonDisabled: {
+    opacity: 0.5,
+  },
+  createButtonText: {
+    ...typography.small,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+});
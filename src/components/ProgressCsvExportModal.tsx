@@ -0,0 +1,286 @@
+// Modal for exporting progress history as CSV with date-range and civilization filters
+
+import React, { useState, useEffect } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+  Share,
+  ActivityIndicator,
+} from 'react-native';
+import { Civilization, ProgressEvent } from '../types';
+import { buildProgressCsv, filterProgressEvents, ProgressCsvFilter } from '../lib/progressCsv';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { Icon } from './UI/Icon';
+import { strings } from '../i18n/strings';
+
+interface ProgressCsvExportModalProps {
+  visible: boolean;
+  civilizations: Civilization[];
+  progressEvents: ProgressEvent[];
+  initialCivilizationId?: string;
+  onClose: () => void;
+  onExported: (rowCount: number) => void;
+  onError: () => void;
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const ProgressCsvExportModal: React.FC<ProgressCsvExportModalProps> = ({
+  visible,
+  civilizations,
+  progressEvents,
+  initialCivilizationId,
+  onClose,
+  onExported,
+  onError,
+}) => {
+  const csvStrings = strings.screens.history.csvExport;
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [civId, setCivId] = useState<string | undefined>();
+  const [exporting, setExporting] = useState(false);
+
+  // Start from the civilization History was opened with
+  useEffect(() => {
+    if (visible) {
+      setFrom('');
+      setTo('');
+      setCivId(initialCivilizationId);
+    }
+  }, [visible, initialCivilizationId]);
+
+  const fromError = from !== '' && !ISO_DATE_PATTERN.test(from);
+  const toError = to !== '' && !ISO_DATE_PATTERN.test(to);
+  const rangeError = !fromError && !toError && from !== '' && to !== '' && from > to;
+  const hasErrors = fromError || toError || rangeError;
+
+  const filter: ProgressCsvFilter = {
+    from: from || undefined,
+    to: to || undefined,
+    civId,
+  };
+  const matchingCount = hasErrors ? 0 : filterProgressEvents(progressEvents, filter).length;
+
+  const handleExport = async () => {
+    if (hasErrors) return;
+
+    setExporting(true);
+    try {
+      const csv = buildProgressCsv(progressEvents, civilizations, filter);
+      const result = await Share.share({ title: csvStrings.title, message: csv });
+      if (result.action === Share.sharedAction) {
+        onExported(matchingCount);
+      }
+    } catch (error) {
+      console.error('Failed to export progress CSV:', error);
+      onError();
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" transparent onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.modalContent}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{csvStrings.title}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Icon name="close" size="sm" color={colors.primary} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.body}>
+            <Text style={styles.label}>{csvStrings.dateRange}</Text>
+            <View style={styles.dateRow}>
+              <TextInput
+                style={[styles.input, (fromError || rangeError) && styles.inputError]}
+                value={from}
+                onChangeText={setFrom}
+                placeholder={csvStrings.fromPlaceholder}
+                placeholderTextColor={colors.placeholder}
+                autoCapitalize="none"
+                maxLength={10}
+              />
+              <Text style={styles.dateSeparator}>〜</Text>
+              <TextInput
+                style={[styles.input, (toError || rangeError) && styles.inputError]}
+                value={to}
+                onChangeText={setTo}
+                placeholder={csvStrings.toPlaceholder}
+                placeholderTextColor={colors.placeholder}
+                autoCapitalize="none"
+                maxLength={10}
+              />
+            </View>
+            {(fromError || toError) && (
+              <Text style={styles.errorText}>{strings.form.invalidDate}</Text>
+            )}
+            {rangeError && <Text style={styles.errorText}>{csvStrings.invalidRange}</Text>}
+
+            <Text style={styles.label}>{csvStrings.civilization}</Text>
+            <View style={styles.chips}>
+              <TouchableOpacity
+                style={[styles.chip, !civId && styles.chipSelected]}
+                onPress={() => setCivId(undefined)}
+              >
+                <Text style={[styles.chipText, !civId && styles.chipTextSelected]}>
+                  {csvStrings.allCivilizations}
+                </Text>
+              </TouchableOpacity>
+              {civilizations.map(civ => (
+                <TouchableOpacity
+                  key={civ.id}
+                  style={[styles.chip, civId === civ.id && styles.chipSelected]}
+                  onPress={() => setCivId(civ.id)}
+                >
+                  <Text style={[styles.chipText, civId === civ.id && styles.chipTextSelected]}>
+                    {civ.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            <Text style={styles.countText}>{csvStrings.rowCount(matchingCount)}</Text>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity
+              style={[styles.exportButton, (hasErrors || exporting) && styles.buttonDisabled]}
+              onPress={handleExport}
+              disabled={hasErrors || exporting}
+            >
+              {exporting ? (
+                <ActivityIndicator size="small" color="#FFFFFF" />
+              ) : (
+                <>
+                  <Icon name="export" size="sm" color="#FFFFFF" />
+                  <Text style={styles.exportButtonText}>{csvStrings.export}</Text>
+                </>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: colors.overlay,
+    justifyContent: 'center',
+    padding: spacing.lg,
+  },
+  modalContent: {
+    ...ui.modal,
+    backgroundColor: colors.surface,
+    maxHeight: '90%',
+    overflow: 'hidden',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    padding: spacing.md,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  title: {
+    ...typography.subheading,
+    color: colors.text,
+  },
+  closeButton: {
+    padding: spacing.sm,
+  },
+  body: {
+    padding: spacing.md,
+  },
+  label: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  dateSeparator: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  input: {
+    ...ui.input,
+    ...typography.body,
+    flex: 1,
+    color: colors.text,
+  },
+  inputError: {
+    ...ui.inputError,
+    borderColor: colors.error,
+  },
+  errorText: {
+    ...typography.small,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  countText: {
+    ...typography.small,
+    color: colors.textTertiary,
+    marginTop: spacing.lg,
+  },
+  footer: {
+    padding: spacing.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+  exportButton: {
+    ...ui.button.primary,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+  },
+  exportButtonText: {
+    ...typography.button,
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    backgroundColor: colors.disabled,
+  },
+});
@@ -1,4 +1,4 @@
-// Modal for adding/editing progress memos
+// Modal for adding/editing progress memos (today, or a past day within the backfill window)
 
 import React, { useState, useEffect, useRef } from 'react';
 import {
@@ -17,7 +17,7 @@ import {
   Dimensions,
   ScrollView,
 } from 'react-native';
-import { ProgressMemo, CreateProgressMemoRequest, UpdateProgressMemoRequest } from '../types';
+import { CivMetric, ProgressEvent, RecordProgressRequest } from '../types';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
@@ -25,15 +25,22 @@ import { ui } from '../theme/ui';
 import { Screen } from '../components/UI/Screen';
 import { Icon } from '../components/UI/Icon';
 import { formatDate } from '../lib/dateUtils';
+import { getTodayDate } from '../lib/calendarDay';
+import { parseMetricAmount } from '../lib/metrics';
 import { useAppStore } from '../stores';
+import { strings } from '../i18n/strings';
 
 interface ProgressMemoModalProps {
   visible: boolean;
   onClose: () => void;
-  onSubmit: (data: CreateProgressMemoRequest | UpdateProgressMemoRequest) => Promise<void>;
-  memo?: ProgressMemo;
+  onSubmit: (data: RecordProgressRequest) => Promise<void>;
+  memo?: ProgressEvent;
   loading?: boolean;
   isEditMode?: boolean;
+  dates?: string[]; // selectable dates, newest first (only today when omitted)
+  events?: ProgressEvent[]; // the civilization's events, to edit the selected date's entry
+  onDelete?: (event: ProgressEvent) => Promise<void>;
+  metric?: CivMetric; // the civilization's metric, asks for an amount when set
 }
 
 const MAX_MEMO_LENGTH = 30;
@@ -45,12 +52,16 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
   memo,
   loading = false,
   isEditMode = false,
+  dates,
+  events = [],
+  onDelete,
+  metric,
 }) => {
   const [memoText, setMemoText] = useState('');
-  const [errors, setErrors] = useState<{ memo?: string }>({});
-  const { showToast } = useAppStore(state => ({
-    showToast: state.showToast,
-  }));
+  const [amountText, setAmountText] = useState('');
+  const [selectedDate, setSelectedDate] = useState(getTodayDate());
+  const [errors, setErrors] = useState<{ memo?: string; amount?: string }>({});
+  const { showToast, restoreProgressEvent } = useAppStore();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
 
@@ -102,13 +113,26 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
     });
   };
 
+  // Entry already recorded for the selected date (edited instead of created)
+  const selectedEvent =
+    memo && memo.date === selectedDate
+      ? memo
+      : events.find(event => event.date === selectedDate);
+  const isEditing = isEditMode || !!selectedEvent;
+
+  // Callers build the dates on every render, so the form resets on the first date, not the array
+  const firstDate = dates?.[0];
+
   // Initialize form data
   useEffect(() => {
     if (visible) {
+      setSelectedDate(memo?.date ?? firstDate ?? getTodayDate());
       if (isEditMode && memo) {
-        setMemoText(memo.memo);
+        setMemoText(memo.memo || '');
+        setAmountText(memo.amount !== undefined ? memo.amount.toString() : '');
       } else {
         setMemoText('');
+        setAmountText('');
       }
       setErrors({});
       
@@ -123,7 +147,7 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
       // Animate out
       animateOut();
     }
-  }, [visible, isEditMode, memo]);
+  }, [visible, isEditMode, memo, firstDate]);
 
   // Keyboard animation control
   const animateKeyboard = (toValue: number, duration: number) => {
@@ -161,8 +185,16 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
   }, [isAnimating]);
 
 
+  const handleSelectDate = (date: string) => {
+    setSelectedDate(date);
+    const event = memo && memo.date === date ? memo : events.find(e => e.date === date);
+    setMemoText(event?.memo || '');
+    setAmountText(event?.amount !== undefined ? event.amount.toString() : '');
+    setErrors({});
+  };
+
   const validateForm = (): boolean => {
-    const newErrors: { memo?: string } = {};
+    const newErrors: { memo?: string; amount?: string } = {};
 
     if (!memoText.trim()) {
       newErrors.memo = '進捗メモを入力してください';
@@ -170,6 +202,11 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
       newErrors.memo = `メモは${MAX_MEMO_LENGTH}文字以内で入力してください`;
     }
 
+    // The amount is optional, but has to be a number when given
+    if (metric && amountText.trim() && parseMetricAmount(amountText) === undefined) {
+      newErrors.amount = '量は数値で入力してください';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -186,14 +223,14 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
 
     setIsSubmitting(true);
     try {
-      if (isEditMode) {
-        await onSubmit({ memo: memoText.trim() });
-      } else {
-        await onSubmit({ memo: memoText.trim() });
-      }
+      await onSubmit({
+        memo: memoText.trim(),
+        date: selectedDate,
+        amount: metric ? parseMetricAmount(amountText) : undefined,
+      });
       
       // Show success toast immediately
-      showToast(isEditMode ? '進捗メモを更新しました' : '進捗メモを記録しました', 'success');
+      showToast(isEditing ? '進捗メモを更新しました' : '進捗メモを記録しました', 'success');
       
       // Close modal immediately - toast will be shown globally
       setIsSubmitting(false);
@@ -205,10 +242,49 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
     }
   };
 
+  const handleUndoDelete = async (eventId: string) => {
+    try {
+      await restoreProgressEvent(eventId);
+      showToast(strings.messages.progressMemoRestored, 'success');
+    } catch (error) {
+      console.error('Failed to restore progress memo:', error);
+      showToast(strings.messages.progressMemoRestoreFailed, 'error');
+    }
+  };
+
+  const handleDelete = () => {
+    if (!onDelete || !selectedEvent || isSubmitting) return;
+
+    Alert.alert('進捗メモを削除', `${formatDate(selectedEvent.date)}の記録を削除しますか？`, [
+      { text: 'キャンセル', style: 'cancel' },
+      {
+        text: '削除',
+        style: 'destructive',
+        onPress: async () => {
+          setIsSubmitting(true);
+          try {
+            await onDelete(selectedEvent);
+            // Deleted memos go to the trash, so the deletion can be undone right away
+            showToast(strings.messages.progressMemoDeleted, 'success', {
+              label: strings.actions.undo,
+              onPress: () => handleUndoDelete(selectedEvent.id),
+            });
+            onClose();
+          } catch (error) {
+            console.error('Failed to delete progress memo:', error);
+            showToast('削除に失敗しました。再試行してください。', 'error');
+          } finally {
+            setIsSubmitting(false);
+          }
+        },
+      },
+    ]);
+  };
+
   const handleClose = () => {
     if (isAnimating || isSubmitting) return; // Prevent closing during animation or submission
     
-    if (memoText.trim() && !isEditMode) {
+    if (memoText.trim() && !isEditing) {
       Alert.alert(
         '未保存の変更',
         '入力した内容が保存されていません。閉じますか？',
@@ -222,15 +298,19 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
     }
   };
 
-  const getTodayDate = () => {
-    return new Date().toISOString().split('T')[0];
-  };
-
   const formatDisplayDate = (dateString: string) => {
-    const date = new Date(dateString);
     return formatDate(dateString);
   };
 
+  // Short label for date chips (today / M/D)
+  const formatDateChip = (dateString: string) => {
+    if (dateString === getTodayDate()) {
+      return '今日';
+    }
+    const [, month, day] = dateString.split('-').map(Number);
+    return `${month}/${day}`;
+  };
+
   return (
     <Modal
       visible={visible}
@@ -255,7 +335,7 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
                 <Screen>
                   <View style={styles.header}>
                     <Text style={styles.title}>
-                      {isEditMode ? '進捗メモを編集' : '進捗メモを記録'}
+                      {isEditing ? '進捗メモを編集' : '進捗メモを記録'}
                     </Text>
                     <TouchableOpacity
                       style={styles.closeButton}
@@ -270,8 +350,40 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
                     <View style={styles.dateSection}>
                       <Text style={styles.dateLabel}>日付</Text>
                       <Text style={styles.dateValue}>
-                        {formatDisplayDate(getTodayDate())}
+                        {formatDisplayDate(selectedDate)}
+                        {selectedDate < getTodayDate() && '（後から記録）'}
                       </Text>
+                      {dates && dates.length > 1 && (
+                        <ScrollView
+                          horizontal
+                          showsHorizontalScrollIndicator={false}
+                          contentContainerStyle={styles.dateChips}
+                        >
+                          {dates.map(date => {
+                            const isSelected = date === selectedDate;
+                            const hasEntry =
+                              memo?.date === date || events.some(event => event.date === date);
+                            return (
+                              <TouchableOpacity
+                                key={date}
+                                style={[styles.dateChip, isSelected && styles.dateChipSelected]}
+                                onPress={() => handleSelectDate(date)}
+                                disabled={loading || isSubmitting}
+                              >
+                                <Text
+                                  style={[
+                                    styles.dateChipText,
+                                    isSelected && styles.dateChipTextSelected,
+                                  ]}
+                                >
+                                  {formatDateChip(date)}
+                                  {hasEntry && ' ✓'}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </ScrollView>
+                      )}
                     </View>
 
                     <View style={styles.memoSection}>
@@ -299,6 +411,26 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
                         <Text style={styles.errorText}>{errors.memo}</Text>
                       )}
                     </View>
+
+                    {metric && (
+                      <View style={styles.amountSection}>
+                        <Text style={styles.memoLabel}>
+                          {metric.unit ? `量（${metric.unit}）` : '量'}
+                        </Text>
+                        <TextInput
+                          style={[styles.amountInput, errors.amount && styles.memoInputError]}
+                          value={amountText}
+                          onChangeText={setAmountText}
+                          placeholder={metric.mode === 'latest' ? '現在の値（任意）' : '今回の量（任意）'}
+                          placeholderTextColor={colors.textTertiary}
+                          keyboardType="decimal-pad"
+                          editable={!loading && !isSubmitting}
+                        />
+                        {errors.amount && (
+                          <Text style={styles.errorText}>{errors.amount}</Text>
+                        )}
+                      </View>
+                    )}
                   </View>
 
                   <View style={styles.footer}>
@@ -314,9 +446,19 @@ export const ProgressMemoModal: React.FC<ProgressMemoModalProps> = ({
                         styles.submitButtonText,
                         (!memoText.trim() || loading || isSubmitting) && styles.submitButtonTextDisabled,
                       ]}>
-                        {isSubmitting ? '保存中...' : (isEditMode ? '更新' : '記録')}
+                        {isSubmitting ? '保存中...' : (isEditing ? '更新' : '記録')}
                       </Text>
                     </TouchableOpacity>
+                    {onDelete && selectedEvent && (
+                      <TouchableOpacity
+                        style={styles.deleteButton}
+                        onPress={handleDelete}
+                        disabled={loading || isSubmitting}
+                      >
+                        <Icon name="delete" size="sm" color={colors.error} />
+                        <Text style={styles.deleteButtonText}>削除</Text>
+                      </TouchableOpacity>
+                    )}
                   </View>
                 </Screen>
               </Animated.View>
@@ -390,6 +532,28 @@ const styles = StyleSheet.create({
     color: colors.text,
     fontWeight: '500',
   },
+  dateChips: {
+    gap: spacing.xs,
+    paddingTop: spacing.sm,
+  },
+  dateChip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.md,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  dateChipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  dateChipText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  dateChipTextSelected: {
+    color: '#FFFFFF',
+  },
   memoSection: {
     paddingVertical: spacing.md,
   },
@@ -418,6 +582,15 @@ const styles = StyleSheet.create({
   memoInputError: {
     borderColor: colors.error,
   },
+  amountSection: {
+    paddingBottom: spacing.md,
+    gap: spacing.sm,
+  },
+  amountInput: {
+    ...ui.input,
+    color: colors.text,
+    backgroundColor: colors.surface,
+  },
   errorText: {
     ...typography.small,
     color: colors.error,
@@ -446,4 +619,16 @@ const styles = StyleSheet.create({
   submitButtonTextDisabled: {
     color: colors.textTertiary,
   },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  deleteButtonText: {
+    ...typography.body,
+    color: colors.error,
+  },
 });
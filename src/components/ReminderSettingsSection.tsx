@@ -0,0 +1,184 @@
+// Planet settings section for per-civilization reminders (daily nudge and decay warning)
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, Switch, StyleSheet } from 'react-native';
+import { CivReminder, Civilization } from '../types';
+import { DEFAULT_REMINDER, isValidReminderTime } from '../lib/reminders';
+import { areRemindersSupported, requestReminderPermission } from '../lib/notifications';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+
+interface ReminderSettingsSectionProps {
+  civilizations: Civilization[];
+  onChange: (civId: string, reminder: CivReminder) => Promise<void>;
+  onMessage: (message: string, type: 'error' | 'info') => void;
+}
+
+interface ReminderRowProps {
+  civilization: Civilization;
+  onChange: (reminder: CivReminder) => Promise<void>;
+}
+
+const ReminderRow: React.FC<ReminderRowProps> = ({ civilization, onChange }) => {
+  const reminderStrings = strings.screens.planetSettings.reminders;
+  // Civilizations without settings start from the defaults with everything switched off
+  const reminder = civilization.reminder ?? {
+    ...DEFAULT_REMINDER,
+    enabled: false,
+    decayWarning: false,
+  };
+  const [time, setTime] = useState(reminder.time);
+
+  useEffect(() => {
+    setTime(reminder.time);
+  }, [reminder.time]);
+
+  const timeError = !isValidReminderTime(time);
+
+  const handleTimeBlur = () => {
+    if (!timeError && time !== reminder.time) {
+      onChange({ ...reminder, time });
+    }
+  };
+
+  return (
+    <View style={styles.row}>
+      <Text style={styles.civName} numberOfLines={1}>
+        {civilization.name}
+      </Text>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>{reminderStrings.daily}</Text>
+        <Switch
+          value={reminder.enabled}
+          onValueChange={enabled => onChange({ ...reminder, enabled })}
+          trackColor={{ true: colors.primary }}
+        />
+      </View>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>{reminderStrings.decayWarning}</Text>
+        <Switch
+          value={reminder.decayWarning}
+          onValueChange={decayWarning => onChange({ ...reminder, decayWarning })}
+          trackColor={{ true: colors.primary }}
+        />
+      </View>
+
+      <View style={styles.switchRow}>
+        <Text style={styles.switchLabel}>{reminderStrings.time}</Text>
+        <TextInput
+          style={[styles.timeInput, timeError && styles.inputError]}
+          value={time}
+          onChangeText={setTime}
+          onBlur={handleTimeBlur}
+          placeholder={reminderStrings.timePlaceholder}
+          placeholderTextColor={colors.textTertiary}
+          keyboardType="numbers-and-punctuation"
+          maxLength={5}
+        />
+      </View>
+      {timeError && <Text style={styles.errorText}>{reminderStrings.invalidTime}</Text>}
+    </View>
+  );
+};
+
+export const ReminderSettingsSection: React.FC<ReminderSettingsSectionProps> = ({
+  civilizations,
+  onChange,
+  onMessage,
+}) => {
+  const reminderStrings = strings.screens.planetSettings.reminders;
+  const supported = areRemindersSupported();
+
+  const handleChange = async (civilization: Civilization, reminder: CivReminder) => {
+    try {
+      // Ask for permission when a notification is switched on; settings are saved either way
+      const wasOn = !!civilization.reminder?.enabled || !!civilization.reminder?.decayWarning;
+      const isOn = reminder.enabled || reminder.decayWarning;
+      if (isOn && !wasOn && !(await requestReminderPermission())) {
+        onMessage(reminderStrings.permissionDenied, 'info');
+      }
+
+      await onChange(civilization.id, reminder);
+    } catch (error) {
+      console.error('Failed to save reminder:', error);
+      onMessage(reminderStrings.saveFailed, 'error');
+    }
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.title}>{reminderStrings.title}</Text>
+      <Text style={styles.description}>
+        {supported ? reminderStrings.description : reminderStrings.unsupported}
+      </Text>
+      {supported &&
+        civilizations.map(civilization => (
+          <ReminderRow
+            key={civilization.id}
+            civilization={civilization}
+            onChange={reminder => handleChange(civilization, reminder)}
+          />
+        ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    marginTop: spacing.xl,
+    paddingTop: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+  title: {
+    ...typography.body,
+    fontWeight: '600',
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  description: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  row: {
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.divider,
+  },
+  civName: {
+    ...typography.body,
+    color: colors.text,
+    marginBottom: spacing.xs,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs / 2,
+  },
+  switchLabel: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  timeInput: {
+    ...ui.input,
+    color: colors.text,
+    width: 88,
+    textAlign: 'center',
+  },
+  inputError: {
+    ...ui.inputError,
+    borderColor: colors.error,
+  },
+  errorText: {
+    color: colors.error,
+    ...typography.small,
+    marginTop: spacing.xs / 2,
+  },
+});
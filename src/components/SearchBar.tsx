@@ -0,0 +1,272 @@
+// Search bar with filters for History and Civilizations (text, state, level, date range and
+// level change)
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { CivLevel, CivState, SearchQuery } from '../types';
+import { EMPTY_SEARCH_QUERY, countSearchFilters, isEmptySearchQuery } from '../lib/search';
+import { CIV_LEVELS, CIV_STATES } from '../lib/stats';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { ui } from '../theme/ui';
+import { strings } from '../i18n/strings';
+import { Icon } from './UI/Icon';
+
+interface SearchBarProps {
+  query: SearchQuery;
+  onChange: (query: SearchQuery) => void;
+  placeholder?: string;
+  resultCount?: number; // shown while a search is active
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LEVEL_CHANGES: NonNullable<SearchQuery['levelChange']>[] = ['gain', 'loss'];
+
+// Add a value to a filter list, or remove it if it is already there
+const toggleValue = <T,>(values: T[] | undefined, value: T): T[] =>
+  values?.includes(value) ? values.filter(item => item !== value) : [...(values ?? []), value];
+
+export const SearchBar: React.FC<SearchBarProps> = ({
+  query,
+  onChange,
+  placeholder,
+  resultCount,
+}) => {
+  const searchStrings = strings.search;
+  const [filtersVisible, setFiltersVisible] = useState(false);
+  // Dates are applied once they are complete, so typing does not filter on partial dates
+  const [fromText, setFromText] = useState(query.from ?? '');
+  const [toText, setToText] = useState(query.to ?? '');
+
+  useEffect(() => {
+    setFromText(query.from ?? '');
+    setToText(query.to ?? '');
+  }, [query.from, query.to]);
+
+  const filterCount = countSearchFilters(query);
+
+  const updateDate = (field: 'from' | 'to', text: string) => {
+    (field === 'from' ? setFromText : setToText)(text);
+    if (!text) {
+      onChange({ ...query, [field]: undefined });
+    } else if (ISO_DATE_PATTERN.test(text)) {
+      onChange({ ...query, [field]: text });
+    }
+  };
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.searchRow}>
+        <View style={styles.inputContainer}>
+          <Icon name="search" size="sm" color={colors.textTertiary} />
+          <TextInput
+            style={styles.input}
+            value={query.text ?? ''}
+            onChangeText={text => onChange({ ...query, text })}
+            placeholder={placeholder}
+            placeholderTextColor={colors.placeholder}
+            returnKeyType="search"
+            clearButtonMode="while-editing"
+          />
+        </View>
+        <TouchableOpacity
+          style={[styles.filterButton, filterCount > 0 && styles.filterButtonActive]}
+          onPress={() => setFiltersVisible(prev => !prev)}
+        >
+          <Icon
+            name="filter"
+            size="sm"
+            color={filterCount > 0 ? '#FFFFFF' : colors.textSecondary}
+          />
+          {filterCount > 0 && <Text style={styles.filterCount}>{filterCount}</Text>}
+        </TouchableOpacity>
+      </View>
+
+      {filtersVisible && (
+        <View style={styles.filters}>
+          <Text style={styles.filterLabel}>{searchStrings.states}</Text>
+          <View style={styles.chipRow}>
+            {CIV_STATES.map((state: CivState) =>
+              renderChip(
+                state,
+                strings.civilization.states[state],
+                !!query.states?.includes(state),
+                () => onChange({ ...query, states: toggleValue(query.states, state) })
+              )
+            )}
+          </View>
+
+          <Text style={styles.filterLabel}>{searchStrings.levels}</Text>
+          <View style={styles.chipRow}>
+            {CIV_LEVELS.map((level: CivLevel) =>
+              renderChip(
+                level,
+                strings.screens.stats.levels[level],
+                !!query.levels?.includes(level),
+                () => onChange({ ...query, levels: toggleValue(query.levels, level) })
+              )
+            )}
+          </View>
+
+          <Text style={styles.filterLabel}>{searchStrings.dateRange}</Text>
+          <View style={styles.dateRow}>
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              value={fromText}
+              onChangeText={text => updateDate('from', text)}
+              placeholder={searchStrings.fromPlaceholder}
+              placeholderTextColor={colors.placeholder}
+              maxLength={10}
+            />
+            <TextInput
+              style={[styles.input, styles.dateInput]}
+              value={toText}
+              onChangeText={text => updateDate('to', text)}
+              placeholder={searchStrings.toPlaceholder}
+              placeholderTextColor={colors.placeholder}
+              maxLength={10}
+            />
+          </View>
+
+          <Text style={styles.filterLabel}>{searchStrings.levelChange}</Text>
+          <View style={styles.chipRow}>
+            {LEVEL_CHANGES.map(levelChange =>
+              renderChip(
+                levelChange,
+                searchStrings.levelChanges[levelChange],
+                query.levelChange === levelChange,
+                () =>
+                  onChange({
+                    ...query,
+                    levelChange: query.levelChange === levelChange ? undefined : levelChange,
+                  })
+              )
+            )}
+          </View>
+        </View>
+      )}
+
+      {!isEmptySearchQuery(query) && (
+        <View style={styles.statusRow}>
+          {resultCount !== undefined && (
+            <Text style={styles.statusText}>{searchStrings.resultCount(resultCount)}</Text>
+          )}
+          <TouchableOpacity onPress={() => onChange(EMPTY_SEARCH_QUERY)}>
+            <Text style={styles.clearText}>{searchStrings.clear}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: spacing.sm,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  inputContainer: {
+    ...ui.input,
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: 0,
+  },
+  input: {
+    ...typography.body,
+    flex: 1,
+    color: colors.text,
+    minHeight: 40,
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs / 2,
+    padding: spacing.sm,
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  filterButtonActive: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  filterCount: {
+    ...typography.small,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  filters: {
+    ...ui.card,
+    marginTop: spacing.sm,
+    marginBottom: 0,
+    gap: spacing.xs,
+  },
+  filterLabel: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+  },
+  chip: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs / 2,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  dateInput: {
+    ...ui.input,
+    paddingVertical: spacing.xs,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.xs,
+  },
+  statusText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  clearText: {
+    ...typography.small,
+    color: colors.primary,
+  },
+});
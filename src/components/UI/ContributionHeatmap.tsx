@@ -0,0 +1,66 @@
+// Contribution heatmap - GitHub-style grid of progress entries per day (one column per week)
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { HeatmapCell } from '../../lib/stats';
+import { colors } from '../../theme/colors';
+
+interface ContributionHeatmapProps {
+  weeks: HeatmapCell[][]; // oldest week first, Sunday to Saturday
+  cellSize?: number;
+}
+
+// Cell opacity per intensity step (0 entries use the empty color)
+const INTENSITY_OPACITY = [0.35, 0.65, 1];
+
+const getIntensity = (count: number, maxCount: number): number =>
+  Math.min(INTENSITY_OPACITY.length, Math.ceil((count / maxCount) * INTENSITY_OPACITY.length));
+
+export const ContributionHeatmap: React.FC<ContributionHeatmapProps> = ({
+  weeks,
+  cellSize = 12,
+}) => {
+  const maxCount = Math.max(1, ...weeks.flat().map(cell => cell.count));
+  const cellStyle = { width: cellSize, height: cellSize, borderRadius: cellSize / 4 };
+
+  return (
+    <View style={styles.grid}>
+      {weeks.map(week => (
+        <View key={week[0].date} style={styles.column}>
+          {week.map(cell => (
+            <View
+              key={cell.date}
+              style={[
+                cellStyle,
+                cell.future
+                  ? styles.future
+                  : cell.count > 0
+                    ? {
+                        backgroundColor: colors.success,
+                        opacity: INTENSITY_OPACITY[getIntensity(cell.count, maxCount) - 1],
+                      }
+                    : styles.empty,
+              ]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  grid: {
+    flexDirection: 'row',
+    gap: 2,
+  },
+  column: {
+    gap: 2,
+  },
+  empty: {
+    backgroundColor: colors.divider,
+  },
+  future: {
+    backgroundColor: 'transparent',
+  },
+});
@@ -0,0 +1,53 @@
+// Deadline badge component - flags civilizations that are due soon, overdue or archived
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { DeadlineState } from '../../types';
+import { colors } from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { typography } from '../../theme/typography';
+import { ui } from '../../theme/ui';
+import { IconName } from '../../theme/icons';
+import { strings } from '../../i18n/strings';
+import { Icon } from './Icon';
+
+interface DeadlineBadgeProps {
+  state: DeadlineState;
+  showOnTrack?: boolean; // on-track deadlines are not flagged unless asked for
+}
+
+const BADGE_STYLES: Record<DeadlineState, { backgroundColor: string; icon: IconName }> = {
+  onTrack: { backgroundColor: colors.border, icon: 'deadline' },
+  dueSoon: { backgroundColor: colors.warning, icon: 'clock' },
+  overdue: { backgroundColor: colors.error, icon: 'warning' },
+  completed: { backgroundColor: colors.secondary, icon: 'success' },
+};
+
+export const DeadlineBadge: React.FC<DeadlineBadgeProps> = ({ state, showOnTrack = false }) => {
+  if (state === 'onTrack' && !showOnTrack) {
+    return null;
+  }
+
+  const badgeStyle = BADGE_STYLES[state];
+  return (
+    <View style={[styles.badge, { backgroundColor: badgeStyle.backgroundColor }]}>
+      <Icon name={badgeStyle.icon} size="xs" color="#FFFFFF" />
+      <Text style={styles.badgeText}>{strings.civilization.deadlineStates[state]}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    ...ui.stateBadge,
+    alignSelf: 'flex-start',
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs / 2,
+  },
+  badgeText: {
+    ...typography.small,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -0,0 +1,117 @@
+// Metric chart - a civilization's metric over time against its target
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { Circle, Line, Polyline } from 'react-native-svg';
+import { CivMetric, ProgressEvent } from '../../types';
+import {
+  formatMetricAmount,
+  getMetricProgress,
+  getMetricSeries,
+  getMetricValue,
+} from '../../lib/metrics';
+import { toDayNumber } from '../../lib/calendarDay';
+import { colors } from '../../theme/colors';
+import { spacing } from '../../theme/spacing';
+import { typography } from '../../theme/typography';
+import { strings } from '../../i18n/strings';
+
+interface MetricChartProps {
+  metric: CivMetric;
+  events: ProgressEvent[]; // progress events of the civilization
+  title?: string;
+  height?: number;
+}
+
+// The chart is drawn in a fixed coordinate space and stretched to the available width
+const CHART_WIDTH = 300;
+const CHART_PADDING = 6;
+
+export const MetricChart: React.FC<MetricChartProps> = ({ metric, events, title, height = 96 }) => {
+  const metricStrings = strings.civilization.metric;
+  const series = getMetricSeries(events, metric);
+  const value = getMetricValue(events, metric);
+  const percent = Math.round(getMetricProgress(events, metric) * 100);
+
+  const maxValue = Math.max(metric.target, ...series.map(point => point.value));
+  const firstDay = series.length > 0 ? toDayNumber(series[0].date) : 0;
+  const lastDay = series.length > 0 ? toDayNumber(series[series.length - 1].date) : 0;
+  const daySpan = Math.max(1, lastDay - firstDay);
+
+  const toX = (date: string): number =>
+    series.length > 1
+      ? CHART_PADDING +
+        ((toDayNumber(date) - firstDay) / daySpan) * (CHART_WIDTH - 2 * CHART_PADDING)
+      : CHART_WIDTH / 2;
+  const toY = (amount: number): number =>
+    height - CHART_PADDING - (Math.max(0, amount) / maxValue) * (height - 2 * CHART_PADDING);
+
+  const targetY = toY(metric.target);
+  const points = series.map(point => `${toX(point.date)},${toY(point.value)}`).join(' ');
+  const lastPoint = series[series.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        {title && <Text style={styles.title}>{title}</Text>}
+        <Text style={styles.summary}>
+          {metricStrings.summary(
+            formatMetricAmount(value, metric.unit),
+            formatMetricAmount(metric.target, metric.unit),
+            percent
+          )}
+        </Text>
+      </View>
+      {series.length === 0 ? (
+        <Text style={styles.empty}>{metricStrings.empty}</Text>
+      ) : (
+        <Svg
+          width="100%"
+          height={height}
+          viewBox={`0 0 ${CHART_WIDTH} ${height}`}
+          preserveAspectRatio="none"
+        >
+          <Line
+            x1={CHART_PADDING}
+            y1={targetY}
+            x2={CHART_WIDTH - CHART_PADDING}
+            y2={targetY}
+            stroke={colors.success}
+            strokeWidth={1}
+            strokeDasharray="4 4"
+          />
+          {series.length > 1 && (
+            <Polyline points={points} fill="none" stroke={colors.primary} strokeWidth={2} />
+          )}
+          <Circle cx={toX(lastPoint.date)} cy={toY(lastPoint.value)} r={3} fill={colors.primary} />
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.xs,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  title: {
+    ...typography.caption,
+    color: colors.text,
+    fontWeight: '600',
+    flex: 1,
+  },
+  summary: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
+  empty: {
+    ...typography.small,
+    color: colors.textTertiary,
+  },
+});
@@ -79,6 +79,11 @@ export const StateBadge: React.FC<StateBadgeProps> = ({ state, level }) => {
           backgroundColor: colors.primary,
           color: '#FFFFFF',
         };
+      case 'reviving':
+        return {
+          backgroundColor: colors.secondary,
+          color: '#FFFFFF',
+        };
       default:
         return {
           backgroundColor: colors.border,
@@ -112,6 +117,8 @@ export const StateBadge: React.FC<StateBadgeProps> = ({ state, level }) => {
         return 'decaying';
       case 'ocean':
         return 'ocean';
+      case 'reviving':
+        return 'reviving';
       default:
         return 'uninitialized';
     }
@@ -142,6 +149,8 @@ export const StateBadge: React.FC<StateBadgeProps> = ({ state, level }) => {
         return '衰退中';
       case 'ocean':
         return '海洋化';
+      case 'reviving':
+        return '復活中';
       default:
         return String(civState).charAt(0).toUpperCase() + String(civState).slice(1);
     }
@@ -1,7 +1,7 @@
 // Rich toast notification component with smooth animations
 
 import React, { useEffect, useState } from 'react';
-import { Text, StyleSheet, Animated } from 'react-native';
+import { Text, StyleSheet, Animated, TouchableOpacity } from 'react-native';
 import { colors } from '../../theme/colors';
 import { spacing } from '../../theme/spacing';
 import { typography } from '../../theme/typography';
@@ -9,26 +9,41 @@ import { ui } from '../../theme/ui';
 
 export type ToastType = 'success' | 'error' | 'info';
 
+/**
+ * Button shown next to the message, e.g. undo after a deletion
+ */
+export interface ToastAction {
+  label: string;
+  onPress: () => void;
+}
+
 interface ToastProps {
   message: string;
   type: ToastType;
   visible: boolean;
   onHide: () => void;
   duration?: number;
+  action?: ToastAction;
 }
 
+// A toast with an action stays up long enough to reach for the button
+const ACTION_DURATION = 5000;
+
 export const Toast: React.FC<ToastProps> = ({
   message,
   type,
   visible,
   onHide,
   duration = 3000, // Reduced duration to 3 seconds for better UX
+  action,
 }) => {
   const [opacity] = useState(new Animated.Value(0));
   const [scale] = useState(new Animated.Value(0.8));
   const [translateY] = useState(new Animated.Value(-30));
   const [isVisible, setIsVisible] = useState(false);
 
+  const displayDuration = action ? Math.max(duration, ACTION_DURATION) : duration;
+
   useEffect(() => {
     let timer: NodeJS.Timeout;
     let fallbackTimer: NodeJS.Timeout;
@@ -84,8 +99,8 @@ export const Toast: React.FC<ToastProps> = ({
         fallbackTimer = setTimeout(() => {
           setIsVisible(false);
           onHide();
-        }, duration + 1000); // 1 second buffer
-      }, duration);
+        }, displayDuration + 1000); // 1 second buffer
+      }, displayDuration);
     } else {
       // Reset animation values when not visible
       opacity.setValue(0);
@@ -99,7 +114,7 @@ export const Toast: React.FC<ToastProps> = ({
       if (timer) clearTimeout(timer);
       if (fallbackTimer) clearTimeout(fallbackTimer);
     };
-  }, [visible, opacity, scale, translateY, duration, onHide]);
+  }, [visible, opacity, scale, translateY, displayDuration, onHide]);
 
   if (!visible || !isVisible) {
     return null;
@@ -132,11 +147,18 @@ export const Toast: React.FC<ToastProps> = ({
 
   const toastStyle = getToastStyle(type);
 
+  const handleActionPress = () => {
+    action?.onPress();
+    setIsVisible(false);
+    onHide();
+  };
+
   return (
     <Animated.View 
       style={[
         styles.container, 
         toastStyle,
+        action && styles.withAction,
         { 
           opacity,
           transform: [
@@ -146,7 +168,12 @@ export const Toast: React.FC<ToastProps> = ({
         }
       ]}
     >
-      <Text style={styles.message}>{message}</Text>
+      <Text style={[styles.message, action && styles.messageWithAction]}>{message}</Text>
+      {action && (
+        <TouchableOpacity style={styles.actionButton} onPress={handleActionPress}>
+          <Text style={styles.actionText}>{action.label}</Text>
+        </TouchableOpacity>
+      )}
     </Animated.View>
   );
 };
@@ -172,10 +199,31 @@ const styles = StyleSheet.create({
     shadowOpacity: 0.3,
     shadowRadius: 6,
   },
+  withAction: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+  },
   message: {
     ...typography.body,
     color: '#FFFFFF',
     textAlign: 'center',
     fontWeight: '600',
   },
+  messageWithAction: {
+    flex: 1,
+    textAlign: 'left',
+  },
+  actionButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: '#FFFFFF',
+  },
+  actionText: {
+    ...typography.caption,
+    color: '#FFFFFF',
+    fontWeight: '700',
+  },
 });
@@ -30,14 +30,214 @@ export const strings = {
       fields: {
         vision: 'ビジョン',
         deadline: '期限',
+        backfillWindow: '過去の記録を編集できる日数',
+        dayStartHour: '1日の始まり（時）',
+      },
+      backfillWindowHelp: 'この日数前までの進捗を後から追加・編集・削除できます（0で今日のみ）',
+      backfillWindowInvalid: (max: number) => `0〜${max}の整数で入力してください`,
+      dayStartHourHelp: '夜型の方向け：4にすると午前4時までの記録は前日として扱われます',
+      dayStartHourInvalid: (max: number) => `0〜${max}の整数で入力してください`,
+      reason: '変更の理由（任意）',
+      reasonPlaceholder: '例：転職先が決まったため',
+      revisions: {
+        title: 'ビジョンの履歴',
+        description: 'ビジョンや期限を変えるたびに記録されます。以前のビジョンに戻すこともできます',
+        empty: 'まだ履歴はありません',
+        current: '現在',
+        deadline: (date: string) => `期限 ${date}`,
+        restoredFrom: (date: string) => `${date}のビジョンに戻しました`,
+        restore: '戻す',
+        restoreConfirmTitle: 'このビジョンに戻しますか？',
+        restoreConfirmMessage: (title: string) => `「${title}」を現在のビジョンにします。`,
+        restorePastDeadline: '期限が過ぎたビジョンです。戻した後に期限を更新してください',
+        restored: 'ビジョンを戻しました',
+        restoreFailed: 'ビジョンを戻せませんでした',
+      },
+      backup: {
+        title: 'バックアップ',
+        description: '星のビジョン・文明・進捗をJSONで書き出し、別の端末に読み込めます',
+        export: 'エクスポート',
+        import: 'インポート',
+        exported: 'バックアップを書き出しました',
+        exportFailed: 'バックアップの書き出しに失敗しました',
+        imported: 'バックアップを読み込みました',
+        importFailed: 'バックアップの読み込みに失敗しました',
+        importTitle: 'バックアップを読み込む',
+        importHelp: 'エクスポートしたJSONを貼り付けて「検証」を押してください',
+        importPlaceholder: '{ "format": "antiplanet.planet", ... }',
+        validate: '検証',
+        invalid: 'バックアップの形式が正しくありません',
+        moreErrors: (count: number) => `ほか${count}件のエラー`,
+        summary: (date: string, civCount: number, eventCount: number) =>
+          `${date}に書き出し・文明${civCount}件・進捗${eventCount}件`,
+        conflicts: (count: number) => `同じIDの文明が${count}件あります（マージ時は読み込む側で上書き）`,
+        noConflicts: '既存の文明との重複はありません',
+        merge: 'マージ',
+        replace: '置き換え',
+        replaceConfirmTitle: '星を置き換えますか？',
+        replaceConfirmMessage: '現在の文明と進捗はすべて削除され、バックアップの内容に置き換わります。',
+      },
+      reminders: {
+        title: 'リマインダー',
+        description: '文明ごとに、進捗のない日の通知と衰退前日の警告を設定できます',
+        daily: '毎日の通知',
+        time: '通知時刻',
+        timePlaceholder: 'HH:MM',
+        invalidTime: '00:00〜23:59の形式で入力してください',
+        decayWarning: '衰退前日の警告',
+        unsupported: 'この端末では通知を利用できません',
+        permissionDenied: '通知が許可されていません。端末の設定から許可してください',
+        saveFailed: 'リマインダーを保存できませんでした',
       },
     },
     civilizations: {
       title: '',
       addButton: '文明を追加',
     },
+    archive: {
+      title: '殿堂',
+      link: (count: number) => `殿堂・アーカイブ（${count}）`,
+      emptyTitle: 'まだ完了した文明はありません',
+      emptySubtitle: '目標を達成した文明を完了にすると、ここに最終レベルと記録が残ります。',
+      completed: '達成',
+      archived: 'アーカイブ',
+      monument: '記念碑',
+      completedOn: (date: string) => `${date} に達成`,
+      archivedOn: (date: string) => `${date} にアーカイブ`,
+      finalLevel: (level: number) => `最終レベル ${level}`,
+      progressDays: (days: number) => `記録 ${days}日`,
+      noMemos: 'メモはありません',
+    },
+    trash: {
+      title: 'ゴミ箱',
+      link: (count: number) => `ゴミ箱（${count}）`,
+      emptyTitle: 'ゴミ箱は空です',
+      emptySubtitle: (days: number) => `削除した文明とメモは${days}日間ここに残り、その後完全に削除されます。`,
+      civilizations: '文明',
+      memos: 'メモ',
+      memoOf: (name: string) => `「${name}」のメモ`,
+      noMemo: 'メモなしの記録',
+      deletedOn: (date: string) => `${date} に削除`,
+      daysLeft: (days: number) => (days > 0 ? `あと${days}日で完全に削除` : 'まもなく完全に削除'),
+      restore: '元に戻す',
+      restored: '元に戻しました',
+      restoreFailed: '元に戻せませんでした',
+      restoreMemoConflict: 'この日の進捗がすでに記録されているため、メモを元に戻せません',
+      restoreMemoNeedsCivilization: '先に文明を元に戻してください',
+      empty: 'ゴミ箱を空にする',
+      emptyConfirmTitle: 'ゴミ箱を空にしますか？',
+      emptyConfirmMessage: 'ゴミ箱の文明とメモはすべて完全に削除されます。この操作は元に戻せません。',
+      emptied: 'ゴミ箱を空にしました',
+      emptyFailed: 'ゴミ箱を空にできませんでした',
+    },
+    stats: {
+      link: '統計',
+      planet: '惑星全体',
+      emptyTitle: 'まだ統計がありません',
+      emptySubtitle: '文明を登録して進捗を記録すると、ここに統計が表示されます。',
+      currentStreak: '現在の連続記録',
+      longestStreak: '最長の連続記録',
+      perWeek: '週あたりの記録',
+      totalEntries: '記録の合計',
+      days: (days: number) => `${days}日`,
+      entries: (count: number) => `${count}件`,
+      average: (count: string) => `${count}件`,
+      heatmap: '記録のカレンダー',
+      heatmapLegend: (days: number) => `直近${days}日間`,
+      weekly: '週ごとの記録',
+      stateTime: '状態ごとの期間',
+      levelTime: 'レベルごとの期間',
+      planetDurationNote: '惑星全体では各文明の期間を合計しています',
+      levels: {
+        grassland: '草原',
+        village: '村',
+        town: '町',
+        city: '都市',
+      },
+    },
+    history: {
+      csvExport: {
+        button: 'CSV',
+        title: '進捗をCSVで書き出す',
+        dateRange: '期間',
+        fromPlaceholder: '開始 YYYY-MM-DD',
+        toPlaceholder: '終了 YYYY-MM-DD',
+        invalidRange: '開始日は終了日以前にしてください',
+        civilization: '文明',
+        allCivilizations: 'すべて',
+        rowCount: (count: number) => `${count}件の記録が対象です`,
+        export: 'エクスポート',
+        exported: (count: number) => `${count}件の記録を書き出しました`,
+        failed: 'CSVの書き出しに失敗しました',
+      },
+      stateTransition: '状態の変化',
+      visionChange: 'ビジョンの変更',
+      visionRestored: '以前のビジョンに戻しました',
+      transitionTriggers: {
+        staleness: '進捗が途絶えたため',
+        progress: '進捗を記録したため',
+        cadence: 'ペースを変更したため',
+      },
+      backfilled: '後から記録',
+      metricCharts: '数値目標の推移',
+      viewModes: {
+        list: 'リスト',
+        calendar: 'カレンダー',
+      },
+      calendar: {
+        month: (year: number, month: number) => `${year}年${month}月`,
+        weekdays: ['日', '月', '火', '水', '木', '金', '土'],
+        noEntries: 'この日の記録はありません',
+        backfillTitle: 'この日の進捗を記録',
+        record: (name: string) => `${name}に記録`,
+      },
+    },
   },
-  
+
+  // 検索・フィルター
+  search: {
+    historyPlaceholder: 'メモ・文明名・目的を検索',
+    civilizationsPlaceholder: '文明名・目的・メモを検索',
+    states: '状態',
+    levels: 'レベル',
+    dateRange: '期間',
+    fromPlaceholder: '開始 YYYY-MM-DD',
+    toPlaceholder: '終了 YYYY-MM-DD',
+    levelChange: 'レベルの変化',
+    levelChanges: {
+      gain: '上昇',
+      loss: '下降',
+    },
+    clear: '条件をクリア',
+    noResults: '条件に一致する記録はありません',
+    resultCount: (count: number) => `${count}件`,
+  },
+
+  // 星（複数の星の切り替え）
+  planets: {
+    defaultName: 'わたしの星',
+    add: '星を追加',
+    namePlaceholder: '星の名前（例：キャリア、健康）',
+    nameRequired: '星の名前を入力してください',
+    create: '作成',
+    created: (name: string) => `「${name}」を作成しました`,
+    createFailed: '星を作成できませんでした',
+    switchFailed: '星を切り替えられませんでした',
+    title: 'この星',
+    description: '星ごとにビジョン・文明・見た目を持てます',
+    name: '星の名前',
+    appearance: '見た目',
+    appearances: {
+      ocean: '海',
+      forest: '森',
+      desert: '砂漠',
+      ice: '氷',
+      volcanic: '火山',
+    },
+    saved: '星を保存しました',
+    saveFailed: '星を保存できませんでした',
+  },
+
   // ボタン・アクション
   actions: {
     save: '保存',
@@ -46,6 +246,7 @@ export const strings = {
     cancel: 'キャンセル',
     add: '追加',
     recordProgress: '成長ログを記録',
+    undo: '元に戻す',
   },
   
   // メッセージ
@@ -54,8 +255,14 @@ export const strings = {
     progressFailed: '成長ログの記録に失敗しました',
     civilizationCreated: '正常に作成されました',
     civilizationUpdated: '正常に更新されました',
-    civilizationDeleted: '正常に削除されました',
+    civilizationDeleted: 'ゴミ箱に移動しました',
+    progressMemoDeleted: '進捗メモを削除しました',
+    progressMemoRestored: '進捗メモを元に戻しました',
+    progressMemoRestoreFailed: '進捗メモを元に戻せませんでした',
     planetGoalSaved: '星のビジョンが正常に保存されました',
+    deadlineExtended: '期限を延長しました',
+    civilizationArchived: 'アーカイブしました',
+    civilizationCompleted: 'おめでとうございます！殿堂入りしました',
     loading: {
       vision: '星のビジョンを読み込み中...',
       civilizations: '文明を読み込み中...',
@@ -97,6 +304,7 @@ export const strings = {
       developing: '発展中',
       decaying: '衰退中',
       ocean: '海洋',
+      reviving: '復活中',
     },
     fields: {
       name: 'タイトル',
@@ -104,16 +312,91 @@ export const strings = {
       deadline: '期限',
       lastProgress: '最終成長ログ',
     },
+    progressWithoutMemo: '進捗を記録しました（メモなし）',
+    deadlineStates: {
+      onTrack: '順調',
+      dueSoon: '期限間近',
+      overdue: '期限切れ',
+      completed: 'アーカイブ済み',
+    },
+    overdueNotice: '期限を過ぎています。期限を延長するか、アーカイブしてください',
+    milestones: {
+      title: 'マイルストーン',
+      description: '達成した重みの割合が文明の成長レベルに加わり、惑星に建物が建ちます',
+      titlePlaceholder: 'マイルストーンを入力',
+      dueDatePlaceholder: '期日 YYYY-MM-DD（任意）',
+      invalidTitle: 'マイルストーン名を入力してください',
+      invalidDueDate: '期日はYYYY-MM-DDの形式で入力してください',
+      add: '追加',
+      weight: (weight: number) => `重み ×${weight}`,
+      due: (date: string) => `期日 ${date}`,
+      progress: (completed: number, total: number) => `${completed}/${total} 達成`,
+      next: (title: string) => `次: ${title}`,
+      allCompleted: 'すべて達成しました',
+      empty: 'マイルストーンはまだありません',
+      toggleFailed: 'マイルストーンを更新できませんでした',
+    },
+    metric: {
+      title: '数値目標',
+      description: '記録ごとに量を入力し、目標値への到達率が成長レベルに加わります',
+      enable: '数値で進捗を測る',
+      unitPlaceholder: '単位（例: km、冊）',
+      targetPlaceholder: '目標値',
+      modes: {
+        cumulative: '累積',
+        latest: '最新値',
+      },
+      modeDescriptions: {
+        cumulative: '記録した量を合計します（例: 走った距離）',
+        latest: '最後に記録した値を現在値とします（例: 体重）',
+      },
+      invalidTarget: '目標値は0より大きい数値で入力してください',
+      summary: (value: string, target: string, percent: number) =>
+        `${value} / ${target}（${percent}%）`,
+      empty: 'まだ量が記録されていません',
+    },
     emptyState: {
       title: 'まだ登録がありません',
       subtitle: 'まずは1つ追加しましょう。文明を登録すると、成長ログを追跡できます。',
     },
   },
   
+  // 通知
+  reminders: {
+    channelName: 'リマインダー',
+    dailyTitle: '今日の進捗を記録しましょう',
+    dailyBody: (name: string) => `「${name}」の進捗がまだ記録されていません`,
+    decayWarningTitle: '文明が衰退しそうです',
+    decayWarningBody: (name: string) => `「${name}」は明日から衰退し始めます。今日のうちに進捗を記録しましょう`,
+  },
+
+  // 期限切れの対応
+  deadlineActions: {
+    extend: '期限を延長',
+    extendBy: (days: number) => `${days}日延長`,
+    pickDate: '日付を選ぶ',
+    archive: 'アーカイブ',
+    archiveTitle: '文明をアーカイブ',
+    archiveMessage: (name: string) => `「${name}」をアーカイブしますか？記録はそのまま残ります。`,
+    extendFailed: '期限を延長できませんでした',
+    archiveFailed: 'アーカイブできませんでした',
+  },
+
+  // 完了
+  completeActions: {
+    complete: '完了',
+    title: '文明を完了',
+    message: (name: string) =>
+      `「${name}」の目標を達成しましたか？最終レベルが記録され、殿堂に移ります。`,
+    withMonument: '記念碑を残して完了',
+    withoutMonument: '惑星から外して完了',
+    failed: '完了にできませんでした',
+  },
+
   // 削除確認
   deleteConfirm: {
     title: '文明を削除',
-    message: 'この操作は元に戻せません。',
+    message: (days: number) => `ゴミ箱に移動し、${days}日後に完全に削除されます。`,
     confirm: '削除',
   },
 } as const;
@@ -0,0 +1,83 @@
+// Unit tests for calendar days across timezones
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  calendarDaysBetween,
+  getCalendarDayStart,
+  getCalendarWeekday,
+  getTodayDate,
+  setDayStartHour,
+  setTimeZone,
+  shiftCalendarDate,
+  toCalendarDate,
+} from '../calendarDay';
+import { calculateRemainingDays } from '../dateUtils';
+import { createProgressEvent } from '../progressEvents';
+import { toProgressDays } from '../scoring';
+
+describe('calendarDay', () => {
+  afterEach(() => {
+    setTimeZone();
+    setDayStartHour();
+  });
+
+  it('uses the local date, not the UTC date', () => {
+    // 08:00 in Tokyo is 23:00 UTC on the previous day
+    const tokyoMorning = Date.UTC(2025, 5, 29, 23);
+    setTimeZone('Asia/Tokyo');
+    expect(toCalendarDate(tokyoMorning)).toBe('2025-06-30');
+    expect(getTodayDate(tokyoMorning)).toBe('2025-06-30');
+
+    // 22:00 in New York is 02:00 UTC on the next day
+    const newYorkEvening = Date.UTC(2025, 5, 30, 2);
+    setTimeZone('America/New_York');
+    expect(toCalendarDate(newYorkEvening)).toBe('2025-06-29');
+
+    setTimeZone('UTC');
+    expect(toCalendarDate(tokyoMorning)).toBe('2025-06-29');
+    expect(toCalendarDate(newYorkEvening)).toBe('2025-06-30');
+  });
+
+  it('moves the day boundary to the day-start hour', () => {
+    setTimeZone('Asia/Tokyo');
+    setDayStartHour(4);
+
+    // 02:00 and 05:00 JST on June 30
+    expect(toCalendarDate(Date.UTC(2025, 5, 29, 17))).toBe('2025-06-29');
+    expect(toCalendarDate(Date.UTC(2025, 5, 29, 20))).toBe('2025-06-30');
+    expect(getCalendarDayStart('2025-06-30')).toBe(Date.UTC(2025, 5, 29, 19));
+
+    setDayStartHour(-3);
+    expect(toCalendarDate(Date.UTC(2025, 5, 29, 15))).toBe('2025-06-30');
+  });
+
+  it('does date arithmetic on dates, unaffected by daylight saving', () => {
+    setTimeZone('America/New_York');
+
+    // Clocks went forward on 2025-03-09: that day is only 23 hours long
+    expect(shiftCalendarDate('2025-03-08', 1)).toBe('2025-03-09');
+    expect(shiftCalendarDate('2025-03-09', 1)).toBe('2025-03-10');
+    expect(calendarDaysBetween('2025-03-08', '2025-03-10')).toBe(2);
+    expect(getCalendarDayStart('2025-03-10') - getCalendarDayStart('2025-03-09')).toBe(
+      23 * 60 * 60 * 1000
+    );
+
+    expect(shiftCalendarDate('2024-12-31', 1)).toBe('2025-01-01');
+    expect(shiftCalendarDate('2024-03-01', -1)).toBe('2024-02-29');
+    expect(getCalendarWeekday('2025-06-30')).toBe(1);
+  });
+
+  it('drives progress dates, scoring days and deadlines', () => {
+    setTimeZone('Asia/Tokyo');
+    const tokyoMorning = Date.UTC(2025, 5, 29, 23);
+
+    expect(createProgressEvent([], 'civ-a', {}, tokyoMorning).date).toBe('2025-06-30');
+    expect(toProgressDays([tokyoMorning, Date.UTC(2025, 5, 29, 16)], tokyoMorning)).toHaveLength(1);
+
+    expect(calculateRemainingDays('2025-06-30', '2025-06-30')).toBe(0);
+    expect(calculateRemainingDays('2025-07-02', '2025-06-30')).toBe(2);
+    expect(calculateRemainingDays('2025-06-29', '2025-06-30')).toBe(-1);
+    expect(calculateRemainingDays('not a date', '2025-06-30')).toBeNull();
+    expect(isNaN(getCalendarDayStart('not a date'))).toBe(true);
+  });
+});
@@ -0,0 +1,79 @@
+// Unit tests for the civilization archive (hall of fame)
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getActiveCivilizations,
+  getArchivedCivilizations,
+  getMemoHistory,
+  getPlanetCivilizations,
+} from '../civilizationArchive';
+import { getCivilizationDeadlineState } from '../deadlines';
+import { Civilization, ProgressEvent } from '../../types';
+
+const createCivilization = (id: string, patch: Partial<Civilization> = {}): Civilization => ({
+  id,
+  name: id,
+  deadline: '2025-12-31',
+  state: 'developing',
+  levels: { culturalLevel: 40, growthLevel: 20, totalLevel: 30, classification: 'village' },
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+const createEvent = (civId: string, date: string, memo?: string): ProgressEvent => ({
+  id: `event-${civId}-${date}`,
+  civId,
+  date,
+  memo,
+  createdAt: 0,
+  updatedAt: 0,
+  levelBefore: 0,
+  levelAfter: 0,
+  levelChange: 0,
+});
+
+describe('civilization archive', () => {
+  const active = createCivilization('active');
+  const archived = createCivilization('archived', { archivedAt: 100 });
+  const completed = createCivilization('completed', { archivedAt: 200, completedAt: 200 });
+  const monument = createCivilization('monument', {
+    archivedAt: 300,
+    completedAt: 300,
+    monument: true,
+  });
+  const civilizations = [monument, active, archived, completed];
+
+  it('takes archived civilizations off the active list, newest first in the archive', () => {
+    expect(getActiveCivilizations(civilizations)).toEqual([active]);
+    expect(getArchivedCivilizations(civilizations).map(civ => civ.id)).toEqual([
+      'monument',
+      'completed',
+      'archived',
+    ]);
+    expect(getCivilizationDeadlineState(completed, '2026-01-31')).toBe('completed');
+  });
+
+  it('keeps only active civilizations and monuments on the planet', () => {
+    expect(getPlanetCivilizations(civilizations).map(civ => civ.id)).toEqual([
+      'monument',
+      'active',
+    ]);
+    // Only a completed civilization can be a monument
+    expect(getPlanetCivilizations([{ ...archived, monument: true }])).toEqual([]);
+  });
+
+  it('lists the memo history of a civilization, newest first', () => {
+    const events = [
+      createEvent('completed', '2025-06-01', 'started'),
+      createEvent('completed', '2025-06-02'),
+      createEvent('completed', '2025-06-03', 'shipped'),
+      createEvent('active', '2025-06-04', 'other'),
+    ];
+
+    expect(getMemoHistory(events, 'completed').map(event => event.memo)).toEqual([
+      'shipped',
+      'started',
+    ]);
+  });
+});
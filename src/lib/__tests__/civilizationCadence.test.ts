@@ -0,0 +1,77 @@
+// Unit tests for cadence-aware civilization decay
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  countMissedCheckIns,
+  deriveCivilizationState,
+  getStalenessRatio,
+  isSameCadence,
+  shouldPersistStateTransition,
+} from '../civilizationStateMachine';
+import { CivCadence } from '../../types';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+// Wednesday noon, local time
+const LAST_PROGRESS = new Date(2025, 5, 4, 12, 0, 0).getTime();
+const daysLater = (days: number) => LAST_PROGRESS + days * DAYS_TO_MS;
+
+describe('civilization cadence', () => {
+  it('keeps the default 7/21 day thresholds without a cadence', () => {
+    expect(deriveCivilizationState(daysLater(6), LAST_PROGRESS)).toBe('developing');
+    expect(deriveCivilizationState(daysLater(7), LAST_PROGRESS)).toBe('decaying');
+    expect(deriveCivilizationState(daysLater(21), LAST_PROGRESS)).toBe('ocean');
+  });
+
+  it('decays after 2 missed check-ins and sinks after 6', () => {
+    const daily = { type: 'daily' } as const;
+    expect(deriveCivilizationState(daysLater(1.5), LAST_PROGRESS, daily)).toBe('developing');
+    expect(deriveCivilizationState(daysLater(2), LAST_PROGRESS, daily)).toBe('decaying');
+    expect(deriveCivilizationState(daysLater(6), LAST_PROGRESS, daily)).toBe('ocean');
+
+    const weekly = { type: 'weekly' } as const;
+    expect(deriveCivilizationState(daysLater(13), LAST_PROGRESS, weekly)).toBe('developing');
+    expect(deriveCivilizationState(daysLater(14), LAST_PROGRESS, weekly)).toBe('decaying');
+    expect(deriveCivilizationState(daysLater(42), LAST_PROGRESS, weekly)).toBe('ocean');
+
+    const everyThreeDays = { type: 'interval', days: 3 } as const;
+    expect(deriveCivilizationState(daysLater(5), LAST_PROGRESS, everyThreeDays)).toBe('developing');
+    expect(deriveCivilizationState(daysLater(6), LAST_PROGRESS, everyThreeDays)).toBe('decaying');
+  });
+
+  it('counts only fully passed scheduled weekdays', () => {
+    // Mondays and Fridays; last progress on Wednesday
+    const cadence: CivCadence = { type: 'weekdays', weekdays: [1, 5] };
+
+    // Friday itself does not count until it is over
+    expect(countMissedCheckIns(daysLater(2), LAST_PROGRESS, cadence)).toBe(0);
+    // Saturday: Friday missed
+    expect(countMissedCheckIns(daysLater(3), LAST_PROGRESS, cadence)).toBe(1);
+    // Tuesday: Friday and Monday missed
+    expect(countMissedCheckIns(daysLater(6), LAST_PROGRESS, cadence)).toBe(2);
+    expect(deriveCivilizationState(daysLater(6), LAST_PROGRESS, cadence)).toBe('decaying');
+    // Three weeks later: 6 scheduled days missed
+    expect(deriveCivilizationState(daysLater(20), LAST_PROGRESS, cadence)).toBe('ocean');
+  });
+
+  it('reports staleness towards the ocean for marker visuals', () => {
+    expect(getStalenessRatio(daysLater(1), undefined)).toBe(0);
+    expect(getStalenessRatio(daysLater(10.5), LAST_PROGRESS)).toBeCloseTo(0.5);
+    expect(getStalenessRatio(daysLater(3), LAST_PROGRESS, { type: 'daily' })).toBeCloseTo(0.5);
+    expect(getStalenessRatio(daysLater(100), LAST_PROGRESS, { type: 'daily' })).toBe(1);
+  });
+
+  it('persists any state change when the cadence changed', () => {
+    expect(shouldPersistStateTransition('developing', 'uninitialized')).toBe(false);
+    expect(shouldPersistStateTransition('developing', 'uninitialized', true)).toBe(true);
+    expect(shouldPersistStateTransition('decaying', 'decaying', true)).toBe(false);
+  });
+
+  it('compares cadences by schedule', () => {
+    expect(isSameCadence(undefined, undefined)).toBe(true);
+    expect(isSameCadence({ type: 'daily' }, undefined)).toBe(false);
+    expect(
+      isSameCadence({ type: 'weekdays', weekdays: [5, 1] }, { type: 'weekdays', weekdays: [1, 5] })
+    ).toBe(true);
+    expect(isSameCadence({ type: 'interval', days: 3 }, { type: 'interval', days: 4 })).toBe(false);
+  });
+});
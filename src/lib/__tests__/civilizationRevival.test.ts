@@ -0,0 +1,88 @@
+// Unit tests for ocean revival
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createStateTransition,
+  inferTransitionTrigger,
+  resolveRevivalState,
+  shouldPersistStateTransition,
+} from '../civilizationStateMachine';
+import { countConsecutiveProgressDays } from '../progressEvents';
+import { Civilization, ProgressEvent } from '../../types';
+
+const NOW = new Date('2025-06-10T12:00:00Z').getTime();
+
+const event = (civId: string, date: string): ProgressEvent => ({
+  id: `event-${civId}-${date}`,
+  civId,
+  date,
+  createdAt: NOW,
+  updatedAt: NOW,
+  levelBefore: 0,
+  levelAfter: 1,
+  levelChange: 1,
+});
+
+describe('ocean revival', () => {
+  it('counts consecutive progress days ending today or yesterday', () => {
+    const events = [
+      event('civ-a', '2025-06-07'),
+      event('civ-a', '2025-06-08'),
+      event('civ-a', '2025-06-09'),
+      event('civ-b', '2025-06-10'),
+    ];
+
+    expect(countConsecutiveProgressDays(events, 'civ-a', '2025-06-10')).toBe(3);
+    expect(countConsecutiveProgressDays(events, 'civ-a', '2025-06-09')).toBe(3);
+    expect(countConsecutiveProgressDays(events, 'civ-a', '2025-06-11')).toBe(0);
+    expect(countConsecutiveProgressDays(events, 'civ-b', '2025-06-10')).toBe(1);
+  });
+
+  it('moves a sunk civilization through reviving back to developing', () => {
+    expect(resolveRevivalState('ocean', 'ocean', 0)).toBe('ocean');
+    expect(resolveRevivalState('developing', 'ocean', 1)).toBe('reviving');
+    expect(resolveRevivalState('developing', 'reviving', 2)).toBe('reviving');
+    expect(resolveRevivalState('developing', 'reviving', 3)).toBe('developing');
+    expect(resolveRevivalState('developing', 'reviving', 5, 7)).toBe('reviving');
+    expect(resolveRevivalState('decaying', 'reviving', 0)).toBe('reviving');
+    expect(resolveRevivalState('ocean', 'reviving', 0)).toBe('ocean');
+  });
+
+  it('leaves civilizations outside the ocean alone', () => {
+    expect(resolveRevivalState('developing', 'decaying', 0)).toBe('developing');
+    expect(resolveRevivalState('decaying', 'developing', 0)).toBe('decaying');
+  });
+
+  it('persists every step of the revival', () => {
+    expect(shouldPersistStateTransition('reviving', 'ocean')).toBe(true);
+    expect(shouldPersistStateTransition('developing', 'reviving')).toBe(true);
+    expect(shouldPersistStateTransition('ocean', 'reviving')).toBe(true);
+    expect(shouldPersistStateTransition('reviving', 'reviving')).toBe(false);
+    expect(shouldPersistStateTransition('developing', 'decaying')).toBe(true);
+    expect(shouldPersistStateTransition('developing', 'uninitialized')).toBe(false);
+  });
+
+  it('logs transitions with their trigger', () => {
+    const civilization: Civilization = {
+      id: 'civ-a',
+      name: 'Civ',
+      deadline: '2030-01-01',
+      state: 'ocean',
+      levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+      createdAt: NOW,
+      updatedAt: NOW,
+    };
+
+    expect(
+      createStateTransition(civilization, 'reviving', inferTransitionTrigger('reviving'), NOW)
+    ).toEqual({
+      id: `transition-civ-a-${NOW}`,
+      civId: 'civ-a',
+      from: 'ocean',
+      to: 'reviving',
+      timestamp: NOW,
+      trigger: 'progress',
+    });
+    expect(inferTransitionTrigger('ocean')).toBe('staleness');
+  });
+});
@@ -0,0 +1,65 @@
+// Unit tests for deadline states and extensions
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DUE_SOON_DAYS,
+  extendDeadline,
+  getCivilizationDeadlineState,
+  getDeadlineState,
+  getPlanetGoalDeadlineState,
+  isCivilizationOverdue,
+} from '../deadlines';
+import { planCivilizationReminders, DAILY_NUDGE_DAYS, DEFAULT_REMINDER } from '../reminders';
+import { Civilization } from '../../types';
+
+const TODAY = '2025-06-30';
+
+const createCivilization = (patch: Partial<Civilization> = {}): Civilization => ({
+  id: 'civ-a',
+  name: 'Rust',
+  deadline: '2025-06-29',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+describe('deadlines', () => {
+  it('is due soon from a week before through the deadline day, then overdue', () => {
+    expect(getDeadlineState('2025-07-08', TODAY)).toBe('onTrack');
+    expect(getDeadlineState('2025-07-07', TODAY)).toBe('dueSoon');
+    expect(DUE_SOON_DAYS).toBe(7);
+    expect(getDeadlineState(TODAY, TODAY)).toBe('dueSoon');
+    expect(getDeadlineState('2025-06-29', TODAY)).toBe('overdue');
+    expect(getDeadlineState('not a date', TODAY)).toBe('onTrack');
+  });
+
+  it('treats archived civilizations as completed', () => {
+    expect(getCivilizationDeadlineState(createCivilization(), TODAY)).toBe('overdue');
+    expect(isCivilizationOverdue(createCivilization(), TODAY)).toBe(true);
+
+    const archived = createCivilization({ archivedAt: 1 });
+    expect(getCivilizationDeadlineState(archived, TODAY)).toBe('completed');
+    expect(isCivilizationOverdue(archived, TODAY)).toBe(false);
+
+    expect(getPlanetGoalDeadlineState({ title: 'Ship', deadline: '2025-07-31' }, TODAY)).toBe(
+      'onTrack'
+    );
+  });
+
+  it('stops reminders for archived civilizations', () => {
+    const civilization = createCivilization({ reminder: DEFAULT_REMINDER });
+    const now = new Date(2025, 5, 30, 12).getTime();
+
+    expect(planCivilizationReminders(civilization, now)).toHaveLength(DAILY_NUDGE_DAYS);
+    expect(planCivilizationReminders({ ...civilization, archivedAt: now }, now)).toEqual([]);
+  });
+
+  it('extends overdue deadlines from today and others from the deadline', () => {
+    expect(extendDeadline('2025-06-20', 7, TODAY)).toBe('2025-07-07');
+    expect(extendDeadline(TODAY, 7, TODAY)).toBe('2025-07-07');
+    expect(extendDeadline('2025-07-10', 30, TODAY)).toBe('2025-08-09');
+    expect(getDeadlineState(extendDeadline('2025-06-20', 30, TODAY), TODAY)).toBe('onTrack');
+  });
+});
@@ -0,0 +1,47 @@
+// Unit tests for the Firestore write helpers (no emulator needed)
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { serverTimestamp, stripUndefined } from '../firebase';
+import { createMilestone } from '../milestones';
+
+jest.mock('expo-constants', () => ({
+  expoConfig: {
+    extra: {
+      firebase: {
+        apiKey: 'demo-api-key',
+        authDomain: 'demo-planit.firebaseapp.com',
+        projectId: 'demo-planit',
+        appId: 'demo-app-id',
+      },
+    },
+  },
+}));
+
+describe('stripUndefined', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('drops undefined fields at any depth, including inside arrays', () => {
+    const milestone = createMilestone('Outline', {}, 1000);
+    const data = {
+      name: 'Rust',
+      purpose: undefined,
+      milestones: [milestone, { id: 'm-2', completedAt: undefined }],
+      reminder: { enabled: true, time: undefined },
+    };
+
+    expect(stripUndefined(data)).toEqual({
+      name: 'Rust',
+      milestones: [milestone, { id: 'm-2' }],
+      reminder: { enabled: true },
+    });
+    expect(stripUndefined(data).milestones?.[1]).not.toHaveProperty('completedAt');
+  });
+
+  it('keeps Firestore sentinels as they are', () => {
+    const updatedAt = serverTimestamp();
+
+    expect(stripUndefined({ updatedAt, deletedAt: undefined }).updatedAt).toBe(updatedAt);
+  });
+});
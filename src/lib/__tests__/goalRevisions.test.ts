@@ -0,0 +1,72 @@
+// Unit tests for planet goal revisions
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  applyGoalRevision,
+  createGoalRevision,
+  getNextRevisionTime,
+  isCurrentVision,
+  isVisionChange,
+  sortRevisionsNewestFirst,
+} from '../goalRevisions';
+import { PlanetGoal } from '../../types';
+
+const GOAL: PlanetGoal = {
+  title: 'Work abroad',
+  deadline: '2030-12-31',
+  backfillWindowDays: 3,
+  dayStartHour: 4,
+};
+
+describe('goalRevisions', () => {
+  it('treats only title and deadline changes as vision changes', () => {
+    expect(isVisionChange(null, GOAL)).toBe(true);
+    expect(isVisionChange(GOAL, { ...GOAL, dayStartHour: 0, backfillWindowDays: 7 })).toBe(false);
+    expect(isVisionChange(GOAL, { ...GOAL, title: 'Start a company' })).toBe(true);
+    expect(isVisionChange(GOAL, { ...GOAL, deadline: '2031-03-31' })).toBe(true);
+  });
+
+  it('records the vision with a trimmed reason, dropping blank ones', () => {
+    expect(createGoalRevision(GOAL, ' New job ', undefined, 1000)).toMatchObject({
+      title: 'Work abroad',
+      deadline: '2030-12-31',
+      timestamp: 1000,
+      reason: 'New job',
+    });
+    expect(createGoalRevision(GOAL, '  ', 'revision-1', 2000)).toMatchObject({
+      reason: undefined,
+      restoredFrom: 'revision-1',
+    });
+  });
+
+  it('restores the vision of a revision while keeping the current settings', () => {
+    const earlier = createGoalRevision(
+      { title: 'Learn Spanish', deadline: '2029-06-30' },
+      '',
+      undefined,
+      1000
+    );
+    const later = createGoalRevision(GOAL, '', undefined, 2000);
+
+    expect(applyGoalRevision(GOAL, earlier)).toEqual({
+      ...GOAL,
+      title: 'Learn Spanish',
+      deadline: '2029-06-30',
+    });
+    expect(isCurrentVision(GOAL, later)).toBe(true);
+    expect(isCurrentVision(GOAL, earlier)).toBe(false);
+    expect(sortRevisionsNewestFirst([earlier, later]).map(r => r.timestamp)).toEqual([2000, 1000]);
+  });
+
+  it('keeps the order of revisions recorded within the same millisecond', () => {
+    const first = createGoalRevision(GOAL, '', undefined, 1000);
+    const second = createGoalRevision({ ...GOAL, title: 'Start a company' }, '', undefined, 1000);
+
+    // Newest first: the later-appended revision wins a tie
+    expect(sortRevisionsNewestFirst([first, second])).toEqual([second, first]);
+    // Later revisions are timestamped after the latest one, so backends read them back in order
+    expect(getNextRevisionTime([first, second], 1000)).toBe(1001);
+    expect(getNextRevisionTime([first, second], 5000)).toBe(5000);
+    expect(getNextRevisionTime([], 1000)).toBe(1000);
+  });
+});
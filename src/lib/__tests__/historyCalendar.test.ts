@@ -0,0 +1,68 @@
+// Unit tests for the History month calendar
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getDayActivity,
+  getMonthGrid,
+  shiftCalendarMonth,
+  toCalendarMonth,
+} from '../historyCalendar';
+import { CivLevel, Civilization, ProgressEvent } from '../../types';
+
+const createCivilization = (id: string, classification: CivLevel): Civilization => ({
+  id,
+  name: id,
+  deadline: '2025-12-31',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification },
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const createEvent = (civId: string, date: string): ProgressEvent => ({
+  id: `event-${civId}-${date}`,
+  civId,
+  date,
+  createdAt: 0,
+  updatedAt: 0,
+  levelBefore: 0,
+  levelAfter: 0,
+  levelChange: 0,
+});
+
+describe('historyCalendar', () => {
+  it('shifts months across years', () => {
+    expect(toCalendarMonth('2025-06-30')).toBe('2025-06');
+    expect(shiftCalendarMonth('2025-12', 1)).toBe('2026-01');
+    expect(shiftCalendarMonth('2025-01', -1)).toBe('2024-12');
+  });
+
+  it('covers a month with whole Sunday-to-Saturday weeks', () => {
+    // June 2025 starts on a Sunday and ends on a Monday
+    const grid = getMonthGrid('2025-06');
+
+    expect(grid).toHaveLength(5);
+    expect(grid[0][0]).toEqual({ date: '2025-06-01', inMonth: true });
+    expect(grid[4][1]).toEqual({ date: '2025-06-30', inMonth: true });
+    expect(grid[4][6]).toEqual({ date: '2025-07-05', inMonth: false });
+
+    // February 2026 starts on a Sunday and fills exactly four weeks
+    expect(getMonthGrid('2026-02')).toHaveLength(4);
+    expect(getMonthGrid('2025-07')[0][0]).toEqual({ date: '2025-06-29', inMonth: false });
+  });
+
+  it('colours each day by the levels of the civilizations that progressed', () => {
+    const civilizations = [createCivilization('a', 'village'), createCivilization('b', 'city')];
+    const events = [
+      createEvent('a', '2025-06-10'),
+      createEvent('b', '2025-06-10'),
+      createEvent('a', '2025-06-11'),
+      createEvent('deleted', '2025-06-12'),
+    ];
+    const activity = getDayActivity(events, civilizations);
+
+    expect(activity.get('2025-06-10')).toEqual({ count: 2, levels: ['city', 'village'] });
+    expect(activity.get('2025-06-11')).toEqual({ count: 1, levels: ['village'] });
+    expect(activity.has('2025-06-12')).toBe(false);
+  });
+});
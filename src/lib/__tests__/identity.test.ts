@@ -0,0 +1,150 @@
+// Unit tests for the persisted identity and its upgrades to Firebase users
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AuthCredential, User } from 'firebase/auth';
+import {
+  getOrCreateLocalIdentity,
+  linkIdentity,
+  loadIdentity,
+  resolveIdentity,
+  setAuthClient,
+  upgradeToPermanentAccount,
+} from '../identity';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Fake Firebase auth: the restored session and the account a credential signs in to
+const auth: {
+  currentUser: { uid: string; isAnonymous: boolean } | null;
+  offline: boolean;
+  accountUid: string | null; // uid of an existing account (null = the credential is new)
+} = { currentUser: null, offline: false, accountUid: null };
+
+setAuthClient({
+  waitForAuthReady: async () => undefined,
+  getCurrentUser: () => auth.currentUser as User | null,
+  signInAnonymously: async () => {
+    if (auth.offline) {
+      throw new Error('auth/network-request-failed');
+    }
+    auth.currentUser = { uid: 'anonymous-1', isAnonymous: true };
+    return 'anonymous-1';
+  },
+  signInWithPermanentAccount: async () => {
+    const uid = auth.accountUid ?? auth.currentUser?.uid ?? 'account-new';
+    auth.currentUser = { uid, isAnonymous: false };
+    return uid;
+  },
+});
+
+const CREDENTIAL = {} as AuthCredential;
+
+describe('identity', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    auth.currentUser = null;
+    auth.offline = false;
+    auth.accountUid = null;
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  it('creates the local identity once and keeps it across launches', async () => {
+    const created = await getOrCreateLocalIdentity();
+    expect(created.uid).toMatch(/^local-user-/);
+    expect(created).toMatchObject({ provider: 'local', localUid: created.uid, previousUids: [] });
+
+    expect(await getOrCreateLocalIdentity()).toEqual(created);
+    expect(await loadIdentity()).toEqual(created);
+  });
+
+  it('remembers the uids an identity was linked from', () => {
+    const local = {
+      uid: 'local-1',
+      provider: 'local' as const,
+      localUid: 'local-1',
+      previousUids: [],
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    const anonymous = linkIdentity(local, 'anonymous-1', 'anonymous', 1000);
+    expect(anonymous).toMatchObject({
+      uid: 'anonymous-1',
+      localUid: 'local-1',
+      previousUids: ['local-1'],
+      updatedAt: 1000,
+    });
+    expect(linkIdentity(anonymous, 'anonymous-1', 'anonymous')).toBe(anonymous);
+    // Linking a credential keeps the uid, so there is no previous uid to remember
+    expect(linkIdentity(anonymous, 'anonymous-1', 'permanent', 2000)).toMatchObject({
+      uid: 'anonymous-1',
+      provider: 'permanent',
+      previousUids: ['local-1'],
+    });
+  });
+
+  it('upgrades to anonymous auth once and restores it on later launches', async () => {
+    const local = await getOrCreateLocalIdentity();
+    expect(await resolveIdentity({ anonymousAuth: false })).toEqual({
+      identity: local,
+      previousIdentity: null,
+    });
+
+    const upgraded = await resolveIdentity({ anonymousAuth: true });
+    expect(upgraded.identity).toMatchObject({ uid: 'anonymous-1', provider: 'anonymous' });
+    expect(upgraded.previousIdentity).toEqual(local);
+
+    const relaunched = await resolveIdentity({ anonymousAuth: true });
+    expect(relaunched).toEqual({ identity: upgraded.identity, previousIdentity: null });
+  });
+
+  it('keeps the persisted identity when anonymous sign-in fails', async () => {
+    const local = await getOrCreateLocalIdentity();
+    auth.offline = true;
+
+    expect(await resolveIdentity({ anonymousAuth: true })).toEqual({
+      identity: local,
+      previousIdentity: null,
+    });
+    expect(await loadIdentity()).toEqual(local);
+  });
+
+  it('links an anonymous user to a new account without moving data', async () => {
+    await resolveIdentity({ anonymousAuth: true });
+
+    const { identity, previousIdentity } = await upgradeToPermanentAccount(CREDENTIAL);
+    expect(identity).toMatchObject({ uid: 'anonymous-1', provider: 'permanent' });
+    expect(previousIdentity).toBeNull();
+
+    // The restored account session stays permanent on later launches
+    expect((await resolveIdentity({ anonymousAuth: true })).identity.provider).toBe('permanent');
+  });
+
+  it('switches to an existing account and returns the anonymous identity to migrate', async () => {
+    const anonymous = (await resolveIdentity({ anonymousAuth: true })).identity;
+    auth.accountUid = 'account-1';
+
+    const { identity, previousIdentity } = await upgradeToPermanentAccount(CREDENTIAL);
+    expect(identity).toMatchObject({
+      uid: 'account-1',
+      provider: 'permanent',
+      previousUids: [anonymous.localUid, 'anonymous-1'],
+    });
+    expect(previousIdentity).toEqual(anonymous);
+  });
+
+  it('never replaces a signed-out permanent account with a new anonymous user', async () => {
+    await resolveIdentity({ anonymousAuth: true });
+    const { identity } = await upgradeToPermanentAccount(CREDENTIAL);
+    auth.currentUser = null;
+
+    expect(await resolveIdentity({ anonymousAuth: true })).toEqual({
+      identity,
+      previousIdentity: null,
+    });
+  });
+});
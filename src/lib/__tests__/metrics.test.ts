@@ -0,0 +1,83 @@
+// Unit tests for civilization metrics and their share of the levels
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  formatMetricAmount,
+  getMetricProgress,
+  getMetricSeries,
+  getMetricValue,
+  parseMetricAmount,
+} from '../metrics';
+import { calculateCivilizationLevels } from '../civilizationStateMachine';
+import { CivMetric, ProgressEvent } from '../../types';
+
+const NOW = Date.UTC(2025, 5, 30, 12);
+const HOUR_MS = 60 * 60 * 1000;
+
+const createEvent = (date: string, amount?: number, createdAt: number = NOW): ProgressEvent => ({
+  id: `event-${date}`,
+  civId: 'civ',
+  date,
+  amount,
+  createdAt,
+  updatedAt: createdAt,
+  levelBefore: 0,
+  levelAfter: 0,
+  levelChange: 0,
+});
+
+const running: CivMetric = { unit: 'km', target: 100, mode: 'cumulative' };
+const weight: CivMetric = { unit: 'kg', target: 60, mode: 'latest' };
+
+describe('metrics', () => {
+  // Newest first, as the store keeps them; one entry without an amount
+  const events = [
+    createEvent('2025-06-29', 12.5),
+    createEvent('2025-06-28'),
+    createEvent('2025-06-20', 30),
+    createEvent('2025-06-25', 7.5),
+  ];
+
+  it('adds up cumulative amounts and takes the latest value otherwise', () => {
+    expect(getMetricValue(events, running)).toBe(50);
+    expect(getMetricProgress(events, running)).toBe(0.5);
+    expect(getMetricValue(events, weight)).toBe(12.5);
+    expect(getMetricValue([], running)).toBe(0);
+  });
+
+  it('only counts entries recorded by then and caps progress at the target', () => {
+    const withLate = [...events, createEvent('2025-06-30', 80, NOW + HOUR_MS)];
+
+    expect(getMetricValue(withLate, running, NOW)).toBe(50);
+    expect(getMetricProgress(withLate, running)).toBe(1);
+    expect(getMetricProgress(events, { ...running, target: 0 })).toBe(0);
+  });
+
+  it('builds a chronological series for charts', () => {
+    expect(getMetricSeries(events, running)).toEqual([
+      { date: '2025-06-20', value: 30 },
+      { date: '2025-06-25', value: 37.5 },
+      { date: '2025-06-29', value: 50 },
+    ]);
+    expect(getMetricSeries(events, weight).map(point => point.value)).toEqual([30, 7.5, 12.5]);
+  });
+
+  it('parses and formats amounts', () => {
+    expect(parseMetricAmount(' 1,200.5 ')).toBe(1200.5);
+    expect(parseMetricAmount('')).toBeUndefined();
+    expect(parseMetricAmount('abc')).toBeUndefined();
+    expect(formatMetricAmount(12.345, 'km')).toBe('12.35 km');
+    expect(formatMetricAmount(3, '')).toBe('3');
+  });
+
+  it('adds percent-to-target to the growth level only', () => {
+    const progress = [NOW - 24 * HOUR_MS, NOW];
+    const withoutMetric = calculateCivilizationLevels(NOW, progress);
+    const behind = calculateCivilizationLevels(NOW, progress, undefined, undefined, 0);
+    const reached = calculateCivilizationLevels(NOW, progress, undefined, undefined, 1);
+
+    expect(behind.culturalLevel).toBe(withoutMetric.culturalLevel);
+    expect(behind.growthLevel).toBeLessThan(withoutMetric.growthLevel);
+    expect(reached.growthLevel).toBeGreaterThan(withoutMetric.growthLevel);
+  });
+});
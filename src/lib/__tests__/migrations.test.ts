@@ -0,0 +1,332 @@
+// Unit tests for storage schema migrations
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  MIGRATIONS,
+  MIGRATED_KEYS,
+  CURRENT_SCHEMA_VERSION,
+  SCHEMA_VERSION_KEY,
+  applyMigrations,
+  runStorageMigrations,
+} from '../migrations';
+import { getShardKey } from '../progressEventShards';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-06-01T12:00:00Z').getTime();
+
+const migrationFor = (version: number) => {
+  const migration = MIGRATIONS.find(m => m.version === version);
+  if (!migration) {
+    throw new Error(`Missing migration v${version}`);
+  }
+  return migration;
+};
+
+const legacyCivilization = (id: string, extra: Record<string, unknown> = {}) => ({
+  id,
+  name: `Civ ${id}`,
+  deadline: '2030-01-01',
+  state: 'developing',
+  createdAt: NOW - 60 * DAYS_TO_MS,
+  updatedAt: NOW - 60 * DAYS_TO_MS,
+  ...extra,
+});
+
+describe('migrations', () => {
+  it('are ordered by strictly increasing version', () => {
+    const versions = MIGRATIONS.map(m => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(new Set(versions).size).toBe(versions.length);
+    expect(CURRENT_SCHEMA_VERSION).toBe(versions[versions.length - 1]);
+  });
+
+  describe('v1: add civilization levels', () => {
+    const migrate = migrationFor(1).migrate;
+
+    it('derives levels from progress logs for civilizations without levels', () => {
+      const logs = Array.from({ length: 5 }, (_, i) => ({
+        id: `log-${i}`,
+        civId: 'civ-1',
+        createdAt: NOW - i * DAYS_TO_MS,
+      }));
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.CIVILIZATIONS]: [legacyCivilization('civ-1'), legacyCivilization('civ-2')],
+          [MIGRATED_KEYS.PROGRESS_LOGS]: logs,
+        },
+        NOW
+      );
+
+      const [civ1, civ2] = result[MIGRATED_KEYS.CIVILIZATIONS] as any[];
+      expect(civ1.levels).toEqual({
+        culturalLevel: 50,
+        growthLevel: 25,
+        totalLevel: 38,
+        classification: 'village',
+      });
+      expect(civ2.levels.classification).toBe('grassland');
+    });
+
+    it('keeps existing levels and repairs unknown states', () => {
+      const levels = { culturalLevel: 80, growthLevel: 80, totalLevel: 80, classification: 'city' };
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.CIVILIZATIONS]: [legacyCivilization('civ-1', { levels, state: 'legacy' })],
+        },
+        NOW
+      );
+
+      const [civ] = result[MIGRATED_KEYS.CIVILIZATIONS] as any[];
+      expect(civ.levels).toBe(levels);
+      expect(civ.state).toBe('uninitialized');
+    });
+
+    it('leaves snapshots without civilizations untouched', () => {
+      const snapshot = { [MIGRATED_KEYS.PLANET_GOAL]: { title: 'Goal', deadline: '2030-01-01' } };
+      expect(migrate(snapshot, NOW)).toBe(snapshot);
+    });
+  });
+
+  describe('v2: normalize progress logs', () => {
+    const migrate = migrationFor(2).migrate;
+
+    it('converts ISO timestamps and drops unattributed logs', () => {
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.PROGRESS_LOGS]: [
+            { id: 'a', civId: 'civ-1', createdAt: '2025-05-01T00:00:00.000Z' },
+            { id: 'b', civId: 'civ-1', createdAt: NOW },
+            { id: 'c', createdAt: NOW },
+            { id: 'd', civId: 'civ-1', createdAt: 'not a date' },
+          ],
+        },
+        NOW
+      );
+
+      expect(result[MIGRATED_KEYS.PROGRESS_LOGS]).toEqual([
+        { id: 'a', civId: 'civ-1', createdAt: new Date('2025-05-01T00:00:00.000Z').getTime() },
+        { id: 'b', civId: 'civ-1', createdAt: NOW },
+      ]);
+    });
+  });
+
+  describe('v3: add progress memo levels', () => {
+    const migrate = migrationFor(3).migrate;
+
+    it('reconstructs running levels per civilization in date order', () => {
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.PROGRESS_MEMOS]: [
+            { id: 'm2', civId: 'civ-1', date: '2025-05-02', memo: 'b', createdAt: 2 },
+            { id: 'm1', civId: 'civ-1', date: '2025-05-01', memo: 'a', createdAt: 1 },
+            { id: 'm3', civId: 'civ-2', date: '2025-05-01', memo: 'c', createdAt: 3 },
+          ],
+        },
+        NOW
+      );
+
+      expect(result[MIGRATED_KEYS.PROGRESS_MEMOS]).toEqual([
+        expect.objectContaining({
+          id: 'm2',
+          levelBefore: 1,
+          levelAfter: 2,
+          levelChange: 1,
+          updatedAt: 2,
+        }),
+        expect.objectContaining({
+          id: 'm1',
+          levelBefore: 0,
+          levelAfter: 1,
+          levelChange: 1,
+          updatedAt: 1,
+        }),
+        expect.objectContaining({
+          id: 'm3',
+          levelBefore: 0,
+          levelAfter: 1,
+          levelChange: 1,
+          updatedAt: 3,
+        }),
+      ]);
+    });
+
+    it('continues from memos that already carry levels', () => {
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.PROGRESS_MEMOS]: [
+            {
+              id: 'm1',
+              civId: 'civ-1',
+              date: '2025-05-01',
+              memo: 'a',
+              createdAt: 1,
+              updatedAt: 1,
+              levelBefore: 4,
+              levelAfter: 5,
+              levelChange: 1,
+            },
+            { id: 'm2', civId: 'civ-1', date: '2025-05-02', memo: 'b', createdAt: 2 },
+          ],
+        },
+        NOW
+      );
+
+      const [, second] = result[MIGRATED_KEYS.PROGRESS_MEMOS] as any[];
+      expect(second).toEqual(expect.objectContaining({ levelBefore: 5, levelAfter: 6 }));
+    });
+  });
+
+  describe('v4: merge progress logs and memos', () => {
+    const migrate = migrationFor(4).migrate;
+    const at = (iso: string) => new Date(iso).getTime();
+
+    it('folds same-day logs into memo events and keeps log-only days at the running level', () => {
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.PROGRESS_MEMOS]: [
+            {
+              id: 'm1',
+              civId: 'civ-1',
+              date: '2025-05-01',
+              memo: 'a',
+              createdAt: at('2025-05-01T10:00:00Z'),
+              updatedAt: at('2025-05-01T10:00:00Z'),
+              levelBefore: 0,
+              levelAfter: 1,
+              levelChange: 1,
+            },
+          ],
+          [MIGRATED_KEYS.PROGRESS_LOGS]: [
+            { id: 'l2', civId: 'civ-1', createdAt: at('2025-05-03T09:00:00Z') },
+            { id: 'l1', civId: 'civ-1', createdAt: at('2025-05-01T08:00:00Z') },
+          ],
+        },
+        NOW
+      );
+
+      expect(result[MIGRATED_KEYS.PROGRESS_EVENTS]).toEqual([
+        expect.objectContaining({
+          id: 'm1',
+          date: '2025-05-01',
+          memo: 'a',
+          createdAt: at('2025-05-01T08:00:00Z'),
+          levelAfter: 1,
+        }),
+        expect.objectContaining({
+          id: 'l2',
+          date: '2025-05-03',
+          memo: undefined,
+          levelBefore: 1,
+          levelAfter: 1,
+          levelChange: 0,
+        }),
+      ]);
+      expect(result[MIGRATED_KEYS.PROGRESS_LOGS]).toBeUndefined();
+      expect(result[MIGRATED_KEYS.PROGRESS_MEMOS]).toBeUndefined();
+    });
+
+    it('leaves snapshots without legacy progress untouched', () => {
+      const snapshot = { [MIGRATED_KEYS.PROGRESS_EVENTS]: [] };
+      expect(migrate(snapshot, NOW)).toBe(snapshot);
+    });
+  });
+
+  describe('v5: shard progress events', () => {
+    const migrate = migrationFor(5).migrate;
+    const event = (id: string, civId: string, date: string) => ({ id, civId, date });
+
+    it('splits the event list by civilization and month and indexes the shards', () => {
+      const result = migrate(
+        {
+          [MIGRATED_KEYS.PROGRESS_EVENTS]: [
+            event('e1', 'civ-1', '2025-05-31'),
+            event('e2', 'civ-2', '2025-06-01'),
+            event('e3', 'civ-1', '2025-06-02'),
+            event('e4', 'civ-1', '2025-06-03'),
+          ],
+        },
+        NOW
+      );
+
+      expect(result[MIGRATED_KEYS.PROGRESS_EVENTS]).toBeUndefined();
+      expect(result[MIGRATED_KEYS.PROGRESS_EVENT_INDEX]).toEqual({
+        'civ-1': ['2025-05', '2025-06'],
+        'civ-2': ['2025-06'],
+      });
+      expect(result[getShardKey('civ-1', '2025-05')]).toEqual([event('e1', 'civ-1', '2025-05-31')]);
+      expect(result[getShardKey('civ-1', '2025-06')]).toEqual([
+        event('e3', 'civ-1', '2025-06-02'),
+        event('e4', 'civ-1', '2025-06-03'),
+      ]);
+    });
+
+    it('leaves snapshots without an event list untouched', () => {
+      const snapshot = { [MIGRATED_KEYS.CIVILIZATIONS]: [legacyCivilization('civ-1')] };
+      expect(migrate(snapshot, NOW)).toBe(snapshot);
+    });
+  });
+
+  describe('applyMigrations', () => {
+    it('applies only steps newer than the stored version', () => {
+      const { appliedVersions } = applyMigrations({}, 1, NOW);
+      expect(appliedVersions).toEqual(MIGRATIONS.filter(m => m.version > 1).map(m => m.version));
+    });
+
+    it('is a no-op at the current version', () => {
+      const snapshot = { [MIGRATED_KEYS.CIVILIZATIONS]: [legacyCivilization('civ-1')] };
+      const result = applyMigrations(snapshot, CURRENT_SCHEMA_VERSION, NOW);
+      expect(result.snapshot).toBe(snapshot);
+      expect(result.appliedVersions).toEqual([]);
+    });
+  });
+
+  describe('runStorageMigrations', () => {
+    beforeEach(async () => {
+      await AsyncStorage.clear();
+    });
+
+    it('upgrades unversioned blobs and stamps the schema version', async () => {
+      await AsyncStorage.setItem(
+        MIGRATED_KEYS.CIVILIZATIONS,
+        JSON.stringify([legacyCivilization('civ-1')])
+      );
+
+      expect(await runStorageMigrations(NOW)).toBe(CURRENT_SCHEMA_VERSION);
+      expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+
+      const [civ] = JSON.parse((await AsyncStorage.getItem(MIGRATED_KEYS.CIVILIZATIONS)) ?? '[]');
+      expect(civ.levels.classification).toBe('grassland');
+    });
+
+    it('replaces legacy progress keys with merged, sharded progress events', async () => {
+      await AsyncStorage.setItem(
+        MIGRATED_KEYS.PROGRESS_LOGS,
+        JSON.stringify([{ id: 'l1', civId: 'civ-1', createdAt: NOW }])
+      );
+
+      await runStorageMigrations(NOW);
+
+      expect(await AsyncStorage.getItem(MIGRATED_KEYS.PROGRESS_LOGS)).toBeNull();
+      expect(await AsyncStorage.getItem(MIGRATED_KEYS.PROGRESS_EVENTS)).toBeNull();
+      const index = JSON.parse(
+        (await AsyncStorage.getItem(MIGRATED_KEYS.PROGRESS_EVENT_INDEX)) ?? '{}'
+      );
+      expect(index).toEqual({ 'civ-1': ['2025-06'] });
+      const events = JSON.parse(
+        (await AsyncStorage.getItem(getShardKey('civ-1', '2025-06'))) ?? '[]'
+      );
+      expect(events).toEqual([expect.objectContaining({ id: 'l1', date: '2025-06-01' })]);
+    });
+
+    it('stamps fresh installs without writing data keys', async () => {
+      await runStorageMigrations(NOW);
+      expect(await AsyncStorage.getItem(MIGRATED_KEYS.CIVILIZATIONS)).toBeNull();
+      expect(await AsyncStorage.getItem(SCHEMA_VERSION_KEY)).toBe(String(CURRENT_SCHEMA_VERSION));
+    });
+  });
+});
@@ -0,0 +1,69 @@
+// Unit tests for civilization milestones and their share of the levels
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createMilestone,
+  getMilestoneDeadlineState,
+  getMilestoneProgress,
+  getNextMilestone,
+  moveMilestone,
+  toggleMilestone,
+} from '../milestones';
+import { calculateCivilizationLevels } from '../civilizationStateMachine';
+import { CivMilestone } from '../../types';
+
+const NOW = Date.UTC(2025, 5, 30, 12);
+const HOUR_MS = 60 * 60 * 1000;
+
+const milestone = (id: string, weight: number, completedAt?: number): CivMilestone => ({
+  id,
+  title: id,
+  weight,
+  completedAt,
+});
+
+describe('milestones', () => {
+  it('creates open milestones with the default weight', () => {
+    const created = createMilestone('  Draft chapter 1 ', { dueDate: '2025-07-15' }, NOW);
+
+    expect(created.title).toBe('Draft chapter 1');
+    expect(created.weight).toBe(1);
+    expect(created.completedAt).toBeUndefined();
+    expect(getMilestoneDeadlineState(created, '2025-06-30')).toBe('onTrack');
+    expect(getMilestoneDeadlineState(created, '2025-07-16')).toBe('overdue');
+    expect(getMilestoneDeadlineState(milestone('no-due', 1), '2025-07-16')).toBeUndefined();
+    // No undefined key, which Firestore would reject inside the milestones array
+    expect(createMilestone('Outline', {}, NOW)).not.toHaveProperty('dueDate');
+  });
+
+  it('weighs progress by the milestones checked off by then', () => {
+    const milestones = [milestone('a', 1, NOW - HOUR_MS), milestone('b', 3), milestone('c', 1)];
+
+    expect(getMilestoneProgress(milestones, NOW)).toBeCloseTo(0.2);
+    expect(getMilestoneProgress(toggleMilestone(milestones, 'b', NOW), NOW)).toBeCloseTo(0.8);
+    // Checked off after `now` does not count yet
+    expect(getMilestoneProgress(milestones, NOW - 2 * HOUR_MS)).toBe(0);
+    expect(getMilestoneProgress([], NOW)).toBe(0);
+  });
+
+  it('toggles, reorders and finds the next open milestone', () => {
+    const milestones = [milestone('a', 1, NOW), milestone('b', 1), milestone('c', 1)];
+
+    expect(getNextMilestone(milestones)?.id).toBe('b');
+    expect(toggleMilestone(milestones, 'a')[0].completedAt).toBeUndefined();
+    expect(moveMilestone(milestones, 'c', -1).map(m => m.id)).toEqual(['a', 'c', 'b']);
+    expect(moveMilestone(milestones, 'a', -1)).toBe(milestones);
+  });
+
+  it('adds checked-off milestones to the growth level only', () => {
+    const progress = [NOW - 24 * HOUR_MS, NOW];
+    const withoutMilestones = calculateCivilizationLevels(NOW, progress);
+    const open = calculateCivilizationLevels(NOW, progress, undefined, [milestone('a', 1)]);
+    const done = calculateCivilizationLevels(NOW, progress, undefined, [milestone('a', 1, NOW)]);
+
+    expect(open.culturalLevel).toBe(withoutMilestones.culturalLevel);
+    expect(open.growthLevel).toBeLessThan(withoutMilestones.growthLevel);
+    expect(done.growthLevel).toBeGreaterThan(withoutMilestones.growthLevel);
+    expect(done.totalLevel).toBeGreaterThan(withoutMilestones.totalLevel);
+  });
+});
@@ -0,0 +1,203 @@
+// Unit tests for planet backup export/import
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  PLANET_BACKUP_FORMAT,
+  PLANET_BACKUP_VERSION,
+  PlanetBackup,
+  PlanetData,
+  createPlanetBackup,
+  serializePlanetBackup,
+  parsePlanetBackup,
+  findPlanetImportConflicts,
+  applyPlanetBackup,
+} from '../planetBackup';
+import { Civilization, PlanetGoalRevision, ProgressEvent, StateTransition } from '../../types';
+
+const NOW = new Date('2025-06-01T12:00:00Z').getTime();
+
+const civilization = (id: string, name: string = `Civ ${id}`): Civilization => ({
+  id,
+  name,
+  deadline: '2030-01-01',
+  state: 'developing',
+  levels: { culturalLevel: 10, growthLevel: 5, totalLevel: 7.5, classification: 'grassland' },
+  lastProgressAt: NOW,
+  createdAt: NOW,
+  updatedAt: NOW,
+});
+
+const event = (id: string, civId: string, date: string): ProgressEvent => ({
+  id,
+  civId,
+  date,
+  memo: 'memo',
+  createdAt: NOW,
+  updatedAt: NOW,
+  levelBefore: 0,
+  levelAfter: 1,
+  levelChange: 1,
+});
+
+const transition = (civId: string, timestamp: number): StateTransition => ({
+  id: `transition-${civId}-${timestamp}`,
+  civId,
+  from: 'developing',
+  to: 'decaying',
+  timestamp,
+  trigger: 'staleness',
+});
+
+const revision = (id: string, title: string, timestamp: number): PlanetGoalRevision => ({
+  id,
+  title,
+  deadline: '2030-01-01',
+  timestamp,
+});
+
+const localPlanet: PlanetData = {
+  planetGoal: { title: 'Local goal', deadline: '2030-01-01' },
+  goalRevisions: [
+    revision('revision-1', 'First goal', NOW - 3000),
+    { ...revision('revision-2', 'Local goal', NOW - 2000), reason: 'Narrowed the scope' },
+  ],
+  civilizations: [civilization('civ-a', 'Local A'), civilization('civ-b')],
+  progressEvents: [event('e-a', 'civ-a', '2025-05-01'), event('e-b', 'civ-b', '2025-05-01')],
+  stateTransitions: [transition('civ-a', NOW - 2000), transition('civ-b', NOW - 1000)],
+};
+
+describe('planetBackup', () => {
+  it('round-trips an exported planet', () => {
+    const json = serializePlanetBackup(createPlanetBackup(localPlanet, NOW));
+    const result = parsePlanetBackup(json);
+
+    expect(result).toEqual({
+      ok: true,
+      backup: {
+        format: PLANET_BACKUP_FORMAT,
+        version: PLANET_BACKUP_VERSION,
+        exportedAt: NOW,
+        ...localPlanet,
+      },
+    });
+  });
+
+  it('accepts backups written before the transition log and skips orphaned transitions', () => {
+    const backup = createPlanetBackup(
+      {
+        ...localPlanet,
+        stateTransitions: [...localPlanet.stateTransitions, transition('gone', NOW)],
+      },
+      NOW
+    );
+    expect(backup.stateTransitions).toEqual(localPlanet.stateTransitions);
+
+    const withoutLog: Partial<typeof backup> = { ...backup };
+    delete withoutLog.stateTransitions;
+    const result = parsePlanetBackup(JSON.stringify(withoutLog));
+    expect(result.ok && result.backup.stateTransitions).toEqual([]);
+  });
+
+  it('reads version 1 backups as having no vision history', () => {
+    const versionOne: Partial<PlanetBackup> = {
+      ...createPlanetBackup(localPlanet, NOW),
+      version: 1,
+    };
+    delete versionOne.goalRevisions;
+    const result = parsePlanetBackup(JSON.stringify(versionOne));
+    expect(result.ok && result.backup.goalRevisions).toEqual([]);
+
+    // From version 2 on the vision history is required
+    const versionTwo: Partial<PlanetBackup> = createPlanetBackup(localPlanet, NOW);
+    delete versionTwo.goalRevisions;
+    expect(parsePlanetBackup(JSON.stringify(versionTwo))).toEqual({
+      ok: false,
+      errors: ['goalRevisions must be an array'],
+    });
+  });
+
+  it('rejects malformed JSON, unknown formats and newer versions', () => {
+    expect(parsePlanetBackup('{')).toEqual({ ok: false, errors: ['Not valid JSON'] });
+    expect(parsePlanetBackup('{"format":"other"}').ok).toBe(false);
+
+    const newer = { ...createPlanetBackup(localPlanet, NOW), version: PLANET_BACKUP_VERSION + 1 };
+    const result = parsePlanetBackup(JSON.stringify(newer));
+    expect(result.ok).toBe(false);
+  });
+
+  it('reports every invalid field', () => {
+    const backup = JSON.parse(serializePlanetBackup(createPlanetBackup(localPlanet, NOW)));
+    backup.civilizations.push({ ...civilization('civ-a'), state: 'flooded' });
+    backup.progressEvents.push(event('e-x', 'civ-missing', 'yesterday'));
+    backup.goalRevisions.push({ ...revision('revision-1', '', NOW), deadline: 'someday' });
+
+    const result = parsePlanetBackup(JSON.stringify(backup));
+    expect(result.ok).toBe(false);
+    if (!result.ok) {
+      expect(result.errors).toEqual(
+        expect.arrayContaining([
+          expect.stringContaining('civilizations[2].state'),
+          expect.stringContaining('civilizations[2].id "civ-a" is duplicated'),
+          expect.stringContaining('progressEvents[2].civId'),
+          expect.stringContaining('progressEvents[2].date'),
+          expect.stringContaining('goalRevisions[2].title'),
+          expect.stringContaining('goalRevisions[2].deadline'),
+          expect.stringContaining('goalRevisions[2].id "revision-1" is duplicated'),
+        ])
+      );
+    }
+  });
+
+  it('finds conflicts by civilization id', () => {
+    const backup = createPlanetBackup(
+      {
+        planetGoal: null,
+        goalRevisions: [],
+        civilizations: [civilization('civ-a', 'Imported A'), civilization('civ-c')],
+        progressEvents: [],
+        stateTransitions: [],
+      },
+      NOW
+    );
+
+    expect(findPlanetImportConflicts(localPlanet.civilizations, backup)).toEqual([
+      { civId: 'civ-a', localName: 'Local A', importedName: 'Imported A' },
+    ]);
+  });
+
+  describe('applyPlanetBackup', () => {
+    const backup = createPlanetBackup(
+      {
+        planetGoal: { title: 'Imported goal', deadline: '2031-01-01' },
+        goalRevisions: [revision('revision-imported', 'Imported goal', NOW - 1000)],
+        civilizations: [civilization('civ-a', 'Imported A'), civilization('civ-c')],
+        progressEvents: [event('e-a2', 'civ-a', '2025-05-02'), event('e-c', 'civ-c', '2025-05-02')],
+        stateTransitions: [transition('civ-c', NOW)],
+      },
+      NOW
+    );
+
+    it('merges, letting imported civilizations and their events win on conflicts', () => {
+      const result = applyPlanetBackup(localPlanet, backup, 'merge');
+
+      expect(result.planetGoal?.title).toBe('Local goal');
+      expect(result.goalRevisions).toEqual(localPlanet.goalRevisions);
+      expect(result.civilizations.map(civ => [civ.id, civ.name])).toEqual([
+        ['civ-b', 'Civ civ-b'],
+        ['civ-a', 'Imported A'],
+        ['civ-c', 'Civ civ-c'],
+      ]);
+      expect(result.progressEvents.map(e => e.id)).toEqual(['e-b', 'e-a2', 'e-c']);
+      expect(result.stateTransitions.map(t => t.civId)).toEqual(['civ-b', 'civ-c']);
+    });
+
+    it('replaces local civilizations and progress', () => {
+      const result = applyPlanetBackup(localPlanet, backup, 'replace');
+
+      expect(result.planetGoal?.title).toBe('Imported goal');
+      expect(result.goalRevisions.map(r => r.id)).toEqual(['revision-imported']);
+      expect(result.civilizations.map(civ => civ.id)).toEqual(['civ-a', 'civ-c']);
+      expect(result.progressEvents.map(e => e.id)).toEqual(['e-a2', 'e-c']);
+    });
+  });
+});
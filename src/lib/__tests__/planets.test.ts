@@ -0,0 +1,48 @@
+// Planet helpers and the per-planet data layout
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_PLANET_ID,
+  createPlanet,
+  getPlanetAppearance,
+  getPlanetStorageKey,
+  resolveActivePlanetId,
+  withDefaultPlanet,
+} from '../planets';
+import { civilizationDoc, planetDoc, planetGoalDoc, progressCol } from '../../repositories/paths';
+
+describe('planets', () => {
+  it('always lists the default planet first', () => {
+    const health = createPlanet(' Health ', 'forest', 1000);
+    expect(health.name).toBe('Health');
+
+    expect(withDefaultPlanet([]).map(planet => planet.id)).toEqual([DEFAULT_PLANET_ID]);
+    expect(
+      withDefaultPlanet([health, { ...health, id: DEFAULT_PLANET_ID, name: 'Career' }]).map(
+        planet => planet.name
+      )
+    ).toEqual(['Career', 'Health']);
+  });
+
+  it('falls back to the default planet when the active one is gone', () => {
+    const planets = withDefaultPlanet([createPlanet('Health', undefined, 1000)]);
+
+    expect(resolveActivePlanetId(planets, planets[1].id)).toBe(planets[1].id);
+    expect(resolveActivePlanetId(planets, 'planet-removed')).toBe(DEFAULT_PLANET_ID);
+    expect(resolveActivePlanetId(planets, null)).toBe(DEFAULT_PLANET_ID);
+    expect(getPlanetAppearance(planets[1])).toBe('ocean');
+  });
+
+  it('keeps the default planet in the original locations and scopes the others', () => {
+    expect(getPlanetStorageKey(DEFAULT_PLANET_ID, 'civilizations')).toBe('civilizations');
+    expect(getPlanetStorageKey('planet-1', 'civilizations')).toBe('planet:planet-1:civilizations');
+
+    expect(planetGoalDoc('u1', DEFAULT_PLANET_ID)).toBe('users/u1/planetGoal/goal');
+    expect(civilizationDoc('u1', DEFAULT_PLANET_ID, 'civ-1')).toBe('users/u1/civilizations/civ-1');
+    expect(planetDoc('u1', 'planet-1')).toBe('users/u1/planets/planet-1');
+    expect(planetGoalDoc('u1', 'planet-1')).toBe('users/u1/planets/planet-1/planetGoal/goal');
+    expect(progressCol('u1', 'planet-1', 'civ-1')).toBe(
+      'users/u1/planets/planet-1/civilizations/civ-1/progressEvents'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+// Unit tests for backfilling progress on past dates
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  createProgressEvent,
+  getBackfillDates,
+  isWithinBackfillWindow,
+  recalculateProgressLevels,
+} from '../progressEvents';
+import { calculateCivilizationLevels } from '../civilizationStateMachine';
+import { ProgressEvent } from '../../types';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 5, 30, 12).getTime();
+const at = (daysAgo: number) => NOW - daysAgo * DAYS_TO_MS;
+
+describe('progress backfill', () => {
+  it('allows today and the window before it', () => {
+    expect(isWithinBackfillWindow('2025-06-30', 7, '2025-06-30')).toBe(true);
+    expect(isWithinBackfillWindow('2025-06-23', 7, '2025-06-30')).toBe(true);
+    expect(isWithinBackfillWindow('2025-06-22', 7, '2025-06-30')).toBe(false);
+    expect(isWithinBackfillWindow('2025-07-01', 7, '2025-06-30')).toBe(false);
+    expect(isWithinBackfillWindow('2025-06-29', 0, '2025-06-30')).toBe(false);
+
+    expect(getBackfillDates(2, '2025-07-01')).toEqual(['2025-07-01', '2025-06-30', '2025-06-29']);
+  });
+
+  it('creates a backfilled entry at the start of its day', () => {
+    const event = createProgressEvent([], 'civ-a', { memo: 'late', date: '2025-06-28' }, NOW);
+
+    expect(event.date).toBe('2025-06-28');
+    expect(event.createdAt).toBe(new Date(2025, 5, 28).getTime());
+    expect(event.updatedAt).toBe(NOW);
+    expect(event.backfilled).toBe(true);
+    expect(createProgressEvent([], 'civ-a', {}, NOW).backfilled).toBeUndefined();
+  });
+
+  it('scores a backfilled entry against the entries before its date only', () => {
+    const today = createProgressEvent([], 'civ-a', {}, NOW);
+    const backfilled = createProgressEvent([today], 'civ-a', { date: '2025-06-29' }, at(0) + 1);
+
+    expect(backfilled.levelBefore).toBe(0);
+    expect(backfilled.levelAfter).toBe(
+      calculateCivilizationLevels(backfilled.createdAt, [backfilled.createdAt]).totalLevel
+    );
+  });
+
+  it('recomputes later entries after filling a gap', () => {
+    const events: ProgressEvent[] = [];
+    [3, 1, 0].forEach(daysAgo => {
+      events.push(createProgressEvent(events, 'civ-a', {}, at(daysAgo)));
+    });
+    const other = createProgressEvent([], 'civ-b', {}, at(0) + 2);
+    const backfilled = createProgressEvent(events, 'civ-a', { date: '2025-06-28' }, NOW + 1);
+    const all = [...events, backfilled, other];
+
+    const changed = recalculateProgressLevels(all, 'civ-a', backfilled.date);
+    const changedIds = changed.map(event => event.id);
+
+    // The entries on and before the backfilled day keep their levels, later ones move up
+    expect(changedIds).toEqual([events[1].id, events[2].id]);
+    expect(changed[0].levelBefore).toBeGreaterThan(events[1].levelBefore);
+    changed.forEach(event => {
+      expect(event.levelChange).toBe(event.levelAfter - event.levelBefore);
+    });
+
+    // Deleting the entry again restores the original levels
+    const restored = recalculateProgressLevels(
+      all
+        .filter(event => event.id !== backfilled.id)
+        .map(event => changed.find(c => c.id === event.id) ?? event),
+      'civ-a',
+      backfilled.date
+    );
+    expect(restored).toEqual([events[1], events[2]]);
+  });
+});
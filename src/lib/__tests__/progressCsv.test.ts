@@ -0,0 +1,118 @@
+// Unit tests for progress CSV export
+
+import { describe, it, expect } from '@jest/globals';
+import { buildProgressCsv, filterProgressEvents, deriveStatesAtEvents } from '../progressCsv';
+import { CivCadence, Civilization, ProgressEvent } from '../../types';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+const START = new Date('2025-05-01T09:00:00Z').getTime();
+
+const civilization = (id: string, name: string, cadence?: CivCadence): Civilization => ({
+  id,
+  name,
+  cadence,
+  deadline: '2030-01-01',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+  createdAt: START,
+  updatedAt: START,
+});
+
+const event = (
+  id: string,
+  civId: string,
+  day: number,
+  memo?: string,
+  levelBefore: number = 0
+): ProgressEvent => {
+  const createdAt = START + day * DAYS_TO_MS;
+  return {
+    id,
+    civId,
+    date: new Date(createdAt).toISOString().split('T')[0],
+    memo,
+    createdAt,
+    updatedAt: createdAt,
+    levelBefore,
+    levelAfter: levelBefore + 1,
+    levelChange: 1,
+  };
+};
+
+const civilizations = [civilization('civ-a', 'English'), civilization('civ-b', 'Running, daily')];
+const events = [
+  event('a1', 'civ-a', 0, 'first'),
+  event('b1', 'civ-b', 1),
+  event('a2', 'civ-a', 10, 'said "hello", again', 1),
+  event('a3', 'civ-a', 40, '=SUM(A1)', 2),
+];
+
+describe('progressCsv', () => {
+  it('filters by civilization and inclusive date range', () => {
+    expect(
+      filterProgressEvents(events, { civId: 'civ-a', from: '2025-05-11', to: '2025-06-10' }).map(
+        e => e.id
+      )
+    ).toEqual(['a2', 'a3']);
+    expect(filterProgressEvents(events, {})).toHaveLength(events.length);
+  });
+
+  it('derives the state each civilization was in when the entry was recorded', () => {
+    const states = deriveStatesAtEvents(events, civilizations);
+    expect(states.get('a1')).toBe('uninitialized');
+    expect(states.get('b1')).toBe('uninitialized');
+    expect(states.get('a2')).toBe('decaying');
+    expect(states.get('a3')).toBe('ocean');
+  });
+
+  it("uses each civilization's cadence for the state at an entry", () => {
+    const weekly = [civilization('civ-w', 'Reading', { type: 'weekly' })];
+    const weeklyEvents = [
+      event('w1', 'civ-w', 0),
+      event('w2', 'civ-w', 10), // 1.4 weeks missed: still developing (7 days would be decaying)
+      event('w3', 'civ-w', 50), // 5.7 weeks missed: decaying (21 days would be the ocean)
+    ];
+
+    const states = deriveStatesAtEvents(weeklyEvents, weekly);
+    expect(states.get('w2')).toBe('developing');
+    expect(states.get('w3')).toBe('decaying');
+
+    const csv = buildProgressCsv(weeklyEvents, weekly);
+    expect(csv).toContain('Reading,2025-05-11,,0,1,1,developing');
+    expect(csv).toContain('Reading,2025-06-20,,0,1,1,decaying');
+  });
+
+  it('replays the revival phase after the ocean', () => {
+    const revivalEvents = [
+      ...events,
+      event('a4', 'civ-a', 41),
+      event('a5', 'civ-a', 42),
+      event('a6', 'civ-a', 43),
+    ];
+
+    const states = deriveStatesAtEvents(revivalEvents, civilizations);
+    expect(states.get('a3')).toBe('ocean');
+    expect(states.get('a4')).toBe('reviving');
+    expect(states.get('a5')).toBe('reviving');
+    expect(states.get('a6')).toBe('developing'); // 3 consecutive days revive it
+  });
+
+  it('builds one escaped row per entry with a header', () => {
+    const csv = buildProgressCsv(events, civilizations);
+
+    expect(csv.split('\r\n')).toEqual([
+      'civilization,date,memo,levelBefore,levelAfter,levelChange,state',
+      'English,2025-05-01,first,0,1,1,uninitialized',
+      '"Running, daily",2025-05-02,,0,1,1,uninitialized',
+      'English,2025-05-11,"said ""hello"", again",1,2,1,decaying',
+      "English,2025-06-10,'=SUM(A1),2,3,1,ocean",
+      '',
+    ]);
+  });
+
+  it('keeps states from the full history when filtering', () => {
+    const csv = buildProgressCsv(events, civilizations, { from: '2025-05-11', civId: 'civ-a' });
+    expect(csv).toContain('2025-05-11,"said ""hello"", again",1,2,1,decaying');
+    expect(csv).not.toContain('first');
+  });
+});
@@ -0,0 +1,226 @@
+// Unit tests for reminder planning (daily nudge and decay warning)
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  DAILY_NUDGE_DAYS,
+  DEFAULT_REMINDER,
+  MAX_SCHEDULED_REMINDERS,
+  PlannedReminder,
+  ReminderScheduler,
+  getDecayStartAt,
+  isValidReminderTime,
+  planCivilizationReminders,
+  planReminders,
+  syncReminders,
+} from '../reminders';
+import { setTimeZone } from '../calendarDay';
+import { Civilization } from '../../types';
+
+const MINUTES_TO_MS = 60 * 1000;
+
+// Wall-clock time in Tokyo (UTC+9, no daylight saving); days past 30 roll into July
+const jst = (day: number, hour: number, minute: number = 0) =>
+  Date.UTC(2025, 5, day, hour - 9, minute);
+
+const NOW = jst(30, 12); // Monday 2025-06-30 12:00
+
+const createCivilization = (patch: Partial<Civilization> = {}): Civilization => ({
+  id: 'civ-a',
+  name: 'Rust',
+  deadline: '2025-12-31',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+  reminder: DEFAULT_REMINDER,
+  lastProgressAt: jst(28, 10),
+  createdAt: 0,
+  updatedAt: 0,
+  ...patch,
+});
+
+describe('reminders', () => {
+  afterEach(() => {
+    setTimeZone();
+  });
+
+  it('validates reminder times', () => {
+    expect(isValidReminderTime('20:00')).toBe(true);
+    expect(isValidReminderTime('00:00')).toBe(true);
+    expect(isValidReminderTime('23:59')).toBe(true);
+    expect(isValidReminderTime('24:00')).toBe(false);
+    expect(isValidReminderTime('9:00')).toBe(false);
+    expect(isValidReminderTime('')).toBe(false);
+  });
+
+  it('nudges today, or tomorrow once today has progress or the time has passed', () => {
+    setTimeZone('Asia/Tokyo');
+    const daily = (civilization: Civilization, now: number) =>
+      planCivilizationReminders(civilization, now).find(reminder => reminder.kind === 'daily');
+
+    expect(daily(createCivilization(), NOW)?.fireAt).toBe(jst(30, 20));
+    expect(daily(createCivilization({ lastProgressAt: jst(30, 9) }), NOW)?.fireAt).toBe(
+      jst(31, 20)
+    );
+    expect(daily(createCivilization(), jst(30, 21))?.fireAt).toBe(jst(31, 20));
+    expect(daily(createCivilization({ lastProgressAt: undefined }), NOW)?.fireAt).toBe(jst(30, 20));
+  });
+
+  it('nudges on each of the following days so nudges keep coming without a launch', () => {
+    setTimeZone('Asia/Tokyo');
+    const civilization = createCivilization({
+      reminder: { ...DEFAULT_REMINDER, decayWarning: false },
+    });
+
+    const nudges = planCivilizationReminders(civilization, NOW);
+    expect(nudges).toHaveLength(DAILY_NUDGE_DAYS);
+    expect(nudges.map(reminder => reminder.fireAt)).toEqual(
+      Array.from({ length: DAILY_NUDGE_DAYS }, (_, i) => jst(30 + i, 20))
+    );
+    expect(nudges[0].id).toBe('reminder-civ-a-daily-2025-06-30');
+    expect(nudges[1].id).toBe('reminder-civ-a-daily-2025-07-01');
+
+    // With progress today the week starts tomorrow
+    const progressed = planCivilizationReminders(
+      { ...civilization, lastProgressAt: jst(30, 9) },
+      NOW
+    );
+    expect(progressed[0].fireAt).toBe(jst(31, 20));
+    expect(progressed[DAILY_NUDGE_DAYS - 1].fireAt).toBe(jst(37, 20));
+  });
+
+  it('keeps nudges at the reminder time across a daylight saving change', () => {
+    setTimeZone('America/New_York');
+    // Clocks go forward at 02:00 on Sunday 2025-03-09 (UTC-5 before, UTC-4 after)
+    const now = Date.UTC(2025, 2, 7, 17); // Friday 12:00
+    const civilization = createCivilization({
+      lastProgressAt: undefined,
+      reminder: { ...DEFAULT_REMINDER, time: '20:00', decayWarning: false },
+    });
+
+    const fireAts = planCivilizationReminders(civilization, now).map(reminder => reminder.fireAt);
+    expect(fireAts.slice(0, 4)).toEqual([
+      Date.UTC(2025, 2, 8, 1), // 03-07 20:00 EST
+      Date.UTC(2025, 2, 9, 1), // 03-08 20:00 EST
+      Date.UTC(2025, 2, 10, 0), // 03-09 20:00 EDT
+      Date.UTC(2025, 2, 11, 0), // 03-10 20:00 EDT
+    ]);
+  });
+
+  it('warns at the reminder time on the day before decay starts', () => {
+    setTimeZone('Asia/Tokyo');
+    const civilization = createCivilization();
+
+    // No cadence: decaying 7 days after the last progress
+    const decayStartAt = getDecayStartAt(civilization, NOW) as number;
+    expect(decayStartAt).toBeGreaterThanOrEqual(jst(35, 10));
+    expect(decayStartAt).toBeLessThan(jst(35, 10) + MINUTES_TO_MS);
+
+    const planned = planCivilizationReminders(civilization, NOW);
+    expect(planned.filter(reminder => reminder.kind === 'decayWarning')).toEqual([
+      {
+        id: 'reminder-civ-a-decay',
+        civId: 'civ-a',
+        civName: 'Rust',
+        kind: 'decayWarning',
+        fireAt: jst(34, 20),
+      },
+    ]);
+    // The warning replaces that day's nudge
+    expect(
+      planned.filter(reminder => reminder.kind === 'daily').map(reminder => reminder.fireAt)
+    ).toEqual([jst(30, 20), jst(31, 20), jst(32, 20), jst(33, 20), jst(35, 20), jst(36, 20)]);
+  });
+
+  it('follows the cadence when finding the decay start', () => {
+    setTimeZone('Asia/Tokyo');
+    // Mondays and Wednesdays: decaying once Wednesday 07-02 and Monday 07-07 are both missed
+    const civilization = createCivilization({
+      cadence: { type: 'weekdays', weekdays: [1, 3] },
+      lastProgressAt: jst(30, 10),
+      reminder: { ...DEFAULT_REMINDER, enabled: false },
+    });
+
+    const decayStartAt = getDecayStartAt(civilization, NOW) as number;
+    expect(decayStartAt).toBeGreaterThanOrEqual(jst(38, 0));
+    expect(decayStartAt).toBeLessThan(jst(38, 0) + MINUTES_TO_MS);
+    expect(planCivilizationReminders(civilization, NOW).map(reminder => reminder.fireAt)).toEqual([
+      jst(37, 20),
+    ]);
+  });
+
+  it('skips warnings that cannot help anymore', () => {
+    setTimeZone('Asia/Tokyo');
+    const kinds = (civilization: Civilization, now: number) =>
+      planCivilizationReminders(civilization, now).map(reminder => reminder.kind);
+    const nudgesOnly = Array(DAILY_NUDGE_DAYS).fill('daily');
+
+    // Already decaying, never progressed, or the warning time has passed
+    expect(kinds(createCivilization({ lastProgressAt: jst(20, 10) }), NOW)).toEqual(nudgesOnly);
+    expect(kinds(createCivilization({ lastProgressAt: undefined }), NOW)).toEqual(nudgesOnly);
+    expect(kinds(createCivilization(), jst(34, 21))).toEqual(nudgesOnly);
+    expect(getDecayStartAt(createCivilization({ lastProgressAt: jst(20, 10) }), NOW)).toBeNull();
+  });
+
+  it('plans nothing for disabled or malformed settings', () => {
+    setTimeZone('Asia/Tokyo');
+
+    expect(planCivilizationReminders(createCivilization({ reminder: undefined }), NOW)).toEqual([]);
+    expect(
+      planCivilizationReminders(
+        createCivilization({ reminder: { enabled: false, time: '20:00', decayWarning: false } }),
+        NOW
+      )
+    ).toEqual([]);
+    expect(
+      planCivilizationReminders(
+        createCivilization({ reminder: { ...DEFAULT_REMINDER, time: '25:00' } }),
+        NOW
+      )
+    ).toEqual([]);
+  });
+
+  it('replaces scheduled reminders with the plan, soonest first', async () => {
+    setTimeZone('Asia/Tokyo');
+    const calls: string[] = [];
+    const scheduler: ReminderScheduler = {
+      cancelAll: async () => {
+        calls.push('cancelAll');
+      },
+      schedule: async (reminder: PlannedReminder) => {
+        calls.push(reminder.id);
+      },
+    };
+    const civilizations = [
+      createCivilization(),
+      createCivilization({ id: 'civ-b', reminder: { ...DEFAULT_REMINDER, time: '07:30' } }),
+    ];
+
+    const planned = await syncReminders(scheduler, civilizations, NOW);
+
+    expect(planned).toEqual(planReminders(civilizations, NOW));
+    expect(calls).toEqual(['cancelAll', ...planned.map(reminder => reminder.id)]);
+    expect(calls.slice(0, 8)).toEqual([
+      'cancelAll',
+      'reminder-civ-a-daily-2025-06-30',
+      'reminder-civ-b-daily-2025-07-01',
+      'reminder-civ-a-daily-2025-07-01',
+      'reminder-civ-b-daily-2025-07-02',
+      'reminder-civ-a-daily-2025-07-02',
+      'reminder-civ-b-daily-2025-07-03',
+      'reminder-civ-a-daily-2025-07-03',
+    ]);
+    expect(calls.slice(8, 10)).toEqual(['reminder-civ-b-decay', 'reminder-civ-a-decay']);
+  });
+
+  it('keeps only the soonest reminders within the platform limit', () => {
+    setTimeZone('Asia/Tokyo');
+    const civilizations = Array.from({ length: 12 }, (_, i) =>
+      createCivilization({ id: `civ-${i}` })
+    );
+
+    // 12 civilizations plan 84 reminders; the nudges of the last days are dropped
+    const planned = planReminders(civilizations, NOW);
+    expect(planned).toHaveLength(MAX_SCHEDULED_REMINDERS);
+    expect(planned.filter(reminder => reminder.kind === 'decayWarning')).toHaveLength(12);
+    expect(planned.every(reminder => reminder.fireAt <= jst(35, 20))).toBe(true);
+  });
+});
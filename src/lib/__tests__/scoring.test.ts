@@ -0,0 +1,166 @@
+// Unit tests for the scoring engine
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import {
+  DEFAULT_SCORING_CONFIG,
+  ScoringEngine,
+  classifyLevel,
+  createScoringEngine,
+  defaultScoringEngine,
+  getDeadlinePressure,
+  getScoringEngine,
+  setScoringEngine,
+  toProgressDays,
+} from '../scoring';
+import { calculateCivilizationLevels } from '../civilizationStateMachine';
+import { createProgressEvent } from '../progressEvents';
+import { toDayNumber } from '../calendarDay';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 5, 30, 12).getTime();
+const daysAgo = (days: number, hour: number = 12) => new Date(2025, 5, 30 - days, hour).getTime();
+const lastDays = (count: number) => Array.from({ length: count }, (_, i) => daysAgo(i));
+
+const score = (progressTimestamps: number[], deadline?: string) =>
+  defaultScoringEngine.calculateLevels({ now: NOW, progressTimestamps, deadline });
+
+describe('scoring', () => {
+  afterEach(() => {
+    setScoringEngine();
+  });
+
+  it('scores an empty history as grassland 0', () => {
+    expect(score([])).toEqual({
+      culturalLevel: 0,
+      growthLevel: 0,
+      totalLevel: 0,
+      classification: 'grassland',
+    });
+  });
+
+  describe('daily de-duplication', () => {
+    it('counts many entries on one day as a single day', () => {
+      const tenOnOneDay = Array.from({ length: 10 }, (_, i) => daysAgo(0, i));
+      expect(score(tenOnOneDay)).toEqual(score([daysAgo(0)]));
+      expect(score(tenOnOneDay).classification).toBe('grassland');
+    });
+
+    it('groups by day, sorts and ignores future timestamps', () => {
+      expect(toProgressDays([daysAgo(0, 20), daysAgo(2), daysAgo(0, 1), NOW + 1], NOW)).toEqual([
+        toDayNumber('2025-06-28'),
+        toDayNumber('2025-06-30'),
+      ]);
+    });
+  });
+
+  describe('streak bonus', () => {
+    it('scores consecutive days higher than the same number of scattered days', () => {
+      const streak = [daysAgo(0), daysAgo(1), daysAgo(2), daysAgo(3)];
+      const scattered = [daysAgo(0), daysAgo(2), daysAgo(4), daysAgo(6)];
+      expect(score(streak).culturalLevel).toBeGreaterThan(score(scattered).culturalLevel);
+    });
+
+    it('caps the bonus', () => {
+      const engine = createScoringEngine({
+        culturalHalfLifeDays: 1e9,
+        growthHalfLifeDays: 1e9,
+        culturalTarget: 1000,
+        growthTarget: 1000,
+      });
+      const levels = engine.calculateLevels({ now: NOW, progressTimestamps: lastDays(20) });
+      // 1 + 1.1 + 1.2 + 1.3 + 1.4 + 15 days at the 1.5 cap = 28.5 points
+      expect(levels.culturalLevel).toBe(Math.round((28.5 / 1000) * 100));
+    });
+  });
+
+  describe('recency decay', () => {
+    it('halves a day every cultural half-life', () => {
+      const engine = createScoringEngine({ culturalTarget: 1, growthTarget: 1e9 });
+      const fresh = engine.calculateLevels({ now: NOW, progressTimestamps: [daysAgo(0)] });
+      const halfLife = engine.calculateLevels({
+        now: NOW,
+        progressTimestamps: [daysAgo(DEFAULT_SCORING_CONFIG.culturalHalfLifeDays)],
+      });
+      expect(fresh.culturalLevel).toBe(100);
+      expect(halfLife.culturalLevel).toBe(50);
+    });
+
+    it('lets old activity fade while growth keeps it longer than culture', () => {
+      const old = score(lastDays(30).map(t => t - 60 * DAYS_TO_MS));
+      const recent = score(lastDays(30));
+      expect(old.totalLevel).toBeLessThan(recent.totalLevel);
+      expect(old.growthLevel).toBeGreaterThan(old.culturalLevel);
+    });
+  });
+
+  describe('deadline pressure', () => {
+    it('is neutral far from the deadline and grows towards it', () => {
+      expect(getDeadlinePressure(NOW, undefined)).toBe(1);
+      expect(getDeadlinePressure(NOW, '2030-01-01')).toBe(1);
+      expect(getDeadlinePressure(NOW, 'not a date')).toBe(1);
+      expect(getDeadlinePressure(NOW, '2025-07-15')).toBeGreaterThan(1);
+      expect(getDeadlinePressure(NOW, '2025-06-01')).toBe(
+        DEFAULT_SCORING_CONFIG.maxDeadlinePressure
+      );
+    });
+
+    it('makes inactivity cost more as the deadline approaches', () => {
+      const history = [daysAgo(10), daysAgo(11), daysAgo(12)];
+      expect(score(history, '2025-07-01').totalLevel).toBeLessThan(
+        score(history, '2030-01-01').totalLevel
+      );
+    });
+  });
+
+  describe('levels', () => {
+    it('reaches city with a month of daily progress', () => {
+      expect(score(lastDays(30)).classification).toBe('city');
+      expect(score(lastDays(90))).toEqual({
+        culturalLevel: 100,
+        growthLevel: 100,
+        totalLevel: 100,
+        classification: 'city',
+      });
+    });
+
+    it('classifies on 25 / 50 / 75 boundaries', () => {
+      expect(classifyLevel(24)).toBe('grassland');
+      expect(classifyLevel(25)).toBe('village');
+      expect(classifyLevel(50)).toBe('town');
+      expect(classifyLevel(75)).toBe('city');
+    });
+  });
+
+  describe('pluggable engine', () => {
+    const constantEngine: ScoringEngine = {
+      calculateLevels: () => ({
+        culturalLevel: 42,
+        growthLevel: 42,
+        totalLevel: 42,
+        classification: 'village',
+      }),
+    };
+
+    it('is used by civilization levels and progress events alike', () => {
+      setScoringEngine(constantEngine);
+      expect(getScoringEngine()).toBe(constantEngine);
+      expect(calculateCivilizationLevels(NOW, [daysAgo(0)]).totalLevel).toBe(42);
+
+      const event = createProgressEvent([], 'civ-a', {}, NOW);
+      expect(event.levelAfter).toBe(42);
+    });
+
+    it('gives progress events the same levels as the civilization', () => {
+      const previous = createProgressEvent([], 'civ-a', {}, daysAgo(1));
+      const event = createProgressEvent([previous], 'civ-a', {}, NOW, { deadline: '2030-01-01' });
+
+      expect(event.levelBefore).toBe(
+        calculateCivilizationLevels(NOW, [previous.createdAt], '2030-01-01').totalLevel
+      );
+      expect(event.levelAfter).toBe(
+        calculateCivilizationLevels(NOW, [previous.createdAt, NOW], '2030-01-01').totalLevel
+      );
+      expect(event.levelChange).toBe(event.levelAfter - event.levelBefore);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+// Unit tests for memo and civilization search
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  EMPTY_SEARCH_QUERY,
+  countSearchFilters,
+  isEmptySearchQuery,
+  searchCivilizations,
+  searchProgressEvents,
+} from '../search';
+import { CivLevel, CivState, Civilization, ProgressEvent } from '../../types';
+
+const createCivilization = (
+  id: string,
+  name: string,
+  state: CivState,
+  classification: CivLevel,
+  purpose?: string
+): Civilization => ({
+  id,
+  name,
+  purpose,
+  deadline: '2025-12-31',
+  state,
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification },
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+const createEvent = (
+  id: string,
+  civId: string,
+  date: string,
+  levelChange: number,
+  memo?: string
+): ProgressEvent => ({
+  id,
+  civId,
+  date,
+  memo,
+  createdAt: 0,
+  updatedAt: 0,
+  levelBefore: 0,
+  levelAfter: levelChange,
+  levelChange,
+});
+
+const civilizations = [
+  createCivilization('english', '英語学習', 'developing', 'village', 'TOEIC 800点'),
+  createCivilization('running', 'Running', 'decaying', 'grassland'),
+];
+
+const events = [
+  createEvent('e1', 'english', '2025-06-01', 2, '単語を50個覚えた'),
+  createEvent('e2', 'english', '2025-06-10', -1, 'リスニング'),
+  createEvent('e3', 'running', '2025-06-05', 1, '５ｋｍ走った'),
+  createEvent('e4', 'deleted', '2025-06-05', 1, '単語'),
+];
+
+const ids = (items: { id: string }[]) => items.map(item => item.id);
+
+describe('search', () => {
+  it('treats a query without conditions as empty', () => {
+    expect(isEmptySearchQuery(EMPTY_SEARCH_QUERY)).toBe(true);
+    expect(isEmptySearchQuery({ text: '  ', states: [] })).toBe(true);
+    expect(isEmptySearchQuery({ levelChange: 'gain' })).toBe(false);
+    expect(countSearchFilters({ text: 'a', states: ['developing'], from: '2025-06-01' })).toBe(2);
+  });
+
+  it('matches memo text and civilization fields, ignoring width and case', () => {
+    expect(ids(searchProgressEvents(events, civilizations, { text: '単語' }))).toEqual(['e1']);
+    expect(ids(searchProgressEvents(events, civilizations, { text: '5KM' }))).toEqual(['e3']);
+    expect(ids(searchProgressEvents(events, civilizations, { text: 'toeic リスニング' }))).toEqual([
+      'e2',
+    ]);
+    expect(ids(searchProgressEvents(events, civilizations, { text: 'running' }))).toEqual(['e3']);
+  });
+
+  it('filters progress by state, level, date range and level change', () => {
+    expect(ids(searchProgressEvents(events, civilizations, { states: ['decaying'] }))).toEqual([
+      'e3',
+    ]);
+    expect(ids(searchProgressEvents(events, civilizations, { levels: ['village'] }))).toEqual([
+      'e1',
+      'e2',
+    ]);
+    expect(
+      ids(searchProgressEvents(events, civilizations, { from: '2025-06-02', to: '2025-06-09' }))
+    ).toEqual(['e3']);
+    expect(ids(searchProgressEvents(events, civilizations, { levelChange: 'loss' }))).toEqual([
+      'e2',
+    ]);
+  });
+
+  it('matches civilizations through their own fields or their progress', () => {
+    expect(ids(searchCivilizations(civilizations, events, { text: 'toeic' }))).toEqual(['english']);
+    expect(ids(searchCivilizations(civilizations, events, { text: '走った' }))).toEqual([
+      'running',
+    ]);
+    expect(ids(searchCivilizations(civilizations, events, { levelChange: 'loss' }))).toEqual([
+      'english',
+    ]);
+    expect(
+      ids(searchCivilizations(civilizations, events, { text: '単語', from: '2025-06-05' }))
+    ).toEqual([]);
+  });
+});
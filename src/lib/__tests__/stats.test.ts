@@ -0,0 +1,109 @@
+// Unit tests for the statistics dashboard calculations
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  getAveragePerWeek,
+  getContributionHeatmap,
+  getLevelDurations,
+  getStateDurations,
+  getStreaks,
+  getWeeklyCounts,
+} from '../stats';
+import { Civilization, ProgressEvent, StateTransition } from '../../types';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+const CREATED_AT = Date.UTC(2025, 5, 1);
+
+const createCivilization = (overrides: Partial<Civilization> = {}): Civilization => ({
+  id: 'civ',
+  name: 'civ',
+  deadline: '2025-12-31',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+  createdAt: CREATED_AT,
+  updatedAt: CREATED_AT,
+  ...overrides,
+});
+
+const createEvent = (day: number, levelBefore: number, levelAfter: number): ProgressEvent => ({
+  id: `event-${day}`,
+  civId: 'civ',
+  date: `2025-06-${String(day).padStart(2, '0')}`,
+  createdAt: CREATED_AT + (day - 1) * DAYS_TO_MS,
+  updatedAt: CREATED_AT + (day - 1) * DAYS_TO_MS,
+  levelBefore,
+  levelAfter,
+  levelChange: levelAfter - levelBefore,
+});
+
+const createTransition = (day: number, from: string, to: string): StateTransition => ({
+  id: `transition-${day}`,
+  civId: 'civ',
+  from: from as StateTransition['from'],
+  to: to as StateTransition['to'],
+  timestamp: CREATED_AT + (day - 1) * DAYS_TO_MS,
+  trigger: 'staleness',
+});
+
+describe('stats', () => {
+  it('finds the current and longest streaks', () => {
+    const dates = ['2025-06-01', '2025-06-02', '2025-06-03', '2025-06-10', '2025-06-11'];
+
+    expect(getStreaks(dates, '2025-06-12')).toEqual({ current: 2, longest: 3 });
+    expect(getStreaks(dates, '2025-06-11')).toEqual({ current: 2, longest: 3 });
+    expect(getStreaks(dates, '2025-06-13')).toEqual({ current: 0, longest: 3 });
+    expect(getStreaks([], '2025-06-13')).toEqual({ current: 0, longest: 0 });
+  });
+
+  it('counts entries per Sunday-based week', () => {
+    // 2025-06-15 is a Sunday
+    const dates = ['2025-06-14', '2025-06-15', '2025-06-20', '2025-06-01', '2025-05-01'];
+    const weekly = getWeeklyCounts(dates, 3, '2025-06-20');
+
+    expect(weekly).toEqual([
+      { weekStart: '2025-06-01', count: 1 },
+      { weekStart: '2025-06-08', count: 1 },
+      { weekStart: '2025-06-15', count: 2 },
+    ]);
+    expect(getAveragePerWeek(['2025-06-01', '2025-06-15'], '2025-06-20')).toBeCloseTo(2 / 3);
+  });
+
+  it('lays the heatmap out in week columns ending with the current week', () => {
+    const heatmap = getContributionHeatmap(
+      ['2025-06-16', '2025-06-16', '2025-06-09'],
+      2,
+      '2025-06-17'
+    );
+
+    expect(heatmap).toHaveLength(2);
+    expect(heatmap[0][0].date).toBe('2025-06-08');
+    expect(heatmap[0][1]).toEqual({ date: '2025-06-09', count: 1, future: false });
+    expect(heatmap[1][1]).toEqual({ date: '2025-06-16', count: 2, future: false });
+    expect(heatmap[1][6]).toEqual({ date: '2025-06-21', count: 0, future: true });
+  });
+
+  it('splits time between states from the transitions', () => {
+    const civ = createCivilization({ state: 'decaying' });
+    const transitions = [
+      createTransition(11, 'developing', 'decaying'),
+      createTransition(4, 'uninitialized', 'developing'),
+    ];
+    const durations = getStateDurations(civ, transitions, CREATED_AT + 20 * DAYS_TO_MS);
+
+    expect(durations.uninitialized).toBe(3 * DAYS_TO_MS);
+    expect(durations.developing).toBe(7 * DAYS_TO_MS);
+    expect(durations.decaying).toBe(10 * DAYS_TO_MS);
+    expect(durations.ocean).toBe(0);
+  });
+
+  it('splits time between levels from the recorded levels and stops when archived', () => {
+    const civ = createCivilization({ archivedAt: CREATED_AT + 20 * DAYS_TO_MS });
+    const events = [createEvent(6, 10, 30), createEvent(11, 30, 55)];
+    const durations = getLevelDurations(civ, events, CREATED_AT + 30 * DAYS_TO_MS);
+
+    expect(durations.grassland).toBe(5 * DAYS_TO_MS);
+    expect(durations.village).toBe(5 * DAYS_TO_MS);
+    expect(durations.town).toBe(10 * DAYS_TO_MS);
+    expect(durations.city).toBe(0);
+  });
+});
@@ -0,0 +1,101 @@
+// Unit tests for the trash (soft delete, restore checks and purging)
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  TRASH_RETENTION_DAYS,
+  countTrashItems,
+  getDeletedProgressEvents,
+  getRestoreBlocker,
+  getTrashDaysLeft,
+  planTrashPurge,
+  splitTrash,
+  withTrashedCivilizations,
+} from '../trash';
+import { Civilization, ProgressEvent } from '../../types';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 30);
+
+const createCivilization = (id: string, deletedAt?: number): Civilization => ({
+  id,
+  name: id,
+  deadline: '2025-12-31',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+  createdAt: 0,
+  updatedAt: 0,
+  deletedAt,
+});
+
+const createEvent = (civId: string, date: string, deletedAt?: number): ProgressEvent => ({
+  id: `event-${civId}-${date}`,
+  civId,
+  date,
+  createdAt: 0,
+  updatedAt: 0,
+  levelBefore: 0,
+  levelAfter: 0,
+  levelChange: 0,
+  deletedAt,
+});
+
+describe('trash', () => {
+  const live = createCivilization('live');
+  const deleted = createCivilization('deleted', NOW - 2 * DAYS_TO_MS);
+  const liveEvent = createEvent('live', '2025-06-28');
+  const deletedMemo = createEvent('live', '2025-06-29', NOW - DAYS_TO_MS);
+  const eventOfDeleted = createEvent('deleted', '2025-06-27');
+  const orphan = createEvent('gone', '2025-06-26');
+
+  it('sets deleted civilizations, their events and orphans aside', () => {
+    const split = splitTrash([live, deleted], [liveEvent, deletedMemo, eventOfDeleted, orphan]);
+
+    expect(split.civilizations).toEqual([live]);
+    expect(split.progressEvents).toEqual([liveEvent]);
+    expect(split.trash.civilizations).toEqual([deleted]);
+    expect(split.trash.progressEvents).toEqual([deletedMemo, eventOfDeleted, orphan]);
+    expect(countTrashItems(split.trash)).toBe(2);
+    expect(getDeletedProgressEvents(split.trash)).toEqual([deletedMemo]);
+    expect(withTrashedCivilizations([live], split.trash)).toEqual([live, deleted]);
+  });
+
+  it('counts down the retention window', () => {
+    expect(TRASH_RETENTION_DAYS).toBe(30);
+    expect(getTrashDaysLeft(NOW, NOW)).toBe(30);
+    expect(getTrashDaysLeft(NOW - 29.5 * DAYS_TO_MS, NOW)).toBe(1);
+    expect(getTrashDaysLeft(NOW - 31 * DAYS_TO_MS, NOW)).toBe(0);
+  });
+
+  it('purges expired civilizations with their events, expired memos and orphans', () => {
+    const expired = createCivilization('expired', NOW - 31 * DAYS_TO_MS);
+    const expiredMemo = createEvent('live', '2025-05-01', NOW - 30 * DAYS_TO_MS);
+    const eventOfExpired = createEvent('expired', '2025-05-02');
+    const trash = {
+      civilizations: [deleted, expired],
+      progressEvents: [deletedMemo, expiredMemo, eventOfDeleted, eventOfExpired, orphan],
+    };
+
+    const purge = planTrashPurge(trash, ['live'], NOW);
+    expect(purge.civilizations).toEqual([expired]);
+    expect(purge.progressEvents).toEqual([expiredMemo, eventOfExpired, orphan]);
+    expect(purge.trash).toEqual({
+      civilizations: [deleted],
+      progressEvents: [deletedMemo, eventOfDeleted],
+    });
+
+    // A retention of 0 empties the trash
+    const emptied = planTrashPurge(trash, ['live'], NOW, 0);
+    expect(emptied.trash).toEqual({ civilizations: [], progressEvents: [] });
+    expect(emptied.progressEvents).toHaveLength(5);
+  });
+
+  it('blocks restoring a memo of a deleted civilization or over a re-recorded day', () => {
+    expect(getRestoreBlocker(deletedMemo, [live], [liveEvent])).toBeUndefined();
+    expect(getRestoreBlocker(deletedMemo, [live], [createEvent('live', '2025-06-29')])).toBe(
+      'dateTaken'
+    );
+    expect(getRestoreBlocker(createEvent('deleted', '2025-06-20', NOW), [live], [])).toBe(
+      'civilizationDeleted'
+    );
+  });
+});
@@ -0,0 +1,49 @@
+// Unit tests for the store write queue
+
+import { describe, it, expect } from '@jest/globals';
+import { createWriteQueue } from '../writeQueue';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('writeQueue', () => {
+  it('runs writes one at a time in the order they were queued', async () => {
+    const queue = createWriteQueue();
+    const log: string[] = [];
+    const write = (name: string) => async () => {
+      log.push(`${name} start`);
+      await tick();
+      log.push(`${name} end`);
+      return name;
+    };
+
+    const results = await Promise.all([queue.run(write('a')), queue.run(write('b'))]);
+
+    expect(results).toEqual(['a', 'b']);
+    expect(log).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('rejects only the failed write and keeps running the rest', async () => {
+    const queue = createWriteQueue();
+    const failed = queue.run(async () => {
+      throw new Error('write failed');
+    });
+    const next = queue.run(async () => 'next');
+
+    await expect(failed).rejects.toThrow('write failed');
+    await expect(next).resolves.toBe('next');
+  });
+
+  it('becomes idle once every queued write has finished', async () => {
+    const queue = createWriteQueue();
+    let done = false;
+    queue
+      .run(async () => {
+        await tick();
+        done = true;
+      })
+      .catch(() => undefined);
+
+    await queue.idle();
+    expect(done).toBe(true);
+  });
+});
@@ -128,7 +128,7 @@ const updateMarkerDayNightStates = (scene: PlanetScene): void => {
     const material = marker.material as THREE.MeshStandardMaterial;
     
     // Smooth interpolation between day and night values
-    const dayEmissive = 0.2;
+    const dayEmissive = marker.userData.baseEmissiveIntensity ?? 0.2; // Dimmed for stale civilizations
     const nightEmissive = 0.03; // Much dimmer at night
     const dayOpacity = 1.0;
     const nightOpacity = 0.4; // More transparent at night for darker appearance
@@ -0,0 +1,216 @@
+// Calendar days - the single source of "which day is it" for the whole app
+//
+// Days are local calendar days (device timezone unless one is set), so a memo written at 8am
+// in Japan lands on today rather than on the UTC date. A day can start later than midnight
+// (day-start hour) for night owls: with a day-start hour of 4, progress at 2am still belongs
+// to the previous day.
+//
+// Calendar dates are ISO strings (YYYY-MM-DD); date arithmetic is done on the date itself,
+// never on timestamps, so daylight saving changes cannot skip or repeat a day.
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_DAY_START_HOUR = 0;
+export const MAX_DAY_START_HOUR = 12;
+
+let activeDayStartHour = DEFAULT_DAY_START_HOUR;
+let activeTimeZone: string | undefined; // IANA name, undefined = device timezone
+
+/**
+ * Hour (local time) at which a new calendar day starts
+ */
+export const getDayStartHour = (): number => activeDayStartHour;
+
+/**
+ * Set the hour a new calendar day starts (pass nothing to restore midnight)
+ * Out-of-range values are clamped to 0..MAX_DAY_START_HOUR
+ */
+export const setDayStartHour = (hour: number = DEFAULT_DAY_START_HOUR): void => {
+  activeDayStartHour = Number.isFinite(hour)
+    ? Math.min(MAX_DAY_START_HOUR, Math.max(0, Math.floor(hour)))
+    : DEFAULT_DAY_START_HOUR;
+};
+
+/**
+ * Timezone calendar days are computed in (undefined = device timezone)
+ */
+export const getTimeZone = (): string | undefined => activeTimeZone;
+
+/**
+ * Compute calendar days in an IANA timezone, e.g. 'Asia/Tokyo' (pass nothing for the device's)
+ */
+export const setTimeZone = (timeZone?: string): void => {
+  activeTimeZone = timeZone;
+};
+
+type LocalTime = { year: number; month: number; day: number; hour: number; minute: number };
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock time of a timestamp in the active timezone
+ */
+const toLocalTime = (timestamp: number): LocalTime => {
+  if (!activeTimeZone) {
+    const date = new Date(timestamp);
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+    };
+  }
+
+  const parts = getFormatter(activeTimeZone).formatToParts(new Date(timestamp));
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find(p => p.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+  };
+};
+
+/**
+ * Timestamp of a wall-clock time in the active timezone
+ */
+const fromLocalTime = (
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number = 0
+): number => {
+  if (!activeTimeZone) {
+    return new Date(year, month - 1, day, hour, minute).getTime();
+  }
+
+  // Guess with the offset at the wall-clock time read as UTC, then correct once for DST
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  if (isNaN(asUtc)) {
+    return NaN;
+  }
+  const offsetAt = (timestamp: number) => {
+    const local = toLocalTime(timestamp);
+    return (
+      Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) -
+      Math.floor(timestamp / 60000) * 60000
+    );
+  };
+  const guess = asUtc - offsetAt(asUtc);
+  return asUtc - offsetAt(guess);
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const formatCalendarDate = (year: number, month: number, day: number): string => {
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const parseCalendarDate = (date: string): [number, number, number] => {
+  const [year, month, day] = date.split('-').map(Number);
+  return [year, month, day];
+};
+
+/**
+ * Calendar date (YYYY-MM-DD) a timestamp belongs to
+ */
+export const toCalendarDate = (
+  timestamp: number,
+  dayStartHour: number = activeDayStartHour
+): string => {
+  const local = toLocalTime(timestamp);
+  const date = formatCalendarDate(local.year, local.month, local.day);
+  return local.hour < dayStartHour ? shiftCalendarDate(date, -1) : date;
+};
+
+/**
+ * Get today's date in ISO format (YYYY-MM-DD)
+ */
+export const getTodayDate = (now: number = Date.now()): string => {
+  return toCalendarDate(now);
+};
+
+/**
+ * Timestamp at which a calendar date starts (local day-start hour; NaN for invalid dates)
+ */
+export const getCalendarDayStart = (
+  date: string,
+  dayStartHour: number = activeDayStartHour
+): number => {
+  const [year, month, day] = parseCalendarDate(date);
+  return fromLocalTime(year, month, day, dayStartHour);
+};
+
+/**
+ * Timestamp of a wall-clock time on a calendar date (NaN for invalid dates)
+ * Built from the local date and time, so it stays at that time on daylight saving days
+ */
+export const getCalendarDateTime = (date: string, hour: number, minute: number = 0): number => {
+  const [year, month, day] = parseCalendarDate(date);
+  return fromLocalTime(year, month, day, hour, minute);
+};
+
+/**
+ * Local Date at midnight of a calendar date (for display with toLocaleDateString)
+ */
+export const toLocalDate = (date: string): Date => {
+  const [year, month, day] = parseCalendarDate(date);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Shift a calendar date by a number of days
+ */
+export const shiftCalendarDate = (date: string, days: number): string => {
+  const [year, month, day] = parseCalendarDate(date);
+  const shifted = new Date(Date.UTC(year, month - 1, day + days));
+  return formatCalendarDate(
+    shifted.getUTCFullYear(),
+    shifted.getUTCMonth() + 1,
+    shifted.getUTCDate()
+  );
+};
+
+/**
+ * Sequential day number of a calendar date (days since 1970-01-01)
+ */
+export const toDayNumber = (date: string): number => {
+  const [year, month, day] = parseCalendarDate(date);
+  return Math.round(Date.UTC(year, month - 1, day) / DAYS_TO_MS);
+};
+
+/**
+ * Calendar days from one date to another (negative when to is before from)
+ */
+export const calendarDaysBetween = (from: string, to: string): number => {
+  return toDayNumber(to) - toDayNumber(from);
+};
+
+/**
+ * Day of the week of a calendar date (0 = Sunday)
+ */
+export const getCalendarWeekday = (date: string): number => {
+  const [year, month, day] = parseCalendarDate(date);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
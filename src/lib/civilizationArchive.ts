@@ -0,0 +1,53 @@
+// Civilization archive - completed and archived civilizations (the hall of fame)
+//
+// Archiving takes a civilization off the active list: its state and levels are frozen as they
+// were on the day it was archived, it gets no reminders and no new progress. A completed
+// civilization achieved its goal; it can stay on the planet as a monument.
+
+import { Civilization, ProgressEvent } from '../types';
+import { sortEventsNewestFirst } from './progressEvents';
+
+/**
+ * Whether a civilization has been archived (completed or not)
+ */
+export const isArchived = (civilization: Civilization): boolean => {
+  return civilization.archivedAt !== undefined;
+};
+
+/**
+ * Whether a civilization achieved its goal
+ */
+export const isCompleted = (civilization: Civilization): boolean => {
+  return civilization.completedAt !== undefined;
+};
+
+/**
+ * Civilizations still being worked on, in their original order
+ */
+export const getActiveCivilizations = (civilizations: Civilization[]): Civilization[] => {
+  return civilizations.filter(civilization => !isArchived(civilization));
+};
+
+/**
+ * Archived civilizations, most recently archived first
+ */
+export const getArchivedCivilizations = (civilizations: Civilization[]): Civilization[] => {
+  return civilizations.filter(isArchived).sort((a, b) => (b.archivedAt ?? 0) - (a.archivedAt ?? 0));
+};
+
+/**
+ * Civilizations shown on the planet: active ones and monuments of completed ones
+ */
+export const getPlanetCivilizations = (civilizations: Civilization[]): Civilization[] => {
+  return civilizations.filter(
+    civilization =>
+      !isArchived(civilization) || (isCompleted(civilization) && !!civilization.monument)
+  );
+};
+
+/**
+ * Memo history of a civilization (entries with a memo, newest first)
+ */
+export const getMemoHistory = (events: ProgressEvent[], civId: string): ProgressEvent[] => {
+  return sortEventsNewestFirst(events.filter(event => event.civId === civId && !!event.memo));
+};
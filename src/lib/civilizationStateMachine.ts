@@ -1,7 +1,17 @@
 // Civilization State Machine - deterministic state evaluation based on staleness
 // Updated to support new level-based system
 
-import { CivState, CivLevel, CivilizationLevels } from '../types';
+import {
+  CivCadence,
+  CivMilestone,
+  CivState,
+  Civilization,
+  CivilizationLevels,
+  StateTransition,
+  StateTransitionTrigger,
+} from '../types';
+import { getScoringEngine } from './scoring';
+import { getCalendarWeekday, shiftCalendarDate, toCalendarDate } from './calendarDay';
 
 // State transition thresholds (in days)
 const THRESHOLDS = {
@@ -9,23 +19,105 @@ const THRESHOLDS = {
   DECAYING_TO_OCEAN: 21,
 } as const;
 
+// Consecutive progress days a sunk civilization needs to return to 'developing'
+export const DEFAULT_REVIVAL_DAYS = 3;
+
 // Convert days to milliseconds
 const DAYS_TO_MS = 24 * 60 * 60 * 1000;
 
+// Missed check-ins before a civilization with a cadence starts decaying / sinks into the ocean
+const CADENCE_MISSED_CHECK_INS = {
+  DEVELOPING_TO_DECAYING: 2,
+  DECAYING_TO_OCEAN: 6,
+} as const;
+
+/**
+ * Period in days of an interval-style cadence (undefined for weekday schedules)
+ */
+const getCadencePeriodDays = (cadence: CivCadence): number | undefined => {
+  switch (cadence.type) {
+    case 'daily':
+      return 1;
+    case 'weekly':
+      return 7;
+    case 'interval':
+      return Math.max(1, Math.floor(cadence.days));
+    case 'weekdays':
+      return undefined;
+  }
+};
+
+/**
+ * Counts the check-ins a civilization has missed since its last progress
+ * - Interval cadences (daily / weekly / every N days): elapsed periods, fractional
+ * - Weekday cadences: scheduled days that have fully passed after the last progress day
+ *   (today does not count until it is over)
+ *
+ * @param now Current timestamp in milliseconds
+ * @param lastProgressAt Last progress timestamp in milliseconds
+ * @param cadence Expected progress cadence
+ * @returns Number of missed check-ins
+ */
+export const countMissedCheckIns = (
+  now: number,
+  lastProgressAt: number,
+  cadence: CivCadence
+): number => {
+  const periodDays = getCadencePeriodDays(cadence);
+  if (periodDays !== undefined) {
+    return Math.max(0, (now - lastProgressAt) / DAYS_TO_MS / periodDays);
+  }
+
+  const weekdays = new Set(cadence.type === 'weekdays' ? cadence.weekdays : []);
+  if (weekdays.size === 0) {
+    return 0;
+  }
+
+  let missed = 0;
+  const today = toCalendarDate(now);
+  let day = shiftCalendarDate(toCalendarDate(lastProgressAt), 1);
+  while (day < today) {
+    if (weekdays.has(getCalendarWeekday(day))) {
+      missed++;
+    }
+    day = shiftCalendarDate(day, 1);
+  }
+  return missed;
+};
+
 /**
  * Derives the current civilization state based on staleness since last progress
  * This is deterministic and evaluated on-demand without timers
  *
+ * Without a cadence the default thresholds apply (7 days → decaying, 21 days → ocean).
+ * With a cadence, 2 missed check-ins → decaying and 6 missed check-ins → ocean.
+ *
  * @param now Current timestamp in milliseconds
  * @param lastProgressAt Last progress timestamp in milliseconds (undefined if no progress)
+ * @param cadence Expected progress cadence (optional)
  * @returns Current civilization state
  */
-export const deriveCivilizationState = (now: number, lastProgressAt?: number): CivState => {
+export const deriveCivilizationState = (
+  now: number,
+  lastProgressAt?: number,
+  cadence?: CivCadence
+): CivState => {
   // No last progress → uninitialized
   if (!lastProgressAt) {
     return 'uninitialized';
   }
 
+  if (cadence) {
+    const missed = countMissedCheckIns(now, lastProgressAt, cadence);
+    if (missed < CADENCE_MISSED_CHECK_INS.DEVELOPING_TO_DECAYING) {
+      return 'developing';
+    }
+    if (missed < CADENCE_MISSED_CHECK_INS.DECAYING_TO_OCEAN) {
+      return 'decaying';
+    }
+    return 'ocean';
+  }
+
   const daysSinceProgress = (now - lastProgressAt) / DAYS_TO_MS;
 
   // 0–6 days since last progress → developing
@@ -42,24 +134,107 @@ export const deriveCivilizationState = (now: number, lastProgressAt?: number): C
   return 'ocean';
 };
 
+/**
+ * Resolves the persisted revival phase on top of the staleness-derived state
+ * - ocean + new progress → reviving
+ * - reviving + enough consecutive progress days → developing
+ * - reviving + staleness reaching the ocean again → ocean
+ * Civilizations outside the ocean/reviving phases follow the derived state
+ *
+ * @param derivedState State derived from staleness
+ * @param storedState Previously stored state
+ * @param consecutiveProgressDays Current streak of consecutive progress days
+ * @param revivalDays Consecutive progress days needed to revive
+ * @returns Resolved civilization state
+ */
+export const resolveRevivalState = (
+  derivedState: CivState,
+  storedState: CivState,
+  consecutiveProgressDays: number,
+  revivalDays: number = DEFAULT_REVIVAL_DAYS
+): CivState => {
+  if (storedState !== 'ocean' && storedState !== 'reviving') {
+    return derivedState;
+  }
+
+  // Still (or again) stale enough to stay under water
+  if (derivedState === 'ocean' || derivedState === 'uninitialized') {
+    return 'ocean';
+  }
+
+  return consecutiveProgressDays >= revivalDays ? 'developing' : 'reviving';
+};
+
+/**
+ * How far a civilization has drifted towards the ocean (0 = fresh, 1 = ocean)
+ * Used to dim planet markers as progress becomes overdue for the civilization's cadence
+ *
+ * @param now Current timestamp in milliseconds
+ * @param lastProgressAt Last progress timestamp in milliseconds
+ * @param cadence Expected progress cadence (optional)
+ * @returns Staleness ratio between 0 and 1
+ */
+export const getStalenessRatio = (
+  now: number,
+  lastProgressAt?: number,
+  cadence?: CivCadence
+): number => {
+  if (!lastProgressAt) {
+    return 0;
+  }
+
+  const ratio = cadence
+    ? countMissedCheckIns(now, lastProgressAt, cadence) / CADENCE_MISSED_CHECK_INS.DECAYING_TO_OCEAN
+    : (now - lastProgressAt) / DAYS_TO_MS / THRESHOLDS.DECAYING_TO_OCEAN;
+
+  return Math.min(1, Math.max(0, ratio));
+};
+
+/**
+ * Whether two cadences describe the same schedule
+ */
+export const isSameCadence = (a?: CivCadence, b?: CivCadence): boolean => {
+  if (!a || !b) {
+    return a === b;
+  }
+  if (a.type === 'weekdays' && b.type === 'weekdays') {
+    const sortWeekdays = (weekdays: number[]) => [...weekdays].sort((x, y) => x - y).join(',');
+    return sortWeekdays(a.weekdays) === sortWeekdays(b.weekdays);
+  }
+  return a.type === b.type && getCadencePeriodDays(a) === getCadencePeriodDays(b);
+};
+
 /**
  * Determines if a persisted state transition is required
- * Returns true only when:
- * - Derived state is 'decaying' or 'ocean'
- * - AND differs from the previously stored state
+ * Returns true only when the derived state differs from the previously stored state and:
+ * - Derived state is 'decaying', 'ocean' or 'reviving'
+ * - OR the civilization recovers from 'decaying' or 'reviving' back to 'developing'
  *
- * Note: Returning to 'developing' is visual-only for MVP (no persistence)
+ * Note: Leaving 'uninitialized' is visual-only, and a sunk civilization only returns
+ * through the persisted 'reviving' phase. When the cadence changed, any difference
+ * persists so the stored state is re-based on the new thresholds
  *
  * @param derivedState Current derived state
  * @param storedState Previously stored state
+ * @param cadenceChanged Whether the civilization's cadence was just changed
  * @returns Whether to persist the state transition
  */
 export const shouldPersistStateTransition = (
   derivedState: CivState,
-  storedState: CivState
+  storedState: CivState,
+  cadenceChanged: boolean = false
 ): boolean => {
-  // Only persist transitions into decaying or ocean states
-  if (derivedState !== 'decaying' && derivedState !== 'ocean') {
+  if (cadenceChanged) {
+    return derivedState !== storedState;
+  }
+
+  // Recoveries are persisted so the transition history is complete
+  if (derivedState === 'developing') {
+    return storedState === 'decaying' || storedState === 'reviving';
+  }
+
+  // Only persist transitions into decaying, ocean or reviving states
+  if (derivedState !== 'decaying' && derivedState !== 'ocean' && derivedState !== 'reviving') {
     return false;
   }
 
@@ -67,6 +242,33 @@ export const shouldPersistStateTransition = (
   return derivedState !== storedState;
 };
 
+/**
+ * Infer what caused a transition evaluated by the state machine
+ * Sinking states come from staleness, everything else from recorded progress
+ */
+export const inferTransitionTrigger = (to: CivState): StateTransitionTrigger => {
+  return to === 'decaying' || to === 'ocean' ? 'staleness' : 'progress';
+};
+
+/**
+ * Build the transition log entry for a civilization moving into a new state
+ */
+export const createStateTransition = (
+  civilization: Civilization,
+  to: CivState,
+  trigger: StateTransitionTrigger,
+  now: number
+): StateTransition => {
+  return {
+    id: `transition-${civilization.id}-${now}`,
+    civId: civilization.id,
+    from: civilization.state,
+    to,
+    timestamp: now,
+    trigger,
+  };
+};
+
 /**
  * Evaluates civilization state with persistence decision
  * Convenience function that combines state derivation and persistence logic
@@ -74,14 +276,16 @@ export const shouldPersistStateTransition = (
  * @param now Current timestamp in milliseconds
  * @param lastProgressAt Last progress timestamp in milliseconds
  * @param storedState Previously stored state
+ * @param cadence Expected progress cadence (optional)
  * @returns Object with derived state and whether to persist
  */
 export const evaluateCivilizationState = (
   now: number,
   lastProgressAt?: number,
-  storedState?: CivState
+  storedState?: CivState,
+  cadence?: CivCadence
 ) => {
-  const derivedState = deriveCivilizationState(now, lastProgressAt);
+  const derivedState = deriveCivilizationState(now, lastProgressAt, cadence);
   const shouldPersist = shouldPersistStateTransition(derivedState, storedState || 'uninitialized');
 
   return {
@@ -91,56 +295,32 @@ export const evaluateCivilizationState = (
 };
 
 /**
- * Calculate civilization levels based on progress frequency and staleness
- * Cultural level: Based on recent progress frequency (last 30 days)
- * Growth level: Based on overall progress consistency (last 90 days)
- * Total level: Average of cultural and growth levels
- * Classification: Derived from total level ranges
+ * Calculate civilization levels from progress history using the active scoring engine
+ * (see scoring.ts: daily de-duplication, streak bonus, recency decay, deadline pressure,
+ * goal progress)
+ *
+ * @param now Current timestamp in milliseconds
+ * @param progressLogs Progress timestamps in milliseconds
+ * @param deadline Civilization deadline (YYYY-MM-DD), adds pressure as it approaches
+ * @param milestones Civilization milestones, checked-off ones raise the growth level
+ * @param metricProgress Share of the metric target reached (0-1), raises the growth level
  */
 export const calculateCivilizationLevels = (
   now: number,
-  progressLogs: number[] // Array of progress timestamps
+  progressLogs: number[],
+  deadline?: string,
+  milestones?: CivMilestone[],
+  metricProgress?: number
 ): CivilizationLevels => {
-  const DAYS_TO_MS = 24 * 60 * 60 * 1000;
-  const CULTURAL_PERIOD = 30; // 30 days for cultural level
-  const GROWTH_PERIOD = 90;   // 90 days for growth level
-  
-  // Filter progress logs within the periods
-  const culturalLogs = progressLogs.filter(
-    timestamp => (now - timestamp) <= (CULTURAL_PERIOD * DAYS_TO_MS)
-  );
-  const growthLogs = progressLogs.filter(
-    timestamp => (now - timestamp) <= (GROWTH_PERIOD * DAYS_TO_MS)
-  );
-  
-  // Calculate cultural level (0-100) based on recent activity
-  const culturalLevel = Math.min(100, (culturalLogs.length / 10) * 100);
-  
-  // Calculate growth level (0-100) based on overall consistency
-  const growthLevel = Math.min(100, (growthLogs.length / 20) * 100);
-  
-  // Calculate total level
-  const totalLevel = (culturalLevel + growthLevel) / 2;
-  
-  // Determine classification based on total level
-  let classification: CivLevel;
-  if (totalLevel >= 75) {
-    classification = 'city';
-  } else if (totalLevel >= 50) {
-    classification = 'town';
-  } else if (totalLevel >= 25) {
-    classification = 'village';
-  } else {
-    classification = 'grassland';
-  }
-  
-  return {
-    culturalLevel: Math.round(culturalLevel),
-    growthLevel: Math.round(growthLevel),
-    totalLevel: Math.round(totalLevel),
-    classification,
-  };
+  return getScoringEngine().calculateLevels({
+    now,
+    progressTimestamps: progressLogs,
+    deadline,
+    milestones,
+    metricProgress,
+  });
 };
 
 // Export thresholds for testing
 export const STATE_THRESHOLDS = THRESHOLDS;
+export const CADENCE_THRESHOLDS = CADENCE_MISSED_CHECK_INS;
@@ -1,4 +1,7 @@
 // Date utility functions
+// Calendar days (today, day boundaries) come from calendarDay
+
+import { calendarDaysBetween, getTodayDate, toLocalDate } from './calendarDay';
 
 /**
  * Format relative time from timestamp to now
@@ -34,33 +37,22 @@ export const formatRelativeTime = (timestamp?: number): string => {
  */
 export const formatDate = (isoDate: string): string => {
   try {
-    const date = new Date(isoDate);
-    return date.toLocaleDateString();
+    return toLocalDate(isoDate).toLocaleDateString();
   } catch {
     return isoDate;
   }
 };
 
 /**
- * Calculate remaining days until deadline
- * Returns positive number for future dates, negative for past dates
+ * Calculate remaining calendar days until deadline
+ * Returns 0 on the deadline day, positive number for future dates, negative for past dates
  */
-export const calculateRemainingDays = (deadline: string): number | null => {
-  try {
-    const deadlineDate = new Date(deadline);
-    const now = new Date();
-
-    // Reset time to compare only dates
-    deadlineDate.setHours(23, 59, 59, 999); // End of deadline day
-    now.setHours(0, 0, 0, 0); // Start of current day
-
-    const diffMs = deadlineDate.getTime() - now.getTime();
-    const diffDays = Math.ceil(diffMs / (24 * 60 * 60 * 1000));
-
-    return diffDays;
-  } catch {
-    return null;
-  }
+export const calculateRemainingDays = (
+  deadline: string,
+  today: string = getTodayDate()
+): number | null => {
+  const diffDays = calendarDaysBetween(today, deadline);
+  return isNaN(diffDays) ? null : diffDays;
 };
 
 /**
@@ -0,0 +1,84 @@
+// Deadlines - where civilizations and the planet goal stand against their deadlines
+//
+// Deadlines are calendar dates; the deadline day itself still counts as "due soon", the day
+// after it the goal is overdue. Archived civilizations are completed and never overdue.
+
+import { Civilization, DeadlineState, PlanetGoal } from '../types';
+import { getTodayDate, shiftCalendarDate } from './calendarDay';
+import { calculateRemainingDays } from './dateUtils';
+
+// Days left (inclusive) at which a deadline becomes "due soon"
+export const DUE_SOON_DAYS = 7;
+
+// Quick choices for extending an overdue deadline
+export const DEADLINE_EXTENSION_DAYS = [7, 30] as const;
+
+/**
+ * Deadline state of a calendar date
+ * Invalid dates are treated as on track, so a malformed deadline never flags a goal
+ *
+ * @param deadline Deadline date (YYYY-MM-DD)
+ * @param today Today's calendar date
+ * @param completed Whether the goal has been completed / archived
+ */
+export const getDeadlineState = (
+  deadline: string,
+  today: string = getTodayDate(),
+  completed: boolean = false
+): DeadlineState => {
+  if (completed) {
+    return 'completed';
+  }
+
+  const remainingDays = calculateRemainingDays(deadline, today);
+  if (remainingDays === null) {
+    return 'onTrack';
+  }
+  if (remainingDays < 0) {
+    return 'overdue';
+  }
+  return remainingDays <= DUE_SOON_DAYS ? 'dueSoon' : 'onTrack';
+};
+
+/**
+ * Deadline state of a civilization (completed once archived)
+ */
+export const getCivilizationDeadlineState = (
+  civilization: Civilization,
+  today: string = getTodayDate()
+): DeadlineState => {
+  return getDeadlineState(civilization.deadline, today, civilization.archivedAt !== undefined);
+};
+
+/**
+ * Deadline state of the planet goal
+ */
+export const getPlanetGoalDeadlineState = (
+  planetGoal: PlanetGoal,
+  today: string = getTodayDate()
+): DeadlineState => {
+  return getDeadlineState(planetGoal.deadline, today);
+};
+
+/**
+ * Whether a civilization is active and past its deadline
+ */
+export const isCivilizationOverdue = (
+  civilization: Civilization,
+  today: string = getTodayDate()
+): boolean => {
+  return getCivilizationDeadlineState(civilization, today) === 'overdue';
+};
+
+/**
+ * Move a deadline later by a number of days
+ * An overdue deadline is extended from today, so the new deadline is always in the future
+ */
+export const extendDeadline = (
+  deadline: string,
+  days: number,
+  today: string = getTodayDate()
+): string => {
+  const base = calculateRemainingDays(deadline, today) ?? -1;
+  return shiftCalendarDate(base < 0 ? today : deadline, days);
+};
@@ -2,7 +2,13 @@
 // Firebase v11 (modular v9+ API) for Expo SDK 53
 
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getAuth, Auth } from 'firebase/auth';
+import {
+  getAuth,
+  Auth,
+  AuthCredential,
+  linkWithCredential,
+  signInWithCredential,
+} from 'firebase/auth';
 import Constants from 'expo-constants';
 import {
   getFirestore,
@@ -71,6 +77,19 @@ try {
 export { auth };
 export const db: Firestore = getFirestore(app);
 
+// Connect to the Firestore emulator when configured (e.g. FIRESTORE_EMULATOR_HOST=localhost:8080)
+const emulatorHost: string | undefined = firebaseExtraConfig.emulatorHost;
+if (emulatorHost) {
+  const [host, port] = emulatorHost.split(':');
+  try {
+    connectFirestoreEmulator(db, host, Number(port) || 8080);
+    console.log('Connected to Firestore emulator:', emulatorHost);
+  } catch (error) {
+    // Already connected (e.g. after a fast refresh)
+    console.warn('Failed to connect Firestore emulator:', error);
+  }
+}
+
 // Enable offline persistence for better UX
 // Note: This is automatically enabled in React Native
 // The SDK handles offline caching and syncing automatically
@@ -92,10 +111,46 @@ export const signInAnonymously = async (): Promise<string> => {
   }
 };
 
+/**
+ * Sign in with a permanent account (e.g. a Google or email credential)
+ * An anonymous user is linked to the credential so its uid, and the data under it, is kept;
+ * when the account already exists it is signed in to instead and its uid replaces the anonymous one
+ */
+export const signInWithPermanentAccount = async (credential: AuthCredential): Promise<string> => {
+  try {
+    const currentUser = auth.currentUser;
+    if (currentUser?.isAnonymous) {
+      try {
+        const { user } = await linkWithCredential(currentUser, credential);
+        console.log('Linked anonymous user to permanent account:', user.uid);
+        return user.uid;
+      } catch (error) {
+        if ((error as { code?: string }).code !== 'auth/credential-already-in-use') {
+          throw error;
+        }
+      }
+    }
+
+    const { user } = await signInWithCredential(auth, credential);
+    console.log('Signed in to permanent account:', user.uid);
+    return user.uid;
+  } catch (error) {
+    console.error('Failed to sign in with permanent account:', error);
+    throw error;
+  }
+};
+
 export const getCurrentUser = () => {
   return auth.currentUser;
 };
 
+/**
+ * Resolve once the persisted auth session (if any) has been restored
+ */
+export const waitForAuthReady = async (): Promise<void> => {
+  await auth.authStateReady();
+};
+
 export const onAuthStateChanged = (callback: (user: any) => void) => {
   return auth.onAuthStateChanged(callback);
 };
@@ -109,6 +164,29 @@ export const serverTimestamp = (): FieldValue => {
   return firestoreServerTimestamp();
 };
 
+// Plain objects and arrays are cleaned recursively; sentinels such as serverTimestamp() are kept
+const stripUndefinedValue = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(stripUndefinedValue);
+  }
+  if (value !== null && typeof value === 'object' && value.constructor === Object) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, field]) => field !== undefined)
+        .map(([key, field]) => [key, stripUndefinedValue(field)])
+    );
+  }
+  return value;
+};
+
+/**
+ * Remove undefined fields before writing, since Firestore rejects them (nested ones included,
+ * e.g. a milestone without a due date)
+ */
+export const stripUndefined = <T extends Record<string, unknown>>(data: T): Partial<T> => {
+  return stripUndefinedValue(data) as Partial<T>;
+};
+
 /**
  * Get server time by creating a temporary document
  * This is useful for getting the actual server timestamp value
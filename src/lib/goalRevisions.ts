@@ -0,0 +1,67 @@
+// Planet goal revisions - the history of a planet's vision
+//
+// Every save that changes the vision (goal title or deadline) appends a revision; settings such
+// as the backfill window or day start hour are not part of the vision and never do. Restoring an
+// earlier vision is itself a change, so it appends a new revision pointing at the restored one.
+
+import { PlanetGoal, PlanetGoalRevision } from '../types';
+
+/**
+ * Whether saving the next goal changes the vision
+ */
+export const isVisionChange = (previous: PlanetGoal | null, next: PlanetGoal): boolean =>
+  !previous || previous.title !== next.title || previous.deadline !== next.deadline;
+
+/**
+ * Create the revision recording a goal's vision
+ *
+ * @param reason Why the vision changed (blank reasons are dropped)
+ * @param restoredFrom Id of the earlier revision being restored
+ */
+export const createGoalRevision = (
+  goal: PlanetGoal,
+  reason?: string,
+  restoredFrom?: string,
+  now: number = Date.now()
+): PlanetGoalRevision => ({
+  id: `revision-${now}-${Math.random().toString(36).slice(2, 7)}`,
+  title: goal.title,
+  deadline: goal.deadline,
+  timestamp: now,
+  reason: reason?.trim() || undefined,
+  restoredFrom,
+});
+
+/**
+ * Goal with the vision of a revision (settings of the current goal are kept)
+ */
+export const applyGoalRevision = (
+  goal: PlanetGoal | null,
+  revision: PlanetGoalRevision
+): PlanetGoal => ({
+  ...goal,
+  title: revision.title,
+  deadline: revision.deadline,
+});
+
+/**
+ * Whether a revision holds the same vision as the goal (restoring it would change nothing)
+ */
+export const isCurrentVision = (goal: PlanetGoal | null, revision: PlanetGoalRevision): boolean =>
+  !!goal && goal.title === revision.title && goal.deadline === revision.deadline;
+
+/**
+ * Timestamp for the next revision of a log (oldest first): now, or just after the latest revision
+ * when that is not earlier, so saving twice within a millisecond keeps the order when read back
+ */
+export const getNextRevisionTime = (
+  revisions: PlanetGoalRevision[],
+  now: number = Date.now()
+): number => Math.max(now, ...revisions.map(revision => revision.timestamp + 1));
+
+/**
+ * Revisions of a log (oldest first) sorted newest first; ties keep the later-appended one first
+ * (does not mutate the input)
+ */
+export const sortRevisionsNewestFirst = (revisions: PlanetGoalRevision[]): PlanetGoalRevision[] =>
+  [...revisions].reverse().sort((a, b) => b.timestamp - a.timestamp);
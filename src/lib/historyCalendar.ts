@@ -0,0 +1,86 @@
+// History calendar - month grid of progress activity for the History screen
+//
+// Months are "YYYY-MM" strings and days are calendar dates, so the grid follows the same
+// day boundaries (day-start hour, time zone) as the progress entries themselves.
+
+import { CivLevel, Civilization, ProgressEvent } from '../types';
+import { getCalendarWeekday, getTodayDate, shiftCalendarDate } from './calendarDay';
+
+// Civilization colours shown per day before the rest is summarised as "+N"
+export const MAX_DAY_COLORS = 3;
+
+export type CalendarDay = {
+  date: string; // YYYY-MM-DD
+  inMonth: boolean; // false for the leading / trailing days of neighbouring months
+};
+
+export type DayActivity = {
+  count: number; // progress entries that day
+  levels: CivLevel[]; // classification of each civilization with an entry, highest first
+};
+
+const LEVEL_ORDER: CivLevel[] = ['city', 'town', 'village', 'grassland'];
+
+/**
+ * Month ("YYYY-MM") a calendar date belongs to
+ */
+export const toCalendarMonth = (date: string = getTodayDate()): string => date.slice(0, 7);
+
+/**
+ * Shift a month by a number of months
+ */
+export const shiftCalendarMonth = (month: string, months: number): string => {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const shifted = new Date(Date.UTC(year, monthNumber - 1 + months, 1));
+  return `${shifted.getUTCFullYear()}-${String(shifted.getUTCMonth() + 1).padStart(2, '0')}`;
+};
+
+/**
+ * Weeks (Sunday to Saturday) covering a month, including the neighbouring days that fill
+ * the first and last week
+ */
+export const getMonthGrid = (month: string): CalendarDay[][] => {
+  const firstDay = `${month}-01`;
+  const gridStart = shiftCalendarDate(firstDay, -getCalendarWeekday(firstDay));
+  const nextMonthStart = `${shiftCalendarMonth(month, 1)}-01`;
+
+  const weeks: CalendarDay[][] = [];
+  let date = gridStart;
+  while (date < nextMonthStart) {
+    const week: CalendarDay[] = [];
+    for (let weekday = 0; weekday < 7; weekday++) {
+      week.push({ date, inMonth: toCalendarMonth(date) === month });
+      date = shiftCalendarDate(date, 1);
+    }
+    weeks.push(week);
+  }
+  return weeks;
+};
+
+/**
+ * Activity per day: number of entries and the level of each civilization that progressed
+ * (entries of civilizations that are not given are ignored)
+ */
+export const getDayActivity = (
+  events: ProgressEvent[],
+  civilizations: Civilization[]
+): Map<string, DayActivity> => {
+  const civilizationsById = new Map(civilizations.map(civ => [civ.id, civ]));
+  const activity = new Map<string, DayActivity>();
+
+  events.forEach(event => {
+    const civilization = civilizationsById.get(event.civId);
+    if (!civilization) {
+      return;
+    }
+    const day = activity.get(event.date) ?? { count: 0, levels: [] };
+    day.count++;
+    day.levels.push(civilization.levels?.classification ?? 'grassland');
+    activity.set(event.date, day);
+  });
+
+  activity.forEach(day => {
+    day.levels.sort((a, b) => LEVEL_ORDER.indexOf(a) - LEVEL_ORDER.indexOf(b));
+  });
+  return activity;
+};
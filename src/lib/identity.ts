@@ -0,0 +1,227 @@
+// User identity - stable local uid with optional upgrade to Firebase anonymous auth, and later
+// to a permanent account
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { AuthCredential } from 'firebase/auth';
+
+// Local storage key for the persisted identity
+const IDENTITY_KEY = 'identity';
+
+/**
+ * How the current uid was obtained
+ * - local: generated on this device, never leaves it
+ * - anonymous: Firebase anonymous auth uid
+ * - permanent: Firebase uid of a signed-in account (e.g. Google or email)
+ */
+export type AuthProvider = 'local' | 'anonymous' | 'permanent';
+
+/**
+ * Identity persisted across launches
+ */
+export type StoredIdentity = {
+  uid: string; // uid used to key all user data
+  provider: AuthProvider;
+  localUid: string; // device uid generated on first launch (never changes)
+  previousUids: string[]; // uids this identity was linked from, oldest first
+  createdAt: number; // timestamp in milliseconds
+  updatedAt: number; // timestamp in milliseconds
+};
+
+/**
+ * Result of resolving the identity at launch
+ * previousIdentity is set when the uid changed and data should be migrated
+ */
+export type IdentityResolution = {
+  identity: StoredIdentity;
+  previousIdentity: StoredIdentity | null;
+};
+
+/**
+ * Firebase auth operations used to upgrade the identity
+ */
+export type IdentityAuthClient = Pick<
+  typeof import('./firebase'),
+  'waitForAuthReady' | 'getCurrentUser' | 'signInAnonymously' | 'signInWithPermanentAccount'
+>;
+
+// Firebase is imported lazily so local-only mode never initializes it
+const loadFirebaseAuthClient = (): Promise<IdentityAuthClient> => import('./firebase');
+let loadAuthClient = loadFirebaseAuthClient;
+
+/**
+ * Swap the auth client used for sign-in (pass nothing to restore Firebase)
+ */
+export const setAuthClient = (client?: IdentityAuthClient): void => {
+  loadAuthClient = client ? async () => client : loadFirebaseAuthClient;
+};
+
+/**
+ * Generate a new local uid
+ * Includes a random suffix so two devices set up in the same millisecond never collide
+ */
+export const generateLocalUid = (): string => {
+  return `local-user-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Load the persisted identity, or null on first launch
+ */
+export const loadIdentity = async (): Promise<StoredIdentity | null> => {
+  try {
+    const data = await AsyncStorage.getItem(IDENTITY_KEY);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error('Failed to load identity:', error);
+    return null;
+  }
+};
+
+/**
+ * Persist the identity
+ */
+export const saveIdentity = async (identity: StoredIdentity): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(IDENTITY_KEY, JSON.stringify(identity));
+  } catch (error) {
+    console.error('Failed to save identity:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get the persisted identity, creating a local one on first launch
+ */
+export const getOrCreateLocalIdentity = async (): Promise<StoredIdentity> => {
+  const existing = await loadIdentity();
+  if (existing) {
+    return existing;
+  }
+
+  const now = Date.now();
+  const localUid = generateLocalUid();
+  const identity: StoredIdentity = {
+    uid: localUid,
+    provider: 'local',
+    localUid,
+    previousUids: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await saveIdentity(identity);
+  console.log('Created local identity:', localUid);
+  return identity;
+};
+
+/**
+ * Link an identity to a new uid, remembering the uid it came from
+ */
+export const linkIdentity = (
+  identity: StoredIdentity,
+  uid: string,
+  provider: AuthProvider,
+  now: number = Date.now()
+): StoredIdentity => {
+  if (identity.uid === uid && identity.provider === provider) {
+    return identity;
+  }
+
+  return {
+    ...identity,
+    uid,
+    provider,
+    previousUids:
+      identity.uid === uid ? identity.previousUids : [...identity.previousUids, identity.uid],
+    updatedAt: now,
+  };
+};
+
+/**
+ * Sign in with Firebase anonymous auth, reusing a restored session (anonymous or permanent) if
+ * one exists
+ *
+ * @param allowNewUser Whether a new anonymous user may be created when no session is restored
+ * @returns The signed-in uid and provider, or null when no session exists and none was created
+ */
+const signInWithFirebaseAnonymously = async (
+  allowNewUser: boolean
+): Promise<{ uid: string; provider: AuthProvider } | null> => {
+  const { getCurrentUser, signInAnonymously, waitForAuthReady } = await loadAuthClient();
+  await waitForAuthReady();
+
+  const currentUser = getCurrentUser();
+  if (currentUser) {
+    return { uid: currentUser.uid, provider: currentUser.isAnonymous ? 'anonymous' : 'permanent' };
+  }
+  if (!allowNewUser) {
+    return null;
+  }
+
+  return { uid: await signInAnonymously(), provider: 'anonymous' };
+};
+
+/**
+ * Persist an identity linked to a signed-in uid
+ * The previous identity is returned only when the uid changed, since data stays under the same uid
+ */
+const applySignIn = async (
+  stored: StoredIdentity,
+  uid: string,
+  provider: AuthProvider
+): Promise<IdentityResolution> => {
+  const identity = linkIdentity(stored, uid, provider);
+  if (identity === stored) {
+    return { identity: stored, previousIdentity: null };
+  }
+
+  await saveIdentity(identity);
+  console.log(`Linked identity ${stored.uid} → ${uid} (${provider})`);
+  return { identity, previousIdentity: identity.uid === stored.uid ? null : stored };
+};
+
+/**
+ * Resolve the identity for this launch
+ * - First launch: generates and persists a local uid
+ * - anonymousAuth: upgrades to (or restores) a Firebase anonymous uid; when the uid changes,
+ *   the previous identity is returned so the caller can migrate data keyed by it
+ * - A permanent account is never replaced by a new anonymous user: without its restored session
+ *   the persisted identity is kept until the user signs in again
+ * - If anonymous sign-in fails (e.g. offline), the persisted identity is kept
+ */
+export const resolveIdentity = async (options: {
+  anonymousAuth: boolean;
+}): Promise<IdentityResolution> => {
+  const stored = await getOrCreateLocalIdentity();
+
+  if (!options.anonymousAuth) {
+    return { identity: stored, previousIdentity: null };
+  }
+
+  try {
+    const signedIn = await signInWithFirebaseAnonymously(stored.provider !== 'permanent');
+    if (!signedIn) {
+      console.warn('Permanent account session not restored, keeping persisted identity');
+      return { identity: stored, previousIdentity: null };
+    }
+
+    return await applySignIn(stored, signedIn.uid, signedIn.provider);
+  } catch (error) {
+    console.warn('Anonymous auth unavailable, keeping persisted identity:', error);
+    return { identity: stored, previousIdentity: null };
+  }
+};
+
+/**
+ * Upgrade the identity to a permanent account
+ * - Linking an anonymous user keeps its uid, so no data has to move
+ * - Signing in to an existing account switches to that account's uid; the previous identity is
+ *   returned so the caller can migrate data keyed by it (see migrateUserData)
+ */
+export const upgradeToPermanentAccount = async (
+  credential: AuthCredential
+): Promise<IdentityResolution> => {
+  const stored = await getOrCreateLocalIdentity();
+  const { signInWithPermanentAccount } = await loadAuthClient();
+  const uid = await signInWithPermanentAccount(credential);
+  return applySignIn(stored, uid, 'permanent');
+};
@@ -1,8 +1,10 @@
 // Utilities and core library functions
 
+import { toCalendarDate } from './calendarDay';
+
 export const utils = {
   formatDate: (date: Date): string => {
-    return date.toISOString().split('T')[0];
+    return toCalendarDate(date.getTime());
   },
   generateId: (): string => {
     return Math.random().toString(36).substr(2, 9);
@@ -14,3 +16,5 @@ export * from './civilizationStateMachine';
 
 // Re-export date utilities
 export * from './dateUtils';
+export * from './calendarDay';
+export * from './deadlines';
@@ -40,6 +40,8 @@ const getLightIntensityByState = (state: CivState): number => {
       return 0.25; // Moderate light for decaying civilizations
     case 'ocean':
       return 0.05; // Very dim light for ocean civilizations (shouldn't be visible)
+    case 'reviving':
+      return 0.3; // Growing light for civilizations rising from the ocean
     default:
       return 0.18;
   }
@@ -78,6 +80,8 @@ const getNightLightColorByState = (state: CivState): number => {
       return 0x666633; // Dimmer amber light for decaying civilizations
     case 'ocean':
       return 0x222244; // Very dim blue for ocean civilizations
+    case 'reviving':
+      return 0x556688; // Cool dawn light for reviving civilizations
     default:
       return 0x444466;
   }
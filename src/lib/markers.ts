@@ -4,6 +4,10 @@ import { Civilization, CivState, CivLevel } from '../types';
 import { colors } from '../theme/colors';
 import { PLANET_RADIUS, EARTH_AXIS_TILT } from './planet';
 import { PlanetScene } from './three';
+import { getStalenessRatio } from './civilizationStateMachine';
+import { isCivilizationOverdue } from './deadlines';
+import { isArchived } from './civilizationArchive';
+import { isMilestoneCompleted } from './milestones';
 
 export interface CivilizationMarker {
   id: string;
@@ -127,11 +131,191 @@ export const getMarkerColor = (state: CivState): number => {
       return hexToThreeColor(colors.warning); // Theme warning color
     case 'ocean':
       return hexToThreeColor(colors.primary); // Theme primary color (shouldn't be visible)
+    case 'reviving':
+      return hexToThreeColor(colors.secondary); // Theme secondary color
     default:
       return hexToThreeColor(colors.border);
   }
 };
 
+// Marker glow for a civilization with fresh progress vs one about to sink into the ocean
+const MARKER_EMISSIVE_INTENSITY = {
+  FRESH: 0.2,
+  STALE: 0.05,
+} as const;
+
+/**
+ * Get marker glow intensity - dims as progress becomes overdue for the civilization's cadence
+ */
+export const getMarkerEmissiveIntensity = (
+  civilization: Civilization,
+  now: number = Date.now()
+): number => {
+  // Monuments of completed civilizations never go stale
+  if (isArchived(civilization)) {
+    return MARKER_EMISSIVE_INTENSITY.FRESH;
+  }
+  const staleness = getStalenessRatio(now, civilization.lastProgressAt, civilization.cadence);
+  return (
+    MARKER_EMISSIVE_INTENSITY.FRESH -
+    (MARKER_EMISSIVE_INTENSITY.FRESH - MARKER_EMISSIVE_INTENSITY.STALE) * staleness
+  );
+};
+
+/**
+ * Get marker glow color - decaying civilizations glow in the warning color, monuments in gold
+ */
+export const getMarkerEmissiveColor = (civilization: Civilization, markerColor: number): number => {
+  if (isArchived(civilization)) {
+    return hexToThreeColor(colors.accent);
+  }
+  return civilization.state === 'decaying' ? getMarkerColor('decaying') : markerColor;
+};
+
+/**
+ * Whether a civilization has a marker (sunk civilizations don't, monuments always do)
+ */
+const hasMarker = (civilization: Civilization): boolean => {
+  return isArchived(civilization) || civilization.state !== 'ocean';
+};
+
+/**
+ * Remove a child from a marker and free the GPU resources of its meshes
+ */
+const removeAndDispose = (marker: THREE.Mesh, child: THREE.Object3D): void => {
+  marker.remove(child);
+  child.traverse(object => {
+    if (object instanceof THREE.Mesh) {
+      object.geometry.dispose();
+      if (object.material instanceof THREE.Material) {
+        object.material.dispose();
+      }
+    }
+  });
+};
+
+// Name of the pin that flags a civilization past its deadline
+const OVERDUE_FLAG_NAME = 'overdueFlag';
+
+/**
+ * Create the pin that hovers over an overdue civilization, pointing down at its marker
+ */
+const createOverdueFlag = (position: THREE.Vector3, baseRadius: number): THREE.Mesh => {
+  const normal = position.clone().normalize();
+  const flag = new THREE.Mesh(
+    new THREE.ConeGeometry(baseRadius * 0.5, baseRadius * 1.5, 8),
+    new THREE.MeshBasicMaterial({ color: hexToThreeColor(colors.error) })
+  );
+  flag.name = OVERDUE_FLAG_NAME;
+  flag.position.copy(normal.clone().multiplyScalar(baseRadius * 2.5));
+  flag.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal.negate());
+  return flag;
+};
+
+/**
+ * Add or remove the overdue pin of a marker to match the civilization's deadline
+ */
+const updateOverdueFlag = (marker: THREE.Mesh, civilization: Civilization): void => {
+  const existing = marker.getObjectByName(OVERDUE_FLAG_NAME);
+  const overdue = isCivilizationOverdue(civilization);
+  if (overdue && !existing) {
+    const geometry = marker.geometry as THREE.SphereGeometry;
+    marker.add(createOverdueFlag(marker.position, geometry.parameters.radius));
+  } else if (!overdue && existing) {
+    removeAndDispose(marker, existing);
+  }
+};
+
+// Name of the group holding a civilization's milestone buildings
+const MILESTONE_BUILDINGS_NAME = 'milestoneBuildings';
+
+/**
+ * Create the ring of buildings around a marker, one per milestone in checklist order
+ * Checked-off milestones stand as full buildings in the marker's color, open ones as foundations
+ */
+const createMilestoneBuildings = (
+  civilization: Civilization,
+  position: THREE.Vector3,
+  baseRadius: number,
+  markerColor: number
+): THREE.Group => {
+  const milestones = civilization.milestones ?? [];
+  const group = new THREE.Group();
+  group.name = MILESTONE_BUILDINGS_NAME;
+
+  // Tangent plane of the planet surface at the marker
+  const normal = position.clone().normalize();
+  const reference = Math.abs(normal.y) > 0.9 ? new THREE.Vector3(1, 0, 0) : new THREE.Vector3(0, 1, 0);
+  const tangent = reference.clone().cross(normal).normalize();
+  const bitangent = normal.clone().cross(tangent).normalize();
+  const ringRadius = baseRadius * 1.8;
+
+  milestones.forEach((milestone, index) => {
+    const completed = isMilestoneCompleted(milestone);
+    const width = baseRadius * 0.3 * (1 + 0.25 * milestone.weight); // heavier milestones build wider
+    const height = completed ? baseRadius * 1.2 : baseRadius * 0.25;
+    const building = new THREE.Mesh(
+      new THREE.BoxGeometry(width, height, width),
+      new THREE.MeshStandardMaterial({
+        color: completed ? markerColor : hexToThreeColor(colors.border),
+        metalness: 0.1,
+        roughness: 0.6,
+      })
+    );
+
+    const angle = (2 * Math.PI * index) / milestones.length;
+    building.position
+      .copy(tangent.clone().multiplyScalar(Math.cos(angle) * ringRadius))
+      .add(bitangent.clone().multiplyScalar(Math.sin(angle) * ringRadius))
+      .add(normal.clone().multiplyScalar(height / 2 - baseRadius * 0.2));
+    building.quaternion.setFromUnitVectors(new THREE.Vector3(0, 1, 0), normal);
+    building.userData.milestoneId = milestone.id;
+    group.add(building);
+  });
+
+  return group;
+};
+
+/**
+ * Everything the milestone buildings are drawn from, to tell whether they need a rebuild
+ */
+const getMilestoneBuildingsKey = (civilization: Civilization, markerColor: number): string =>
+  [
+    markerColor,
+    ...(civilization.milestones ?? []).map(
+      milestone => `${milestone.id}:${milestone.weight}:${isMilestoneCompleted(milestone)}`
+    ),
+  ].join('|');
+
+/**
+ * Rebuild the milestone buildings of a marker when the civilization's checklist or color changed
+ */
+const updateMilestoneBuildings = (
+  marker: THREE.Mesh,
+  civilization: Civilization,
+  markerColor: number
+): void => {
+  const key = getMilestoneBuildingsKey(civilization, markerColor);
+  const existing = marker.getObjectByName(MILESTONE_BUILDINGS_NAME);
+  if (existing?.userData.key === key) {
+    return;
+  }
+  if (existing) {
+    removeAndDispose(marker, existing);
+  }
+  if (civilization.milestones?.length) {
+    const geometry = marker.geometry as THREE.SphereGeometry;
+    const buildings = createMilestoneBuildings(
+      civilization,
+      marker.position,
+      geometry.parameters.radius,
+      markerColor
+    );
+    buildings.userData.key = key;
+    marker.add(buildings);
+  }
+};
+
 /**
  * Assign a region to a civilization randomly from available regions
  * Uses civilization ID hash for deterministic but random-like assignment
@@ -247,6 +431,8 @@ export const createCivilizationMarker = (
   const markerSize = civilization.levels 
     ? getMarkerSizeByLevel(civilization.levels.classification)
     : 1.0; // Default size for legacy state system
+
+  const emissiveIntensity = getMarkerEmissiveIntensity(civilization);
   
   
   // Create sphere geometry for civilization markers
@@ -256,8 +442,8 @@ export const createCivilizationMarker = (
     color: markerColor,
     metalness: 0.1,
     roughness: 0.3,
-    emissive: markerColor,
-    emissiveIntensity: 0.2,
+    emissive: getMarkerEmissiveColor(civilization, markerColor),
+    emissiveIntensity,
     transparent: true, // Enable transparency for night darkening
     opacity: 1.0, // Default opacity (will be changed at night)
   });
@@ -282,6 +468,14 @@ export const createCivilizationMarker = (
   
   // Add hit area to marker for better detection
   marker.add(hitArea);
+
+  // Flag civilizations past their deadline with a pin above the marker
+  if (isCivilizationOverdue(civilization)) {
+    marker.add(createOverdueFlag(position, baseRadius));
+  }
+
+  // Milestones stand around the marker as buildings
+  updateMilestoneBuildings(marker, civilization, markerColor);
   
   // Apply gravity-like flattening towards planet center
   // Calculate the normal direction from planet center to marker position
@@ -335,7 +529,8 @@ export const createCivilizationMarker = (
   marker.userData = { 
     civilizationId: civilization.id,
     civilizationState: civilization.state, // Store state for light intensity calculation
-    civilizationLevel: civilization.levels?.classification // Store level for new system
+    civilizationLevel: civilization.levels?.classification, // Store level for new system
+    baseEmissiveIntensity: emissiveIntensity, // Daytime glow, dimmed by staleness
   };
   
   return marker;
@@ -356,7 +551,7 @@ export const updateCivilizationMarkers = (
 
   // Add new markers (skip ocean state)
   civilizations.forEach((civilization, index) => {
-    if (civilization.state === 'ocean') {
+    if (!hasMarker(civilization)) {
       return; // Don't render ocean civilizations
     }
     
@@ -379,7 +574,7 @@ export const updateMarkerState = (
 ): void => {
   const marker = scene.markers.get(civilizationId);
   if (marker) {
-    if (civilization.state === 'ocean') {
+    if (!hasMarker(civilization)) {
       // Remove marker for ocean state
       scene.spinGroup.remove(marker);
       scene.markers.delete(civilizationId);
@@ -393,7 +588,8 @@ export const updateMarkerState = (
         : getMarkerColor(civilization.state);
       
       material.color.setHex(newColor);
-      material.emissive.setHex(newColor);
+      material.emissive.setHex(getMarkerEmissiveColor(civilization, newColor));
+      material.emissiveIntensity = getMarkerEmissiveIntensity(civilization);
       
       // Update marker size if level system is available
       if (civilization.levels) {
@@ -401,9 +597,13 @@ export const updateMarkerState = (
         marker.scale.setScalar(newSize);
       }
       
+      updateOverdueFlag(marker, civilization);
+      updateMilestoneBuildings(marker, civilization, newColor);
+
       // Update userData with new state and level for light intensity calculation
       marker.userData.civilizationState = civilization.state;
       marker.userData.civilizationLevel = civilization.levels?.classification;
+      marker.userData.baseEmissiveIntensity = material.emissiveIntensity;
     }
   }
 };
@@ -0,0 +1,107 @@
+// Metrics - numeric goals of a civilization (e.g. run 100 km, read 20 books)
+//
+// Progress entries record an amount in the metric unit. Cumulative metrics add the amounts
+// up; "latest" metrics take the amount of the most recent entry as the current value. The
+// share of the target reached feeds into the growth level (see scoring.ts).
+
+import { CivMetric, CivMetricMode, ProgressEvent } from '../types';
+
+export const METRIC_MODES: CivMetricMode[] = ['cumulative', 'latest'];
+export const MAX_METRIC_UNIT_LENGTH = 10;
+
+/**
+ * A point of a metric chart: the metric value at the end of a day
+ */
+export type MetricPoint = {
+  date: string; // ISO date string (YYYY-MM-DD)
+  value: number;
+};
+
+/**
+ * Whether a metric can be used (finite positive target)
+ */
+export const isValidMetric = (metric: CivMetric): boolean =>
+  Number.isFinite(metric.target) && metric.target > 0 && METRIC_MODES.includes(metric.mode);
+
+/**
+ * Parse an amount typed by the user (undefined when empty or not a finite number)
+ */
+export const parseMetricAmount = (text: string): number | undefined => {
+  const normalized = text.trim().replace(/,/g, '');
+  if (!normalized) {
+    return undefined;
+  }
+  const amount = Number(normalized);
+  return Number.isFinite(amount) ? amount : undefined;
+};
+
+/**
+ * Events with an amount, recorded at or before `now`, in date order
+ */
+const getMeasuredEvents = (events: ProgressEvent[], now?: number): ProgressEvent[] =>
+  events
+    .filter(event => event.amount !== undefined && (now === undefined || event.createdAt <= now))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+
+/**
+ * Value of a metric over a civilization's progress events (0 without amounts)
+ *
+ * @param events Progress events of the civilization
+ * @param metric Metric of the civilization
+ * @param now Only count entries recorded at or before this timestamp (all when omitted)
+ */
+export const getMetricValue = (
+  events: ProgressEvent[],
+  metric: CivMetric,
+  now?: number
+): number => {
+  const measured = getMeasuredEvents(events, now);
+  if (measured.length === 0) {
+    return 0;
+  }
+  if (metric.mode === 'latest') {
+    return measured[measured.length - 1].amount ?? 0;
+  }
+  return measured.reduce((sum, event) => sum + (event.amount ?? 0), 0);
+};
+
+/**
+ * Share of the metric target reached, from 0 to 1
+ */
+export const getMetricProgress = (
+  events: ProgressEvent[],
+  metric: CivMetric,
+  now?: number
+): number => {
+  if (!isValidMetric(metric)) {
+    return 0;
+  }
+  return Math.min(1, Math.max(0, getMetricValue(events, metric, now) / metric.target));
+};
+
+/**
+ * Metric value after each day with an amount, oldest first (for charts)
+ */
+export const getMetricSeries = (events: ProgressEvent[], metric: CivMetric): MetricPoint[] => {
+  const points: MetricPoint[] = [];
+  let value = 0;
+  getMeasuredEvents(events).forEach(event => {
+    value = metric.mode === 'latest' ? (event.amount ?? 0) : value + (event.amount ?? 0);
+    const last = points[points.length - 1];
+    if (last && last.date === event.date) {
+      last.value = value;
+    } else {
+      points.push({ date: event.date, value });
+    }
+  });
+  return points;
+};
+
+/**
+ * Format an amount with its unit, dropping needless decimals (e.g. "12.5 km", "3 冊")
+ */
+export const formatMetricAmount = (value: number, unit: string): string => {
+  const rounded = Math.round(value * 100) / 100;
+  const text = rounded.toLocaleString('ja-JP', { maximumFractionDigits: 2 });
+  return unit ? `${text} ${unit}` : text;
+};
@@ -0,0 +1,362 @@
+// Schema migrations for locally stored data
+// Each step upgrades the parsed JSON blobs by one version; the runner stamps the result
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  CivLevel,
+  CivState,
+  Civilization,
+  CivilizationLevels,
+  ProgressEvent,
+  ProgressLog,
+  ProgressMemo,
+} from '../types';
+import { toCalendarDate } from './calendarDay';
+import { PROGRESS_EVENT_INDEX_KEY, shardProgressEvents } from './progressEventShards';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+
+// Local storage key for the schema version marker
+export const SCHEMA_VERSION_KEY = 'schema_version';
+
+// Storage keys covered by migrations
+export const MIGRATED_KEYS = {
+  PLANET_GOAL: 'planet_goal',
+  CIVILIZATIONS: 'civilizations',
+  PROGRESS_LOGS: 'progress_logs',
+  PROGRESS_MEMOS: 'progress_memos',
+  PROGRESS_EVENTS: 'progress_events',
+  PROGRESS_EVENT_INDEX: PROGRESS_EVENT_INDEX_KEY,
+} as const;
+
+/**
+ * Parsed storage blobs keyed by storage key (missing keys are undefined)
+ * Steps may add keys that are not in MIGRATED_KEYS (e.g. progress event shards)
+ */
+export type StorageSnapshot = Record<string, unknown>;
+
+/**
+ * A single migration step from version - 1 to version
+ * Steps must be pure: they return a new snapshot and never mutate the input
+ */
+export type Migration = {
+  version: number;
+  description: string;
+  migrate: (snapshot: StorageSnapshot, now: number) => StorageSnapshot;
+};
+
+const VALID_STATES: CivState[] = ['uninitialized', 'developing', 'decaying', 'ocean'];
+
+const asArray = <T>(value: unknown): T[] => (Array.isArray(value) ? (value as T[]) : []);
+
+/**
+ * Count-based levels as calculated when v1 was written (10 logs in 30 days = 100 cultural,
+ * 20 logs in 90 days = 100 growth). Frozen here so the migration's output never changes;
+ * live levels come from the scoring engine
+ */
+const legacyCivilizationLevels = (now: number, progressLogs: number[]): CivilizationLevels => {
+  const culturalLogs = progressLogs.filter(timestamp => now - timestamp <= 30 * DAYS_TO_MS);
+  const growthLogs = progressLogs.filter(timestamp => now - timestamp <= 90 * DAYS_TO_MS);
+
+  const culturalLevel = Math.min(100, (culturalLogs.length / 10) * 100);
+  const growthLevel = Math.min(100, (growthLogs.length / 20) * 100);
+  const totalLevel = (culturalLevel + growthLevel) / 2;
+
+  let classification: CivLevel = 'grassland';
+  if (totalLevel >= 75) {
+    classification = 'city';
+  } else if (totalLevel >= 50) {
+    classification = 'town';
+  } else if (totalLevel >= 25) {
+    classification = 'village';
+  }
+
+  return {
+    culturalLevel: Math.round(culturalLevel),
+    growthLevel: Math.round(growthLevel),
+    totalLevel: Math.round(totalLevel),
+    classification,
+  };
+};
+
+/**
+ * v1: Civilizations from before the level system get levels derived from their progress logs,
+ * and unknown or missing states fall back to 'uninitialized'
+ */
+const addCivilizationLevels: Migration = {
+  version: 1,
+  description: 'Add levels to civilizations that lack them',
+  migrate: (snapshot, now) => {
+    if (!Array.isArray(snapshot[MIGRATED_KEYS.CIVILIZATIONS])) {
+      return snapshot;
+    }
+
+    const logs = asArray<ProgressLog>(snapshot[MIGRATED_KEYS.PROGRESS_LOGS]);
+    const civilizations = asArray<Civilization>(snapshot[MIGRATED_KEYS.CIVILIZATIONS]).map(civ => {
+      const state = VALID_STATES.includes(civ.state) ? civ.state : 'uninitialized';
+      if (civ.levels) {
+        return { ...civ, state };
+      }
+
+      const civLogTimestamps = logs.filter(log => log.civId === civ.id).map(log => log.createdAt);
+      return {
+        ...civ,
+        state,
+        levels: legacyCivilizationLevels(now, civLogTimestamps),
+      };
+    });
+
+    return { ...snapshot, [MIGRATED_KEYS.CIVILIZATIONS]: civilizations };
+  },
+};
+
+/**
+ * v2: Progress logs with string timestamps (ISO) are converted to milliseconds,
+ * and logs that cannot be attributed to a civilization are dropped
+ */
+const normalizeProgressLogs: Migration = {
+  version: 2,
+  description: 'Normalize progress log timestamps',
+  migrate: snapshot => {
+    if (!Array.isArray(snapshot[MIGRATED_KEYS.PROGRESS_LOGS])) {
+      return snapshot;
+    }
+
+    const logs = asArray<ProgressLog & { createdAt: number | string }>(
+      snapshot[MIGRATED_KEYS.PROGRESS_LOGS]
+    )
+      .map(log => ({
+        ...log,
+        createdAt:
+          typeof log.createdAt === 'string' ? new Date(log.createdAt).getTime() : log.createdAt,
+      }))
+      .filter(log => typeof log.civId === 'string' && Number.isFinite(log.createdAt));
+
+    return { ...snapshot, [MIGRATED_KEYS.PROGRESS_LOGS]: logs };
+  },
+};
+
+/**
+ * v3: Progress memos written before level tracking get levelBefore/levelAfter/levelChange
+ * reconstructed as a running +1 per memo day, and a missing updatedAt falls back to createdAt
+ */
+const addProgressMemoLevels: Migration = {
+  version: 3,
+  description: 'Add level fields to progress memos that lack them',
+  migrate: snapshot => {
+    if (!Array.isArray(snapshot[MIGRATED_KEYS.PROGRESS_MEMOS])) {
+      return snapshot;
+    }
+
+    const memos = asArray<ProgressMemo>(snapshot[MIGRATED_KEYS.PROGRESS_MEMOS]);
+    const runningLevels = new Map<string, number>();
+
+    const chronological = [...memos].sort((a, b) => a.date.localeCompare(b.date));
+    const migratedById = new Map<string, ProgressMemo>();
+
+    chronological.forEach(memo => {
+      const levelBefore = runningLevels.get(memo.civId) ?? 0;
+      const hasLevels =
+        typeof memo.levelBefore === 'number' &&
+        typeof memo.levelAfter === 'number' &&
+        typeof memo.levelChange === 'number';
+
+      const migrated: ProgressMemo = hasLevels
+        ? memo
+        : { ...memo, levelBefore, levelAfter: levelBefore + 1, levelChange: 1 };
+
+      runningLevels.set(memo.civId, migrated.levelAfter);
+      migratedById.set(memo.id, {
+        ...migrated,
+        updatedAt: migrated.updatedAt ?? migrated.createdAt,
+      });
+    });
+
+    // Preserve the original storage order
+    return {
+      ...snapshot,
+      [MIGRATED_KEYS.PROGRESS_MEMOS]: memos.map(memo => migratedById.get(memo.id) ?? memo),
+    };
+  },
+};
+
+/**
+ * v4: Progress logs and progress memos are merged into a single progress event list
+ * - Each memo becomes an event carrying its memo and level fields
+ * - A log on the same civilization and day as a memo folds into that event (earliest createdAt wins)
+ * - Log-only days become memo-less events that keep the running level (levelChange 0)
+ * The legacy keys are removed once merged
+ */
+const mergeProgressLogsAndMemos: Migration = {
+  version: 4,
+  description: 'Merge progress logs and memos into progress events',
+  migrate: snapshot => {
+    const hasLogs = Array.isArray(snapshot[MIGRATED_KEYS.PROGRESS_LOGS]);
+    const hasMemos = Array.isArray(snapshot[MIGRATED_KEYS.PROGRESS_MEMOS]);
+    if (!hasLogs && !hasMemos) {
+      return snapshot;
+    }
+
+    const eventsByDay = new Map<string, ProgressEvent>();
+    asArray<ProgressEvent>(snapshot[MIGRATED_KEYS.PROGRESS_EVENTS]).forEach(event => {
+      eventsByDay.set(`${event.civId}:${event.date}`, event);
+    });
+
+    asArray<ProgressMemo>(snapshot[MIGRATED_KEYS.PROGRESS_MEMOS]).forEach(memo => {
+      const key = `${memo.civId}:${memo.date}`;
+      if (!eventsByDay.has(key)) {
+        eventsByDay.set(key, { ...memo, memo: memo.memo || undefined });
+      }
+    });
+
+    const logs = [...asArray<ProgressLog>(snapshot[MIGRATED_KEYS.PROGRESS_LOGS])].sort(
+      (a, b) => a.createdAt - b.createdAt
+    );
+    logs.forEach(log => {
+      const date = toCalendarDate(log.createdAt);
+      const key = `${log.civId}:${date}`;
+      const existing = eventsByDay.get(key);
+
+      if (existing) {
+        eventsByDay.set(key, {
+          ...existing,
+          createdAt: Math.min(existing.createdAt, log.createdAt),
+        });
+        return;
+      }
+
+      // Log-only day: carry the level of the latest earlier event for this civilization
+      const previous = [...eventsByDay.values()]
+        .filter(event => event.civId === log.civId && event.date < date)
+        .sort((a, b) => b.date.localeCompare(a.date))[0];
+      const level = previous ? previous.levelAfter : 0;
+
+      eventsByDay.set(key, {
+        id: log.id,
+        civId: log.civId,
+        date,
+        memo: log.note || undefined,
+        createdAt: log.createdAt,
+        updatedAt: log.createdAt,
+        levelBefore: level,
+        levelAfter: level,
+        levelChange: 0,
+      });
+    });
+
+    const events = [...eventsByDay.values()].sort(
+      (a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt
+    );
+
+    return {
+      ...snapshot,
+      [MIGRATED_KEYS.PROGRESS_EVENTS]: events,
+      [MIGRATED_KEYS.PROGRESS_LOGS]: undefined,
+      [MIGRATED_KEYS.PROGRESS_MEMOS]: undefined,
+    };
+  },
+};
+
+/**
+ * v5: The single progress event array is split into per-civilization monthly shards with an
+ * index (see progressEventShards.ts), so saving an entry no longer rewrites the whole history
+ */
+const shardProgressEventList: Migration = {
+  version: 5,
+  description: 'Shard progress events by civilization and month',
+  migrate: snapshot => {
+    if (!Array.isArray(snapshot[MIGRATED_KEYS.PROGRESS_EVENTS])) {
+      return snapshot;
+    }
+
+    const { index, shards } = shardProgressEvents(
+      asArray<ProgressEvent>(snapshot[MIGRATED_KEYS.PROGRESS_EVENTS])
+    );
+    return {
+      ...snapshot,
+      ...shards,
+      [MIGRATED_KEYS.PROGRESS_EVENT_INDEX]: index,
+      [MIGRATED_KEYS.PROGRESS_EVENTS]: undefined,
+    };
+  },
+};
+
+/**
+ * All migrations in ascending version order
+ */
+export const MIGRATIONS: Migration[] = [
+  addCivilizationLevels,
+  normalizeProgressLogs,
+  addProgressMemoLevels,
+  mergeProgressLogsAndMemos,
+  shardProgressEventList,
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/**
+ * Apply every migration newer than fromVersion, in order
+ *
+ * @returns Migrated snapshot and the versions that were applied
+ */
+export const applyMigrations = (
+  snapshot: StorageSnapshot,
+  fromVersion: number,
+  now: number = Date.now(),
+  migrations: Migration[] = MIGRATIONS
+): { snapshot: StorageSnapshot; appliedVersions: number[] } => {
+  const pending = migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const migrated = pending.reduce(
+    (current, migration) => migration.migrate(current, now),
+    snapshot
+  );
+
+  return {
+    snapshot: migrated,
+    appliedVersions: pending.map(migration => migration.version),
+  };
+};
+
+/**
+ * Run pending migrations against AsyncStorage and stamp the schema version
+ * Data without a version marker is treated as version 0
+ *
+ * @returns Schema version after running
+ */
+export const runStorageMigrations = async (now: number = Date.now()): Promise<number> => {
+  const storedVersion = Number((await AsyncStorage.getItem(SCHEMA_VERSION_KEY)) ?? 0);
+  if (storedVersion >= CURRENT_SCHEMA_VERSION) {
+    return storedVersion;
+  }
+
+  const keys = Object.values(MIGRATED_KEYS);
+  const snapshot: StorageSnapshot = {};
+  for (const key of keys) {
+    const data = await AsyncStorage.getItem(key);
+    snapshot[key] = data ? JSON.parse(data) : undefined;
+  }
+
+  const { snapshot: migrated, appliedVersions } = applyMigrations(snapshot, storedVersion, now);
+
+  // Write blobs that changed or were added by a step before removing dropped ones, so data
+  // moved to new keys is never lost; stamp the version last so a crash re-runs the steps
+  const changedKeys = [...new Set([...keys, ...Object.keys(migrated)])].filter(
+    key => migrated[key] !== snapshot[key]
+  );
+  for (const key of changedKeys.filter(changedKey => migrated[changedKey] !== undefined)) {
+    await AsyncStorage.setItem(key, JSON.stringify(migrated[key]));
+  }
+  for (const key of changedKeys.filter(changedKey => migrated[changedKey] === undefined)) {
+    await AsyncStorage.removeItem(key);
+  }
+  await AsyncStorage.setItem(SCHEMA_VERSION_KEY, String(CURRENT_SCHEMA_VERSION));
+
+  console.log(
+    `Storage migrated v${storedVersion} → v${CURRENT_SCHEMA_VERSION}`,
+    appliedVersions.length > 0 ? `(applied: ${appliedVersions.join(', ')})` : ''
+  );
+  return CURRENT_SCHEMA_VERSION;
+};
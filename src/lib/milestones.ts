@@ -0,0 +1,111 @@
+// Milestones - an ordered checklist of sub-goals inside a civilization
+//
+// Each milestone has a weight; the weighted share of milestones checked off feeds into the
+// civilization's growth level (see scoring.ts) and shows on the planet as buildings.
+
+import { CivMilestone, DeadlineState } from '../types';
+import { getDeadlineState } from './deadlines';
+import { getTodayDate } from './calendarDay';
+
+export const DEFAULT_MILESTONE_WEIGHT = 1;
+export const MILESTONE_WEIGHTS = [1, 2, 3];
+export const MAX_MILESTONE_TITLE_LENGTH = 40;
+
+/**
+ * Create an open milestone
+ */
+export const createMilestone = (
+  title: string,
+  options: { dueDate?: string; weight?: number } = {},
+  now: number = Date.now()
+): CivMilestone => ({
+  id: `milestone-${now}-${Math.random().toString(36).slice(2, 7)}`,
+  title: title.trim(),
+  ...(options.dueDate ? { dueDate: options.dueDate } : {}),
+  weight: options.weight ?? DEFAULT_MILESTONE_WEIGHT,
+});
+
+/**
+ * Whether a milestone has been checked off (at or before `now` when given)
+ */
+export const isMilestoneCompleted = (milestone: CivMilestone, now?: number): boolean => {
+  return milestone.completedAt !== undefined && (now === undefined || milestone.completedAt <= now);
+};
+
+/**
+ * Check a milestone off, or reopen it if it was already checked off
+ */
+export const toggleMilestone = (
+  milestones: CivMilestone[],
+  milestoneId: string,
+  now: number = Date.now()
+): CivMilestone[] => {
+  return milestones.map(milestone => {
+    if (milestone.id !== milestoneId) {
+      return milestone;
+    }
+    if (isMilestoneCompleted(milestone)) {
+      const reopened = { ...milestone };
+      delete reopened.completedAt;
+      return reopened;
+    }
+    return { ...milestone, completedAt: now };
+  });
+};
+
+/**
+ * Move a milestone one place up (-1) or down (1) in the checklist
+ */
+export const moveMilestone = (
+  milestones: CivMilestone[],
+  milestoneId: string,
+  direction: -1 | 1
+): CivMilestone[] => {
+  const index = milestones.findIndex(milestone => milestone.id === milestoneId);
+  const target = index + direction;
+  if (index < 0 || target < 0 || target >= milestones.length) {
+    return milestones;
+  }
+
+  const moved = [...milestones];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+};
+
+/**
+ * Weighted share of milestones checked off at `now`, from 0 to 1 (0 without milestones)
+ */
+export const getMilestoneProgress = (
+  milestones: CivMilestone[] = [],
+  now: number = Date.now()
+): number => {
+  const totalWeight = milestones.reduce((sum, milestone) => sum + milestone.weight, 0);
+  if (totalWeight <= 0) {
+    return 0;
+  }
+
+  const completedWeight = milestones
+    .filter(milestone => isMilestoneCompleted(milestone, now))
+    .reduce((sum, milestone) => sum + milestone.weight, 0);
+  return completedWeight / totalWeight;
+};
+
+/**
+ * The first open milestone in checklist order
+ */
+export const getNextMilestone = (milestones: CivMilestone[] = []): CivMilestone | undefined => {
+  return milestones.find(milestone => !isMilestoneCompleted(milestone));
+};
+
+/**
+ * Where a milestone stands against its due date (undefined without one)
+ */
+export const getMilestoneDeadlineState = (
+  milestone: CivMilestone,
+  today: string = getTodayDate()
+): DeadlineState | undefined => {
+  if (!milestone.dueDate) {
+    return undefined;
+  }
+  return getDeadlineState(milestone.dueDate, today, isMilestoneCompleted(milestone));
+};
@@ -0,0 +1,101 @@
+// Local notifications - expo-notifications implementation of the reminder scheduler
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { PlannedReminder, ReminderScheduler } from './reminders';
+import { strings } from '../i18n/strings';
+
+const REMINDER_CHANNEL_ID = 'reminders';
+
+// Show reminders while the app is open too
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+/**
+ * Whether this platform can schedule local notifications
+ */
+export const areRemindersSupported = (): boolean => Platform.OS !== 'web';
+
+/**
+ * Ask for notification permission if it was not granted yet
+ *
+ * @returns true when notifications are allowed
+ */
+export const requestReminderPermission = async (): Promise<boolean> => {
+  if (!areRemindersSupported()) {
+    return false;
+  }
+
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) {
+      return true;
+    }
+    if (!current.canAskAgain) {
+      return false;
+    }
+    const requested = await Notifications.requestPermissionsAsync();
+    return requested.granted;
+  } catch (error) {
+    console.error('Failed to request notification permission:', error);
+    throw error;
+  }
+};
+
+const toNotificationContent = (
+  reminder: PlannedReminder
+): Notifications.NotificationContentInput => {
+  const reminderStrings = strings.reminders;
+  return reminder.kind === 'daily'
+    ? {
+        title: reminderStrings.dailyTitle,
+        body: reminderStrings.dailyBody(reminder.civName),
+        data: { civId: reminder.civId },
+      }
+    : {
+        title: reminderStrings.decayWarningTitle,
+        body: reminderStrings.decayWarningBody(reminder.civName),
+        data: { civId: reminder.civId },
+      };
+};
+
+/**
+ * Reminder scheduler backed by expo-notifications (no-op where unsupported)
+ */
+export const notificationScheduler: ReminderScheduler = {
+  cancelAll: async () => {
+    if (!areRemindersSupported()) {
+      return;
+    }
+    await Notifications.cancelAllScheduledNotificationsAsync();
+  },
+
+  schedule: async reminder => {
+    if (!areRemindersSupported()) {
+      return;
+    }
+
+    if (Platform.OS === 'android') {
+      await Notifications.setNotificationChannelAsync(REMINDER_CHANNEL_ID, {
+        name: strings.reminders.channelName,
+        importance: Notifications.AndroidImportance.DEFAULT,
+      });
+    }
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: reminder.id,
+      content: toNotificationContent(reminder),
+      trigger: {
+        type: Notifications.SchedulableTriggerInputTypes.DATE,
+        date: reminder.fireAt,
+        channelId: REMINDER_CHANNEL_ID,
+      },
+    });
+  },
+};
@@ -1,14 +1,18 @@
 // Planet mesh creation and atmospheric effects
 import * as THREE from 'three';
+import { PlanetAppearance } from '../types';
+import { DEFAULT_PLANET_APPEARANCE, PLANET_PALETTES } from './planets';
 
 // Planet constants
 export const PLANET_RADIUS = 0.5;
 export const EARTH_AXIS_TILT = 15 * Math.PI / 180;
 
 /**
- * Create smooth planet mesh with PBR material
+ * Create smooth planet mesh with PBR material, coloured by the planet's appearance preset
  */
-export const createPlanetMesh = (): THREE.Mesh => {
+export const createPlanetMesh = (
+  appearance: PlanetAppearance = DEFAULT_PLANET_APPEARANCE
+): THREE.Mesh => {
   // Smooth sphere geometry with proper aspect ratio to prevent distortion
   const planetGeometry = new THREE.SphereGeometry(PLANET_RADIUS, 64, 64);
   
@@ -28,12 +32,13 @@ export const createPlanetMesh = (): THREE.Mesh => {
   }
   planetGeometry.attributes.position.needsUpdate = true;
   
-  // PBR material with ocean blue base and subtle gradient
+  // PBR material with the preset's base colour and subtle gradient
+  const palette = PLANET_PALETTES[appearance];
   const planetMaterial = new THREE.MeshStandardMaterial({
-    color: 0x4a90e2, // Ocean blue base
+    color: palette.surface, // Base colour (ocean blue by default)
     metalness: 0, // Non-metallic surface
     roughness: 0.9, // Soft, diffuse surface
-    emissive: 0x001122, // Subtle blue glow
+    emissive: palette.glow, // Subtle glow
     emissiveIntensity: 0.1,
   });
   
@@ -41,6 +46,17 @@ export const createPlanetMesh = (): THREE.Mesh => {
   return planet;
 };
 
+/**
+ * Recolour an existing planet mesh for another appearance preset
+ * Used when switching planets, so the scene (and its GL context) is kept
+ */
+export const setPlanetAppearance = (planet: THREE.Mesh, appearance: PlanetAppearance): void => {
+  const palette = PLANET_PALETTES[appearance];
+  const material = planet.material as THREE.MeshStandardMaterial;
+  material.color.setHex(palette.surface);
+  material.emissive.setHex(palette.glow);
+};
+
 /**
  * Create atmosphere mesh with subtle gradient glow effect
  */
@@ -0,0 +1,521 @@
+// Planet backup - versioned JSON export/import of a whole planet
+//
+// Format (version 2):
+// {
+//   "format": "antiplanet.planet",      // fixed marker
+//   "version": 2,                        // bumped on format changes
+//   "exportedAt": 1735689600000,         // timestamp in milliseconds
+//   "planetGoal": { "title": "...", "deadline": "YYYY-MM-DD" } | null,
+//   "goalRevisions": [PlanetGoalRevision, ...], // vision history, oldest first
+//   "civilizations": [Civilization, ...],
+//   "progressEvents": [ProgressEvent, ...],  // civId must reference an exported civilization
+//   "stateTransitions": [StateTransition, ...] // optional, same civId rule
+// }
+//
+// Version 1 is the same without goalRevisions and is still read (as an empty vision history).
+
+import {
+  CivState,
+  Civilization,
+  PlanetGoal,
+  PlanetGoalRevision,
+  ProgressEvent,
+  StateTransition,
+} from '../types';
+import { sortEventsChronologically } from './progressEvents';
+import { MAX_DAY_START_HOUR } from './calendarDay';
+import { isValidReminderTime } from './reminders';
+
+export const PLANET_BACKUP_FORMAT = 'antiplanet.planet';
+export const PLANET_BACKUP_VERSION = 2;
+
+/**
+ * Serialized planet (see format above)
+ */
+export type PlanetBackup = {
+  format: typeof PLANET_BACKUP_FORMAT;
+  version: number;
+  exportedAt: number;
+  planetGoal: PlanetGoal | null;
+  goalRevisions: PlanetGoalRevision[];
+  civilizations: Civilization[];
+  progressEvents: ProgressEvent[];
+  stateTransitions: StateTransition[];
+};
+
+/**
+ * Planet data covered by a backup
+ */
+export type PlanetData = Omit<PlanetBackup, 'format' | 'version' | 'exportedAt'>;
+
+/**
+ * merge: keep local civilizations, add imported ones (imported wins on conflicts)
+ * replace: discard local civilizations and progress and use the backup's
+ */
+export type PlanetImportMode = 'merge' | 'replace';
+
+/**
+ * A civilization present both locally and in the backup
+ */
+export type PlanetImportConflict = {
+  civId: string;
+  localName: string;
+  importedName: string;
+};
+
+export type PlanetBackupParseResult =
+  | { ok: true; backup: PlanetBackup }
+  | { ok: false; errors: string[] };
+
+const VALID_STATES: CivState[] = ['uninitialized', 'developing', 'decaying', 'ocean', 'reviving'];
+const VALID_TRIGGERS = ['staleness', 'progress', 'cadence'];
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === 'string' && ISO_DATE_PATTERN.test(value);
+
+const isValidCadence = (value: unknown): boolean => {
+  if (!isObject(value)) {
+    return false;
+  }
+  switch (value.type) {
+    case 'daily':
+    case 'weekly':
+      return true;
+    case 'interval':
+      return isNumber(value.days) && value.days >= 1;
+    case 'weekdays':
+      return (
+        Array.isArray(value.weekdays) &&
+        value.weekdays.every(day => Number.isInteger(day) && day >= 0 && day <= 6)
+      );
+    default:
+      return false;
+  }
+};
+
+const isValidReminder = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.enabled === 'boolean' &&
+  typeof value.decayWarning === 'boolean' &&
+  typeof value.time === 'string' &&
+  isValidReminderTime(value.time);
+
+const isValidMilestone = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  !!value.id &&
+  typeof value.title === 'string' &&
+  isNumber(value.weight) &&
+  value.weight > 0 &&
+  (value.dueDate === undefined || isIsoDate(value.dueDate)) &&
+  (value.completedAt === undefined || isNumber(value.completedAt));
+
+const isValidMetricShape = (value: unknown): boolean =>
+  isObject(value) &&
+  typeof value.unit === 'string' &&
+  isNumber(value.target) &&
+  value.target > 0 &&
+  (value.mode === 'cumulative' || value.mode === 'latest');
+
+/**
+ * Build a backup of the given planet data
+ * Transitions of deleted civilizations stay in the log but are not exported
+ */
+export const createPlanetBackup = (data: PlanetData, now: number = Date.now()): PlanetBackup => {
+  const civIds = new Set(data.civilizations.map(civ => civ.id));
+  return {
+    format: PLANET_BACKUP_FORMAT,
+    version: PLANET_BACKUP_VERSION,
+    exportedAt: now,
+    planetGoal: data.planetGoal,
+    goalRevisions: [...data.goalRevisions].sort((a, b) => a.timestamp - b.timestamp),
+    civilizations: data.civilizations,
+    progressEvents: sortEventsChronologically(data.progressEvents),
+    stateTransitions: data.stateTransitions
+      .filter(transition => civIds.has(transition.civId))
+      .sort((a, b) => a.timestamp - b.timestamp),
+  };
+};
+
+/**
+ * Serialize a backup to pretty-printed JSON
+ */
+export const serializePlanetBackup = (backup: PlanetBackup): string => {
+  return JSON.stringify(backup, null, 2);
+};
+
+const validatePlanetGoal = (value: unknown, errors: string[]) => {
+  if (value === null) {
+    return;
+  }
+  if (!isObject(value)) {
+    errors.push('planetGoal must be an object or null');
+    return;
+  }
+  if (typeof value.title !== 'string' || !value.title.trim()) {
+    errors.push('planetGoal.title must be a non-empty string');
+  }
+  if (!isIsoDate(value.deadline)) {
+    errors.push('planetGoal.deadline must be a YYYY-MM-DD date');
+  }
+  if (
+    value.backfillWindowDays !== undefined &&
+    !(isNumber(value.backfillWindowDays) && value.backfillWindowDays >= 0)
+  ) {
+    errors.push('planetGoal.backfillWindowDays must be a number of at least 0');
+  }
+  if (
+    value.dayStartHour !== undefined &&
+    !(
+      isNumber(value.dayStartHour) &&
+      value.dayStartHour >= 0 &&
+      value.dayStartHour <= MAX_DAY_START_HOUR
+    )
+  ) {
+    errors.push(`planetGoal.dayStartHour must be an hour between 0 and ${MAX_DAY_START_HOUR}`);
+  }
+};
+
+const validateGoalRevision = (value: unknown, path: string, errors: string[]) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+  if (typeof value.title !== 'string' || !value.title.trim()) {
+    errors.push(`${path}.title must be a non-empty string`);
+  }
+  if (!isIsoDate(value.deadline)) {
+    errors.push(`${path}.deadline must be a YYYY-MM-DD date`);
+  }
+  if (!isNumber(value.timestamp)) {
+    errors.push(`${path}.timestamp must be a number`);
+  }
+  if (value.reason !== undefined && typeof value.reason !== 'string') {
+    errors.push(`${path}.reason must be a string`);
+  }
+  if (value.restoredFrom !== undefined && typeof value.restoredFrom !== 'string') {
+    errors.push(`${path}.restoredFrom must be a string`);
+  }
+};
+
+const validateCivilization = (value: unknown, path: string, errors: string[]) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+  if (typeof value.name !== 'string' || !value.name.trim()) {
+    errors.push(`${path}.name must be a non-empty string`);
+  }
+  if (value.purpose !== undefined && typeof value.purpose !== 'string') {
+    errors.push(`${path}.purpose must be a string`);
+  }
+  if (!isIsoDate(value.deadline)) {
+    errors.push(`${path}.deadline must be a YYYY-MM-DD date`);
+  }
+  if (!VALID_STATES.includes(value.state as CivState)) {
+    errors.push(`${path}.state must be one of ${VALID_STATES.join(', ')}`);
+  }
+  if (
+    !isObject(value.levels) ||
+    !isNumber(value.levels.culturalLevel) ||
+    !isNumber(value.levels.growthLevel) ||
+    !isNumber(value.levels.totalLevel) ||
+    typeof value.levels.classification !== 'string'
+  ) {
+    errors.push(`${path}.levels is missing or malformed`);
+  }
+  if (value.cadence !== undefined && !isValidCadence(value.cadence)) {
+    errors.push(`${path}.cadence is malformed`);
+  }
+  if (value.revivalDays !== undefined && !(isNumber(value.revivalDays) && value.revivalDays >= 1)) {
+    errors.push(`${path}.revivalDays must be a number of at least 1`);
+  }
+  if (value.reminder !== undefined && !isValidReminder(value.reminder)) {
+    errors.push(`${path}.reminder is malformed`);
+  }
+  if (
+    value.milestones !== undefined &&
+    !(Array.isArray(value.milestones) && value.milestones.every(isValidMilestone))
+  ) {
+    errors.push(`${path}.milestones is malformed`);
+  }
+  if (value.metric !== undefined && !isValidMetricShape(value.metric)) {
+    errors.push(`${path}.metric is malformed`);
+  }
+  if (value.archivedAt !== undefined && !isNumber(value.archivedAt)) {
+    errors.push(`${path}.archivedAt must be a number`);
+  }
+  if (value.completedAt !== undefined && !isNumber(value.completedAt)) {
+    errors.push(`${path}.completedAt must be a number`);
+  }
+  if (value.monument !== undefined && typeof value.monument !== 'boolean') {
+    errors.push(`${path}.monument must be a boolean`);
+  }
+  if (value.deletedAt !== undefined && !isNumber(value.deletedAt)) {
+    errors.push(`${path}.deletedAt must be a number`);
+  }
+  if (value.lastProgressAt !== undefined && !isNumber(value.lastProgressAt)) {
+    errors.push(`${path}.lastProgressAt must be a number`);
+  }
+  if (!isNumber(value.createdAt) || !isNumber(value.updatedAt)) {
+    errors.push(`${path}.createdAt and updatedAt must be numbers`);
+  }
+};
+
+const validateProgressEvent = (
+  value: unknown,
+  path: string,
+  civIds: Set<string>,
+  errors: string[]
+) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+  if (typeof value.civId !== 'string' || !civIds.has(value.civId)) {
+    errors.push(`${path}.civId must reference an exported civilization`);
+  }
+  if (!isIsoDate(value.date)) {
+    errors.push(`${path}.date must be a YYYY-MM-DD date`);
+  }
+  if (value.memo !== undefined && typeof value.memo !== 'string') {
+    errors.push(`${path}.memo must be a string`);
+  }
+  if (value.amount !== undefined && !isNumber(value.amount)) {
+    errors.push(`${path}.amount must be a number`);
+  }
+  if (value.backfilled !== undefined && typeof value.backfilled !== 'boolean') {
+    errors.push(`${path}.backfilled must be a boolean`);
+  }
+  if (value.deletedAt !== undefined && !isNumber(value.deletedAt)) {
+    errors.push(`${path}.deletedAt must be a number`);
+  }
+  if (
+    !isNumber(value.createdAt) ||
+    !isNumber(value.updatedAt) ||
+    !isNumber(value.levelBefore) ||
+    !isNumber(value.levelAfter) ||
+    !isNumber(value.levelChange)
+  ) {
+    errors.push(`${path} timestamps and level fields must be numbers`);
+  }
+};
+
+const validateStateTransition = (
+  value: unknown,
+  path: string,
+  civIds: Set<string>,
+  errors: string[]
+) => {
+  if (!isObject(value)) {
+    errors.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) {
+    errors.push(`${path}.id must be a non-empty string`);
+  }
+  if (typeof value.civId !== 'string' || !civIds.has(value.civId)) {
+    errors.push(`${path}.civId must reference an exported civilization`);
+  }
+  if (
+    !VALID_STATES.includes(value.from as CivState) ||
+    !VALID_STATES.includes(value.to as CivState)
+  ) {
+    errors.push(`${path}.from and to must be one of ${VALID_STATES.join(', ')}`);
+  }
+  if (!isNumber(value.timestamp)) {
+    errors.push(`${path}.timestamp must be a number`);
+  }
+  if (!VALID_TRIGGERS.includes(value.trigger as string)) {
+    errors.push(`${path}.trigger must be one of ${VALID_TRIGGERS.join(', ')}`);
+  }
+};
+
+/**
+ * Parse and validate a backup JSON string
+ * Every problem found is reported so the user can fix the file in one pass
+ */
+export const parsePlanetBackup = (json: string): PlanetBackupParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: ['Not valid JSON'] };
+  }
+
+  if (!isObject(data) || data.format !== PLANET_BACKUP_FORMAT) {
+    return { ok: false, errors: [`format must be "${PLANET_BACKUP_FORMAT}"`] };
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    return { ok: false, errors: ['version must be a positive integer'] };
+  }
+  if ((data.version as number) > PLANET_BACKUP_VERSION) {
+    return {
+      ok: false,
+      errors: [`version ${data.version} is newer than supported (${PLANET_BACKUP_VERSION})`],
+    };
+  }
+
+  const errors: string[] = [];
+
+  if (!isNumber(data.exportedAt)) {
+    errors.push('exportedAt must be a number');
+  }
+  validatePlanetGoal(data.planetGoal ?? null, errors);
+
+  // Version 1 backups have no vision history
+  const goalRevisions =
+    data.goalRevisions === undefined && data.version === 1 ? [] : data.goalRevisions;
+  if (!Array.isArray(goalRevisions)) {
+    errors.push('goalRevisions must be an array');
+  } else {
+    const revisionIds = new Set<string>();
+    goalRevisions.forEach((revision, index) => {
+      validateGoalRevision(revision, `goalRevisions[${index}]`, errors);
+      if (isObject(revision) && typeof revision.id === 'string') {
+        if (revisionIds.has(revision.id)) {
+          errors.push(`goalRevisions[${index}].id "${revision.id}" is duplicated`);
+        }
+        revisionIds.add(revision.id);
+      }
+    });
+  }
+
+  const civilizations = Array.isArray(data.civilizations) ? data.civilizations : null;
+  if (!civilizations) {
+    errors.push('civilizations must be an array');
+  }
+  const civIds = new Set<string>();
+  civilizations?.forEach((civ, index) => {
+    validateCivilization(civ, `civilizations[${index}]`, errors);
+    if (isObject(civ) && typeof civ.id === 'string') {
+      if (civIds.has(civ.id)) {
+        errors.push(`civilizations[${index}].id "${civ.id}" is duplicated`);
+      }
+      civIds.add(civ.id);
+    }
+  });
+
+  const progressEvents = Array.isArray(data.progressEvents) ? data.progressEvents : null;
+  if (!progressEvents) {
+    errors.push('progressEvents must be an array');
+  }
+  const eventDays = new Set<string>();
+  progressEvents?.forEach((event, index) => {
+    validateProgressEvent(event, `progressEvents[${index}]`, civIds, errors);
+    if (isObject(event)) {
+      const day = `${event.civId}:${event.date}`;
+      if (eventDays.has(day)) {
+        errors.push(`progressEvents[${index}] duplicates another event on ${event.date}`);
+      }
+      eventDays.add(day);
+    }
+  });
+
+  // Backups written before the transition log existed have no stateTransitions
+  const stateTransitions = data.stateTransitions === undefined ? [] : data.stateTransitions;
+  if (!Array.isArray(stateTransitions)) {
+    errors.push('stateTransitions must be an array');
+  } else {
+    stateTransitions.forEach((transition, index) =>
+      validateStateTransition(transition, `stateTransitions[${index}]`, civIds, errors)
+    );
+  }
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    backup: {
+      format: PLANET_BACKUP_FORMAT,
+      version: data.version as number,
+      exportedAt: data.exportedAt as number,
+      planetGoal: (data.planetGoal ?? null) as PlanetGoal | null,
+      goalRevisions: goalRevisions as PlanetGoalRevision[],
+      civilizations: civilizations as Civilization[],
+      progressEvents: progressEvents as ProgressEvent[],
+      stateTransitions: stateTransitions as StateTransition[],
+    },
+  };
+};
+
+/**
+ * Find civilizations that exist both locally and in the backup (matched by id)
+ */
+export const findPlanetImportConflicts = (
+  local: Civilization[],
+  backup: PlanetBackup
+): PlanetImportConflict[] => {
+  const localById = new Map(local.map(civ => [civ.id, civ]));
+  return backup.civilizations
+    .filter(civ => localById.has(civ.id))
+    .map(civ => ({
+      civId: civ.id,
+      localName: localById.get(civ.id)!.name,
+      importedName: civ.name,
+    }));
+};
+
+/**
+ * Combine local data with a backup
+ * - replace: the backup becomes the planet (a backup without a goal keeps the local goal)
+ * - merge: imported civilizations are added, and on id conflicts the imported civilization
+ *   and its progress events replace the local ones; the local planet goal is kept if set
+ * The vision history follows the goal: it is the backup's whenever the backup's goal is used
+ */
+export const applyPlanetBackup = (
+  local: PlanetData,
+  backup: PlanetBackup,
+  mode: PlanetImportMode
+): PlanetData => {
+  if (mode === 'replace') {
+    return {
+      planetGoal: backup.planetGoal ?? local.planetGoal,
+      goalRevisions: backup.planetGoal ? backup.goalRevisions : local.goalRevisions,
+      civilizations: backup.civilizations,
+      progressEvents: backup.progressEvents,
+      stateTransitions: backup.stateTransitions,
+    };
+  }
+
+  const importedCivIds = new Set(backup.civilizations.map(civ => civ.id));
+  const civilizations = [
+    ...local.civilizations.filter(civ => !importedCivIds.has(civ.id)),
+    ...backup.civilizations,
+  ];
+  const progressEvents = [
+    ...local.progressEvents.filter(event => !importedCivIds.has(event.civId)),
+    ...backup.progressEvents,
+  ];
+  const stateTransitions = [
+    ...local.stateTransitions.filter(transition => !importedCivIds.has(transition.civId)),
+    ...backup.stateTransitions,
+  ];
+
+  return {
+    planetGoal: local.planetGoal ?? backup.planetGoal,
+    goalRevisions:
+      !local.planetGoal && backup.planetGoal ? backup.goalRevisions : local.goalRevisions,
+    civilizations,
+    progressEvents,
+    stateTransitions,
+  };
+};
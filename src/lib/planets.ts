@@ -0,0 +1,95 @@
+// Planets - a user owns several planets, each with its own vision, civilizations and appearance
+//
+// The default planet is the one every user starts with. Its data keeps the original,
+// unscoped locations (users/{uid}/... in Firestore and the plain local storage keys), so data
+// written before planets existed needs no migration; other planets live under their own prefix.
+
+import { Planet, PlanetAppearance } from '../types';
+import { strings } from '../i18n/strings';
+
+// Id of the planet every user starts with
+export const DEFAULT_PLANET_ID = 'default';
+
+export const PLANET_APPEARANCES: PlanetAppearance[] = [
+  'ocean',
+  'forest',
+  'desert',
+  'ice',
+  'volcanic',
+];
+
+export const DEFAULT_PLANET_APPEARANCE: PlanetAppearance = 'ocean';
+
+// Surface colour and glow of each appearance preset (hex RGB)
+export const PLANET_PALETTES: Record<PlanetAppearance, { surface: number; glow: number }> = {
+  ocean: { surface: 0x4a90e2, glow: 0x001122 },
+  forest: { surface: 0x4caf6e, glow: 0x00220f },
+  desert: { surface: 0xd9a35b, glow: 0x221400 },
+  ice: { surface: 0xb7dcef, glow: 0x0f1f2b },
+  volcanic: { surface: 0xb8533c, glow: 0x330a00 },
+};
+
+/**
+ * CSS colour of an appearance preset's surface (for swatches in the UI)
+ */
+export const getPlanetSwatchColor = (appearance: PlanetAppearance): string =>
+  `#${PLANET_PALETTES[appearance].surface.toString(16).padStart(6, '0')}`;
+
+/**
+ * Planet that stands in for the default planet before the planet list was ever saved
+ */
+export const createDefaultPlanet = (now: number = Date.now()): Planet => ({
+  id: DEFAULT_PLANET_ID,
+  name: '',
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * Create a new planet with a unique id
+ */
+export const createPlanet = (
+  name: string,
+  appearance?: PlanetAppearance,
+  now: number = Date.now()
+): Planet => ({
+  id: `planet-${now}-${Math.random().toString(36).slice(2, 7)}`,
+  name: name.trim(),
+  appearance,
+  createdAt: now,
+  updatedAt: now,
+});
+
+/**
+ * Stored planet list with the default planet always first
+ */
+export const withDefaultPlanet = (planets: Planet[]): Planet[] => {
+  const defaultPlanet = planets.find(planet => planet.id === DEFAULT_PLANET_ID);
+  return [
+    defaultPlanet ?? createDefaultPlanet(0),
+    ...planets.filter(planet => planet.id !== DEFAULT_PLANET_ID),
+  ];
+};
+
+/**
+ * Id of an existing planet to show: the requested one, or the default planet when it is gone
+ */
+export const resolveActivePlanetId = (planets: Planet[], planetId?: string | null): string =>
+  planets.some(planet => planet.id === planetId) ? (planetId as string) : DEFAULT_PLANET_ID;
+
+/**
+ * Name shown for a planet (the default planet is unnamed until the user renames it)
+ */
+export const getPlanetName = (planet: Planet): string => planet.name || strings.planets.defaultName;
+
+/**
+ * Appearance of a planet (the ocean preset unless one was chosen)
+ */
+export const getPlanetAppearance = (planet?: Planet | null): PlanetAppearance =>
+  planet?.appearance ?? DEFAULT_PLANET_APPEARANCE;
+
+/**
+ * Local storage key of a planet's data (the default planet keeps the unscoped keys)
+ */
+export const getPlanetStorageKey = (planetId: string, key: string): string =>
+  planetId === DEFAULT_PLANET_ID ? key : `planet:${planetId}:${key}`;
@@ -0,0 +1,130 @@
+// Progress CSV export - one row per progress event for spreadsheet analysis
+
+import { CivState, Civilization, ProgressEvent } from '../types';
+import { deriveCivilizationState, resolveRevivalState } from './civilizationStateMachine';
+import { countConsecutiveProgressDays, sortEventsChronologically } from './progressEvents';
+
+/**
+ * Filters applied before export (all optional, dates are inclusive YYYY-MM-DD)
+ */
+export type ProgressCsvFilter = {
+  from?: string;
+  to?: string;
+  civId?: string;
+};
+
+export const PROGRESS_CSV_COLUMNS = [
+  'civilization',
+  'date',
+  'memo',
+  'levelBefore',
+  'levelAfter',
+  'levelChange',
+  'state',
+] as const;
+
+/**
+ * Keep events matching the civilization and inclusive date range
+ */
+export const filterProgressEvents = (
+  events: ProgressEvent[],
+  filter: ProgressCsvFilter
+): ProgressEvent[] => {
+  return events.filter(
+    event =>
+      (!filter.civId || event.civId === filter.civId) &&
+      (!filter.from || event.date >= filter.from) &&
+      (!filter.to || event.date <= filter.to)
+  );
+};
+
+/**
+ * State of each event's civilization at the moment the event was recorded, i.e. derived from
+ * the previous event with the civilization's cadence
+ * The ocean revival phase is replayed too: progress after the ocean is 'reviving' until the
+ * civilization's revival streak is reached
+ *
+ * @returns Map of event id to state
+ */
+export const deriveStatesAtEvents = (
+  events: ProgressEvent[],
+  civilizations: Civilization[]
+): Map<string, CivState> => {
+  const civById = new Map(civilizations.map(civ => [civ.id, civ]));
+  const states = new Map<string, CivState>();
+  const lastProgressByCiv = new Map<string, number>();
+  const storedStateByCiv = new Map<string, CivState>();
+  const eventsByCiv = new Map<string, ProgressEvent[]>();
+
+  sortEventsChronologically(events).forEach(event => {
+    const civ = civById.get(event.civId);
+    const previousEvents = eventsByCiv.get(event.civId) ?? [];
+
+    const stateAtEvent = resolveRevivalState(
+      deriveCivilizationState(event.createdAt, lastProgressByCiv.get(event.civId), civ?.cadence),
+      storedStateByCiv.get(event.civId) ?? 'uninitialized',
+      countConsecutiveProgressDays(previousEvents, event.civId, event.date),
+      civ?.revivalDays
+    );
+    states.set(event.id, stateAtEvent);
+
+    // The entry itself is fresh progress: ocean → reviving, reviving → developing once revived
+    const civEvents = [...previousEvents, event];
+    storedStateByCiv.set(
+      event.civId,
+      resolveRevivalState(
+        'developing',
+        stateAtEvent,
+        countConsecutiveProgressDays(civEvents, event.civId, event.date),
+        civ?.revivalDays
+      )
+    );
+    lastProgressByCiv.set(event.civId, event.createdAt);
+    eventsByCiv.set(event.civId, civEvents);
+  });
+
+  return states;
+};
+
+/**
+ * Escape a CSV field (RFC 4180)
+ * Values starting with a formula character are prefixed with ' so spreadsheets show them as text
+ */
+const escapeCsvField = (value: string | number): string => {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Build the CSV (header + one row per event, oldest first)
+ * States are computed from the full event history so filtering does not change them
+ */
+export const buildProgressCsv = (
+  events: ProgressEvent[],
+  civilizations: Civilization[],
+  filter: ProgressCsvFilter = {}
+): string => {
+  const statesAtEvents = deriveStatesAtEvents(events, civilizations);
+  const civNames = new Map(civilizations.map(civ => [civ.id, civ.name]));
+
+  const rows = sortEventsChronologically(filterProgressEvents(events, filter))
+    .filter(event => civNames.has(event.civId))
+    .map(event =>
+      [
+        civNames.get(event.civId)!,
+        event.date,
+        event.memo ?? '',
+        event.levelBefore,
+        event.levelAfter,
+        event.levelChange,
+        statesAtEvents.get(event.id) ?? 'uninitialized',
+      ]
+        .map(escapeCsvField)
+        .join(',')
+    );
+
+  return [PROGRESS_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
@@ -0,0 +1,53 @@
+// Progress event shards - layout of locally stored progress events
+//
+// Events are stored in one blob per civilization and month ("progress_events:{civId}:{YYYY-MM}")
+// instead of a single array, so saving an entry rewrites at most a month of one civilization.
+// A small index lists the months each civilization has entries for; it only changes when a
+// shard is created or emptied.
+
+import { ProgressEvent } from '../types';
+
+// Local storage key of the shard index
+export const PROGRESS_EVENT_INDEX_KEY = 'progress_events_index';
+
+// Prefix of the per-civilization, per-month shard keys
+export const PROGRESS_EVENT_SHARD_PREFIX = 'progress_events:';
+
+/**
+ * Months (YYYY-MM, ascending) with stored events, per civilization id
+ */
+export type ProgressEventIndex = Record<string, string[]>;
+
+/**
+ * Month (YYYY-MM) a progress event is stored under
+ */
+export const getShardMonth = (date: string): string => date.slice(0, 7);
+
+/**
+ * Storage key of a civilization's shard for a month
+ */
+export const getShardKey = (civId: string, month: string): string =>
+  `${PROGRESS_EVENT_SHARD_PREFIX}${civId}:${month}`;
+
+/**
+ * Split events into shards and the index listing them
+ */
+export const shardProgressEvents = (
+  events: ProgressEvent[]
+): { index: ProgressEventIndex; shards: Record<string, ProgressEvent[]> } => {
+  const index: ProgressEventIndex = {};
+  const shards: Record<string, ProgressEvent[]> = {};
+
+  events.forEach(event => {
+    const month = getShardMonth(event.date);
+    const key = getShardKey(event.civId, month);
+    if (!shards[key]) {
+      shards[key] = [];
+      index[event.civId] = [...(index[event.civId] ?? []), month];
+    }
+    shards[key].push(event);
+  });
+
+  Object.values(index).forEach(months => months.sort());
+  return { index, shards };
+};
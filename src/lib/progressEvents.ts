@@ -0,0 +1,194 @@
+// Progress events - pure helpers for the unified progress model
+// One ProgressEvent per civilization per day, carrying an optional memo and its level change
+// Progress can also be added, edited or deleted for past days within the backfill window
+
+import { Civilization, ProgressEvent, RecordProgressRequest } from '../types';
+import { getScoringEngine } from './scoring';
+import { getMetricProgress } from './metrics';
+import { getCalendarDayStart, getTodayDate, shiftCalendarDate } from './calendarDay';
+
+// Days before today progress can be backfilled for when the planet goal does not set it
+export const DEFAULT_BACKFILL_WINDOW_DAYS = 7;
+export const MAX_BACKFILL_WINDOW_DAYS = 30;
+
+/**
+ * Check whether progress can be recorded, edited or deleted for a date
+ * (today, or up to windowDays days before it)
+ */
+export const isWithinBackfillWindow = (
+  date: string,
+  windowDays: number = DEFAULT_BACKFILL_WINDOW_DAYS,
+  today: string = getTodayDate()
+): boolean => {
+  return date <= today && date >= shiftCalendarDate(today, -windowDays);
+};
+
+/**
+ * Dates progress can be recorded for, newest first (today, then the backfill window)
+ */
+export const getBackfillDates = (
+  windowDays: number = DEFAULT_BACKFILL_WINDOW_DAYS,
+  today: string = getTodayDate()
+): string[] => {
+  return Array.from({ length: windowDays + 1 }, (_, days) => shiftCalendarDate(today, -days));
+};
+
+/**
+ * Count a civilization's consecutive progress days ending today
+ * A streak ending yesterday still counts (today may not be recorded yet); older streaks are broken
+ */
+export const countConsecutiveProgressDays = (
+  events: ProgressEvent[],
+  civId: string,
+  today: string = getTodayDate()
+): number => {
+  const dates = new Set(events.filter(event => event.civId === civId).map(event => event.date));
+
+  let date = dates.has(today) ? today : shiftCalendarDate(today, -1);
+  let streak = 0;
+  while (dates.has(date)) {
+    streak++;
+    date = shiftCalendarDate(date, -1);
+  }
+  return streak;
+};
+
+/**
+ * Sort events newest first (by date, then creation time)
+ */
+export const sortEventsNewestFirst = (events: ProgressEvent[]): ProgressEvent[] => {
+  return [...events].sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+};
+
+/**
+ * Sort events oldest first (by date, then creation time)
+ */
+export const sortEventsChronologically = (events: ProgressEvent[]): ProgressEvent[] => {
+  return [...events].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+};
+
+/**
+ * Find the event for a civilization on a given date
+ */
+export const findProgressEvent = (
+  events: ProgressEvent[],
+  civId: string,
+  date: string
+): ProgressEvent | null => {
+  return events.find(event => event.civId === civId && event.date === date) || null;
+};
+
+/**
+ * What a civilization's entries are scored against: its deadline, milestones and metric
+ */
+export type ProgressScoringContext = Partial<
+  Pick<Civilization, 'deadline' | 'milestones' | 'metric'>
+>;
+
+/**
+ * Level before/after an entry, given the civilization's entries before it
+ * Comes from the scoring engine with the milestones and metric progress as of the entry, so it
+ * matches the civilization's level at that time
+ */
+const scoreProgressEntry = (
+  earlierEvents: ProgressEvent[],
+  entry: ProgressEvent,
+  context: ProgressScoringContext
+): Pick<ProgressEvent, 'levelBefore' | 'levelAfter' | 'levelChange'> => {
+  const engine = getScoringEngine();
+  const { deadline, milestones, metric } = context;
+  const at = entry.createdAt;
+  const scoreAt = (events: ProgressEvent[]): number =>
+    engine.calculateLevels({
+      now: at,
+      progressTimestamps: events.map(event => event.createdAt),
+      deadline,
+      milestones,
+      metricProgress: metric ? getMetricProgress(events, metric, at) : undefined,
+    }).totalLevel;
+
+  const levelBefore = scoreAt(earlierEvents);
+  const levelAfter = scoreAt([...earlierEvents, entry]);
+  return { levelBefore, levelAfter, levelChange: levelAfter - levelBefore };
+};
+
+/**
+ * Build a new progress event for today, or for data.date when backfilling a past day
+ * A backfilled event is timestamped at the start of its day and flagged as backfilled
+ *
+ * @param context The civilization the event belongs to (deadline, milestones, metric)
+ */
+export const createProgressEvent = (
+  events: ProgressEvent[],
+  civId: string,
+  data: RecordProgressRequest,
+  now: number = Date.now(),
+  context: ProgressScoringContext = {}
+): ProgressEvent => {
+  const today = getTodayDate(now);
+  const date = data.date ?? today;
+  const backfilled = date < today;
+  const createdAt = backfilled ? getCalendarDayStart(date) : now;
+  const earlierEvents = events.filter(event => event.civId === civId && event.date < date);
+
+  const event: ProgressEvent = {
+    id: 'event-' + now,
+    civId,
+    date,
+    memo: data.memo || undefined,
+    amount: data.amount,
+    createdAt,
+    updatedAt: now,
+    levelBefore: 0,
+    levelAfter: 0,
+    levelChange: 0,
+    backfilled: backfilled || undefined,
+  };
+  return { ...event, ...scoreProgressEntry(earlierEvents, event, context) };
+};
+
+/**
+ * Recompute levels of a civilization's events on or after a date
+ * (after an entry was added, edited or deleted earlier in its history)
+ *
+ * @returns Only the events whose levels changed
+ */
+export const recalculateProgressLevels = (
+  events: ProgressEvent[],
+  civId: string,
+  fromDate: string,
+  context: ProgressScoringContext = {}
+): ProgressEvent[] => {
+  const civEvents = sortEventsChronologically(events.filter(event => event.civId === civId));
+  const changed: ProgressEvent[] = [];
+
+  civEvents.forEach((event, index) => {
+    if (event.date < fromDate) {
+      return;
+    }
+
+    const levels = scoreProgressEntry(civEvents.slice(0, index), event, context);
+    if (levels.levelBefore !== event.levelBefore || levels.levelAfter !== event.levelAfter) {
+      changed.push({ ...event, ...levels });
+    }
+  });
+
+  return changed;
+};
+
+/**
+ * Apply a memo (and amount) update to an existing event
+ * An empty update keeps the existing memo and amount (e.g. recording progress again the same day)
+ */
+export const updateProgressEvent = (
+  event: ProgressEvent,
+  data: RecordProgressRequest,
+  now: number = Date.now()
+): ProgressEvent => {
+  return {
+    ...event,
+    memo: data.memo !== undefined ? data.memo || undefined : event.memo,
+    amount: data.amount !== undefined ? data.amount : event.amount,
+    updatedAt: now,
+  };
+};
@@ -0,0 +1,196 @@
+// Reminders - plans the local notifications for each civilization
+//
+// Pure planning, so it can be tested without a device; a ReminderScheduler (expo-notifications
+// in the app, see notifications.ts) applies the plan. Everything is scheduled as one-shot
+// notifications and re-planned whenever civilizations change, so a daily nudge can skip days
+// that already have progress.
+//
+// - Daily nudge: at the civilization's reminder time on each of the next DAILY_NUDGE_DAYS days
+//   without progress, so nudges keep coming while the app stays closed
+// - Decay warning: at the reminder time on the day before the civilization starts decaying
+//   (it replaces that day's nudge)
+
+import { CivReminder, Civilization } from '../types';
+import { deriveCivilizationState } from './civilizationStateMachine';
+import {
+  getCalendarDateTime,
+  getTodayDate,
+  shiftCalendarDate,
+  toCalendarDate,
+} from './calendarDay';
+
+const MINUTES_TO_MS = 60 * 1000;
+const DAYS_TO_MS = 24 * 60 * MINUTES_TO_MS;
+
+// Days of daily nudges scheduled ahead of the next app launch
+export const DAILY_NUDGE_DAYS = 7;
+
+// Most notifications scheduled at once (iOS only keeps the soonest 64)
+export const MAX_SCHEDULED_REMINDERS = 64;
+
+// Longest staleness searched for the decay start (an every-365-days cadence decays after 2 years)
+const DECAY_SEARCH_HORIZON_DAYS = 2 * 366;
+
+export const DEFAULT_REMINDER: CivReminder = {
+  enabled: true,
+  time: '20:00',
+  decayWarning: true,
+};
+
+export type ReminderKind = 'daily' | 'decayWarning';
+
+/**
+ * A notification to schedule
+ */
+export type PlannedReminder = {
+  id: string; // stable per civilization, kind and day
+  civId: string;
+  civName: string;
+  kind: ReminderKind;
+  fireAt: number; // timestamp in milliseconds
+};
+
+/**
+ * Applies reminder plans (implemented with expo-notifications in the app, faked in tests)
+ */
+export interface ReminderScheduler {
+  cancelAll: () => Promise<void>;
+  schedule: (reminder: PlannedReminder) => Promise<void>;
+}
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/**
+ * Check a reminder time of day (HH:mm, 24-hour)
+ */
+export const isValidReminderTime = (time: string): boolean => TIME_PATTERN.test(time);
+
+/**
+ * Timestamp of a time of day (HH:mm) on a calendar date
+ */
+export const getReminderTimeOn = (date: string, time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return getCalendarDateTime(date, hours, minutes);
+};
+
+/**
+ * When a civilization will start decaying if no progress is recorded
+ *
+ * Staleness only grows with time, so the first decaying moment is found by binary search
+ * over deriveCivilizationState (to the minute).
+ *
+ * @returns Timestamp in milliseconds, or null when it is not developing or never decays
+ */
+export const getDecayStartAt = (civilization: Civilization, now: number): number | null => {
+  const { lastProgressAt, cadence } = civilization;
+  if (!lastProgressAt || deriveCivilizationState(now, lastProgressAt, cadence) !== 'developing') {
+    return null;
+  }
+
+  let developingAt = now;
+  let decayingAt = now + DECAY_SEARCH_HORIZON_DAYS * DAYS_TO_MS;
+  if (deriveCivilizationState(decayingAt, lastProgressAt, cadence) === 'developing') {
+    return null;
+  }
+
+  while (decayingAt - developingAt > MINUTES_TO_MS) {
+    const middle = Math.floor((developingAt + decayingAt) / 2);
+    if (deriveCivilizationState(middle, lastProgressAt, cadence) === 'developing') {
+      developingAt = middle;
+    } else {
+      decayingAt = middle;
+    }
+  }
+  return decayingAt;
+};
+
+/**
+ * Days of the upcoming daily nudges: from today if today has no progress and the reminder time
+ * is ahead, otherwise from tomorrow
+ */
+const getDailyNudgeDates = (civilization: Civilization, time: string, now: number): string[] => {
+  const today = getTodayDate(now);
+  const progressedToday =
+    !!civilization.lastProgressAt && toCalendarDate(civilization.lastProgressAt) === today;
+  const firstDate =
+    !progressedToday && getReminderTimeOn(today, time) > now ? today : shiftCalendarDate(today, 1);
+
+  return Array.from({ length: DAILY_NUDGE_DAYS }, (_, i) => shiftCalendarDate(firstDate, i));
+};
+
+/**
+ * Plan the reminders of one civilization
+ */
+export const planCivilizationReminders = (
+  civilization: Civilization,
+  now: number
+): PlannedReminder[] => {
+  const { reminder } = civilization;
+  if (!reminder || civilization.archivedAt !== undefined || !isValidReminderTime(reminder.time)) {
+    return [];
+  }
+
+  let warning: PlannedReminder | null = null;
+  const decayStartAt = reminder.decayWarning ? getDecayStartAt(civilization, now) : null;
+  if (decayStartAt !== null) {
+    const warningDate = shiftCalendarDate(toCalendarDate(decayStartAt), -1);
+    const warningAt = getReminderTimeOn(warningDate, reminder.time);
+    if (warningAt > now && warningAt < decayStartAt) {
+      warning = {
+        id: `reminder-${civilization.id}-decay`,
+        civId: civilization.id,
+        civName: civilization.name,
+        kind: 'decayWarning',
+        fireAt: warningAt,
+      };
+    }
+  }
+
+  const nudges: PlannedReminder[] = reminder.enabled
+    ? getDailyNudgeDates(civilization, reminder.time, now)
+        .map(date => ({
+          id: `reminder-${civilization.id}-daily-${date}`,
+          civId: civilization.id,
+          civName: civilization.name,
+          kind: 'daily' as const,
+          fireAt: getReminderTimeOn(date, reminder.time),
+        }))
+        .filter(nudge => nudge.fireAt !== warning?.fireAt)
+    : [];
+
+  return warning ? [...nudges, warning] : nudges;
+};
+
+/**
+ * Plan the reminders of all civilizations, soonest first
+ * Beyond MAX_SCHEDULED_REMINDERS the latest are dropped; they are planned again on a later sync
+ */
+export const planReminders = (civilizations: Civilization[], now: number): PlannedReminder[] => {
+  return civilizations
+    .flatMap(civilization => planCivilizationReminders(civilization, now))
+    .sort((a, b) => a.fireAt - b.fireAt)
+    .slice(0, MAX_SCHEDULED_REMINDERS);
+};
+
+/**
+ * Replace every scheduled reminder with a fresh plan
+ *
+ * @returns The reminders that were scheduled
+ */
+export const syncReminders = async (
+  scheduler: ReminderScheduler,
+  civilizations: Civilization[],
+  now: number = Date.now()
+): Promise<PlannedReminder[]> => {
+  try {
+    const planned = planReminders(civilizations, now);
+    await scheduler.cancelAll();
+    for (const reminder of planned) {
+      await scheduler.schedule(reminder);
+    }
+    return planned;
+  } catch (error) {
+    console.error('Failed to sync reminders:', error);
+    throw error;
+  }
+};
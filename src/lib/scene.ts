@@ -2,6 +2,7 @@
 import { ExpoWebGLRenderingContext } from 'expo-gl';
 import { Renderer } from 'expo-three';
 import * as THREE from 'three';
+import { PlanetAppearance } from '../types';
 import { PlanetScene } from './three';
 import { createPlanetMesh, createCloudLayerMesh, createEquatorRing, PLANET_RADIUS, EARTH_AXIS_TILT } from './planet';
 import { setupLights } from './lighting';
@@ -15,7 +16,10 @@ const CAMERA_INITIAL_DISTANCE = 5.0;
 /**
  * Create and initialize 3D planet scene
  */
-export const createPlanetScene = (gl: ExpoWebGLRenderingContext): PlanetScene => {
+export const createPlanetScene = (
+  gl: ExpoWebGLRenderingContext,
+  appearance?: PlanetAppearance
+): PlanetScene => {
   // Scene setup
   const scene = new THREE.Scene();
   scene.background = new THREE.Color(0x1a1a2e); // Slightly brighter space background
@@ -54,7 +58,7 @@ export const createPlanetScene = (gl: ExpoWebGLRenderingContext): PlanetScene =>
   tiltGroup.rotation.z = EARTH_AXIS_TILT;
   
   // Create smooth planet mesh
-  const planet = createPlanetMesh();
+  const planet = createPlanetMesh(appearance);
   
   // Add very subtle white outline to planet
   const outlineGeometry = new THREE.SphereGeometry(PLANET_RADIUS * 1.005, 32, 32);
@@ -0,0 +1,202 @@
+// Scoring engine - turns a civilization's progress history into levels
+//
+// Every place that needs a level (civilization levels, the level stored on each progress
+// event) goes through the active engine, so they always agree.
+//
+// Default engine:
+// - Daily de-duplication: any number of entries on one day count as a single day
+// - Streak bonus: each consecutive day adds a bonus to that day's points (capped)
+// - Recency decay: a day's points halve every half-life (shorter for cultural, longer for growth)
+// - Deadline pressure: as the deadline approaches the half-lives shrink, so inactivity hurts more
+// - Goal progress: the weighted share of milestones checked off and the percent-to-target of a
+//   numeric metric make up part of the growth level (averaged when a civilization has both)
+
+import { CivLevel, CivMilestone, CivilizationLevels } from '../types';
+import { getCalendarDayStart, toCalendarDate, toDayNumber } from './calendarDay';
+import { getMilestoneProgress } from './milestones';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Progress history to score
+ */
+export type ScoringInput = {
+  now: number; // timestamp in milliseconds
+  progressTimestamps: number[]; // timestamps in milliseconds, any order, duplicates allowed
+  deadline?: string; // ISO date string (YYYY-MM-DD)
+  milestones?: CivMilestone[]; // checklist of the civilization (only those completed by now count)
+  metricProgress?: number; // share of the metric target reached by now, from 0 to 1
+};
+
+/**
+ * Tuning parameters of the default engine
+ */
+export type ScoringConfig = {
+  dailyPoints: number; // points for one day with progress
+  streakBonusPerDay: number; // extra fraction of dailyPoints per consecutive day before it
+  maxStreakBonus: number; // cap on the streak bonus fraction
+  culturalHalfLifeDays: number; // recency half-life for the cultural level
+  growthHalfLifeDays: number; // recency half-life for the growth level
+  culturalTarget: number; // decayed points that make cultural level 100
+  growthTarget: number; // decayed points that make growth level 100
+  pressureWindowDays: number; // deadline pressure starts this many days before the deadline
+  maxDeadlinePressure: number; // half-life divisor at (or past) the deadline
+  goalShare: number; // fraction of the growth level taken by goal progress (milestones / metric)
+};
+
+/**
+ * Pluggable scoring engine
+ */
+export interface ScoringEngine {
+  calculateLevels: (input: ScoringInput) => CivilizationLevels;
+}
+
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  dailyPoints: 1,
+  streakBonusPerDay: 0.1,
+  maxStreakBonus: 0.5,
+  culturalHalfLifeDays: 14,
+  growthHalfLifeDays: 45,
+  culturalTarget: 20,
+  growthTarget: 45,
+  pressureWindowDays: 30,
+  maxDeadlinePressure: 2,
+  goalShare: 0.4,
+};
+
+/**
+ * Classification from total level (25 / 50 / 75 boundaries)
+ */
+export const classifyLevel = (totalLevel: number): CivLevel => {
+  if (totalLevel >= 75) {
+    return 'city';
+  }
+  if (totalLevel >= 50) {
+    return 'town';
+  }
+  if (totalLevel >= 25) {
+    return 'village';
+  }
+  return 'grassland';
+};
+
+/**
+ * Distinct calendar days (as day numbers) with progress at or before now, oldest first
+ */
+export const toProgressDays = (progressTimestamps: number[], now: number): number[] => {
+  const days = new Set(
+    progressTimestamps
+      .filter(timestamp => timestamp <= now)
+      .map(timestamp => toDayNumber(toCalendarDate(timestamp)))
+  );
+  return [...days].sort((a, b) => a - b);
+};
+
+/**
+ * Half-life divisor from deadline proximity (1 = no pressure)
+ */
+export const getDeadlinePressure = (
+  now: number,
+  deadline: string | undefined,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): number => {
+  if (!deadline) {
+    return 1;
+  }
+
+  const deadlineAt = getCalendarDayStart(deadline);
+  if (isNaN(deadlineAt)) {
+    return 1;
+  }
+
+  const daysLeft = (deadlineAt - now) / DAYS_TO_MS;
+  if (daysLeft >= config.pressureWindowDays) {
+    return 1;
+  }
+
+  const closeness = Math.min(1, 1 - Math.max(0, daysLeft) / config.pressureWindowDays);
+  return 1 + (config.maxDeadlinePressure - 1) * closeness;
+};
+
+/**
+ * Progress towards the goal itself, from 0 to 1 (undefined without milestones or a metric)
+ */
+export const getGoalProgress = (
+  now: number,
+  milestones: CivMilestone[] = [],
+  metricProgress?: number
+): number | undefined => {
+  const parts: number[] = [];
+  if (milestones.length > 0) {
+    parts.push(getMilestoneProgress(milestones, now));
+  }
+  if (metricProgress !== undefined) {
+    parts.push(Math.min(1, Math.max(0, metricProgress)));
+  }
+  if (parts.length === 0) {
+    return undefined;
+  }
+  return parts.reduce((sum, part) => sum + part, 0) / parts.length;
+};
+
+/**
+ * Create the default engine, optionally overriding parts of its configuration
+ */
+export const createScoringEngine = (overrides: Partial<ScoringConfig> = {}): ScoringEngine => {
+  const config: ScoringConfig = { ...DEFAULT_SCORING_CONFIG, ...overrides };
+
+  return {
+    calculateLevels: ({ now, progressTimestamps, deadline, milestones, metricProgress }) => {
+      const days = toProgressDays(progressTimestamps, now);
+      const today = toDayNumber(toCalendarDate(now));
+      const pressure = getDeadlinePressure(now, deadline, config);
+      const culturalHalfLife = config.culturalHalfLifeDays / pressure;
+      const growthHalfLife = config.growthHalfLifeDays / pressure;
+
+      let culturalPoints = 0;
+      let growthPoints = 0;
+      let streak = 0;
+      days.forEach((day, index) => {
+        streak = index > 0 && days[index - 1] === day - 1 ? streak + 1 : 1;
+        const bonus = Math.min(config.maxStreakBonus, config.streakBonusPerDay * (streak - 1));
+        const points = config.dailyPoints * (1 + bonus);
+        const age = today - day;
+
+        culturalPoints += points * Math.pow(0.5, age / culturalHalfLife);
+        growthPoints += points * Math.pow(0.5, age / growthHalfLife);
+      });
+
+      const culturalLevel = Math.min(100, (culturalPoints / config.culturalTarget) * 100);
+      const progressGrowthLevel = Math.min(100, (growthPoints / config.growthTarget) * 100);
+      const goalProgress = getGoalProgress(now, milestones, metricProgress);
+      const growthLevel =
+        goalProgress !== undefined
+          ? (1 - config.goalShare) * progressGrowthLevel + config.goalShare * 100 * goalProgress
+          : progressGrowthLevel;
+      const totalLevel = Math.round((culturalLevel + growthLevel) / 2);
+
+      return {
+        culturalLevel: Math.round(culturalLevel),
+        growthLevel: Math.round(growthLevel),
+        totalLevel,
+        classification: classifyLevel(totalLevel),
+      };
+    },
+  };
+};
+
+export const defaultScoringEngine = createScoringEngine();
+
+let activeScoringEngine: ScoringEngine = defaultScoringEngine;
+
+/**
+ * Engine used by the app (civilization levels and progress event levels)
+ */
+export const getScoringEngine = (): ScoringEngine => activeScoringEngine;
+
+/**
+ * Swap the engine used by the app (pass nothing to restore the default)
+ */
+export const setScoringEngine = (engine: ScoringEngine = defaultScoringEngine): void => {
+  activeScoringEngine = engine;
+};
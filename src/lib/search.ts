@@ -0,0 +1,116 @@
+// Search - full-text search and filters over progress memos and civilizations
+//
+// Text is matched after Unicode normalisation (NFKC) and lower-casing, so full-width and
+// half-width characters match each other. Every word of the query has to be found in at least
+// one of the searched fields.
+//
+// Progress entries are filtered by their own memo, date and level change and by the name,
+// purpose, state and level of their civilization. A civilization matches when its own fields
+// match, or - for text, date range and level change - when any of its progress entries does.
+
+import { Civilization, ProgressEvent, SearchQuery } from '../types';
+
+export const EMPTY_SEARCH_QUERY: SearchQuery = {};
+
+/**
+ * Normalise text for comparison
+ */
+export const normalizeSearchText = (text: string): string => text.normalize('NFKC').toLowerCase();
+
+const getSearchTerms = (text?: string): string[] =>
+  normalizeSearchText(text ?? '')
+    .split(/\s+/)
+    .filter(term => term.length > 0);
+
+/**
+ * Whether every term appears in at least one of the fields
+ */
+const matchesTerms = (terms: string[], fields: (string | undefined)[]): boolean => {
+  const haystack = fields.filter((field): field is string => !!field).map(normalizeSearchText);
+  return terms.every(term => haystack.some(field => field.includes(term)));
+};
+
+/**
+ * Whether a query has no conditions (matches everything)
+ */
+export const isEmptySearchQuery = (query: SearchQuery): boolean =>
+  getSearchTerms(query.text).length === 0 &&
+  !query.states?.length &&
+  !query.levels?.length &&
+  !query.from &&
+  !query.to &&
+  !query.levelChange;
+
+/**
+ * Number of filters in use besides the text (for a badge on the filter button)
+ */
+export const countSearchFilters = (query: SearchQuery): number =>
+  [query.states?.length, query.levels?.length, query.from || query.to, query.levelChange].filter(
+    Boolean
+  ).length;
+
+const matchesCivilizationFilters = (civilization: Civilization, query: SearchQuery): boolean =>
+  (!query.states?.length || query.states.includes(civilization.state)) &&
+  (!query.levels?.length ||
+    query.levels.includes(civilization.levels?.classification ?? 'grassland'));
+
+const matchesEventFilters = (event: ProgressEvent, query: SearchQuery): boolean =>
+  (!query.from || event.date >= query.from) &&
+  (!query.to || event.date <= query.to) &&
+  (query.levelChange !== 'gain' || event.levelChange > 0) &&
+  (query.levelChange !== 'loss' || event.levelChange < 0);
+
+/**
+ * Progress entries matching a query, in their original order
+ * Entries whose civilization is not given never match
+ */
+export const searchProgressEvents = (
+  events: ProgressEvent[],
+  civilizations: Civilization[],
+  query: SearchQuery
+): ProgressEvent[] => {
+  const terms = getSearchTerms(query.text);
+  const civilizationsById = new Map(civilizations.map(civ => [civ.id, civ]));
+
+  return events.filter(event => {
+    const civilization = civilizationsById.get(event.civId);
+    return (
+      !!civilization &&
+      matchesCivilizationFilters(civilization, query) &&
+      matchesEventFilters(event, query) &&
+      matchesTerms(terms, [event.memo, civilization.name, civilization.purpose])
+    );
+  });
+};
+
+/**
+ * Civilizations matching a query, in their original order
+ */
+export const searchCivilizations = (
+  civilizations: Civilization[],
+  events: ProgressEvent[],
+  query: SearchQuery
+): Civilization[] => {
+  const terms = getSearchTerms(query.text);
+  const needsEvent = !!(query.from || query.to || query.levelChange);
+
+  return civilizations.filter(civilization => {
+    if (!matchesCivilizationFilters(civilization, query)) {
+      return false;
+    }
+
+    const civEvents = events.filter(
+      event => event.civId === civilization.id && matchesEventFilters(event, query)
+    );
+    if (needsEvent && civEvents.length === 0) {
+      return false;
+    }
+
+    return (
+      matchesTerms(terms, [civilization.name, civilization.purpose]) ||
+      civEvents.some(event =>
+        matchesTerms(terms, [event.memo, civilization.name, civilization.purpose])
+      )
+    );
+  });
+};
@@ -0,0 +1,245 @@
+// Statistics - streaks, weekly activity, time spent in each state / level and a contribution
+// heatmap, per civilization and planet-wide
+//
+// Everything is derived from progress events and state transitions; nothing is stored.
+// Level time is based on the level recorded with each progress entry (levelAfter), so it
+// changes at progress entries only and ignores the decay between them.
+
+import { CivLevel, CivState, Civilization, ProgressEvent, StateTransition } from '../types';
+import {
+  calendarDaysBetween,
+  getCalendarWeekday,
+  getTodayDate,
+  shiftCalendarDate,
+} from './calendarDay';
+import { sortEventsChronologically } from './progressEvents';
+import { classifyLevel } from './scoring';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+
+// Weeks shown in the weekly activity chart and the contribution heatmap
+export const STATS_WEEKS = 12;
+export const HEATMAP_WEEKS = 20;
+
+export const CIV_STATES: CivState[] = [
+  'uninitialized',
+  'developing',
+  'decaying',
+  'ocean',
+  'reviving',
+];
+export const CIV_LEVELS: CivLevel[] = ['grassland', 'village', 'town', 'city'];
+
+export type Streaks = {
+  current: number; // consecutive days ending today (or yesterday, today may not be recorded yet)
+  longest: number;
+};
+
+export type WeeklyCount = {
+  weekStart: string; // Sunday of the week (YYYY-MM-DD)
+  count: number;
+};
+
+export type HeatmapCell = {
+  date: string;
+  count: number;
+  future: boolean; // after today (shown empty)
+};
+
+export type ProgressStats = {
+  entries: number;
+  activeDays: number;
+  streaks: Streaks;
+  weekly: WeeklyCount[]; // last STATS_WEEKS weeks, oldest first
+  averagePerWeek: number; // entries per week since the first entry
+  stateDurations: Record<CivState, number>; // milliseconds
+  levelDurations: Record<CivLevel, number>; // milliseconds
+};
+
+const emptyDurations = <T extends string>(keys: T[]): Record<T, number> =>
+  keys.reduce((durations, key) => ({ ...durations, [key]: 0 }), {} as Record<T, number>);
+
+/**
+ * Current and longest runs of consecutive days with progress
+ */
+export const getStreaks = (dates: string[], today: string = getTodayDate()): Streaks => {
+  const days = [...new Set(dates)].sort();
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((date, index) => {
+    run = index > 0 && calendarDaysBetween(days[index - 1], date) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const daySet = new Set(days);
+  let date = daySet.has(today) ? today : shiftCalendarDate(today, -1);
+  let current = 0;
+  while (daySet.has(date)) {
+    current++;
+    date = shiftCalendarDate(date, -1);
+  }
+
+  return { current, longest };
+};
+
+/**
+ * Sunday starting the week of a date
+ */
+export const getWeekStart = (date: string): string =>
+  shiftCalendarDate(date, -getCalendarWeekday(date));
+
+/**
+ * Entries per week over the last weeks (including the current one), oldest first
+ */
+export const getWeeklyCounts = (
+  dates: string[],
+  weeks: number = STATS_WEEKS,
+  today: string = getTodayDate()
+): WeeklyCount[] => {
+  const currentWeek = getWeekStart(today);
+  const counts: WeeklyCount[] = Array.from({ length: weeks }, (_, index) => ({
+    weekStart: shiftCalendarDate(currentWeek, (index - weeks + 1) * 7),
+    count: 0,
+  }));
+
+  dates.forEach(date => {
+    const index = weeks - 1 - calendarDaysBetween(getWeekStart(date), currentWeek) / 7;
+    if (index >= 0 && index < weeks) {
+      counts[index].count++;
+    }
+  });
+  return counts;
+};
+
+/**
+ * Average entries per week from the week of the first entry to the current week
+ */
+export const getAveragePerWeek = (dates: string[], today: string = getTodayDate()): number => {
+  if (dates.length === 0) {
+    return 0;
+  }
+  const first = dates.reduce((min, date) => (date < min ? date : min));
+  const weeks = calendarDaysBetween(getWeekStart(first), getWeekStart(today)) / 7 + 1;
+  return dates.length / Math.max(1, weeks);
+};
+
+/**
+ * Entries per day for a GitHub-style heatmap: one column per week (Sunday to Saturday),
+ * oldest week first, ending with the current week
+ */
+export const getContributionHeatmap = (
+  dates: string[],
+  weeks: number = HEATMAP_WEEKS,
+  today: string = getTodayDate()
+): HeatmapCell[][] => {
+  const counts = new Map<string, number>();
+  dates.forEach(date => counts.set(date, (counts.get(date) ?? 0) + 1));
+
+  const firstWeek = shiftCalendarDate(getWeekStart(today), -(weeks - 1) * 7);
+  return Array.from({ length: weeks }, (_, week) =>
+    Array.from({ length: 7 }, (__, weekday) => {
+      const date = shiftCalendarDate(firstWeek, week * 7 + weekday);
+      return { date, count: counts.get(date) ?? 0, future: date > today };
+    })
+  );
+};
+
+/**
+ * Time a civilization spent in each state, from its creation until now (or until archived)
+ */
+export const getStateDurations = (
+  civilization: Civilization,
+  transitions: StateTransition[],
+  now: number = Date.now()
+): Record<CivState, number> => {
+  const durations = emptyDurations(CIV_STATES);
+  const end = Math.min(now, civilization.archivedAt ?? now);
+  const sorted = transitions
+    .filter(transition => transition.civId === civilization.id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  let state = sorted.length > 0 ? sorted[0].from : civilization.state;
+  let since = civilization.createdAt;
+  sorted.forEach(transition => {
+    const at = Math.min(end, Math.max(since, transition.timestamp));
+    durations[state] += at - since;
+    state = transition.to;
+    since = at;
+  });
+  durations[state] += Math.max(0, end - since);
+  return durations;
+};
+
+/**
+ * Time a civilization spent at each level classification, from its creation until now
+ * (or until archived), changing with the level recorded at each progress entry
+ */
+export const getLevelDurations = (
+  civilization: Civilization,
+  events: ProgressEvent[],
+  now: number = Date.now()
+): Record<CivLevel, number> => {
+  const durations = emptyDurations(CIV_LEVELS);
+  const end = Math.min(now, civilization.archivedAt ?? now);
+  const sorted = sortEventsChronologically(events.filter(event => event.civId === civilization.id));
+
+  let level: CivLevel = sorted.length > 0 ? classifyLevel(sorted[0].levelBefore) : 'grassland';
+  let since = civilization.createdAt;
+  sorted.forEach(event => {
+    const at = Math.min(end, Math.max(since, event.createdAt));
+    durations[level] += at - since;
+    level = classifyLevel(event.levelAfter);
+    since = at;
+  });
+  durations[level] += Math.max(0, end - since);
+  return durations;
+};
+
+const addDurations = <T extends string>(
+  total: Record<T, number>,
+  durations: Record<T, number>
+): Record<T, number> => {
+  const sum = { ...total };
+  (Object.keys(durations) as T[]).forEach(key => {
+    sum[key] += durations[key];
+  });
+  return sum;
+};
+
+/**
+ * Statistics of the given civilizations; pass one civilization for its own statistics, or
+ * all of them for the planet (state and level times then add up across civilizations)
+ */
+export const getProgressStats = (
+  civilizations: Civilization[],
+  events: ProgressEvent[],
+  transitions: StateTransition[],
+  now: number = Date.now()
+): ProgressStats => {
+  const civIds = new Set(civilizations.map(civ => civ.id));
+  const civEvents = events.filter(event => civIds.has(event.civId));
+  const dates = civEvents.map(event => event.date);
+  const today = getTodayDate(now);
+
+  return {
+    entries: civEvents.length,
+    activeDays: new Set(dates).size,
+    streaks: getStreaks(dates, today),
+    weekly: getWeeklyCounts(dates, STATS_WEEKS, today),
+    averagePerWeek: getAveragePerWeek(dates, today),
+    stateDurations: civilizations.reduce(
+      (total, civ) => addDurations(total, getStateDurations(civ, transitions, now)),
+      emptyDurations(CIV_STATES)
+    ),
+    levelDurations: civilizations.reduce(
+      (total, civ) => addDurations(total, getLevelDurations(civ, civEvents, now)),
+      emptyDurations(CIV_LEVELS)
+    ),
+  };
+};
+
+/**
+ * Duration in whole days (rounded down), for display
+ */
+export const toDays = (duration: number): number => Math.floor(duration / DAYS_TO_MS);
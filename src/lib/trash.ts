@@ -0,0 +1,168 @@
+// Trash - soft-deleted civilizations and progress memos
+//
+// Deleting a civilization or a memo only marks it with deletedAt, so it can be restored from the
+// trash. Once the retention window expires it is purged for good, together with the progress
+// events of a purged civilization so nothing is left orphaned in storage.
+
+import { Civilization, ProgressEvent } from '../types';
+import { findProgressEvent } from './progressEvents';
+
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+
+/** Days a deleted item stays in the trash before it is purged */
+export const TRASH_RETENTION_DAYS = 30;
+
+export interface Trash {
+  civilizations: Civilization[]; // deleted civilizations
+  progressEvents: ProgressEvent[]; // deleted events and events of deleted civilizations
+}
+
+export const EMPTY_TRASH: Trash = { civilizations: [], progressEvents: [] };
+
+export interface TrashSplit {
+  civilizations: Civilization[];
+  progressEvents: ProgressEvent[];
+  trash: Trash;
+}
+
+/**
+ * Why a deleted event cannot be restored: its civilization is still in the trash (or gone),
+ * or progress was recorded again for its day since it was deleted
+ */
+export type TrashRestoreBlocker = 'civilizationDeleted' | 'dateTaken';
+
+export interface TrashPurgePlan {
+  civilizations: Civilization[]; // civilizations to delete for good
+  progressEvents: ProgressEvent[]; // events to delete for good
+  trash: Trash; // what stays in the trash
+}
+
+/**
+ * Whether an item has been moved to the trash
+ */
+export const isDeleted = (item: { deletedAt?: number }): boolean => {
+  return item.deletedAt !== undefined;
+};
+
+/**
+ * Split stored data into live data and the trash.
+ * Events stay live only while their civilization is live; events of a deleted civilization go to
+ * the trash with it, and events whose civilization no longer exists are kept there until purged.
+ */
+export const splitTrash = (
+  allCivilizations: Civilization[],
+  allProgressEvents: ProgressEvent[]
+): TrashSplit => {
+  const civilizations = allCivilizations.filter(civilization => !isDeleted(civilization));
+  const liveCivIds = new Set(civilizations.map(civilization => civilization.id));
+  const progressEvents = allProgressEvents.filter(
+    event => !isDeleted(event) && liveCivIds.has(event.civId)
+  );
+
+  return {
+    civilizations,
+    progressEvents,
+    trash: {
+      civilizations: allCivilizations.filter(isDeleted),
+      progressEvents: allProgressEvents.filter(
+        event => isDeleted(event) || !liveCivIds.has(event.civId)
+      ),
+    },
+  };
+};
+
+/**
+ * Civilizations to persist: the live ones plus the trash (a live civilization wins on an id clash)
+ */
+export const withTrashedCivilizations = (
+  civilizations: Civilization[],
+  trash: Trash
+): Civilization[] => {
+  const liveCivIds = new Set(civilizations.map(civilization => civilization.id));
+  return [...civilizations, ...trash.civilizations.filter(civ => !liveCivIds.has(civ.id))];
+};
+
+/**
+ * Progress events deleted one by one (not along with their civilization), most recently deleted first
+ */
+export const getDeletedProgressEvents = (trash: Trash): ProgressEvent[] => {
+  return trash.progressEvents
+    .filter(isDeleted)
+    .sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0));
+};
+
+/**
+ * Number of items listed in the trash: deleted civilizations and deleted progress events
+ */
+export const countTrashItems = (trash: Trash): number => {
+  return trash.civilizations.length + trash.progressEvents.filter(isDeleted).length;
+};
+
+/**
+ * What keeps a deleted progress event from being restored, if anything
+ */
+export const getRestoreBlocker = (
+  event: ProgressEvent,
+  civilizations: Civilization[],
+  progressEvents: ProgressEvent[]
+): TrashRestoreBlocker | undefined => {
+  if (!civilizations.some(civilization => civilization.id === event.civId)) {
+    return 'civilizationDeleted';
+  }
+  if (findProgressEvent(progressEvents, event.civId, event.date)) {
+    return 'dateTaken';
+  }
+  return undefined;
+};
+
+/**
+ * When an item deleted at the given time is purged from the trash
+ */
+export const getTrashExpiresAt = (
+  deletedAt: number,
+  retentionDays: number = TRASH_RETENTION_DAYS
+): number => {
+  return deletedAt + retentionDays * DAYS_TO_MS;
+};
+
+/**
+ * Whole days left before an item deleted at the given time is purged (0 on its last day)
+ */
+export const getTrashDaysLeft = (
+  deletedAt: number,
+  now: number = Date.now(),
+  retentionDays: number = TRASH_RETENTION_DAYS
+): number => {
+  return Math.max(0, Math.ceil((getTrashExpiresAt(deletedAt, retentionDays) - now) / DAYS_TO_MS));
+};
+
+/**
+ * Plan which trash items to purge.
+ * Expired civilizations are purged with all of their events; an event is purged on its own once it
+ * expires, or when its civilization no longer exists at all. A retention of 0 empties the trash.
+ */
+export const planTrashPurge = (
+  trash: Trash,
+  liveCivIds: string[],
+  now: number = Date.now(),
+  retentionDays: number = TRASH_RETENTION_DAYS
+): TrashPurgePlan => {
+  const isExpired = (deletedAt?: number): boolean =>
+    deletedAt !== undefined && getTrashExpiresAt(deletedAt, retentionDays) <= now;
+
+  const expiredCivilizations = trash.civilizations.filter(civ => isExpired(civ.deletedAt));
+  const keptCivilizations = trash.civilizations.filter(civ => !isExpired(civ.deletedAt));
+  const existingCivIds = new Set([...liveCivIds, ...keptCivilizations.map(civ => civ.id)]);
+
+  const isPurged = (event: ProgressEvent): boolean =>
+    !existingCivIds.has(event.civId) || isExpired(event.deletedAt);
+
+  return {
+    civilizations: expiredCivilizations,
+    progressEvents: trash.progressEvents.filter(isPurged),
+    trash: {
+      civilizations: keptCivilizations,
+      progressEvents: trash.progressEvents.filter(event => !isPurged(event)),
+    },
+  };
+};
@@ -0,0 +1,36 @@
+// Write queue - runs the store's writes one at a time
+//
+// A write reads the latest state when it starts, persists its result and commits it to the store
+// before the next write starts, so two actions never compute from the same snapshot and overwrite
+// each other. A failed write rejects its own caller and does not block the writes after it.
+//
+// A write must never wait for another queued write (it would wait for itself): follow-up work
+// such as re-deriving states is queued by the action after its own write has finished.
+
+export type WriteQueue = {
+  /**
+   * Queue a write and resolve with its result once it has run
+   */
+  run: <T>(write: () => Promise<T>) => Promise<T>;
+  /**
+   * Resolve once every write queued so far has finished (successfully or not)
+   */
+  idle: () => Promise<void>;
+};
+
+export const createWriteQueue = (): WriteQueue => {
+  let tail: Promise<void> = Promise.resolve();
+
+  return {
+    run: <T>(write: () => Promise<T>) => {
+      const result = tail.then(write);
+      tail = result.then(
+        () => undefined,
+        () => undefined
+      );
+      return result;
+    },
+
+    idle: () => tail,
+  };
+};
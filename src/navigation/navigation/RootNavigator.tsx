@@ -5,6 +5,9 @@ import { HomeScreen } from '../../screens/Home';
 import { CivilizationsScreen } from '../../screens/Civilizations';
 import { PlanetSettingsScreen } from '../../screens/PlanetSettings';
 import { HistoryScreen } from '../../screens/History';
+import { ArchiveScreen } from '../../screens/Archive';
+import { TrashScreen } from '../../screens/Trash';
+import { StatsScreen } from '../../screens/Stats';
 import { colors } from '../../theme/colors';
 import { typography } from '../../theme/typography';
 import { Icon } from '../../components/UI/Icon';
@@ -16,6 +19,9 @@ export type RootStackParamList = {
   Civilizations: { selectedCivilizationId?: string } | undefined;
   PlanetSettings: undefined;
   History: { selectedCivilizationId?: string } | undefined;
+  Archive: { selectedCivilizationId?: string } | undefined;
+  Trash: undefined;
+  Stats: { selectedCivilizationId?: string } | undefined;
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -71,6 +77,27 @@ export const RootNavigator: React.FC = () => {
             title: 'History',
           }}
         />
+        <Stack.Screen
+          name="Archive"
+          component={ArchiveScreen}
+          options={{ 
+            title: 'Hall of Fame',
+          }}
+        />
+        <Stack.Screen
+          name="Trash"
+          component={TrashScreen}
+          options={{ 
+            title: 'Trash',
+          }}
+        />
+        <Stack.Screen
+          name="Stats"
+          component={StatsScreen}
+          options={{ 
+            title: 'Stats',
+          }}
+        />
       </Stack.Navigator>
     </NavigationContainer>
   );
@@ -0,0 +1,166 @@
+// Firestore backend round-trip tests - run only against the Firestore emulator
+//
+// Start the emulator and run:
+//   FIRESTORE_EMULATOR_HOST=localhost:8080 npx jest src/repositories/__tests__/firestoreBackend.test.ts
+
+import { describe, it, expect, jest } from '@jest/globals';
+import { Civilization, PlanetGoalRevision, ProgressEvent, StateTransition } from '../../types';
+import { DEFAULT_PLANET_ID } from '../../lib/planets';
+import { createMilestone } from '../../lib/milestones';
+
+jest.mock('expo-constants', () => ({
+  expoConfig: {
+    extra: {
+      firebase: {
+        apiKey: 'demo-api-key',
+        authDomain: 'demo-planit.firebaseapp.com',
+        projectId: 'demo-planit',
+        appId: 'demo-app-id',
+        emulatorHost: process.env.FIRESTORE_EMULATOR_HOST,
+      },
+    },
+  },
+}));
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const createCivilization = (id: string, createdAt: number): Civilization => ({
+  id,
+  name: `Civilization ${id}`,
+  deadline: '2030-01-01',
+  state: 'developing',
+  levels: {
+    culturalLevel: 0,
+    growthLevel: 0,
+    totalLevel: 0,
+    classification: 'grassland',
+  },
+  createdAt,
+  updatedAt: createdAt,
+});
+
+describeWithEmulator('firestoreBackend (emulator)', () => {
+  const uid = `test-user-${Date.now()}`;
+
+  const loadBackend = async () => {
+    const { getStorageBackend } = await import('../storageBackend');
+    return getStorageBackend('firestore');
+  };
+
+  it('round-trips the planet goal', async () => {
+    const backend = await loadBackend();
+    await backend.savePlanetGoal(uid, DEFAULT_PLANET_ID, {
+      title: 'Test vision',
+      deadline: '2030-12-31',
+    });
+
+    expect(await backend.getPlanetGoal(uid, DEFAULT_PLANET_ID)).toEqual({
+      title: 'Test vision',
+      deadline: '2030-12-31',
+    });
+  });
+
+  it('syncs civilization snapshots including deletions', async () => {
+    const backend = await loadBackend();
+    await backend.saveCivilizations(uid, DEFAULT_PLANET_ID, [
+      createCivilization('civ-a', 1000),
+      createCivilization('civ-b', 2000),
+    ]);
+    await backend.saveCivilizations(uid, DEFAULT_PLANET_ID, [createCivilization('civ-b', 2000)]);
+
+    const civilizations = await backend.getCivilizations(uid, DEFAULT_PLANET_ID);
+    expect(civilizations.map(civ => civ.id)).toEqual(['civ-b']);
+  });
+
+  it('saves civilizations with undated milestones and undefined nested fields', async () => {
+    const backend = await loadBackend();
+    const milestone = createMilestone('Outline', {}, 1000);
+    const civilization: Civilization = {
+      ...createCivilization('civ-m', 1000),
+      milestones: [milestone, { ...createMilestone('Draft', {}, 1001), completedAt: undefined }],
+    };
+    await backend.saveCivilizations(uid, 'planet-milestones', [civilization]);
+
+    const [saved] = await backend.getCivilizations(uid, 'planet-milestones');
+    expect(saved.milestones?.map(m => m.title)).toEqual(['Outline', 'Draft']);
+    expect(saved.milestones?.[0]).not.toHaveProperty('dueDate');
+    expect(saved.milestones?.[1]).not.toHaveProperty('completedAt');
+  });
+
+  it('upserts and deletes progress events with client IDs and timestamps', async () => {
+    const backend = await loadBackend();
+    const event: ProgressEvent = {
+      id: 'event-1',
+      civId: 'civ-b',
+      date: '2025-01-01',
+      createdAt: 3000,
+      updatedAt: 3000,
+      levelBefore: 0,
+      levelAfter: 1,
+      levelChange: 1,
+    };
+    await backend.saveProgressEvent(uid, DEFAULT_PLANET_ID, event);
+    await backend.saveProgressEvent(uid, DEFAULT_PLANET_ID, {
+      ...event,
+      memo: 'edited',
+      updatedAt: 4000,
+    });
+
+    expect(await backend.getProgressEvents(uid, DEFAULT_PLANET_ID)).toEqual([
+      { ...event, memo: 'edited', updatedAt: 4000 },
+    ]);
+
+    await backend.deleteProgressEvent(uid, DEFAULT_PLANET_ID, event.civId, event.id);
+    expect(await backend.getProgressEvents(uid, DEFAULT_PLANET_ID)).toEqual([]);
+  });
+
+  it('appends state transitions and reads them back oldest first', async () => {
+    const backend = await loadBackend();
+    const transition = (timestamp: number, to: StateTransition['to']): StateTransition => ({
+      id: `transition-civ-b-${timestamp}`,
+      civId: 'civ-b',
+      from: 'developing',
+      to,
+      timestamp,
+      trigger: 'staleness',
+    });
+    await backend.appendStateTransition(uid, DEFAULT_PLANET_ID, transition(6000, 'ocean'));
+    await backend.appendStateTransition(uid, DEFAULT_PLANET_ID, transition(5000, 'decaying'));
+
+    expect(await backend.getStateTransitions(uid, DEFAULT_PLANET_ID)).toEqual([
+      transition(5000, 'decaying'),
+      transition(6000, 'ocean'),
+    ]);
+  });
+
+  it('appends goal revisions and reads them back oldest first', async () => {
+    const backend = await loadBackend();
+    const revision = (timestamp: number, reason?: string): PlanetGoalRevision => ({
+      id: `revision-${timestamp}`,
+      title: `Vision ${timestamp}`,
+      deadline: '2030-12-31',
+      timestamp,
+      reason,
+    });
+    await backend.appendGoalRevision(uid, DEFAULT_PLANET_ID, revision(8000));
+    await backend.appendGoalRevision(uid, DEFAULT_PLANET_ID, revision(7000, 'New job'));
+
+    expect(await backend.getGoalRevisions(uid, DEFAULT_PLANET_ID)).toEqual([
+      revision(7000, 'New job'),
+      { id: 'revision-8000', title: 'Vision 8000', deadline: '2030-12-31', timestamp: 8000 },
+    ]);
+  });
+
+  it('keeps planets apart, with the default planet at the user root', async () => {
+    const backend = await loadBackend();
+    const planet = { id: 'planet-health', name: 'Health', createdAt: 7000, updatedAt: 7000 };
+    await backend.savePlanet(uid, planet);
+    await backend.saveCivilizations(uid, planet.id, [createCivilization('civ-h', 7000)]);
+
+    expect(await backend.getPlanets(uid)).toEqual([planet]);
+    expect((await backend.getCivilizations(uid, planet.id)).map(civ => civ.id)).toEqual(['civ-h']);
+    expect((await backend.getCivilizations(uid, DEFAULT_PLANET_ID)).map(civ => civ.id)).toEqual([
+      'civ-b',
+    ]);
+  });
+});
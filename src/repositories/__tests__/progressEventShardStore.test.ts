@@ -0,0 +1,193 @@
+// Sharded progress event store tests, including a benchmark of storage cost against history size
+
+import { describe, it, expect } from '@jest/globals';
+import { KeyValueStorage, createProgressEventShardStore } from '../progressEventShardStore';
+import {
+  PROGRESS_EVENT_INDEX_KEY,
+  getShardKey,
+  shardProgressEvents,
+} from '../../lib/progressEventShards';
+import { shiftCalendarDate } from '../../lib/calendarDay';
+import { ProgressEvent } from '../../types';
+
+/**
+ * In-memory storage that counts the bytes read and written
+ */
+const createMemoryStorage = () => {
+  const items = new Map<string, string>();
+  const stats = { bytesRead: 0, bytesWritten: 0 };
+  const read = (key: string) => {
+    const value = items.get(key) ?? null;
+    stats.bytesRead += value?.length ?? 0;
+    return value;
+  };
+
+  const storage: KeyValueStorage = {
+    getItem: async key => read(key),
+    setItem: async (key, value) => {
+      stats.bytesWritten += value.length;
+      items.set(key, value);
+    },
+    removeItem: async key => {
+      items.delete(key);
+    },
+    multiGet: async keys => keys.map(key => [key, read(key)] as const),
+  };
+
+  const resetStats = () => {
+    stats.bytesRead = 0;
+    stats.bytesWritten = 0;
+  };
+
+  return { items, stats, storage, resetStats };
+};
+
+const createEvent = (civId: string, date: string, memo?: string): ProgressEvent => ({
+  id: `event-${civId}-${date}`,
+  civId,
+  date,
+  memo,
+  createdAt: new Date(`${date}T12:00:00Z`).getTime(),
+  updatedAt: new Date(`${date}T12:00:00Z`).getTime(),
+  levelBefore: 0,
+  levelAfter: 1,
+  levelChange: 1,
+});
+
+/**
+ * Daily events for each civilization over the days before an end date
+ */
+const createHistory = (civIds: string[], days: number, endDate: string): ProgressEvent[] =>
+  civIds.flatMap(civId =>
+    Array.from({ length: days }, (_, i) =>
+      createEvent(civId, shiftCalendarDate(endDate, -(days - i)), `Day ${i + 1} of ${civId}`)
+    )
+  );
+
+/**
+ * Storage already holding a history, written in the sharded layout
+ */
+const seedStorage = (events: ProgressEvent[]) => {
+  const memory = createMemoryStorage();
+  const { index, shards } = shardProgressEvents(events);
+  memory.items.set(PROGRESS_EVENT_INDEX_KEY, JSON.stringify(index));
+  Object.entries(shards).forEach(([key, shard]) => memory.items.set(key, JSON.stringify(shard)));
+  return memory;
+};
+
+describe('progressEventShardStore', () => {
+  it('saves, updates and deletes events in their monthly shard', async () => {
+    const { items, storage } = createMemoryStorage();
+    const store = createProgressEventShardStore(storage);
+
+    await store.save(createEvent('civ-1', '2025-05-31'));
+    await store.save(createEvent('civ-1', '2025-06-01'));
+    await store.save({ ...createEvent('civ-1', '2025-06-01'), memo: 'edited' });
+
+    expect(JSON.parse(items.get(PROGRESS_EVENT_INDEX_KEY) ?? '{}')).toEqual({
+      'civ-1': ['2025-05', '2025-06'],
+    });
+    expect(JSON.parse(items.get(getShardKey('civ-1', '2025-06')) ?? '[]')).toEqual([
+      { ...createEvent('civ-1', '2025-06-01'), memo: 'edited' },
+    ]);
+
+    // A fresh store (e.g. after a restart) finds the entry without loading it first
+    await createProgressEventShardStore(storage).remove('civ-1', 'event-civ-1-2025-05-31');
+    expect(items.has(getShardKey('civ-1', '2025-05'))).toBe(false);
+    expect(JSON.parse(items.get(PROGRESS_EVENT_INDEX_KEY) ?? '{}')).toEqual({
+      'civ-1': ['2025-06'],
+    });
+  });
+
+  it('moves an edited entry to its new month even when the old shard is not loaded', async () => {
+    const { items, storage } = createMemoryStorage();
+    const original = createEvent('civ-1', '2025-05-31');
+    await createProgressEventShardStore(storage).save(original);
+
+    // A fresh store has no cached location for the entry
+    await createProgressEventShardStore(storage).save({
+      ...original,
+      date: '2025-06-01',
+      updatedAt: original.updatedAt + 1000,
+    });
+
+    expect(items.has(getShardKey('civ-1', '2025-05'))).toBe(false);
+    expect(JSON.parse(items.get(PROGRESS_EVENT_INDEX_KEY) ?? '{}')).toEqual({
+      'civ-1': ['2025-06'],
+    });
+    const events = await createProgressEventShardStore(storage).getAll();
+    expect(events.map(event => [event.id, event.date])).toEqual([[original.id, '2025-06-01']]);
+  });
+
+  it('keeps concurrent saves to the same shard', async () => {
+    const { storage } = createMemoryStorage();
+    const store = createProgressEventShardStore(storage);
+
+    await Promise.all([
+      store.save(createEvent('civ-1', '2025-06-01')),
+      store.save(createEvent('civ-1', '2025-06-02')),
+      store.save(createEvent('civ-2', '2025-06-02')),
+    ]);
+
+    const events = await createProgressEventShardStore(storage).getAll();
+    expect(events.map(event => event.id)).toEqual([
+      'event-civ-1-2025-06-01',
+      'event-civ-1-2025-06-02',
+      'event-civ-2-2025-06-02',
+    ]);
+  });
+
+  describe('benchmark: storage cost against history size', () => {
+    const civIds = ['civ-1', 'civ-2', 'civ-3'];
+    const today = '2030-06-15';
+
+    /**
+     * Bytes moved by a fresh store for a save, by the app's load path (the full history at
+     * launch, then a save), and the size a single array of the whole history would have to be
+     * read and rewritten on every save
+     */
+    const measure = async (years: number) => {
+      const history = createHistory(civIds, years * 365, today);
+      const memory = seedStorage(history);
+
+      memory.resetStats();
+      await createProgressEventShardStore(memory.storage).save(createEvent('civ-1', today));
+      const save = memory.stats.bytesRead + memory.stats.bytesWritten;
+
+      memory.resetStats();
+      const loadedStore = createProgressEventShardStore(memory.storage);
+      await loadedStore.getAll();
+      const load = memory.stats.bytesRead;
+
+      memory.resetStats();
+      await loadedStore.save(createEvent('civ-2', today));
+      const saveAfterLoad = memory.stats.bytesRead + memory.stats.bytesWritten;
+
+      return { save, load, saveAfterLoad, singleArray: JSON.stringify(history).length };
+    };
+
+    it('saves at about the same cost after 1 and 5 years', async () => {
+      const oneYear = await measure(1);
+      const fiveYears = await measure(5);
+
+      // The single array grows with the history...
+      expect(fiveYears.singleArray).toBeGreaterThan(oneYear.singleArray * 4.5);
+      // ...while the shards touched stay the same; only the small index grows
+      expect(fiveYears.save).toBeLessThan(oneYear.save * 1.5);
+      expect(fiveYears.save * 20).toBeLessThan(fiveYears.singleArray);
+    });
+
+    it('reads the history once at launch and saves from the cache afterwards', async () => {
+      const oneYear = await measure(1);
+      const fiveYears = await measure(5);
+
+      // Levels and streaks need every entry, so the launch load grows with the history, but it
+      // reads each entry once: about what loading the single array costs
+      expect(fiveYears.load).toBeGreaterThan(oneYear.load * 4.5);
+      expect(fiveYears.load).toBeLessThan(fiveYears.singleArray * 1.1);
+      // Saves after the load touch only the cached shard, with no re-read of the history
+      expect(fiveYears.saveAfterLoad).toBeLessThan(oneYear.saveAfterLoad * 1.5);
+      expect(fiveYears.saveAfterLoad * 20).toBeLessThan(fiveYears.singleArray);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+// User data migration tests - copies between backends/uids through an in-memory backend
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { StorageBackend, migrateUserData } from '../storageBackend';
+import { DEFAULT_PLANET_ID } from '../../lib/planets';
+import {
+  Civilization,
+  Planet,
+  PlanetGoal,
+  PlanetGoalRevision,
+  ProgressEvent,
+  StateTransition,
+} from '../../types';
+
+type PlanetData = {
+  goal: PlanetGoal | null;
+  goalRevisions: PlanetGoalRevision[];
+  civilizations: Civilization[];
+  progressEvents: ProgressEvent[];
+  stateTransitions: StateTransition[];
+};
+
+/**
+ * In-memory backend keyed by uid and planet id
+ */
+const createMemoryBackend = (): StorageBackend => {
+  const planets = new Map<string, Planet[]>();
+  const data = new Map<string, PlanetData>();
+  const planetData = (uid: string, planetId: string): PlanetData => {
+    const key = `${uid}/${planetId}`;
+    const existing = data.get(key);
+    if (existing) {
+      return existing;
+    }
+    const created: PlanetData = {
+      goal: null,
+      goalRevisions: [],
+      civilizations: [],
+      progressEvents: [],
+      stateTransitions: [],
+    };
+    data.set(key, created);
+    return created;
+  };
+
+  return {
+    kind: 'local',
+    getPlanets: async uid => planets.get(uid) ?? [],
+    savePlanet: async (uid, planet) => {
+      planets.set(uid, [...(planets.get(uid) ?? []).filter(p => p.id !== planet.id), planet]);
+    },
+    getPlanetGoal: async (uid, planetId) => planetData(uid, planetId).goal,
+    savePlanetGoal: async (uid, planetId, goal) => {
+      planetData(uid, planetId).goal = goal;
+    },
+    getGoalRevisions: async (uid, planetId) => planetData(uid, planetId).goalRevisions,
+    appendGoalRevision: async (uid, planetId, revision) => {
+      planetData(uid, planetId).goalRevisions.push(revision);
+    },
+    getCivilizations: async (uid, planetId) => planetData(uid, planetId).civilizations,
+    saveCivilizations: async (uid, planetId, civilizations) => {
+      planetData(uid, planetId).civilizations = civilizations;
+    },
+    getProgressEvents: async (uid, planetId) => planetData(uid, planetId).progressEvents,
+    saveProgressEvent: async (uid, planetId, event) => {
+      planetData(uid, planetId).progressEvents.push(event);
+    },
+    deleteProgressEvent: async (uid, planetId, _civId, eventId) => {
+      const target = planetData(uid, planetId);
+      target.progressEvents = target.progressEvents.filter(event => event.id !== eventId);
+    },
+    getStateTransitions: async (uid, planetId) => planetData(uid, planetId).stateTransitions,
+    appendStateTransition: async (uid, planetId, transition) => {
+      planetData(uid, planetId).stateTransitions.push(transition);
+    },
+  };
+};
+
+const createCivilization = (id: string): Civilization => ({
+  id,
+  name: `Civilization ${id}`,
+  deadline: '2030-01-01',
+  state: 'developing',
+  levels: { culturalLevel: 10, growthLevel: 10, totalLevel: 10, classification: 'grassland' },
+  createdAt: 1000,
+  updatedAt: 1000,
+});
+
+/**
+ * Fill a planet of a user with a goal, revision, civilization, event and transition
+ */
+const seedPlanet = async (backend: StorageBackend, uid: string, planetId: string) => {
+  const civId = `civ-${planetId}`;
+  await backend.savePlanetGoal(uid, planetId, {
+    title: `Vision ${planetId}`,
+    deadline: '2030-12-31',
+  });
+  await backend.appendGoalRevision(uid, planetId, {
+    id: `revision-${planetId}`,
+    title: `Vision ${planetId}`,
+    deadline: '2030-12-31',
+    timestamp: 1000,
+  });
+  await backend.saveCivilizations(uid, planetId, [createCivilization(civId)]);
+  await backend.saveProgressEvent(uid, planetId, {
+    id: `event-${planetId}`,
+    civId,
+    date: '2025-06-01',
+    createdAt: 2000,
+    updatedAt: 2000,
+    levelBefore: 0,
+    levelAfter: 10,
+    levelChange: 10,
+  });
+  await backend.appendStateTransition(uid, planetId, {
+    id: `transition-${planetId}`,
+    civId,
+    from: 'uninitialized',
+    to: 'developing',
+    timestamp: 2000,
+    trigger: 'progress',
+  });
+};
+
+const readPlanet = async (backend: StorageBackend, uid: string, planetId: string) => ({
+  goal: await backend.getPlanetGoal(uid, planetId),
+  goalRevisions: await backend.getGoalRevisions(uid, planetId),
+  civilizations: await backend.getCivilizations(uid, planetId),
+  progressEvents: await backend.getProgressEvents(uid, planetId),
+  stateTransitions: await backend.getStateTransitions(uid, planetId),
+});
+
+describe('migrateUserData', () => {
+  const workPlanet: Planet = { id: 'planet-work', name: 'Work', createdAt: 1000, updatedAt: 1000 };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('copies every planet with its history and metadata to the target', async () => {
+    const source = createMemoryBackend();
+    const target = createMemoryBackend();
+    await seedPlanet(source, 'local-1', DEFAULT_PLANET_ID);
+    await seedPlanet(source, 'local-1', workPlanet.id);
+    await source.savePlanet('local-1', workPlanet);
+
+    const copied = await migrateUserData(
+      { backend: source, uid: 'local-1' },
+      { backend: target, uid: 'anonymous-1' }
+    );
+
+    expect(copied).toBe(true);
+    for (const planetId of [DEFAULT_PLANET_ID, workPlanet.id]) {
+      expect(await readPlanet(target, 'anonymous-1', planetId)).toEqual(
+        await readPlanet(source, 'local-1', planetId)
+      );
+    }
+    expect(await target.getPlanets('anonymous-1')).toEqual([workPlanet]);
+  });
+
+  it('never overwrites a target that already has data', async () => {
+    const source = createMemoryBackend();
+    const target = createMemoryBackend();
+    await seedPlanet(source, 'local-1', DEFAULT_PLANET_ID);
+    await target.saveCivilizations('anonymous-1', DEFAULT_PLANET_ID, [
+      createCivilization('remote'),
+    ]);
+
+    const copied = await migrateUserData(
+      { backend: source, uid: 'local-1' },
+      { backend: target, uid: 'anonymous-1' }
+    );
+
+    expect(copied).toBe(false);
+    expect(await target.getCivilizations('anonymous-1', DEFAULT_PLANET_ID)).toEqual([
+      createCivilization('remote'),
+    ]);
+    expect(await target.getPlanetGoal('anonymous-1', DEFAULT_PLANET_ID)).toBeNull();
+  });
+
+  it('copies nothing when the source is empty', async () => {
+    const target = createMemoryBackend();
+
+    const copied = await migrateUserData(
+      { backend: createMemoryBackend(), uid: 'local-1' },
+      { backend: target, uid: 'anonymous-1' }
+    );
+
+    expect(copied).toBe(false);
+    expect(await target.getPlanets('anonymous-1')).toEqual([]);
+  });
+
+  it('copies nothing onto the same backend and uid', async () => {
+    const backend = createMemoryBackend();
+    await seedPlanet(backend, 'local-1', DEFAULT_PLANET_ID);
+
+    const copied = await migrateUserData({ backend, uid: 'local-1' }, { backend, uid: 'local-1' });
+
+    expect(copied).toBe(false);
+    expect(await backend.getCivilizations('local-1', DEFAULT_PLANET_ID)).toHaveLength(1);
+  });
+});
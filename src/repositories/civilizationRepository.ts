@@ -8,19 +8,29 @@ import {
   addDoc,
   updateDoc,
   deleteDoc,
+  setDoc,
   query,
   orderBy,
+  writeBatch,
 } from 'firebase/firestore';
-import { db, serverTimestamp } from '../lib/firebase';
+import { db, serverTimestamp, stripUndefined } from '../lib/firebase';
 import { civilizationsCol, civilizationDoc } from './paths';
-import { Civilization, CreateCivilizationRequest, UpdateCivilizationRequest } from '../types';
+import {
+  Civilization,
+  CreateCivilizationRequest,
+  SearchQuery,
+  UpdateCivilizationRequest,
+} from '../types';
+import { searchCivilizations } from '../lib/search';
+import { isDeleted } from '../lib/trash';
+import { getAllProgressEvents } from './progressEventRepository';
 
 /**
- * Get all civilizations for a user
+ * Get all civilizations of a planet
  */
-export const getCivilizations = async (uid: string): Promise<Civilization[]> => {
+export const getCivilizations = async (uid: string, planetId: string): Promise<Civilization[]> => {
   try {
-    const colRef = collection(db, civilizationsCol(uid));
+    const colRef = collection(db, civilizationsCol(uid, planetId));
     const q = query(colRef, orderBy('createdAt', 'desc'));
     const querySnapshot = await getDocs(q);
 
@@ -37,9 +47,13 @@ export const getCivilizations = async (uid: string): Promise<Civilization[]> =>
 /**
  * Get a specific civilization by ID
  */
-export const getCivilization = async (uid: string, civId: string): Promise<Civilization | null> => {
+export const getCivilization = async (
+  uid: string,
+  planetId: string,
+  civId: string
+): Promise<Civilization | null> => {
   try {
-    const docRef = doc(db, civilizationDoc(uid, civId));
+    const docRef = doc(db, civilizationDoc(uid, planetId, civId));
     const docSnap = await getDoc(docRef);
 
     if (docSnap.exists()) {
@@ -61,10 +75,11 @@ export const getCivilization = async (uid: string, civId: string): Promise<Civil
  */
 export const createCivilization = async (
   uid: string,
+  planetId: string,
   data: CreateCivilizationRequest
 ): Promise<string> => {
   try {
-    const colRef = collection(db, civilizationsCol(uid));
+    const colRef = collection(db, civilizationsCol(uid, planetId));
     const now = serverTimestamp();
 
     const docRef = await addDoc(colRef, {
@@ -86,11 +101,12 @@ export const createCivilization = async (
  */
 export const updateCivilization = async (
   uid: string,
+  planetId: string,
   civId: string,
   updates: UpdateCivilizationRequest
 ): Promise<void> => {
   try {
-    const docRef = doc(db, civilizationDoc(uid, civId));
+    const docRef = doc(db, civilizationDoc(uid, planetId, civId));
     await updateDoc(docRef, {
       ...updates,
       updatedAt: serverTimestamp(),
@@ -104,9 +120,13 @@ export const updateCivilization = async (
 /**
  * Delete a civilization
  */
-export const deleteCivilization = async (uid: string, civId: string): Promise<void> => {
+export const deleteCivilization = async (
+  uid: string,
+  planetId: string,
+  civId: string
+): Promise<void> => {
   try {
-    const docRef = doc(db, civilizationDoc(uid, civId));
+    const docRef = doc(db, civilizationDoc(uid, planetId, civId));
     await deleteDoc(docRef);
   } catch (error) {
     console.error('Failed to delete civilization:', error);
@@ -117,9 +137,13 @@ export const deleteCivilization = async (uid: string, civId: string): Promise<vo
 /**
  * Update civilization progress timestamp
  */
-export const updateCivilizationProgress = async (uid: string, civId: string): Promise<void> => {
+export const updateCivilizationProgress = async (
+  uid: string,
+  planetId: string,
+  civId: string
+): Promise<void> => {
   try {
-    const docRef = doc(db, civilizationDoc(uid, civId));
+    const docRef = doc(db, civilizationDoc(uid, planetId, civId));
     await updateDoc(docRef, {
       lastProgressAt: serverTimestamp(),
       updatedAt: serverTimestamp(),
@@ -129,3 +153,87 @@ export const updateCivilizationProgress = async (uid: string, civId: string): Pr
     throw error;
   }
 };
+
+/**
+ * Replace all civilizations of a planet with the given snapshot
+ * Documents keep the client-generated IDs; civilizations missing from the snapshot are deleted
+ */
+export const saveCivilizations = async (
+  uid: string,
+  planetId: string,
+  civilizations: Civilization[]
+): Promise<void> => {
+  try {
+    const colRef = collection(db, civilizationsCol(uid, planetId));
+    const existingSnapshot = await getDocs(colRef);
+    const keepIds = new Set(civilizations.map(civ => civ.id));
+    const batch = writeBatch(db);
+
+    existingSnapshot.docs.forEach(docSnap => {
+      if (!keepIds.has(docSnap.id)) {
+        batch.delete(docSnap.ref);
+      }
+    });
+
+    civilizations.forEach(civ => {
+      const { id, ...data } = civ;
+      batch.set(doc(db, civilizationDoc(uid, planetId, id)), stripUndefined(data));
+    });
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Failed to save civilizations:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create or overwrite a civilization using its client-generated ID
+ */
+export const setCivilization = async (
+  uid: string,
+  planetId: string,
+  civilization: Civilization
+): Promise<void> => {
+  try {
+    const { id, ...data } = civilization;
+    await setDoc(doc(db, civilizationDoc(uid, planetId, id)), stripUndefined(data));
+  } catch (error) {
+    console.error('Failed to set civilization:', error);
+    throw error;
+  }
+};
+
+/**
+ * Search the civilizations of a planet (trashed ones excluded)
+ * Progress events are only read when the query needs them (text, date range, level change)
+ */
+export const queryCivilizations = async (
+  uid: string,
+  planetId: string,
+  searchQuery: SearchQuery
+): Promise<Civilization[]> => {
+  try {
+    const civilizations = (await getCivilizations(uid, planetId)).filter(civ => !isDeleted(civ));
+    const needsEvents = !!(
+      searchQuery.text?.trim() ||
+      searchQuery.from ||
+      searchQuery.to ||
+      searchQuery.levelChange
+    );
+    const events = needsEvents
+      ? (
+          await getAllProgressEvents(
+            uid,
+            planetId,
+            civilizations.map(civ => civ.id)
+          )
+        ).filter(event => !isDeleted(event))
+      : [];
+
+    return searchCivilizations(civilizations, events, searchQuery);
+  } catch (error) {
+    console.error('Failed to query civilizations:', error);
+    throw error;
+  }
+};
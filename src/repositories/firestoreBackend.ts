@@ -0,0 +1,99 @@
+// Firestore storage backend - syncs app data through the Firestore repositories
+
+import type { StorageBackend } from './storageBackend';
+import { PlanetGoal } from '../types';
+import { getPlanets, setPlanet } from './planetRepository';
+import {
+  getPlanetGoal,
+  setPlanetGoal,
+  getPlanetGoalRevisions,
+  appendPlanetGoalRevision,
+} from './planetGoalRepository';
+import { getCivilizations, saveCivilizations } from './civilizationRepository';
+import {
+  getAllProgressEvents,
+  saveProgressEvent,
+  deleteProgressEvent,
+} from './progressEventRepository';
+import { getAllStateTransitions, appendStateTransition } from './stateTransitionRepository';
+
+/**
+ * Firestore backend
+ * Data lives under users/{uid} and each planet's root (see paths.ts) and is cached offline by
+ * the SDK
+ */
+export const firestoreBackend: StorageBackend = {
+  kind: 'firestore',
+
+  getPlanets: async uid => {
+    return getPlanets(uid);
+  },
+
+  savePlanet: async (uid, planet) => {
+    await setPlanet(uid, planet);
+  },
+
+  getPlanetGoal: async (uid, planetId) => {
+    const goal = await getPlanetGoal(uid, planetId);
+    if (!goal) {
+      return null;
+    }
+
+    // Drop server-side metadata (updatedAt) that is not part of PlanetGoal
+    const planetGoal: PlanetGoal & { updatedAt?: unknown } = { ...goal };
+    delete planetGoal.updatedAt;
+    return planetGoal;
+  },
+
+  savePlanetGoal: async (uid, planetId, goal) => {
+    await setPlanetGoal(uid, planetId, goal);
+  },
+
+  getGoalRevisions: async (uid, planetId) => {
+    return getPlanetGoalRevisions(uid, planetId);
+  },
+
+  appendGoalRevision: async (uid, planetId, revision) => {
+    await appendPlanetGoalRevision(uid, planetId, revision);
+  },
+
+  getCivilizations: async (uid, planetId) => {
+    const civilizations = await getCivilizations(uid, planetId);
+    // Keep creation order consistent with the local backend (oldest first)
+    return [...civilizations].sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  saveCivilizations: async (uid, planetId, civilizations) => {
+    await saveCivilizations(uid, planetId, civilizations);
+  },
+
+  getProgressEvents: async (uid, planetId) => {
+    const civilizations = await getCivilizations(uid, planetId);
+    return getAllProgressEvents(
+      uid,
+      planetId,
+      civilizations.map(civ => civ.id)
+    );
+  },
+
+  saveProgressEvent: async (uid, planetId, event) => {
+    await saveProgressEvent(uid, planetId, event);
+  },
+
+  deleteProgressEvent: async (uid, planetId, civId, eventId) => {
+    await deleteProgressEvent(uid, planetId, civId, eventId);
+  },
+
+  getStateTransitions: async (uid, planetId) => {
+    const civilizations = await getCivilizations(uid, planetId);
+    return getAllStateTransitions(
+      uid,
+      planetId,
+      civilizations.map(civ => civ.id)
+    );
+  },
+
+  appendStateTransition: async (uid, planetId, transition) => {
+    await appendStateTransition(uid, planetId, transition);
+  },
+};
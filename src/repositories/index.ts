@@ -3,8 +3,13 @@
 // Path builders
 export * from './paths';
 
+// Storage backends
+export * from './storageBackend';
+export * from './localBackend';
+
 // Repository modules - export all functions directly
+export * from './planetRepository';
 export * from './planetGoalRepository';
 export * from './civilizationRepository';
-export * from './progressLogRepository';
-export * from './progressMemoRepository';
+export * from './progressEventRepository';
+export * from './stateTransitionRepository';
@@ -0,0 +1,171 @@
+// Local storage backend - persists app data to AsyncStorage on this device
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Planet, PlanetGoal, PlanetGoalRevision, Civilization, StateTransition } from '../types';
+import type { StorageBackend } from './storageBackend';
+import {
+  KeyValueStorage,
+  ProgressEventShardStore,
+  createProgressEventShardStore,
+} from './progressEventShardStore';
+import { getPlanetStorageKey } from '../lib/planets';
+
+// Local storage keys
+export const STORAGE_KEYS = {
+  PLANETS: 'planets',
+  ACTIVE_PLANET_ID: 'active_planet_id',
+  PLANET_GOAL: 'planet_goal',
+  PLANET_GOAL_REVISIONS: 'planet_goal_revisions',
+  CIVILIZATIONS: 'civilizations',
+  STATE_TRANSITIONS: 'state_transitions',
+} as const;
+
+// Local storage helpers
+const saveToStorage = async (key: string, data: any) => {
+  try {
+    await AsyncStorage.setItem(key, JSON.stringify(data));
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+  }
+};
+
+const loadFromStorage = async (key: string) => {
+  try {
+    const data = await AsyncStorage.getItem(key);
+    return data ? JSON.parse(data) : null;
+  } catch (error) {
+    console.error(`Failed to load ${key}:`, error);
+    return null;
+  }
+};
+
+/**
+ * Planet last shown on this device (null before the first switch)
+ * A per-device setting, so it stays local whichever backend holds the data
+ */
+export const loadActivePlanetId = async (): Promise<string | null> => {
+  return (await loadFromStorage(STORAGE_KEYS.ACTIVE_PLANET_ID)) as string | null;
+};
+
+export const saveActivePlanetId = async (planetId: string): Promise<void> => {
+  await saveToStorage(STORAGE_KEYS.ACTIVE_PLANET_ID, planetId);
+};
+
+/**
+ * AsyncStorage view of a planet's keys (the default planet sees the unscoped keys)
+ */
+const getPlanetStorage = (planetId: string): KeyValueStorage => ({
+  getItem: key => AsyncStorage.getItem(getPlanetStorageKey(planetId, key)),
+  setItem: (key, value) => AsyncStorage.setItem(getPlanetStorageKey(planetId, key), value),
+  removeItem: key => AsyncStorage.removeItem(getPlanetStorageKey(planetId, key)),
+  multiGet: async keys => {
+    const pairs = await AsyncStorage.multiGet(keys.map(key => getPlanetStorageKey(planetId, key)));
+    return pairs.map(([, value], i) => [keys[i], value] as const);
+  },
+});
+
+// Progress events are sharded by civilization and month (see lib/progressEventShards.ts),
+// with one store per planet
+const progressEventStores = new Map<string, ProgressEventShardStore>();
+
+const getProgressEventStore = (planetId: string): ProgressEventShardStore => {
+  let store = progressEventStores.get(planetId);
+  if (!store) {
+    store = createProgressEventShardStore(getPlanetStorage(planetId));
+    progressEventStores.set(planetId, store);
+  }
+  return store;
+};
+
+/**
+ * AsyncStorage backend
+ * Data is device-local and not scoped by uid; each planet's keys are scoped by planetId
+ */
+export const localBackend: StorageBackend = {
+  kind: 'local',
+
+  getPlanets: async () => {
+    return ((await loadFromStorage(STORAGE_KEYS.PLANETS)) as Planet[] | null) || [];
+  },
+
+  savePlanet: async (_uid, planet) => {
+    const planets = ((await loadFromStorage(STORAGE_KEYS.PLANETS)) as Planet[] | null) || [];
+    const updatedPlanets = planets.some(p => p.id === planet.id)
+      ? planets.map(p => (p.id === planet.id ? planet : p))
+      : [...planets, planet];
+    await saveToStorage(STORAGE_KEYS.PLANETS, updatedPlanets);
+  },
+
+  getPlanetGoal: async (_uid, planetId) => {
+    const key = getPlanetStorageKey(planetId, STORAGE_KEYS.PLANET_GOAL);
+    return (await loadFromStorage(key)) as PlanetGoal | null;
+  },
+
+  savePlanetGoal: async (_uid, planetId, goal) => {
+    await saveToStorage(getPlanetStorageKey(planetId, STORAGE_KEYS.PLANET_GOAL), goal);
+  },
+
+  getGoalRevisions: async (_uid, planetId) => {
+    const key = getPlanetStorageKey(planetId, STORAGE_KEYS.PLANET_GOAL_REVISIONS);
+    return ((await loadFromStorage(key)) as PlanetGoalRevision[] | null) || [];
+  },
+
+  appendGoalRevision: async (_uid, planetId, revision) => {
+    const key = getPlanetStorageKey(planetId, STORAGE_KEYS.PLANET_GOAL_REVISIONS);
+    const existingRevisions = ((await loadFromStorage(key)) as PlanetGoalRevision[] | null) || [];
+    // A revision that was already written is kept as it is
+    if (existingRevisions.some(r => r.id === revision.id)) {
+      return;
+    }
+    await saveToStorage(key, [...existingRevisions, revision]);
+  },
+
+  getCivilizations: async (_uid, planetId) => {
+    const key = getPlanetStorageKey(planetId, STORAGE_KEYS.CIVILIZATIONS);
+    return ((await loadFromStorage(key)) as Civilization[] | null) || [];
+  },
+
+  saveCivilizations: async (_uid, planetId, civilizations) => {
+    await saveToStorage(getPlanetStorageKey(planetId, STORAGE_KEYS.CIVILIZATIONS), civilizations);
+  },
+
+  getProgressEvents: async (_uid, planetId) => {
+    try {
+      return await getProgressEventStore(planetId).getAll();
+    } catch (error) {
+      console.error('Failed to load progress events:', error);
+      return [];
+    }
+  },
+
+  saveProgressEvent: async (_uid, planetId, event) => {
+    try {
+      await getProgressEventStore(planetId).save(event);
+    } catch (error) {
+      console.error('Failed to save progress event:', error);
+    }
+  },
+
+  deleteProgressEvent: async (_uid, planetId, civId, eventId) => {
+    try {
+      await getProgressEventStore(planetId).remove(civId, eventId);
+    } catch (error) {
+      console.error('Failed to delete progress event:', error);
+    }
+  },
+
+  getStateTransitions: async (_uid, planetId) => {
+    const key = getPlanetStorageKey(planetId, STORAGE_KEYS.STATE_TRANSITIONS);
+    return ((await loadFromStorage(key)) as StateTransition[] | null) || [];
+  },
+
+  appendStateTransition: async (_uid, planetId, transition) => {
+    const key = getPlanetStorageKey(planetId, STORAGE_KEYS.STATE_TRANSITIONS);
+    const existingTransitions = ((await loadFromStorage(key)) as StateTransition[] | null) || [];
+    // Append-only: an entry that was already written is never replaced
+    if (existingTransitions.some(t => t.id === transition.id)) {
+      return;
+    }
+    await saveToStorage(key, [...existingTransitions, transition]);
+  },
+};
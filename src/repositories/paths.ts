@@ -1,6 +1,8 @@
 // Firestore collection and document path builders
 // Centralized path management for consistent data structure
 
+import { DEFAULT_PLANET_ID } from '../lib/planets';
+
 /**
  * User document path
  * Contains user profile and settings
@@ -9,58 +11,131 @@ export const userDoc = (uid: string): string => {
   return `users/${uid}`;
 };
 
+/**
+ * Planets collection path
+ * Contains the metadata (name, appearance) of every planet of a specific user
+ */
+export const planetsCol = (uid: string): string => {
+  return `users/${uid}/planets`;
+};
+
+/**
+ * Planet document path
+ * Contains a planet's metadata; the data of planets other than the default one lives under it
+ */
+export const planetDoc = (uid: string, planetId: string): string => {
+  return `users/${uid}/planets/${planetId}`;
+};
+
+/**
+ * Root path of a planet's data
+ * The default planet keeps the original users/{uid} root so existing data stays in place
+ */
+export const planetRoot = (uid: string, planetId: string): string => {
+  return planetId === DEFAULT_PLANET_ID ? userDoc(uid) : planetDoc(uid, planetId);
+};
+
 /**
  * Planet goal collection path
- * Contains planet-wide goals and deadlines for a specific user
+ * Contains the goal and deadline of a specific planet of a user
  */
-export const planetGoalCol = (uid: string): string => {
-  return `users/${uid}/planetGoal`;
+export const planetGoalCol = (uid: string, planetId: string): string => {
+  return `${planetRoot(uid, planetId)}/planetGoal`;
 };
 
 /**
  * Planet goal document path
- * Contains planet-wide goals and deadlines for a specific user
+ * Contains the goal and deadline of a specific planet of a user
  */
-export const planetGoalDoc = (uid: string): string => {
-  return `users/${uid}/planetGoal/goal`;
+export const planetGoalDoc = (uid: string, planetId: string): string => {
+  return `${planetRoot(uid, planetId)}/planetGoal/goal`;
+};
+
+/**
+ * Planet goal revisions collection path
+ * Contains the append-only history of a planet's vision
+ */
+export const planetGoalRevisionsCol = (uid: string, planetId: string): string => {
+  return `${planetRoot(uid, planetId)}/planetGoal/goal/revisions`;
+};
+
+/**
+ * Planet goal revision document path for a specific entry
+ */
+export const planetGoalRevisionDoc = (
+  uid: string,
+  planetId: string,
+  revisionId: string
+): string => {
+  return `${planetRoot(uid, planetId)}/planetGoal/goal/revisions/${revisionId}`;
 };
 
 /**
  * Civilizations collection path
- * Contains all civilizations for a specific user's planet
+ * Contains all civilizations for a specific planet of a user
  */
-export const civilizationsCol = (uid: string): string => {
-  return `users/${uid}/civilizations`;
+export const civilizationsCol = (uid: string, planetId: string): string => {
+  return `${planetRoot(uid, planetId)}/civilizations`;
 };
 
 /**
  * Specific civilization document path
  * Contains individual civilization data
  */
-export const civilizationDoc = (uid: string, id: string): string => {
-  return `users/${uid}/civilizations/${id}`;
+export const civilizationDoc = (uid: string, planetId: string, id: string): string => {
+  return `${planetRoot(uid, planetId)}/civilizations/${id}`;
 };
 
 /**
  * Progress collection path for a specific civilization
- * Contains progress entries, milestones, and historical data
+ * Contains progress events (one per day) and historical data
  */
-export const progressCol = (uid: string, civId: string): string => {
-  return `users/${uid}/civilizations/${civId}/progressLogs`;
+export const progressCol = (uid: string, planetId: string, civId: string): string => {
+  return `${planetRoot(uid, planetId)}/civilizations/${civId}/progressEvents`;
 };
 
 /**
  * Progress document path for a specific entry
- * Contains individual progress entry data
+ * Contains individual progress event data
+ */
+export const progressDoc = (
+  uid: string,
+  planetId: string,
+  civId: string,
+  progressId: string
+): string => {
+  return `${planetRoot(uid, planetId)}/civilizations/${civId}/progressEvents/${progressId}`;
+};
+
+/**
+ * State transition collection path for a specific civilization
+ * Contains the append-only log of state changes
+ */
+export const stateTransitionsCol = (uid: string, planetId: string, civId: string): string => {
+  return `${planetRoot(uid, planetId)}/civilizations/${civId}/stateTransitions`;
+};
+
+/**
+ * State transition document path for a specific entry
  */
-export const progressDoc = (uid: string, civId: string, progressId: string): string => {
-  return `users/${uid}/civilizations/${civId}/progressLogs/${progressId}`;
+export const stateTransitionDoc = (
+  uid: string,
+  planetId: string,
+  civId: string,
+  transitionId: string
+): string => {
+  return `${planetRoot(uid, planetId)}/civilizations/${civId}/stateTransitions/${transitionId}`;
 };
 
 // Example of how these paths will be used:
 // - User profile: users/{uid}
+// - Planets: users/{uid}/planets/{planetId}
+// - Planet root: users/{uid} (default planet) or users/{uid}/planets/{planetId} (the paths below
+//   are shown for the default planet)
 // - Planet goals: users/{uid}/planetGoal/goal
+// - Planet goal revisions: users/{uid}/planetGoal/goal/revisions/{revisionId}
 // - All civilizations: users/{uid}/civilizations
 // - Specific civilization: users/{uid}/civilizations/{civId}
-// - Civilization progress: users/{uid}/civilizations/{civId}/progressLogs
-// - Specific progress entry: users/{uid}/civilizations/{civId}/progressLogs/{progressId}
+// - Civilization progress: users/{uid}/civilizations/{civId}/progressEvents
+// - Specific progress entry: users/{uid}/civilizations/{civId}/progressEvents/{progressId}
+// - Civilization state transitions: users/{uid}/civilizations/{civId}/stateTransitions
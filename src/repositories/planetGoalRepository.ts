@@ -1,16 +1,25 @@
-// Planet Goal repository - handles planet-wide goals and deadlines
+// Planet Goal repository - handles planet-wide goals and deadlines, and the history of revisions
 
-import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
-import { db, serverTimestamp } from '../lib/firebase';
-import { planetGoalDoc } from './paths';
-import { PlanetGoal } from '../types';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  orderBy,
+  query,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { db, serverTimestamp, stripUndefined } from '../lib/firebase';
+import { planetGoalDoc, planetGoalRevisionsCol, planetGoalRevisionDoc } from './paths';
+import { PlanetGoal, PlanetGoalRevision } from '../types';
 
 /**
- * Get planet goal for a user
+ * Get the goal of a planet
  */
-export const getPlanetGoal = async (uid: string): Promise<PlanetGoal | null> => {
+export const getPlanetGoal = async (uid: string, planetId: string): Promise<PlanetGoal | null> => {
   try {
-    const docRef = doc(db, planetGoalDoc(uid));
+    const docRef = doc(db, planetGoalDoc(uid, planetId));
     const docSnap = await getDoc(docRef);
 
     if (docSnap.exists()) {
@@ -25,13 +34,17 @@ export const getPlanetGoal = async (uid: string): Promise<PlanetGoal | null> =>
 };
 
 /**
- * Set planet goal for a user
+ * Set the goal of a planet
  */
-export const setPlanetGoal = async (uid: string, goal: PlanetGoal): Promise<void> => {
+export const setPlanetGoal = async (
+  uid: string,
+  planetId: string,
+  goal: PlanetGoal
+): Promise<void> => {
   try {
-    const docRef = doc(db, planetGoalDoc(uid));
+    const docRef = doc(db, planetGoalDoc(uid, planetId));
     await setDoc(docRef, {
-      ...goal,
+      ...stripUndefined(goal),
       updatedAt: serverTimestamp(),
     });
   } catch (error) {
@@ -41,14 +54,15 @@ export const setPlanetGoal = async (uid: string, goal: PlanetGoal): Promise<void
 };
 
 /**
- * Update planet goal for a user
+ * Update the goal of a planet
  */
 export const updatePlanetGoal = async (
   uid: string,
+  planetId: string,
   updates: Partial<PlanetGoal>
 ): Promise<void> => {
   try {
-    const docRef = doc(db, planetGoalDoc(uid));
+    const docRef = doc(db, planetGoalDoc(uid, planetId));
     await updateDoc(docRef, {
       ...updates,
       updatedAt: serverTimestamp(),
@@ -58,3 +72,43 @@ export const updatePlanetGoal = async (
     throw error;
   }
 };
+
+/**
+ * Get the vision revisions of a planet (oldest first)
+ */
+export const getPlanetGoalRevisions = async (
+  uid: string,
+  planetId: string
+): Promise<PlanetGoalRevision[]> => {
+  try {
+    const colRef = collection(db, planetGoalRevisionsCol(uid, planetId));
+    const q = query(colRef, orderBy('timestamp', 'asc'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(docSnap => ({
+      id: docSnap.id,
+      ...docSnap.data(),
+    })) as PlanetGoalRevision[];
+  } catch (error) {
+    console.error('Failed to get planet goal revisions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Append a vision revision using its client-generated ID
+ * Entries are never updated or deleted
+ */
+export const appendPlanetGoalRevision = async (
+  uid: string,
+  planetId: string,
+  revision: PlanetGoalRevision
+): Promise<void> => {
+  try {
+    const { id, ...data } = revision;
+    await setDoc(doc(db, planetGoalRevisionDoc(uid, planetId, id)), stripUndefined(data));
+  } catch (error) {
+    console.error('Failed to append planet goal revision:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,39 @@
+// Planet repository - handles the metadata (name, appearance) of a user's planets
+
+import { collection, doc, getDocs, query, orderBy, setDoc } from 'firebase/firestore';
+import { db, stripUndefined } from '../lib/firebase';
+import { planetsCol, planetDoc } from './paths';
+import { Planet } from '../types';
+
+/**
+ * Get all planets of a user (oldest first)
+ */
+export const getPlanets = async (uid: string): Promise<Planet[]> => {
+  try {
+    const colRef = collection(db, planetsCol(uid));
+    const q = query(colRef, orderBy('createdAt', 'asc'));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(docSnap => ({
+      id: docSnap.id,
+      ...docSnap.data(),
+    })) as Planet[];
+  } catch (error) {
+    console.error('Failed to get planets:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create or overwrite a planet using its client-generated ID
+ * Only the metadata document is written; the planet's data stays in its subcollections
+ */
+export const setPlanet = async (uid: string, planet: Planet): Promise<void> => {
+  try {
+    const { id, ...data } = planet;
+    await setDoc(doc(db, planetDoc(uid, id)), stripUndefined(data));
+  } catch (error) {
+    console.error('Failed to set planet:', error);
+    throw error;
+  }
+};
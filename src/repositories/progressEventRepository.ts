@@ -0,0 +1,173 @@
+// Progress Event repository - handles civilization progress tracking in Firestore
+
+import {
+  collection,
+  doc,
+  setDoc,
+  deleteDoc,
+  getDocs,
+  query,
+  orderBy,
+  limit,
+  where,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { db, stripUndefined } from '../lib/firebase';
+import { progressCol, progressDoc } from './paths';
+import { Civilization, ProgressEvent, SearchQuery } from '../types';
+import { searchCivilizations, searchProgressEvents } from '../lib/search';
+import { isDeleted } from '../lib/trash';
+
+/**
+ * Get progress events for a specific civilization (newest first)
+ */
+export const getProgressEvents = async (
+  uid: string,
+  planetId: string,
+  civId: string,
+  limitCount: number = 50
+): Promise<ProgressEvent[]> => {
+  try {
+    const colRef = collection(db, progressCol(uid, planetId, civId));
+    const q = query(colRef, orderBy('date', 'desc'), limit(limitCount));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(docSnap => ({
+      id: docSnap.id,
+      ...docSnap.data(),
+    })) as ProgressEvent[];
+  } catch (error) {
+    console.error('Failed to get progress events:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get latest progress event for a civilization
+ */
+export const getLatestProgressEvent = async (
+  uid: string,
+  planetId: string,
+  civId: string
+): Promise<ProgressEvent | null> => {
+  try {
+    const events = await getProgressEvents(uid, planetId, civId, 1);
+    return events.length > 0 ? events[0] : null;
+  } catch (error) {
+    console.error('Failed to get latest progress event:', error);
+    throw error;
+  }
+};
+
+/**
+ * Create or overwrite a progress event using its client-generated ID and timestamps
+ */
+export const saveProgressEvent = async (
+  uid: string,
+  planetId: string,
+  event: ProgressEvent
+): Promise<void> => {
+  try {
+    const { id, ...data } = event;
+    await setDoc(doc(db, progressDoc(uid, planetId, event.civId, id)), stripUndefined(data));
+  } catch (error) {
+    console.error('Failed to save progress event:', error);
+    throw error;
+  }
+};
+
+/**
+ * Delete a progress event
+ */
+export const deleteProgressEvent = async (
+  uid: string,
+  planetId: string,
+  civId: string,
+  eventId: string
+): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, progressDoc(uid, planetId, civId, eventId)));
+  } catch (error) {
+    console.error('Failed to delete progress event:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get every progress event across the given civilizations (oldest first)
+ */
+export const getAllProgressEvents = async (
+  uid: string,
+  planetId: string,
+  civIds: string[]
+): Promise<ProgressEvent[]> => {
+  try {
+    const eventsPerCiv = await Promise.all(
+      civIds.map(async civId => {
+        const colRef = collection(db, progressCol(uid, planetId, civId));
+        const q = query(colRef, orderBy('date', 'asc'));
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map(docSnap => ({
+          id: docSnap.id,
+          ...docSnap.data(),
+        })) as ProgressEvent[];
+      })
+    );
+
+    return eventsPerCiv.flat().sort((a, b) => a.date.localeCompare(b.date));
+  } catch (error) {
+    console.error('Failed to get all progress events:', error);
+    throw error;
+  }
+};
+
+/**
+ * Search progress events of the given civilizations (newest first, trashed ones excluded)
+ * The date range is applied by Firestore; text, state, level and level change filters are
+ * applied to the fetched events (Firestore has no full-text search)
+ */
+export const queryProgressEvents = async (
+  uid: string,
+  planetId: string,
+  civilizations: Civilization[],
+  searchQuery: SearchQuery
+): Promise<ProgressEvent[]> => {
+  try {
+    // Trashed civilizations and those filtered out by state / level need no reads
+    const candidates = searchCivilizations(
+      civilizations.filter(civ => !isDeleted(civ)),
+      [],
+      {
+        states: searchQuery.states,
+        levels: searchQuery.levels,
+      }
+    );
+    const constraints: QueryConstraint[] = [];
+    if (searchQuery.from) {
+      constraints.push(where('date', '>=', searchQuery.from));
+    }
+    if (searchQuery.to) {
+      constraints.push(where('date', '<=', searchQuery.to));
+    }
+
+    const eventsPerCiv = await Promise.all(
+      candidates.map(async civilization => {
+        const colRef = collection(db, progressCol(uid, planetId, civilization.id));
+        const q = query(colRef, ...constraints, orderBy('date', 'desc'));
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map(docSnap => ({
+          id: docSnap.id,
+          ...docSnap.data(),
+        })) as ProgressEvent[];
+      })
+    );
+
+    const events = eventsPerCiv.flat().filter(event => !isDeleted(event));
+    return searchProgressEvents(events, candidates, searchQuery).sort(
+      (a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt
+    );
+  } catch (error) {
+    console.error('Failed to query progress events:', error);
+    throw error;
+  }
+};
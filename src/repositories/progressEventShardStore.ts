@@ -0,0 +1,187 @@
+// Sharded progress event store - keeps local progress events in per-civilization monthly blobs
+// (layout in lib/progressEventShards.ts) with an in-memory index and shard cache
+
+import { ProgressEvent } from '../types';
+import {
+  PROGRESS_EVENT_INDEX_KEY,
+  ProgressEventIndex,
+  getShardKey,
+  getShardMonth,
+} from '../lib/progressEventShards';
+import { createWriteQueue } from '../lib/writeQueue';
+
+/**
+ * Key-value storage the shards are written to (AsyncStorage in the app)
+ */
+export interface KeyValueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
+  multiGet: (keys: readonly string[]) => Promise<readonly (readonly [string, string | null])[]>;
+}
+
+export interface ProgressEventShardStore {
+  getAll: () => Promise<ProgressEvent[]>;
+  save: (event: ProgressEvent) => Promise<void>;
+  remove: (civId: string, eventId: string) => Promise<void>;
+}
+
+// A civilization's month of events
+type ShardLocation = { civId: string; month: string };
+
+/**
+ * Create a shard store on top of a key-value storage
+ * The store assumes it is the only writer of its keys, so loaded shards are cached; writes are
+ * applied one at a time so concurrent saves to a shard do not overwrite each other
+ */
+export const createProgressEventShardStore = (
+  storage: KeyValueStorage
+): ProgressEventShardStore => {
+  let indexPromise: Promise<ProgressEventIndex> | null = null;
+  const shards = new Map<string, Promise<ProgressEvent[]>>();
+  // Shard of every event in a loaded shard, to find entries by id
+  const eventLocations = new Map<string, ShardLocation>();
+  const writeQueue = createWriteQueue();
+
+  const loadIndex = (): Promise<ProgressEventIndex> => {
+    if (!indexPromise) {
+      indexPromise = storage
+        .getItem(PROGRESS_EVENT_INDEX_KEY)
+        .then(data => (data ? (JSON.parse(data) as ProgressEventIndex) : {}));
+    }
+    return indexPromise;
+  };
+
+  const cacheShard = (location: ShardLocation, events: ProgressEvent[]) => {
+    events.forEach(event => eventLocations.set(event.id, location));
+    shards.set(getShardKey(location.civId, location.month), Promise.resolve(events));
+  };
+
+  const loadShards = async (locations: ShardLocation[]): Promise<ProgressEvent[][]> => {
+    const keys = locations.map(({ civId, month }) => getShardKey(civId, month));
+    const missing = locations.filter((_, i) => !shards.has(keys[i]));
+    if (missing.length > 0) {
+      const loading = storage.multiGet(
+        missing.map(({ civId, month }) => getShardKey(civId, month))
+      );
+      missing.forEach(location => {
+        const key = getShardKey(location.civId, location.month);
+        shards.set(
+          key,
+          loading.then(pairs => {
+            const data = pairs.find(([pairKey]) => pairKey === key)?.[1];
+            const events = data ? (JSON.parse(data) as ProgressEvent[]) : [];
+            events.forEach(event => eventLocations.set(event.id, location));
+            return events;
+          })
+        );
+      });
+    }
+    return Promise.all(keys.map(key => shards.get(key) as Promise<ProgressEvent[]>));
+  };
+
+  const writeShard = async (
+    index: ProgressEventIndex,
+    location: ShardLocation,
+    events: ProgressEvent[]
+  ) => {
+    const { civId, month } = location;
+    const key = getShardKey(civId, month);
+    cacheShard(location, events);
+
+    if (events.length === 0) {
+      await storage.removeItem(key);
+    } else {
+      await storage.setItem(key, JSON.stringify(events));
+    }
+
+    // The index only changes when a shard appears or disappears
+    const months = index[civId] ?? [];
+    const hasMonth = months.includes(month);
+    if (events.length > 0 && !hasMonth) {
+      index[civId] = [...months, month].sort();
+    } else if (events.length === 0 && hasMonth) {
+      index[civId] = months.filter(m => m !== month);
+      if (index[civId].length === 0) {
+        delete index[civId];
+      }
+    } else {
+      return;
+    }
+    await storage.setItem(PROGRESS_EVENT_INDEX_KEY, JSON.stringify(index));
+  };
+
+  const removeFromShard = async (
+    index: ProgressEventIndex,
+    location: ShardLocation,
+    eventId: string
+  ) => {
+    const [events] = await loadShards([location]);
+    eventLocations.delete(eventId);
+    await writeShard(
+      index,
+      location,
+      events.filter(e => e.id !== eventId)
+    );
+  };
+
+  const getCivLocations = (index: ProgressEventIndex, civId: string): ShardLocation[] =>
+    (index[civId] ?? []).map(month => ({ civId, month }));
+
+  // Shard holding an event, looking through the civilization's shards when it is not loaded yet
+  const findEventLocation = async (
+    index: ProgressEventIndex,
+    civId: string,
+    eventId: string
+  ): Promise<ShardLocation | undefined> => {
+    const cached = eventLocations.get(eventId);
+    if (cached) {
+      return cached;
+    }
+    const civLocations = getCivLocations(index, civId);
+    const civShards = await loadShards(civLocations);
+    return civLocations.find((_, i) => civShards[i].some(e => e.id === eventId));
+  };
+
+  return {
+    getAll: async () => {
+      const index = await loadIndex();
+      const events = (
+        await loadShards(Object.keys(index).flatMap(civId => getCivLocations(index, civId)))
+      ).flat();
+      return events.sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+    },
+
+    save: event =>
+      writeQueue.run(async () => {
+        const index = await loadIndex();
+        const location = { civId: event.civId, month: getShardMonth(event.date) };
+
+        // An entry whose date moved to another month leaves its old shard; an entry never
+        // edited since it was created cannot have moved, so new entries skip the lookup
+        const previous =
+          eventLocations.get(event.id) ??
+          (event.updatedAt !== event.createdAt
+            ? await findEventLocation(index, event.civId, event.id)
+            : undefined);
+        if (previous && (previous.civId !== location.civId || previous.month !== location.month)) {
+          await removeFromShard(index, previous, event.id);
+        }
+
+        const [events] = await loadShards([location]);
+        const updatedEvents = events.some(e => e.id === event.id)
+          ? events.map(e => (e.id === event.id ? event : e))
+          : [...events, event];
+        await writeShard(index, location, updatedEvents);
+      }),
+
+    remove: (civId, eventId) =>
+      writeQueue.run(async () => {
+        const index = await loadIndex();
+        const location = await findEventLocation(index, civId, eventId);
+        if (location) {
+          await removeFromShard(index, location, eventId);
+        }
+      }),
+  };
+};
@@ -0,0 +1,76 @@
+// State transition repository - append-only log of civilization state changes in Firestore
+
+import { collection, doc, setDoc, getDocs, query, orderBy, limit } from 'firebase/firestore';
+import { db } from '../lib/firebase';
+import { stateTransitionsCol, stateTransitionDoc } from './paths';
+import { StateTransition } from '../types';
+
+/**
+ * Get state transitions for a specific civilization (newest first)
+ */
+export const getStateTransitions = async (
+  uid: string,
+  planetId: string,
+  civId: string,
+  limitCount: number = 50
+): Promise<StateTransition[]> => {
+  try {
+    const colRef = collection(db, stateTransitionsCol(uid, planetId, civId));
+    const q = query(colRef, orderBy('timestamp', 'desc'), limit(limitCount));
+    const querySnapshot = await getDocs(q);
+
+    return querySnapshot.docs.map(docSnap => ({
+      id: docSnap.id,
+      ...docSnap.data(),
+    })) as StateTransition[];
+  } catch (error) {
+    console.error('Failed to get state transitions:', error);
+    throw error;
+  }
+};
+
+/**
+ * Append a state transition using its client-generated ID
+ * Entries are never updated or deleted
+ */
+export const appendStateTransition = async (
+  uid: string,
+  planetId: string,
+  transition: StateTransition
+): Promise<void> => {
+  try {
+    const { id, ...data } = transition;
+    await setDoc(doc(db, stateTransitionDoc(uid, planetId, transition.civId, id)), data);
+  } catch (error) {
+    console.error('Failed to append state transition:', error);
+    throw error;
+  }
+};
+
+/**
+ * Get every state transition across the given civilizations (oldest first)
+ */
+export const getAllStateTransitions = async (
+  uid: string,
+  planetId: string,
+  civIds: string[]
+): Promise<StateTransition[]> => {
+  try {
+    const transitionsPerCiv = await Promise.all(
+      civIds.map(async civId => {
+        const colRef = collection(db, stateTransitionsCol(uid, planetId, civId));
+        const q = query(colRef, orderBy('timestamp', 'asc'));
+        const querySnapshot = await getDocs(q);
+        return querySnapshot.docs.map(docSnap => ({
+          id: docSnap.id,
+          ...docSnap.data(),
+        })) as StateTransition[];
+      })
+    );
+
+    return transitionsPerCiv.flat().sort((a, b) => a.timestamp - b.timestamp);
+  } catch (error) {
+    console.error('Failed to get all state transitions:', error);
+    throw error;
+  }
+};
@@ -0,0 +1,225 @@
+// Storage backend abstraction - lets the store persist locally or sync through Firestore
+
+import {
+  Planet,
+  PlanetGoal,
+  PlanetGoalRevision,
+  Civilization,
+  ProgressEvent,
+  StateTransition,
+} from '../types';
+import { localBackend } from './localBackend';
+import { withDefaultPlanet } from '../lib/planets';
+
+/**
+ * Available storage backends
+ * - local: AsyncStorage only (default, works offline without Firebase config)
+ * - firestore: syncs through the Firestore repositories under users/{uid}
+ */
+export type StorageBackendKind = 'local' | 'firestore';
+
+/**
+ * Persistence operations required by the app store
+ * Every method is keyed by uid so Firestore paths can be scoped per user, and data methods by
+ * planetId so each planet keeps its own goal, civilizations and history
+ */
+export interface StorageBackend {
+  kind: StorageBackendKind;
+
+  // Planets (metadata only; the data below is scoped by planetId)
+  getPlanets: (uid: string) => Promise<Planet[]>;
+  savePlanet: (uid: string, planet: Planet) => Promise<void>;
+
+  // Planet goal
+  getPlanetGoal: (uid: string, planetId: string) => Promise<PlanetGoal | null>;
+  savePlanetGoal: (uid: string, planetId: string, goal: PlanetGoal) => Promise<void>;
+
+  // Planet goal revisions (append-only log of vision changes)
+  getGoalRevisions: (uid: string, planetId: string) => Promise<PlanetGoalRevision[]>;
+  appendGoalRevision: (
+    uid: string,
+    planetId: string,
+    revision: PlanetGoalRevision
+  ) => Promise<void>;
+
+  // Civilizations (saved as a full snapshot of the current list)
+  getCivilizations: (uid: string, planetId: string) => Promise<Civilization[]>;
+  saveCivilizations: (
+    uid: string,
+    planetId: string,
+    civilizations: Civilization[]
+  ) => Promise<void>;
+
+  // Progress events
+  getProgressEvents: (uid: string, planetId: string) => Promise<ProgressEvent[]>;
+  saveProgressEvent: (uid: string, planetId: string, event: ProgressEvent) => Promise<void>;
+  deleteProgressEvent: (
+    uid: string,
+    planetId: string,
+    civId: string,
+    eventId: string
+  ) => Promise<void>;
+
+  // State transitions (append-only log)
+  getStateTransitions: (uid: string, planetId: string) => Promise<StateTransition[]>;
+  appendStateTransition: (
+    uid: string,
+    planetId: string,
+    transition: StateTransition
+  ) => Promise<void>;
+}
+
+const backendCache: Partial<Record<StorageBackendKind, StorageBackend>> = {};
+
+/**
+ * Resolve a storage backend by kind
+ * The Firestore backend is imported lazily so local-only mode never initializes Firebase
+ */
+export const getStorageBackend = async (kind: StorageBackendKind): Promise<StorageBackend> => {
+  const cached = backendCache[kind];
+  if (cached) {
+    return cached;
+  }
+
+  let backend: StorageBackend;
+  if (kind === 'firestore') {
+    const { firestoreBackend } = await import('./firestoreBackend');
+    backend = firestoreBackend;
+  } else {
+    backend = localBackend;
+  }
+
+  backendCache[kind] = backend;
+  return backend;
+};
+
+/**
+ * Narrow an arbitrary config value to a known backend kind
+ */
+export const parseStorageBackendKind = (value: unknown): StorageBackendKind => {
+  return value === 'firestore' ? 'firestore' : 'local';
+};
+
+/**
+ * Everything a user has stored, read into memory (see readUserData)
+ */
+export type UserDataSnapshot = {
+  planets: Planet[]; // planet metadata as stored (the default planet may never have been saved)
+  planetData: {
+    planetId: string;
+    goal: PlanetGoal | null;
+    goalRevisions: PlanetGoalRevision[];
+    civilizations: Civilization[];
+    progressEvents: ProgressEvent[];
+    stateTransitions: StateTransition[];
+  }[]; // only planets with a goal or civilizations
+};
+
+/**
+ * Read every planet of a user into memory
+ * Lets data be copied after its uid can no longer be read (e.g. once signing in to another
+ * account replaces the anonymous user)
+ */
+export const readUserData = async (
+  backend: StorageBackend,
+  uid: string
+): Promise<UserDataSnapshot> => {
+  const planets = await backend.getPlanets(uid);
+  const planetData: UserDataSnapshot['planetData'] = [];
+  for (const planet of withDefaultPlanet(planets)) {
+    const [goal, goalRevisions, civilizations, progressEvents, stateTransitions] =
+      await Promise.all([
+        backend.getPlanetGoal(uid, planet.id),
+        backend.getGoalRevisions(uid, planet.id),
+        backend.getCivilizations(uid, planet.id),
+        backend.getProgressEvents(uid, planet.id),
+        backend.getStateTransitions(uid, planet.id),
+      ]);
+
+    if (goal || civilizations.length > 0) {
+      planetData.push({
+        planetId: planet.id,
+        goal,
+        goalRevisions,
+        civilizations,
+        progressEvents,
+        stateTransitions,
+      });
+    }
+  }
+  return { planets, planetData };
+};
+
+/**
+ * Write a snapshot of a user's data to a backend/uid
+ * Skipped when the target already has data, so existing remote data is never overwritten
+ *
+ * @returns Whether any data was written
+ */
+export const writeUserData = async (
+  snapshot: UserDataSnapshot,
+  target: { backend: StorageBackend; uid: string }
+): Promise<boolean> => {
+  if (snapshot.planets.length === 0 && snapshot.planetData.length === 0) {
+    return false;
+  }
+
+  const targetPlanets = withDefaultPlanet(await target.backend.getPlanets(target.uid));
+  for (const planet of targetPlanets) {
+    const [targetGoal, targetCivilizations] = await Promise.all([
+      target.backend.getPlanetGoal(target.uid, planet.id),
+      target.backend.getCivilizations(target.uid, planet.id),
+    ]);
+
+    if (targetGoal || targetCivilizations.length > 0) {
+      console.log('Skipping user data migration: target already has data');
+      return false;
+    }
+  }
+
+  for (const data of snapshot.planetData) {
+    if (data.goal) {
+      await target.backend.savePlanetGoal(target.uid, data.planetId, data.goal);
+    }
+    for (const revision of data.goalRevisions) {
+      await target.backend.appendGoalRevision(target.uid, data.planetId, revision);
+    }
+    await target.backend.saveCivilizations(target.uid, data.planetId, data.civilizations);
+    for (const event of data.progressEvents) {
+      await target.backend.saveProgressEvent(target.uid, data.planetId, event);
+    }
+    for (const transition of data.stateTransitions) {
+      await target.backend.appendStateTransition(target.uid, data.planetId, transition);
+    }
+  }
+
+  for (const planet of snapshot.planets) {
+    await target.backend.savePlanet(target.uid, planet);
+  }
+  return true;
+};
+
+/**
+ * Copy a user's data from one backend/uid to another (e.g. after linking a local
+ * identity to a Firebase anonymous uid)
+ * Every planet is copied; the copy is skipped when the target already has data, so existing
+ * remote data is never overwritten
+ *
+ * @returns Whether any data was copied
+ */
+export const migrateUserData = async (
+  source: { backend: StorageBackend; uid: string },
+  target: { backend: StorageBackend; uid: string }
+): Promise<boolean> => {
+  if (source.backend === target.backend && source.uid === target.uid) {
+    return false;
+  }
+
+  const copied = await writeUserData(await readUserData(source.backend, source.uid), target);
+  if (copied) {
+    console.log(
+      `Migrated user data ${source.backend.kind}/${source.uid} → ${target.backend.kind}/${target.uid}`
+    );
+  }
+  return copied;
+};
@@ -0,0 +1,248 @@
+// Hall of fame - completed and archived civilizations with their final levels and memo history
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, FlatList } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useRoute } from '@react-navigation/native';
+import { Screen } from '../components/UI/Screen';
+import { StateBadge } from '../components/UI/StateBadge';
+import { Icon } from '../components/UI/Icon';
+import { useAppStore } from '../stores';
+import { Civilization } from '../types';
+import { formatDate } from '../lib/dateUtils';
+import { toCalendarDate } from '../lib/calendarDay';
+import { getArchivedCivilizations, getMemoHistory, isCompleted } from '../lib/civilizationArchive';
+import { strings } from '../i18n/strings';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { RootStackParamList } from '../navigation/navigation/RootNavigator';
+import { ui } from '../theme/ui';
+
+type ArchiveScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Archive'>;
+
+interface ArchiveScreenProps {
+  navigation: ArchiveScreenNavigationProp;
+}
+
+export const ArchiveScreen: React.FC<ArchiveScreenProps> = ({ navigation: _navigation }) => {
+  const route = useRoute();
+  const { civilizations, progressEvents } = useAppStore();
+  // A monument tapped on the planet opens with its memo history shown
+  const [expandedId, setExpandedId] = useState<string | undefined>(
+    (route.params as { selectedCivilizationId?: string } | undefined)?.selectedCivilizationId
+  );
+  const archiveStrings = strings.screens.archive;
+
+  const archivedCivilizations = useMemo(
+    () => getArchivedCivilizations(civilizations),
+    [civilizations]
+  );
+
+  const renderCivilization = ({ item }: { item: Civilization }) => {
+    const completed = isCompleted(item);
+    const archivedDate = formatDate(toCalendarDate(item.completedAt ?? item.archivedAt ?? 0));
+    const progressDays = progressEvents.filter(event => event.civId === item.id).length;
+    const memos = getMemoHistory(progressEvents, item.id);
+    const expanded = expandedId === item.id;
+
+    return (
+      <TouchableOpacity
+        style={[styles.card, completed && styles.completedCard]}
+        onPress={() => setExpandedId(expanded ? undefined : item.id)}
+        activeOpacity={0.8}
+      >
+        <View style={styles.cardHeader}>
+          <Icon
+            name={completed ? 'highlight' : 'save'}
+            size="sm"
+            color={completed ? colors.accent : colors.textSecondary}
+          />
+          <Text style={styles.civilizationName}>{item.name}</Text>
+          <View style={[styles.tag, completed && styles.completedTag]}>
+            <Text style={styles.tagText}>
+              {completed ? archiveStrings.completed : archiveStrings.archived}
+            </Text>
+          </View>
+          {completed && item.monument && (
+            <View style={styles.tag}>
+              <Text style={styles.tagText}>{archiveStrings.monument}</Text>
+            </View>
+          )}
+        </View>
+
+        <Text style={styles.detail}>
+          {completed
+            ? archiveStrings.completedOn(archivedDate)
+            : archiveStrings.archivedOn(archivedDate)}
+        </Text>
+        {item.purpose && <Text style={styles.purpose}>{item.purpose}</Text>}
+
+        <View style={styles.levelRow}>
+          <StateBadge level={item.levels.classification} />
+          <Text style={styles.levelText}>
+            {archiveStrings.finalLevel(Math.round(item.levels.totalLevel))}
+          </Text>
+          <Text style={styles.levelText}>{archiveStrings.progressDays(progressDays)}</Text>
+        </View>
+
+        {expanded && (
+          <View style={styles.memoList}>
+            {memos.length === 0 ? (
+              <Text style={styles.noMemos}>{archiveStrings.noMemos}</Text>
+            ) : (
+              memos.map(event => (
+                <View key={event.id} style={styles.memoRow}>
+                  <Text style={styles.memoDate}>{formatDate(event.date)}</Text>
+                  <Text style={styles.memoText}>{event.memo}</Text>
+                </View>
+              ))
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEmptyState = () => (
+    <View style={styles.emptyState}>
+      <View style={styles.emptyStateIconContainer}>
+        <Icon name="highlight" size="xl" color={colors.accent} />
+      </View>
+      <Text style={styles.emptyStateTitle}>{archiveStrings.emptyTitle}</Text>
+      <Text style={styles.emptyStateSubtitle}>{archiveStrings.emptySubtitle}</Text>
+    </View>
+  );
+
+  return (
+    <Screen>
+      <View style={styles.container}>
+        <FlatList
+          data={archivedCivilizations}
+          renderItem={renderCivilization}
+          keyExtractor={item => item.id}
+          showsVerticalScrollIndicator={false}
+          contentContainerStyle={[
+            styles.listContainer,
+            archivedCivilizations.length === 0 && styles.emptyListContainer,
+          ]}
+          ListEmptyComponent={renderEmptyState}
+        />
+      </View>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContainer: {
+    paddingBottom: spacing.lg,
+  },
+  emptyListContainer: {
+    flexGrow: 1,
+  },
+  card: {
+    ...ui.card,
+    marginBottom: spacing.md,
+  },
+  completedCard: {
+    borderWidth: 1,
+    borderColor: colors.accent,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  civilizationName: {
+    ...typography.subheading,
+    color: colors.text,
+    flex: 1,
+  },
+  tag: {
+    backgroundColor: colors.border,
+    borderRadius: 10,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs / 2,
+  },
+  completedTag: {
+    backgroundColor: colors.accent,
+  },
+  tagText: {
+    ...typography.small,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  detail: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs / 2,
+  },
+  purpose: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    fontStyle: 'italic',
+  },
+  levelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    marginTop: spacing.sm,
+  },
+  levelText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  memoList: {
+    marginTop: spacing.md,
+    paddingTop: spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+    gap: spacing.xs,
+  },
+  memoRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  memoDate: {
+    ...typography.small,
+    color: colors.textTertiary,
+    minWidth: 80,
+  },
+  memoText: {
+    ...typography.caption,
+    color: colors.text,
+    flex: 1,
+  },
+  noMemos: {
+    ...typography.caption,
+    color: colors.textTertiary,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyStateIconContainer: {
+    marginBottom: spacing.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyStateTitle: {
+    ...typography.subheading,
+    color: colors.text,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  emptyStateSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -13,13 +13,26 @@ import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFocusEffect, useRoute } from '@react-navigation/native';
 import { Screen } from '../components/UI/Screen';
 import { StateBadge } from '../components/UI/StateBadge';
-import { Toast, ToastType } from '../components/UI/Toast';
+import { DeadlineBadge } from '../components/UI/DeadlineBadge';
+import { Toast, ToastAction, ToastType } from '../components/UI/Toast';
 import { Icon } from '../components/UI/Icon';
 import { CivilizationModal } from '../components/CivilizationModal';
 import { ProgressMemoModal } from '../components/ProgressMemoModal';
+import { SearchBar } from '../components/SearchBar';
 import { useAppStore } from '../stores';
-import { Civilization, CreateCivilizationRequest, UpdateCivilizationRequest, ProgressMemo, CreateProgressMemoRequest, UpdateProgressMemoRequest } from '../types';
+import { Civilization, CreateCivilizationRequest, UpdateCivilizationRequest, ProgressEvent, RecordProgressRequest, SearchQuery } from '../types';
 import { formatRelativeTime, formatDate } from '../lib/dateUtils';
+import { getBackfillDates } from '../lib/progressEvents';
+import { getCalendarDayStart, getTodayDate } from '../lib/calendarDay';
+import {
+  DEADLINE_EXTENSION_DAYS,
+  extendDeadline,
+  getCivilizationDeadlineState,
+} from '../lib/deadlines';
+import { getActiveCivilizations, getArchivedCivilizations } from '../lib/civilizationArchive';
+import { TRASH_RETENTION_DAYS, countTrashItems } from '../lib/trash';
+import { isMilestoneCompleted } from '../lib/milestones';
+import { EMPTY_SEARCH_QUERY, isEmptySearchQuery, searchCivilizations } from '../lib/search';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
@@ -40,6 +53,7 @@ interface ToastState {
   visible: boolean;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
@@ -51,19 +65,39 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
   
   const {
     civilizations,
+    progressEvents,
     loading,
     loadCivilizations,
     createCiv,
     updateCiv,
     deleteCiv,
-    logProgress,
-    createProgressMemo,
-    updateProgressMemo,
-    getTodayProgressMemo,
-    hasTodayProgressMemo,
+    restoreCiv,
+    archiveCiv,
+    completeCiv,
+    recordProgress,
+    deleteProgressEvent,
+    getProgressEvents,
+    getTodayProgressEvent,
+    getBackfillWindowDays,
     deriveCivStates,
+    trash,
   } = useAppStore();
 
+  // Archived civilizations live in the hall of fame, not on this list
+  const activeCivilizations = useMemo(() => getActiveCivilizations(civilizations), [civilizations]);
+  const archivedCount = getArchivedCivilizations(civilizations).length;
+  const trashCount = countTrashItems(trash);
+
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>(EMPTY_SEARCH_QUERY);
+  const isSearching = !isEmptySearchQuery(searchQuery);
+  const visibleCivilizations = useMemo(
+    () =>
+      isSearching
+        ? searchCivilizations(activeCivilizations, progressEvents, searchQuery)
+        : activeCivilizations,
+    [activeCivilizations, progressEvents, searchQuery, isSearching]
+  );
+
   const [modalVisible, setModalVisible] = useState(false);
   const [editingCivilization, setEditingCivilization] = useState<Civilization | undefined>();
   const [modalLoading, setModalLoading] = useState(false);
@@ -71,7 +105,7 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
   // Progress memo modal state
   const [progressMemoModalVisible, setProgressMemoModalVisible] = useState(false);
   const [selectedCivilizationForMemo, setSelectedCivilizationForMemo] = useState<Civilization | undefined>();
-  const [editingProgressMemo, setEditingProgressMemo] = useState<ProgressMemo | undefined>();
+  const [editingProgressMemo, setEditingProgressMemo] = useState<ProgressEvent | undefined>();
   const [progressMemoModalLoading, setProgressMemoModalLoading] = useState(false);
   
   const [toast, setToast] = useState<ToastState>({
@@ -90,15 +124,15 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
 
   // Scroll to selected civilization when it's available
   useEffect(() => {
-    if (selectedCivilizationId && civilizations.length > 0 && flatListRef.current) {
-      const index = civilizations.findIndex(civ => civ.id === selectedCivilizationId);
+    if (selectedCivilizationId && visibleCivilizations.length > 0 && flatListRef.current) {
+      const index = visibleCivilizations.findIndex(civ => civ.id === selectedCivilizationId);
       if (index >= 0) {
         setTimeout(() => {
           flatListRef.current?.scrollToIndex({ index, animated: true });
         }, 500); // Delay to ensure the list is rendered
       }
     }
-  }, [selectedCivilizationId, civilizations]);
+  }, [selectedCivilizationId, visibleCivilizations]);
 
   // Derive states when screen comes into focus
   useFocusEffect(
@@ -121,8 +155,8 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
     });
   }, [navigation, handleAddCivilization]);
 
-  const showToast = (message: string, type: ToastType = 'info') => {
-    setToast({ visible: true, message, type });
+  const showToast = (message: string, type: ToastType = 'info', action?: ToastAction) => {
+    setToast({ visible: true, message, type, action });
   };
 
   const hideToast = () => {
@@ -179,7 +213,9 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
   const handleDeleteCivilization = (civilization: Civilization) => {
     Alert.alert(
       strings.deleteConfirm.title,
-      `"${civilization.name}"を削除してもよろしいですか？${strings.deleteConfirm.message}`,
+      `"${civilization.name}"を削除してもよろしいですか？${strings.deleteConfirm.message(
+        TRASH_RETENTION_DAYS
+      )}`,
       [
         { text: strings.actions.cancel, style: 'cancel' },
         {
@@ -188,7 +224,10 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
           onPress: async () => {
             try {
               await deleteCiv(civilization.id);
-              showToast(strings.messages.civilizationDeleted, 'success');
+              showToast(strings.messages.civilizationDeleted, 'success', {
+                label: strings.actions.undo,
+                onPress: () => handleRestoreCivilization(civilization),
+              });
             } catch (error) {
               console.error('Failed to delete civilization:', error);
               showToast('Civilizationを削除できませんでした。接続を確認して再試行してください。', 'error');
@@ -199,57 +238,107 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
     );
   };
 
-  const handleLogProgress = async (civilization: Civilization) => {
+  const handleRestoreCivilization = async (civilization: Civilization) => {
     try {
-      await logProgress(civilization.id);
-      showToast(strings.messages.progressLogged, 'success');
+      await restoreCiv(civilization.id);
+      showToast(strings.screens.trash.restored, 'success');
     } catch (error) {
-      showToast(strings.messages.progressFailed, 'error');
+      console.error('Failed to restore civilization:', error);
+      showToast(strings.screens.trash.restoreFailed, 'error');
     }
   };
 
-  const handleProgressMemo = async (civilization: Civilization) => {
-    try {
-      // Check if today's memo already exists
-      const hasTodayMemo = await hasTodayProgressMemo(civilization.id);
-      
-      if (hasTodayMemo) {
-        // Edit existing memo
-        const todayMemo = await getTodayProgressMemo(civilization.id);
-        setEditingProgressMemo(todayMemo || undefined);
-      } else {
-        // Create new memo
-        setEditingProgressMemo(undefined);
+  const handleExtendDeadline = (civilization: Civilization) => {
+    const extend = async (days: number) => {
+      try {
+        await updateCiv(civilization.id, { deadline: extendDeadline(civilization.deadline, days) });
+        showToast(strings.messages.deadlineExtended, 'success');
+      } catch (error) {
+        console.error('Failed to extend deadline:', error);
+        showToast(strings.deadlineActions.extendFailed, 'error');
+      }
+    };
+
+    Alert.alert(strings.deadlineActions.extend, civilization.name, [
+      ...DEADLINE_EXTENSION_DAYS.map(days => ({
+        text: strings.deadlineActions.extendBy(days),
+        onPress: () => extend(days),
+      })),
+      {
+        text: strings.deadlineActions.pickDate,
+        onPress: () => handleEditCivilization(civilization),
+      },
+      { text: strings.actions.cancel, style: 'cancel' as const },
+    ]);
+  };
+
+  const handleArchiveCivilization = (civilization: Civilization) => {
+    Alert.alert(
+      strings.deadlineActions.archiveTitle,
+      strings.deadlineActions.archiveMessage(civilization.name),
+      [
+        { text: strings.actions.cancel, style: 'cancel' },
+        {
+          text: strings.deadlineActions.archive,
+          onPress: async () => {
+            try {
+              await archiveCiv(civilization.id);
+              showToast(strings.messages.civilizationArchived, 'success');
+            } catch (error) {
+              console.error('Failed to archive civilization:', error);
+              showToast(strings.deadlineActions.archiveFailed, 'error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleCompleteCivilization = (civilization: Civilization) => {
+    const complete = async (monument: boolean) => {
+      try {
+        await completeCiv(civilization.id, monument);
+        showToast(strings.messages.civilizationCompleted, 'success');
+      } catch (error) {
+        console.error('Failed to complete civilization:', error);
+        showToast(strings.completeActions.failed, 'error');
       }
-      
-      setSelectedCivilizationForMemo(civilization);
-      setProgressMemoModalVisible(true);
+    };
+
+    Alert.alert(strings.completeActions.title, strings.completeActions.message(civilization.name), [
+      { text: strings.completeActions.withMonument, onPress: () => complete(true) },
+      { text: strings.completeActions.withoutMonument, onPress: () => complete(false) },
+      { text: strings.actions.cancel, style: 'cancel' },
+    ]);
+  };
+
+  const handleLogProgress = async (civilization: Civilization) => {
+    try {
+      await recordProgress(civilization.id);
+      showToast(strings.messages.progressLogged, 'success');
     } catch (error) {
-      console.error('Failed to handle progress memo:', error);
-      showToast('進捗メモの取得に失敗しました', 'error');
+      showToast(strings.messages.progressFailed, 'error');
     }
   };
 
-  const handleSubmitProgressMemo = async (
-    data: CreateProgressMemoRequest | UpdateProgressMemoRequest
-  ) => {
+  const handleProgressMemo = (civilization: Civilization) => {
+    // Edit today's event if progress was already recorded, otherwise create one
+    setEditingProgressMemo(getTodayProgressEvent(civilization.id) || undefined);
+    setSelectedCivilizationForMemo(civilization);
+    setProgressMemoModalVisible(true);
+  };
+
+  const handleSubmitProgressMemo = async (data: RecordProgressRequest) => {
     if (!selectedCivilizationForMemo) return;
     
     setProgressMemoModalLoading(true);
     try {
-      if (editingProgressMemo) {
-        // Update existing memo
-        await updateProgressMemo(selectedCivilizationForMemo.id, data as UpdateProgressMemoRequest);
-        showToast('進捗メモを更新しました', 'success');
-      } else {
-        // Create new memo
-        await createProgressMemo(selectedCivilizationForMemo.id, data as CreateProgressMemoRequest);
-        showToast('進捗メモを記録しました', 'success');
-      }
-      
-      // Update civilization's lastProgressAt timestamp
-      await logProgress(selectedCivilizationForMemo.id);
-      deriveCivStates();
+      const isUpdate = getProgressEvents(selectedCivilizationForMemo.id).some(
+        event => event.date === data.date
+      );
+      // Creates or updates the selected day's progress event and refreshes derived states
+      await recordProgress(selectedCivilizationForMemo.id, data);
+      showToast(isUpdate ? '進捗メモを更新しました' : '進捗メモを記録しました', 'success');
     } catch (error) {
       console.error('Failed to submit progress memo:', error);
       showToast('進捗メモの保存に失敗しました', 'error');
@@ -264,15 +353,14 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
     if (!civilization.lastProgressAt) {
       return true; // No progress recorded at all
     }
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStart = today.getTime();
+    const todayStart = getCalendarDayStart(getTodayDate());
     return civilization.lastProgressAt < todayStart; // Progress was before today
   };
 
   const renderCivilization = ({ item }: { item: Civilization }) => {
     const isSelected = item.id === selectedCivilizationId;
     const noProgressToday = hasNoProgressToday(item);
+    const deadlineState = getCivilizationDeadlineState(item);
     
     return (
       <View style={[styles.civilizationCard, isSelected && styles.selectedCivilizationCard]}>
@@ -280,12 +368,19 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
           <View style={styles.cardHeaderLeft}>
             <Text style={styles.civilizationName}>{item.name}</Text>
             <StateBadge state={item.state} />
+            <DeadlineBadge state={deadlineState} />
             {isSelected && (
               <View style={styles.selectedIndicator}>
                 <Icon name="success" size="xs" color="#FFFFFF" />
               </View>
             )}
           </View>
+          <TouchableOpacity
+            style={styles.deleteButton}
+            onPress={() => handleDeleteCivilization(item)}
+          >
+            <Icon name="delete" size="sm" color={colors.textTertiary} />
+          </TouchableOpacity>
         </View>
 
         <Text style={styles.civilizationDetail}>{strings.civilization.fields.deadline}: {formatDate(item.deadline)}</Text>
@@ -293,29 +388,97 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
           {strings.civilization.fields.lastProgress}: {formatRelativeTime(item.lastProgressAt)}
         </Text>
         {item.purpose && <Text style={styles.civilizationPurpose}>{item.purpose}</Text>}
+        {!!item.milestones?.length && (
+          <Text style={styles.civilizationDetail}>
+            {strings.civilization.milestones.title}:{' '}
+            {strings.civilization.milestones.progress(
+              item.milestones.filter(milestone => isMilestoneCompleted(milestone)).length,
+              item.milestones.length
+            )}
+          </Text>
+        )}
+
+        {deadlineState === 'overdue' && (
+          <View style={styles.overdueNotice}>
+            <Text style={styles.overdueNoticeText}>{strings.civilization.overdueNotice}</Text>
+            <View style={styles.overdueActions}>
+              <TouchableOpacity
+                style={styles.overdueActionButton}
+                onPress={() => handleExtendDeadline(item)}
+              >
+                <Icon name="calendar" size="xs" color={colors.primary} />
+                <Text style={styles.overdueActionText}>{strings.deadlineActions.extend}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.overdueActionButton}
+                onPress={() => handleArchiveCivilization(item)}
+              >
+                <Icon name="save" size="xs" color={colors.primary} />
+                <Text style={styles.overdueActionText}>{strings.deadlineActions.archive}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
 
         <View style={styles.actionButtons}>
           <TouchableOpacity style={styles.progressButton} onPress={() => handleProgressMemo(item)}>
             <Text style={styles.progressButtonText}>進捗メモ</Text>
             {noProgressToday && <View style={styles.progressBadgeDot} />}
           </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.completeButton}
+            onPress={() => handleCompleteCivilization(item)}
+          >
+            <Icon name="highlight" size="xs" color={colors.accent} />
+            <Text style={styles.completeButtonText}>{strings.completeActions.complete}</Text>
+          </TouchableOpacity>
         </View>
       </View>
     );
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <View style={styles.emptyStateIconContainer}>
-        <Icon name="civilizations" size="xl" color={colors.primary} />
-      </View>
-      <Text style={styles.emptyStateTitle}>{strings.civilization.emptyState.title}</Text>
-      <Text style={styles.emptyStateSubtitle}>
-        {strings.civilization.emptyState.subtitle}
-      </Text>
+  const renderFooterLinks = () => (
+    <View>
+      {archivedCount > 0 && (
+        <TouchableOpacity style={styles.archiveLink} onPress={() => navigation.navigate('Archive')}>
+          <Icon name="highlight" size="sm" color={colors.accent} />
+          <Text style={styles.archiveLinkText}>{strings.screens.archive.link(archivedCount)}</Text>
+        </TouchableOpacity>
+      )}
+      {trashCount > 0 && (
+        <TouchableOpacity style={styles.archiveLink} onPress={() => navigation.navigate('Trash')}>
+          <Icon name="delete" size="sm" color={colors.textSecondary} />
+          <Text style={styles.trashLinkText}>{strings.screens.trash.link(trashCount)}</Text>
+        </TouchableOpacity>
+      )}
     </View>
   );
 
+  const renderSearchBar = () =>
+    activeCivilizations.length > 0 ? (
+      <SearchBar
+        query={searchQuery}
+        onChange={setSearchQuery}
+        placeholder={strings.search.civilizationsPlaceholder}
+        resultCount={visibleCivilizations.length}
+      />
+    ) : null;
+
+  const renderEmptyState = () =>
+    isSearching ? (
+      <Text style={styles.noResultsText}>{strings.search.noResults}</Text>
+    ) : (
+      <View style={styles.emptyState}>
+        <View style={styles.emptyStateIconContainer}>
+          <Icon name="civilizations" size="xl" color={colors.primary} />
+        </View>
+        <Text style={styles.emptyStateTitle}>{strings.civilization.emptyState.title}</Text>
+        <Text style={styles.emptyStateSubtitle}>
+          {strings.civilization.emptyState.subtitle}
+        </Text>
+      </View>
+    );
+
   if (loading && civilizations.length === 0) {
     return (
       <Screen>
@@ -333,16 +496,18 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
       <View style={styles.container}>
         <FlatList
           ref={flatListRef}
-          data={civilizations}
+          data={visibleCivilizations}
           renderItem={renderCivilization}
           keyExtractor={item => item.id}
           showsVerticalScrollIndicator={false}
           contentContainerStyle={[
             styles.listContainer,
-            civilizations.length === 0 && styles.emptyListContainer,
+            activeCivilizations.length === 0 && styles.emptyListContainer,
           ]}
+          ListHeaderComponent={renderSearchBar}
           refreshControl={<RefreshControl refreshing={loading} onRefresh={handleRefresh} />}
           ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={renderFooterLinks}
           onScrollToIndexFailed={(info) => {
             // Handle scroll to index failure gracefully
             console.warn('Failed to scroll to index:', info);
@@ -367,6 +532,12 @@ export const CivilizationsScreen: React.FC<CivilizationsScreenProps> = ({
           memo={editingProgressMemo}
           loading={progressMemoModalLoading}
           isEditMode={!!editingProgressMemo}
+          dates={getBackfillDates(getBackfillWindowDays())}
+          events={
+            selectedCivilizationForMemo ? getProgressEvents(selectedCivilizationForMemo.id) : []
+          }
+          onDelete={event => deleteProgressEvent(event.id)}
+          metric={selectedCivilizationForMemo?.metric}
         />
 
         <Toast {...toast} onHide={hideToast} />
@@ -439,11 +610,45 @@ const styles = StyleSheet.create({
     marginTop: spacing.sm,
     fontStyle: 'italic',
   },
+  overdueNotice: {
+    marginTop: spacing.md,
+    padding: spacing.sm,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: colors.error,
+    backgroundColor: colors.error + '20', // 20% opacity
+  },
+  overdueNoticeText: {
+    ...typography.caption,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  overdueActions: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+  },
+  overdueActionButton: {
+    ...ui.button.outline,
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+  overdueActionText: {
+    ...typography.caption,
+    color: colors.primary,
+    fontWeight: '600',
+  },
   actionButtons: {
     marginTop: spacing.md,
+    flexDirection: 'row',
+    gap: spacing.sm,
   },
   progressButton: {
     ...ui.button.primary,
+    flex: 1,
     paddingHorizontal: spacing.md,
     paddingVertical: spacing.sm,
     alignItems: 'center',
@@ -455,6 +660,40 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     textAlign: 'center',
   },
+  completeButton: {
+    ...ui.button.outline,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderColor: colors.accent,
+  },
+  completeButtonText: {
+    ...typography.caption,
+    color: colors.accent,
+    fontWeight: '600',
+  },
+  archiveLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.md,
+  },
+  archiveLinkText: {
+    ...typography.body,
+    color: colors.accent,
+  },
+  trashLinkText: {
+    ...typography.body,
+    color: colors.textSecondary,
+  },
+  deleteButton: {
+    padding: spacing.xs,
+    marginLeft: spacing.sm,
+  },
   progressBadgeDot: {
     position: 'absolute',
     top: -spacing.xs,
@@ -488,6 +727,12 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
+  noResultsText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginTop: spacing.lg,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import {
   View,
   Text,
@@ -14,9 +14,28 @@ import { useFocusEffect, useRoute } from '@react-navigation/native';
 import { Screen } from '../components/UI/Screen';
 import { Toast, ToastType } from '../components/UI/Toast';
 import { Icon } from '../components/UI/Icon';
+import { ProgressCsvExportModal } from '../components/ProgressCsvExportModal';
+import { ProgressMemoModal } from '../components/ProgressMemoModal';
+import { MetricChart } from '../components/UI/MetricChart';
+import { HistoryCalendar } from '../components/HistoryCalendar';
+import { SearchBar } from '../components/SearchBar';
 import { useAppStore } from '../stores';
-import { Civilization, ProgressMemo } from '../types';
+import {
+  Civilization,
+  PlanetGoalRevision,
+  ProgressEvent,
+  RecordProgressRequest,
+  SearchQuery,
+  StateTransition,
+} from '../types';
 import { formatDate, formatRelativeTime } from '../lib/dateUtils';
+import { isWithinBackfillWindow } from '../lib/progressEvents';
+import { formatMetricAmount } from '../lib/metrics';
+import { getTodayDate, toCalendarDate } from '../lib/calendarDay';
+import { getDayActivity, toCalendarMonth } from '../lib/historyCalendar';
+import { isArchived } from '../lib/civilizationArchive';
+import { EMPTY_SEARCH_QUERY, isEmptySearchQuery } from '../lib/search';
+import { strings } from '../i18n/strings';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
@@ -38,16 +57,20 @@ interface ToastState {
   type: ToastType;
 }
 
+type HistoryViewMode = 'list' | 'calendar';
+
 interface HistoryItem {
   id: string;
-  type: 'memo' | 'header';
+  type: 'memo' | 'transition' | 'revision' | 'header';
   date: string;
-  memo?: ProgressMemo;
+  memo?: ProgressEvent;
+  transition?: StateTransition;
+  revision?: PlanetGoalRevision;
   civilization?: Civilization;
 }
 
 export const HistoryScreen: React.FC<HistoryScreenProps> = ({
-  navigation: _navigation,
+  navigation,
 }) => {
   const route = useRoute();
   const flatListRef = useRef<FlatList>(null);
@@ -56,13 +79,37 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
   const {
     civilizations,
     loading,
+    progressEvents,
+    stateTransitions,
+    goalRevisions,
     loadCivilizations,
-    getProgressMemos,
+    loadProgressEvents,
+    loadStateTransitions,
+    loadPlanetGoal,
+    getProgressEvents,
+    searchProgressEvents,
+    getStateTransitions,
+    getGoalRevisions,
+    getBackfillWindowDays,
+    recordProgress,
+    deleteProgressEvent,
     deriveCivStates,
   } = useAppStore();
 
   const [historyItems, setHistoryItems] = useState<HistoryItem[]>([]);
   const [historyLoading, setHistoryLoading] = useState(false);
+  const [csvModalVisible, setCsvModalVisible] = useState(false);
+  const [editingMemo, setEditingMemo] = useState<ProgressEvent | undefined>();
+  // Civilization and past day picked from the calendar to record a missed day
+  const [backfillTarget, setBackfillTarget] = useState<
+    { civId: string; date: string } | undefined
+  >();
+  const [viewMode, setViewMode] = useState<HistoryViewMode>('list');
+  const [calendarMonth, setCalendarMonth] = useState(toCalendarMonth());
+  const [calendarDate, setCalendarDate] = useState(getTodayDate());
+  const [searchQuery, setSearchQuery] = useState<SearchQuery>(EMPTY_SEARCH_QUERY);
+  const isSearching = !isEmptySearchQuery(searchQuery);
+  const [memoModalLoading, setMemoModalLoading] = useState(false);
   const [toast, setToast] = useState<ToastState>({
     visible: false,
     message: '',
@@ -81,49 +128,58 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
   const loadHistory = async () => {
     setHistoryLoading(true);
     try {
-      const allMemos: ProgressMemo[] = [];
-      
-      // Get all progress memos for all civilizations
-      for (const civ of civilizations) {
-        const memos = await getProgressMemos(civ.id);
-        allMemos.push(...memos);
-      }
-      
-      // Sort by date (newest first)
-      allMemos.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-      
-      // Group by date and create history items
-      const groupedByDate = allMemos.reduce((acc, memo) => {
-        const date = memo.date;
-        if (!acc[date]) {
-          acc[date] = [];
-        }
-        acc[date].push(memo);
-        return acc;
-      }, {} as Record<string, ProgressMemo[]>);
+      // Get progress events for all civilizations (newest first), or those matching the search
+      const allMemos = isSearching ? searchProgressEvents(searchQuery) : getProgressEvents();
+
+      const entries: (HistoryItem & { timestamp: number })[] = allMemos.map(memo => ({
+        id: memo.id,
+        type: 'memo',
+        date: memo.date,
+        memo,
+        civilization: civilizations.find(civ => civ.id === memo.civId),
+        timestamp: memo.createdAt,
+      }));
+
+      // State transitions appear alongside progress on the day they happened (not in searches)
+      (isSearching ? [] : getStateTransitions()).forEach(transition => {
+        const civilization = civilizations.find(civ => civ.id === transition.civId);
+        if (!civilization) return;
+
+        entries.push({
+          id: transition.id,
+          type: 'transition',
+          date: toCalendarDate(transition.timestamp),
+          transition,
+          civilization,
+          timestamp: transition.timestamp,
+        });
+      });
+
+      // Vision changes appear the same way, so progress can be read against the vision of the time
+      (isSearching ? [] : getGoalRevisions()).forEach(revision => {
+        entries.push({
+          id: revision.id,
+          type: 'revision',
+          date: toCalendarDate(revision.timestamp),
+          revision,
+          timestamp: revision.timestamp,
+        });
+      });
+
+      entries.sort((a, b) => b.date.localeCompare(a.date) || b.timestamp - a.timestamp);
       
       const items: HistoryItem[] = [];
       
-      // Create history items with headers
-      Object.entries(groupedByDate).forEach(([date, memos]) => {
-        // Add date header
-        items.push({
-          id: `header-${date}`,
-          type: 'header',
-          date,
-        });
-        
-        // Add memo items
-        memos.forEach(memo => {
-          const civilization = civilizations.find(civ => civ.id === memo.civId);
+      // Create history items with a header before each date
+      entries.forEach(({ timestamp: _timestamp, ...item }) => {
+        if (items.length === 0 || items[items.length - 1].date !== item.date) {
           items.push({
-            id: memo.id,
-            type: 'memo',
-            date,
-            memo,
-            civilization,
+            id: `header-${item.date}`,
+            type: 'header',
+            date: item.date,
           });
-        });
+        }
+        items.push(item);
       });
       
       setHistoryItems(items);
@@ -135,13 +191,11 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
     }
   };
 
-  // Load history when screen comes into focus
+  // Load history when screen comes into focus (vision changes show even without civilizations)
   useFocusEffect(
     React.useCallback(() => {
-      if (civilizations.length > 0) {
-        loadHistory();
-      }
-    }, [civilizations])
+      loadHistory();
+    }, [civilizations, progressEvents, stateTransitions, goalRevisions, searchQuery])
   );
 
   const showToast = (message: string, type: ToastType = 'info') => {
@@ -155,14 +209,34 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
   const handleRefresh = async () => {
     try {
       await loadCivilizations();
+      await loadProgressEvents();
+      await loadStateTransitions();
+      await loadPlanetGoal();
       deriveCivStates();
-      await loadHistory();
       showToast('更新しました', 'success');
     } catch (error) {
       showToast('更新に失敗しました', 'error');
     }
   };
 
+  // Entries within the backfill window can be edited or deleted from History, and missed
+  // days within it can be recorded from the calendar
+  const memoTarget = editingMemo ?? backfillTarget;
+
+  const handleSubmitMemo = async (data: RecordProgressRequest) => {
+    if (!memoTarget) return;
+
+    setMemoModalLoading(true);
+    try {
+      await recordProgress(memoTarget.civId, { ...data, date: memoTarget.date });
+    } catch (error) {
+      console.error('Failed to update progress memo:', error);
+      throw error; // Re-throw to prevent modal from closing
+    } finally {
+      setMemoModalLoading(false);
+    }
+  };
+
   const renderHistoryItem = ({ item }: { item: HistoryItem }) => {
     if (item.type === 'header') {
       return (
@@ -174,16 +248,74 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
       );
     }
 
+    if (item.type === 'transition') {
+      if (!item.transition || !item.civilization) return null;
+
+      const { transition, civilization } = item;
+      const stateNames = strings.civilization.states;
+
+      return (
+        <View style={[styles.memoCard, styles.transitionCard]}>
+          <View style={styles.memoHeader}>
+            <View style={styles.memoHeaderLeft}>
+              <Icon name={transition.to} size="sm" />
+              <Text style={styles.civilizationName}>{civilization.name}</Text>
+            </View>
+            <Text style={styles.levelText}>{strings.screens.history.stateTransition}</Text>
+          </View>
+          <Text style={styles.memoText}>
+            {stateNames[transition.from]} → {stateNames[transition.to]}
+          </Text>
+          <Text style={styles.memoTime}>
+            {strings.screens.history.transitionTriggers[transition.trigger]}・
+            {formatRelativeTime(transition.timestamp)}
+          </Text>
+        </View>
+      );
+    }
+
+    if (item.type === 'revision') {
+      if (!item.revision) return null;
+
+      const { revision } = item;
+
+      return (
+        <View style={[styles.memoCard, styles.transitionCard]}>
+          <View style={styles.memoHeader}>
+            <View style={styles.memoHeaderLeft}>
+              <Icon name="planet" size="sm" />
+              <Text style={styles.civilizationName}>
+                {revision.restoredFrom
+                  ? strings.screens.history.visionRestored
+                  : strings.screens.history.visionChange}
+              </Text>
+            </View>
+            <Text style={styles.levelText}>
+              {strings.screens.planetSettings.revisions.deadline(formatDate(revision.deadline))}
+            </Text>
+          </View>
+          <Text style={styles.memoText}>{revision.title}</Text>
+          {revision.reason && <Text style={styles.revisionReason}>{revision.reason}</Text>}
+          <Text style={styles.memoTime}>{formatRelativeTime(revision.timestamp)}</Text>
+        </View>
+      );
+    }
+
     if (!item.memo || !item.civilization) return null;
 
     const { memo, civilization } = item;
     const isSelected = civilization.id === selectedCivilizationId;
+    const isEditable = isWithinBackfillWindow(memo.date, getBackfillWindowDays());
 
     return (
-      <View style={[
-        styles.memoCard,
-        isSelected && styles.selectedMemoCard
-      ]}>
+      <TouchableOpacity
+        style={[
+          styles.memoCard,
+          isSelected && styles.selectedMemoCard
+        ]}
+        onPress={() => setEditingMemo(memo)}
+        disabled={!isEditable}
+      >
         <View style={styles.memoHeader}>
           <View style={styles.memoHeaderLeft}>
             <Text style={styles.civilizationName}>{civilization.name}</Text>
@@ -206,27 +338,143 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
           </View>
         </View>
 
-        <Text style={styles.memoText}>{memo.memo}</Text>
-        
-        <Text style={styles.memoTime}>
-          {formatRelativeTime(memo.createdAt)}
+        <Text style={styles.memoText}>
+          {memo.memo || strings.civilization.progressWithoutMemo}
         </Text>
+        {civilization.metric && memo.amount !== undefined && (
+          <Text style={styles.memoAmount}>
+            {formatMetricAmount(memo.amount, civilization.metric.unit)}
+          </Text>
+        )}
+        
+        <View style={styles.memoFooter}>
+          <Text style={styles.memoTime}>
+            {formatRelativeTime(memo.createdAt)}
+          </Text>
+          {memo.backfilled && (
+            <View style={styles.backfilledBadge}>
+              <Icon name="history" size="xs" color={colors.textSecondary} />
+              <Text style={styles.backfilledText}>{strings.screens.history.backfilled}</Text>
+            </View>
+          )}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  // Cumulative charts of civilizations with a metric (only the selected one when filtered)
+  const metricCivilizations = civilizations.filter(
+    civ => civ.metric && (!selectedCivilizationId || civ.id === selectedCivilizationId)
+  );
+
+  const renderMetricCharts = () => {
+    if (metricCivilizations.length === 0 || historyItems.length === 0) return null;
+
+    return (
+      <View style={styles.metricCard}>
+        <Text style={styles.metricCardTitle}>{strings.screens.history.metricCharts}</Text>
+        {metricCivilizations.map(
+          civilization =>
+            civilization.metric && (
+              <MetricChart
+                key={civilization.id}
+                metric={civilization.metric}
+                events={getProgressEvents(civilization.id)}
+                title={civilization.name}
+                height={72}
+              />
+            )
+        )}
       </View>
     );
   };
 
-  const renderEmptyState = () => (
-    <View style={styles.emptyState}>
-      <View style={styles.emptyStateIconContainer}>
-        <Icon name="civilizations" size="xl" color={colors.primary} />
+  const dayActivity = useMemo(
+    () => getDayActivity(progressEvents, civilizations),
+    [progressEvents, civilizations]
+  );
+
+  const calendarItems = historyItems.filter(
+    item => item.type !== 'header' && item.date === calendarDate
+  );
+
+  const handleChangeMonth = (month: string) => {
+    setCalendarMonth(month);
+    // Keep the selected day inside the month shown
+    setCalendarDate(month === toCalendarMonth() ? getTodayDate() : `${month}-01`);
+  };
+
+  const handleSelectCalendarDate = (date: string) => {
+    setCalendarDate(date);
+    if (toCalendarMonth(date) !== calendarMonth) {
+      setCalendarMonth(toCalendarMonth(date));
+    }
+  };
+
+  const renderCalendarHeader = () => (
+    <>
+      <HistoryCalendar
+        month={calendarMonth}
+        activity={dayActivity}
+        selectedDate={calendarDate}
+        onChangeMonth={handleChangeMonth}
+        onSelectDate={handleSelectCalendarDate}
+      />
+      <View style={styles.dateHeader}>
+        <Text style={styles.dateHeaderText}>{formatDate(calendarDate)}</Text>
       </View>
-      <Text style={styles.emptyStateTitle}>履歴がありません</Text>
-      <Text style={styles.emptyStateSubtitle}>
-        進捗メモを記録すると、ここに履歴が表示されます。
-      </Text>
-    </View>
+      {calendarItems.length === 0 && (
+        <Text style={styles.calendarEmptyText}>{strings.screens.history.calendar.noEntries}</Text>
+      )}
+    </>
   );
 
+  // Civilizations without an entry on the selected day, when it can still be backfilled
+  const renderBackfillActions = () => {
+    if (!isWithinBackfillWindow(calendarDate, getBackfillWindowDays())) return null;
+
+    const recordedCivIds = new Set(
+      calendarItems.filter(item => item.type === 'memo').map(item => item.memo?.civId)
+    );
+    const missingCivilizations = civilizations.filter(
+      civ => !isArchived(civ) && !recordedCivIds.has(civ.id)
+    );
+    if (missingCivilizations.length === 0) return null;
+
+    return (
+      <View style={styles.backfillSection}>
+        <Text style={styles.backfillTitle}>{strings.screens.history.calendar.backfillTitle}</Text>
+        {missingCivilizations.map(civilization => (
+          <TouchableOpacity
+            key={civilization.id}
+            style={styles.backfillButton}
+            onPress={() => setBackfillTarget({ civId: civilization.id, date: calendarDate })}
+          >
+            <Icon name="add" size="xs" color={colors.primary} />
+            <Text style={styles.backfillButtonText}>
+              {strings.screens.history.calendar.record(civilization.name)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () =>
+    isSearching ? (
+      <Text style={styles.calendarEmptyText}>{strings.search.noResults}</Text>
+    ) : (
+      <View style={styles.emptyState}>
+        <View style={styles.emptyStateIconContainer}>
+          <Icon name="civilizations" size="xl" color={colors.primary} />
+        </View>
+        <Text style={styles.emptyStateTitle}>履歴がありません</Text>
+        <Text style={styles.emptyStateSubtitle}>
+          進捗メモを記録すると、ここに履歴が表示されます。
+        </Text>
+      </View>
+    );
+
   if (loading && civilizations.length === 0) {
     return (
       <Screen>
@@ -242,24 +490,107 @@ export const HistoryScreen: React.FC<HistoryScreenProps> = ({
   return (
     <Screen>
       <View style={styles.container}>
-
-        <FlatList
-          ref={flatListRef}
-          data={historyItems}
-          renderItem={renderHistoryItem}
-          keyExtractor={item => item.id}
-          showsVerticalScrollIndicator={false}
-          contentContainerStyle={[
-            styles.listContainer,
-            historyItems.length === 0 && styles.emptyListContainer,
-          ]}
-          refreshControl={
-            <RefreshControl 
-              refreshing={historyLoading} 
-              onRefresh={handleRefresh} 
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => setViewMode(viewMode === 'list' ? 'calendar' : 'list')}
+          >
+            <Icon
+              name={viewMode === 'list' ? 'calendar' : 'history'}
+              size="sm"
+              color={colors.primary}
             />
-          }
-          ListEmptyComponent={renderEmptyState}
+            <Text style={styles.toolbarButtonText}>
+              {strings.screens.history.viewModes[viewMode === 'list' ? 'calendar' : 'list']}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => navigation.navigate('Stats', { selectedCivilizationId })}
+          >
+            <Icon name="stats" size="sm" color={colors.primary} />
+            <Text style={styles.toolbarButtonText}>{strings.screens.stats.link}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => setCsvModalVisible(true)}
+            disabled={progressEvents.length === 0}
+          >
+            <Icon name="export" size="sm" color={colors.primary} />
+            <Text style={styles.toolbarButtonText}>
+              {strings.screens.history.csvExport.button}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {viewMode === 'calendar' ? (
+          <FlatList
+            data={calendarItems}
+            renderItem={renderHistoryItem}
+            keyExtractor={item => item.id}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={styles.listContainer}
+            ListHeaderComponent={renderCalendarHeader}
+            ListFooterComponent={renderBackfillActions}
+          />
+        ) : (
+          <FlatList
+            ref={flatListRef}
+            data={historyItems}
+            renderItem={renderHistoryItem}
+            keyExtractor={item => item.id}
+            showsVerticalScrollIndicator={false}
+            contentContainerStyle={[
+              styles.listContainer,
+              historyItems.length === 0 && styles.emptyListContainer,
+            ]}
+            refreshControl={
+              <RefreshControl 
+                refreshing={historyLoading} 
+                onRefresh={handleRefresh} 
+              />
+            }
+            ListHeaderComponent={
+              <>
+                <SearchBar
+                  query={searchQuery}
+                  onChange={setSearchQuery}
+                  placeholder={strings.search.historyPlaceholder}
+                  resultCount={historyItems.filter(item => item.type === 'memo').length}
+                />
+                {!isSearching && renderMetricCharts()}
+              </>
+            }
+            ListEmptyComponent={renderEmptyState}
+          />
+        )}
+
+        <ProgressCsvExportModal
+          visible={csvModalVisible}
+          civilizations={civilizations}
+          progressEvents={progressEvents}
+          initialCivilizationId={selectedCivilizationId}
+          onClose={() => setCsvModalVisible(false)}
+          onExported={count => {
+            setCsvModalVisible(false);
+            showToast(strings.screens.history.csvExport.exported(count), 'success');
+          }}
+          onError={() => showToast(strings.screens.history.csvExport.failed, 'error')}
+        />
+
+        <ProgressMemoModal
+          visible={!!memoTarget}
+          onClose={() => {
+            setEditingMemo(undefined);
+            setBackfillTarget(undefined);
+          }}
+          onSubmit={handleSubmitMemo}
+          memo={editingMemo}
+          loading={memoModalLoading}
+          isEditMode={!!editingMemo}
+          dates={backfillTarget ? [backfillTarget.date] : undefined}
+          onDelete={event => deleteProgressEvent(event.id)}
+          metric={civilizations.find(civ => civ.id === memoTarget?.civId)?.metric}
         />
 
         <Toast {...toast} onHide={hideToast} />
@@ -287,6 +618,22 @@ const styles = StyleSheet.create({
   refreshButton: {
     padding: spacing.sm,
   },
+  toolbar: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    paddingHorizontal: spacing.lg,
+    paddingTop: spacing.sm,
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    padding: spacing.sm,
+  },
+  toolbarButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
   listContainer: {
     paddingBottom: spacing.lg,
   },
@@ -310,6 +657,15 @@ const styles = StyleSheet.create({
     marginHorizontal: spacing.lg,
     marginBottom: spacing.sm,
   },
+  transitionCard: {
+    borderLeftWidth: 3,
+    borderLeftColor: colors.secondary,
+  },
+  revisionReason: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.sm,
+  },
   selectedMemoCard: {
     borderWidth: 2,
     borderColor: colors.primary,
@@ -361,10 +717,63 @@ const styles = StyleSheet.create({
     marginBottom: spacing.sm,
     lineHeight: 22,
   },
+  calendarEmptyText: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    marginBottom: spacing.md,
+  },
+  backfillSection: {
+    ...ui.card,
+    gap: spacing.xs,
+  },
+  backfillTitle: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.xs,
+  },
+  backfillButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.xs,
+  },
+  backfillButtonText: {
+    ...typography.body,
+    color: colors.primary,
+  },
+  memoAmount: {
+    ...typography.caption,
+    color: colors.primary,
+    fontWeight: '600',
+    marginBottom: spacing.sm,
+  },
+  metricCard: {
+    ...ui.card,
+    marginBottom: spacing.md,
+    gap: spacing.md,
+  },
+  metricCardTitle: {
+    ...typography.subheading,
+    color: colors.text,
+  },
+  memoFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
   memoTime: {
     ...typography.small,
     color: colors.textTertiary,
   },
+  backfilledBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
+  },
+  backfilledText: {
+    ...typography.small,
+    color: colors.textSecondary,
+  },
   emptyState: {
     flex: 1,
     justifyContent: 'center',
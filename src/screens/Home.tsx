@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { View, Text, StyleSheet, Animated, TouchableOpacity } from 'react-native';
 import {
   PanGestureHandler,
@@ -13,8 +13,9 @@ import { Screen } from '../components/UI/Screen';
 import { Toast, ToastType } from '../components/UI/Toast';
 import { Icon } from '../components/UI/Icon';
 import { CivilizationBottomSheet } from '../components/CivilizationBottomSheet';
+import { PlanetSwitcher } from '../components/PlanetSwitcher';
 import { useAppStore } from '../stores';
-import { Civilization } from '../types';
+import { Civilization, RecordProgressRequest } from '../types';
 import {
   PlanetScene,
   createPlanetScene,
@@ -28,7 +29,16 @@ import {
   startIdleAnimation,
   startGesture,
   endGesture,
+  setPlanetAppearance,
 } from '../lib/three';
+import { getCalendarDayStart, getTodayDate } from '../lib/calendarDay';
+import { getPlanetGoalDeadlineState } from '../lib/deadlines';
+import { getPlanetAppearance } from '../lib/planets';
+import {
+  getActiveCivilizations,
+  getPlanetCivilizations,
+  isArchived,
+} from '../lib/civilizationArchive';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
@@ -50,15 +60,30 @@ interface ToastState {
 }
 
 export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
-  const { civilizations, planetGoal, logProgress, deriveCivStates } = useAppStore();
+  const {
+    civilizations,
+    planetGoal,
+    recordProgress,
+    deriveCivStates,
+    planets,
+    activePlanetId,
+    addPlanet,
+    switchPlanet,
+    loading,
+  } = useAppStore();
+  const planetAppearance = getPlanetAppearance(
+    planets.find(planet => planet.id === activePlanetId)
+  );
+
+  // Archived civilizations leave the planet unless they stay as monuments
+  const activeCivilizations = useMemo(() => getActiveCivilizations(civilizations), [civilizations]);
+  const planetCivilizations = useMemo(() => getPlanetCivilizations(civilizations), [civilizations]);
   
   // Calculate count of civilizations without progress today
   const getNoProgressTodayCount = () => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-    const todayStart = today.getTime();
+    const todayStart = getCalendarDayStart(getTodayDate());
     
-    return civilizations.filter(civ => {
+    return activeCivilizations.filter(civ => {
       if (!civ.lastProgressAt) {
         return true; // No progress recorded at all
       }
@@ -88,6 +113,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   // Tutorial mode detection
   const isTutorial = !planetGoal || !planetGoal.title || !planetGoal.deadline;
 
+  // Flag the Vision button when the planet goal's deadline is near or has passed
+  const planetGoalDeadlineState = isTutorial ? 'onTrack' : getPlanetGoalDeadlineState(planetGoal);
+
   // Refs for gesture handling
   const lastPanRef = useRef({ x: 0, y: 0 });
   const lastScaleRef = useRef(1);
@@ -102,6 +130,9 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       if (planetGoal && planetGoal.title && planetGoal.deadline) {
         // Goal is set, skip tutorial and show normal screen
         setTutorialStep(-1); // -1 means tutorial is complete
+      } else if (planets.length > 1) {
+        // A newly added planet skips the app intro and goes straight to its vision
+        setTutorialStep(1);
       } else {
         // No goal set, start from Step 0
         setTutorialStep(0);
@@ -109,7 +140,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
       
       // Check if we should show first civilization hint
       // (goal is set but no civilizations exist)
-      if (planetGoal && planetGoal.title && planetGoal.deadline && civilizations.length === 0) {
+      if (planetGoal && planetGoal.title && planetGoal.deadline && planetCivilizations.length === 0) {
         setShowFirstCivilizationHint(true);
       } else {
         setShowFirstCivilizationHint(false);
@@ -121,16 +152,24 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
         createAnimation('fadeIn', subtitleOpacity),
         createAnimation('growth', planetIconScale),
       ]).start();
-    }, [deriveCivStates, titleScale, subtitleOpacity, planetIconScale, planetGoal, civilizations.length])
+    }, [deriveCivStates, titleScale, subtitleOpacity, planetIconScale, planetGoal, planetCivilizations.length, planets.length])
   );
 
   // Update markers when civilizations change
   useEffect(() => {
-    if (scene && civilizations) {
-      updateCivilizationMarkers(scene, civilizations);
+    if (scene && planetCivilizations) {
+      updateCivilizationMarkers(scene, planetCivilizations);
+      renderScene(scene);
+    }
+  }, [scene, planetCivilizations]);
+
+  // Recolour the planet when another planet is shown or its appearance changes
+  useEffect(() => {
+    if (scene) {
+      setPlanetAppearance(scene.planet, planetAppearance);
       renderScene(scene);
     }
-  }, [scene, civilizations]);
+  }, [scene, planetAppearance]);
 
   // Update camera aspect ratio when view dimensions change
   useEffect(() => {
@@ -163,7 +202,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
 
   const handleContextCreate = (gl: any) => {
     try {
-      const newScene = createPlanetScene(gl);
+      const newScene = createPlanetScene(gl, planetAppearance);
       setScene(newScene);
       
       // Don't render immediately - wait for onLayout to set correct dimensions
@@ -242,28 +281,52 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
     
     if (hitCivilizationId) {
       const civilization = civilizations.find(civ => civ.id === hitCivilizationId);
-      if (civilization) {
+      if (civilization && isArchived(civilization)) {
+        // Monuments open their page in the hall of fame
+        navigation.navigate('Archive', { selectedCivilizationId: civilization.id });
+      } else if (civilization) {
         setSelectedCivilization(civilization);
         setBottomSheetVisible(true);
       }
     }
   };
 
-  const handleRecordProgress = async (civilization: Civilization) => {
+  const handleSwitchPlanet = (planetId: string) => {
+    setBottomSheetVisible(false);
+    switchPlanet(planetId).catch(error => {
+      console.error('Failed to switch planet:', error);
+      showToast(strings.planets.switchFailed, 'error');
+    });
+  };
+
+  const handleAddPlanet = async (name: string) => {
+    try {
+      const planetId = await addPlanet(name);
+      showToast(strings.planets.created(name), 'success');
+      handleSwitchPlanet(planetId);
+    } catch (error) {
+      console.error('Failed to add planet:', error);
+      showToast(strings.planets.createFailed, 'error');
+      throw error; // Re-throw to keep the name form open
+    }
+  };
+
+  const handleRecordProgress = async (
+    civilization: Civilization,
+    data: RecordProgressRequest
+  ) => {
     try {
       setProgressLoading(true);
       
-      // Log progress to update lastProgressAt timestamp
-      await logProgress(civilization.id);
-      
-      // Derive states to refresh the 3D scene with updated markers
-      await deriveCivStates();
+      // Record today's progress event (also refreshes derived states for the 3D markers)
+      await recordProgress(civilization.id, data);
       
       // Show success toast
       showToast('進捗が記録されました！', 'success');
     } catch (error) {
       console.error('Failed to record progress:', error);
       showToast('進捗の記録に失敗しました', 'error');
+      throw error; // Re-throw to keep the memo modal open
     } finally {
       setProgressLoading(false);
     }
@@ -281,6 +344,17 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
   return (
     <Screen padding={false}>
       <View style={styles.container}>
+        {/* Planet switcher (hidden during the app intro) */}
+        {!(isTutorial && tutorialStep === 0) && (
+          <PlanetSwitcher
+            planets={planets}
+            activePlanetId={activePlanetId}
+            onSwitch={handleSwitchPlanet}
+            onAdd={handleAddPlanet}
+            disabled={loading}
+          />
+        )}
+
         {isTutorial && tutorialStep >= 0 ? (
           tutorialStep === 0 ? (
             // Step 0: World Intro Screen
@@ -395,7 +469,7 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
               <Text style={styles.hintCTAText}>{strings.screens.home.hintCta}</Text>
             </TouchableOpacity>
           </View>
-        ) : civilizations.length === 0 ? (
+        ) : planetCivilizations.length === 0 ? (
           <View style={styles.emptyState}>
             <Animated.View 
               style={[
@@ -432,6 +506,14 @@ export const HomeScreen: React.FC<HomeScreenProps> = ({ navigation }) => {
               >
                 <Icon name="planet" size="md" color={colors.primary} />
                 <Text style={styles.headerLabel}>Vision</Text>
+                {planetGoalDeadlineState === 'dueSoon' || planetGoalDeadlineState === 'overdue' ? (
+                  <View
+                    style={[
+                      styles.deadlineDot,
+                      planetGoalDeadlineState === 'overdue' && styles.deadlineDotOverdue,
+                    ]}
+                  />
+                ) : null}
               </TouchableOpacity>
               
               <View style={styles.headerCenter}>
@@ -691,6 +773,19 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
     fontSize: 10,
   },
+  deadlineDot: {
+    position: 'absolute',
+    top: -spacing.xs / 2,
+    right: '40%',
+    marginRight: -spacing.sm,
+    backgroundColor: colors.warning,
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  deadlineDotOverdue: {
+    backgroundColor: colors.error,
+  },
   civilizationCount: {
     position: 'absolute',
     top: -spacing.xs,
@@ -11,14 +11,25 @@ import {
   ActionSheetIOS,
   Alert,
   Platform,
+  Share,
 } from 'react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useFocusEffect } from '@react-navigation/native';
 import { Screen } from '../components/UI/Screen';
 import { Toast, ToastType } from '../components/UI/Toast';
 import { Icon } from '../components/UI/Icon';
+import { DeadlineBadge } from '../components/UI/DeadlineBadge';
+import { PlanetImportModal } from '../components/PlanetImportModal';
+import { ReminderSettingsSection } from '../components/ReminderSettingsSection';
+import { PlanetProfileSection } from '../components/PlanetProfileSection';
+import { GoalRevisionHistorySection } from '../components/GoalRevisionHistorySection';
 import { useAppStore } from '../stores';
 import { formatRemainingDays } from '../lib/dateUtils';
+import { DEFAULT_DAY_START_HOUR, MAX_DAY_START_HOUR, getTodayDate } from '../lib/calendarDay';
+import { DEFAULT_BACKFILL_WINDOW_DAYS, MAX_BACKFILL_WINDOW_DAYS } from '../lib/progressEvents';
+import { getDeadlineState } from '../lib/deadlines';
+import { PlanetBackup, PlanetImportMode, serializePlanetBackup } from '../lib/planetBackup';
+import { PlanetGoalRevision } from '../types';
 import { colors } from '../theme/colors';
 import { spacing } from '../theme/spacing';
 import { typography } from '../theme/typography';
@@ -44,7 +55,22 @@ interface ToastState {
 export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
   navigation,
 }) => {
-  const { planetGoal, loading, loadPlanetGoal, savePlanetGoal, civilizations } = useAppStore();
+  const {
+    planetGoal,
+    loading,
+    loadPlanetGoal,
+    savePlanetGoal,
+    restoreGoalRevision,
+    getGoalRevisions,
+    civilizations,
+    updateCiv,
+    exportPlanet,
+    importPlanet,
+    planets,
+    activePlanetId,
+    updatePlanet,
+  } = useAppStore();
+  const activePlanet = planets.find(planet => planet.id === activePlanetId);
 
   const [goalTitle, setGoalTitle] = useState('');
   const [deadline, setDeadline] = useState('');
@@ -53,9 +79,18 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
   const [selectedDay, setSelectedDay] = useState(new Date().getDate());
   const [originalTitle, setOriginalTitle] = useState('');
   const [originalDeadline, setOriginalDeadline] = useState('');
+  const [backfillWindow, setBackfillWindow] = useState(String(DEFAULT_BACKFILL_WINDOW_DAYS));
+  const [originalBackfillWindow, setOriginalBackfillWindow] = useState(
+    String(DEFAULT_BACKFILL_WINDOW_DAYS)
+  );
+  const [dayStartHour, setDayStartHour] = useState(String(DEFAULT_DAY_START_HOUR));
+  const [originalDayStartHour, setOriginalDayStartHour] = useState(String(DEFAULT_DAY_START_HOUR));
+  const [reason, setReason] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [saving, setSaving] = useState(false);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [importModalVisible, setImportModalVisible] = useState(false);
+  const [importing, setImporting] = useState(false);
   const [toast, setToast] = useState<ToastState>({
     visible: false,
     message: '',
@@ -111,6 +146,12 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
       setDeadline(planetGoal.deadline);
       setOriginalTitle(planetGoal.title);
       setOriginalDeadline(planetGoal.deadline);
+      setBackfillWindow(String(planetGoal.backfillWindowDays ?? DEFAULT_BACKFILL_WINDOW_DAYS));
+      setOriginalBackfillWindow(
+        String(planetGoal.backfillWindowDays ?? DEFAULT_BACKFILL_WINDOW_DAYS)
+      );
+      setDayStartHour(String(planetGoal.dayStartHour ?? DEFAULT_DAY_START_HOUR));
+      setOriginalDayStartHour(String(planetGoal.dayStartHour ?? DEFAULT_DAY_START_HOUR));
       
       // Parse deadline and set picker values
       if (planetGoal.deadline) {
@@ -127,6 +168,10 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
       setDeadline('');
       setOriginalTitle('');
       setOriginalDeadline('');
+      setBackfillWindow(String(DEFAULT_BACKFILL_WINDOW_DAYS));
+      setOriginalBackfillWindow(String(DEFAULT_BACKFILL_WINDOW_DAYS));
+      setDayStartHour(String(DEFAULT_DAY_START_HOUR));
+      setOriginalDayStartHour(String(DEFAULT_DAY_START_HOUR));
       
       // Reset to current date
       const now = new Date();
@@ -164,19 +209,41 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
       }
       
       // Check if date is in the past
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      if (date < today) {
+      if (deadline < getTodayDate()) {
         newErrors.deadline = strings.form.pastDate;
       }
     }
 
+    const windowDays = Number(backfillWindow);
+    if (!Number.isInteger(windowDays) || windowDays < 0 || windowDays > MAX_BACKFILL_WINDOW_DAYS) {
+      newErrors.backfillWindow = strings.screens.planetSettings.backfillWindowInvalid(
+        MAX_BACKFILL_WINDOW_DAYS
+      );
+    }
+
+    const startHour = Number(dayStartHour);
+    if (!Number.isInteger(startHour) || startHour < 0 || startHour > MAX_DAY_START_HOUR) {
+      newErrors.dayStartHour = strings.screens.planetSettings.dayStartHourInvalid(
+        MAX_DAY_START_HOUR
+      );
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
 
   const hasChanges = (): boolean => {
-    return goalTitle.trim() !== originalTitle || deadline !== originalDeadline;
+    return (
+      goalTitle.trim() !== originalTitle ||
+      deadline !== originalDeadline ||
+      backfillWindow !== originalBackfillWindow ||
+      dayStartHour !== originalDayStartHour
+    );
+  };
+
+  // The reason is asked for only when the vision itself (not a setting) is being changed
+  const isVisionChanged = (): boolean => {
+    return !!originalTitle && (goalTitle.trim() !== originalTitle || deadline !== originalDeadline);
   };
 
   const handleSave = async () => {
@@ -186,10 +253,18 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
 
     setSaving(true);
     try {
-      await savePlanetGoal({
-        title: goalTitle.trim(),
-        deadline,
-      });
+      await savePlanetGoal(
+        {
+          title: goalTitle.trim(),
+          deadline,
+          backfillWindowDays: Number(backfillWindow),
+          dayStartHour: Number(dayStartHour),
+        },
+        reason
+      );
+      setReason('');
+      setOriginalBackfillWindow(backfillWindow);
+      setOriginalDayStartHour(dayStartHour);
 
       setOriginalTitle(goalTitle.trim());
       setOriginalDeadline(deadline);
@@ -210,12 +285,74 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
     }
   };
 
+  const handleExport = async () => {
+    try {
+      const json = serializePlanetBackup(exportPlanet());
+      const result = await Share.share({
+        title: strings.screens.planetSettings.backup.title,
+        message: json,
+      });
+      if (result.action === Share.sharedAction) {
+        showToast(strings.screens.planetSettings.backup.exported, 'success');
+      }
+    } catch (error) {
+      console.error('Failed to export planet:', error);
+      showToast(strings.screens.planetSettings.backup.exportFailed, 'error');
+    }
+  };
+
+  const handleImport = async (backup: PlanetBackup, mode: PlanetImportMode) => {
+    setImporting(true);
+    try {
+      await importPlanet(backup, mode);
+      setImportModalVisible(false);
+      showToast(strings.screens.planetSettings.backup.imported, 'success');
+    } catch (error) {
+      console.error('Failed to import planet:', error);
+      showToast(strings.screens.planetSettings.backup.importFailed, 'error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleReset = () => {
     setGoalTitle(originalTitle);
     setDeadline(originalDeadline);
+    setBackfillWindow(originalBackfillWindow);
+    setDayStartHour(originalDayStartHour);
+    setReason('');
     setErrors({});
   };
 
+  const handleRestoreRevision = (revision: PlanetGoalRevision) => {
+    const revisionStrings = strings.screens.planetSettings.revisions;
+    // A vision whose deadline has passed can still come back, but needs a new deadline
+    const message = [
+      revisionStrings.restoreConfirmMessage(revision.title),
+      ...(revision.deadline < getTodayDate() ? [revisionStrings.restorePastDeadline] : []),
+    ].join('\n');
+
+    Alert.alert(revisionStrings.restoreConfirmTitle, message, [
+      { text: strings.actions.cancel, style: 'cancel' },
+      {
+        text: revisionStrings.restore,
+        onPress: async () => {
+          setSaving(true);
+          try {
+            await restoreGoalRevision(revision.id);
+            setReason('');
+            showToast(revisionStrings.restored, 'success');
+          } catch (error) {
+            console.error('Failed to restore planet goal revision:', error);
+            showToast(revisionStrings.restoreFailed, 'error');
+          } finally {
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
   const showYearPicker = () => {
     const currentYear = new Date().getFullYear();
     const years: number[] = [];
@@ -462,10 +599,76 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
               </View>
               {errors.deadline && <Text style={styles.errorText}>{errors.deadline}</Text>}
               {deadline && !errors.deadline && (
-                <Text style={styles.helperText}>{formatRemainingDays(deadline)}</Text>
+                <View style={styles.deadlineStatusRow}>
+                  <Text style={styles.helperText}>{formatRemainingDays(deadline)}</Text>
+                  <DeadlineBadge state={getDeadlineState(deadline)} />
+                </View>
               )}
             </View>
 
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{strings.screens.planetSettings.fields.backfillWindow}</Text>
+              <TextInput
+                style={[styles.input, errors.backfillWindow && styles.inputError]}
+                value={backfillWindow}
+                onChangeText={text => {
+                  setBackfillWindow(text.replace(/[^0-9]/g, ''));
+                  if (errors.backfillWindow) {
+                    setErrors(prev => ({ ...prev, backfillWindow: '' }));
+                  }
+                }}
+                keyboardType="number-pad"
+                maxLength={2}
+                editable={!saving}
+              />
+              {errors.backfillWindow ? (
+                <Text style={styles.errorText}>{errors.backfillWindow}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  {strings.screens.planetSettings.backfillWindowHelp}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>{strings.screens.planetSettings.fields.dayStartHour}</Text>
+              <TextInput
+                style={[styles.input, errors.dayStartHour && styles.inputError]}
+                value={dayStartHour}
+                onChangeText={text => {
+                  setDayStartHour(text.replace(/[^0-9]/g, ''));
+                  if (errors.dayStartHour) {
+                    setErrors(prev => ({ ...prev, dayStartHour: '' }));
+                  }
+                }}
+                keyboardType="number-pad"
+                maxLength={2}
+                editable={!saving}
+              />
+              {errors.dayStartHour ? (
+                <Text style={styles.errorText}>{errors.dayStartHour}</Text>
+              ) : (
+                <Text style={styles.helperText}>
+                  {strings.screens.planetSettings.dayStartHourHelp}
+                </Text>
+              )}
+            </View>
+
+            {isVisionChanged() && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>{strings.screens.planetSettings.reason}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={reason}
+                  onChangeText={setReason}
+                  placeholder={strings.screens.planetSettings.reasonPlaceholder}
+                  placeholderTextColor={colors.placeholder}
+                  maxLength={100}
+                  editable={!saving}
+                />
+              </View>
+            )}
+
             <View style={styles.buttonContainer}>
               <TouchableOpacity
                 style={[styles.resetButton, !hasChanges() && styles.buttonDisabled]}
@@ -492,8 +695,70 @@ export const PlanetSettingsScreen: React.FC<PlanetSettingsScreenProps> = ({
                 )}
               </TouchableOpacity>
             </View>
+
+            {/* Past visions (restoring one records a new revision) */}
+            <GoalRevisionHistorySection
+              revisions={getGoalRevisions()}
+              planetGoal={planetGoal}
+              onRestore={handleRestoreRevision}
+              disabled={saving}
+            />
+
+            {/* Name and appearance of the planet being edited */}
+            {activePlanet && (
+              <PlanetProfileSection
+                planet={activePlanet}
+                onChange={patch => updatePlanet(activePlanet.id, patch)}
+                onMessage={showToast}
+              />
+            )}
+
+            {/* Reminders (local notifications per civilization) */}
+            <ReminderSettingsSection
+              civilizations={civilizations}
+              onChange={(civId, reminder) => updateCiv(civId, { reminder })}
+              onMessage={showToast}
+            />
+
+            {/* Backup (export / import) */}
+            <View style={styles.backupSection}>
+              <Text style={styles.label}>{strings.screens.planetSettings.backup.title}</Text>
+              <Text style={styles.backupDescription}>
+                {strings.screens.planetSettings.backup.description}
+              </Text>
+              <View style={styles.backupButtons}>
+                <TouchableOpacity
+                  style={styles.backupButton}
+                  onPress={handleExport}
+                  disabled={saving || importing}
+                >
+                  <Icon name="export" size="sm" color={colors.primary} />
+                  <Text style={styles.backupButtonText}>
+                    {strings.screens.planetSettings.backup.export}
+                  </Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.backupButton}
+                  onPress={() => setImportModalVisible(true)}
+                  disabled={saving || importing}
+                >
+                  <Icon name="import" size="sm" color={colors.primary} />
+                  <Text style={styles.backupButtonText}>
+                    {strings.screens.planetSettings.backup.import}
+                  </Text>
+                </TouchableOpacity>
+              </View>
+            </View>
           </View>
 
+          <PlanetImportModal
+            visible={importModalVisible}
+            civilizations={civilizations}
+            onClose={() => setImportModalVisible(false)}
+            onImport={handleImport}
+            loading={importing}
+          />
+
           <Toast {...toast} onHide={hideToast} />
         </View>
       </TouchableWithoutFeedback>
@@ -635,4 +900,36 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  deadlineStatusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  backupSection: {
+    marginTop: spacing.xl,
+    paddingTop: spacing.lg,
+    borderTopWidth: 1,
+    borderTopColor: colors.divider,
+  },
+  backupDescription: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  backupButtons: {
+    flexDirection: 'row',
+    gap: spacing.md,
+  },
+  backupButton: {
+    ...ui.button.outline,
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+  },
+  backupButtonText: {
+    ...typography.button,
+    color: colors.primary,
+  },
 });
@@ -0,0 +1,346 @@
+// Statistics - streaks, weekly activity, state / level time and a contribution heatmap,
+// planet-wide or for one civilization
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useRoute } from '@react-navigation/native';
+import { Screen } from '../components/UI/Screen';
+import { Icon } from '../components/UI/Icon';
+import { ContributionHeatmap } from '../components/UI/ContributionHeatmap';
+import { useAppStore } from '../stores';
+import {
+  CIV_LEVELS,
+  CIV_STATES,
+  HEATMAP_WEEKS,
+  getContributionHeatmap,
+  getProgressStats,
+  toDays,
+} from '../lib/stats';
+import { strings } from '../i18n/strings';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { RootStackParamList } from '../navigation/navigation/RootNavigator';
+import { ui } from '../theme/ui';
+
+type StatsScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Stats'>;
+
+interface StatsScreenProps {
+  navigation: StatsScreenNavigationProp;
+}
+
+const STATE_COLORS: Record<(typeof CIV_STATES)[number], string> = {
+  uninitialized: colors.border,
+  developing: colors.success,
+  decaying: colors.warning,
+  ocean: colors.primary,
+  reviving: colors.secondary,
+};
+
+export const StatsScreen: React.FC<StatsScreenProps> = ({ navigation: _navigation }) => {
+  const route = useRoute();
+  const { civilizations, progressEvents, stateTransitions } = useAppStore();
+  // Opened from a civilization, the statistics start scoped to it
+  const [selectedId, setSelectedId] = useState<string | undefined>(
+    (route.params as { selectedCivilizationId?: string } | undefined)?.selectedCivilizationId
+  );
+  const statsStrings = strings.screens.stats;
+
+  const scopedCivilizations = useMemo(() => {
+    const selected = civilizations.find(civ => civ.id === selectedId);
+    return selected ? [selected] : civilizations;
+  }, [civilizations, selectedId]);
+
+  const stats = useMemo(
+    () => getProgressStats(scopedCivilizations, progressEvents, stateTransitions),
+    [scopedCivilizations, progressEvents, stateTransitions]
+  );
+
+  const heatmap = useMemo(() => {
+    const civIds = new Set(scopedCivilizations.map(civ => civ.id));
+    return getContributionHeatmap(
+      progressEvents.filter(event => civIds.has(event.civId)).map(event => event.date)
+    );
+  }, [scopedCivilizations, progressEvents]);
+
+  if (civilizations.length === 0) {
+    return (
+      <Screen>
+        <View style={styles.emptyState}>
+          <View style={styles.emptyStateIconContainer}>
+            <Icon name="stats" size="xl" color={colors.textTertiary} />
+          </View>
+          <Text style={styles.emptyStateTitle}>{statsStrings.emptyTitle}</Text>
+          <Text style={styles.emptyStateSubtitle}>{statsStrings.emptySubtitle}</Text>
+        </View>
+      </Screen>
+    );
+  }
+
+  const maxWeekly = Math.max(1, ...stats.weekly.map(week => week.count));
+
+  const renderDurationBars = <T extends string>(
+    keys: T[],
+    durations: Record<T, number>,
+    getLabel: (key: T) => string,
+    getColor: (key: T) => string
+  ) => {
+    const total = Math.max(
+      1,
+      keys.reduce((sum, key) => sum + durations[key], 0)
+    );
+    return keys.map(key => (
+      <View key={key} style={styles.durationRow}>
+        <Text style={styles.durationLabel}>{getLabel(key)}</Text>
+        <View style={styles.durationTrack}>
+          <View
+            style={[
+              styles.durationFill,
+              { width: `${(durations[key] / total) * 100}%`, backgroundColor: getColor(key) },
+            ]}
+          />
+        </View>
+        <Text style={styles.durationValue}>{statsStrings.days(toDays(durations[key]))}</Text>
+      </View>
+    ));
+  };
+
+  const renderScopeChip = (id: string | undefined, label: string) => (
+    <TouchableOpacity
+      key={id ?? 'planet'}
+      style={[styles.chip, selectedId === id && styles.chipSelected]}
+      onPress={() => setSelectedId(id)}
+    >
+      <Text style={[styles.chipText, selectedId === id && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Screen>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.chipRow}
+        >
+          {renderScopeChip(undefined, statsStrings.planet)}
+          {civilizations.map(civ => renderScopeChip(civ.id, civ.name))}
+        </ScrollView>
+
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryTile}>
+            <Text style={styles.summaryValue}>{statsStrings.days(stats.streaks.current)}</Text>
+            <Text style={styles.summaryLabel}>{statsStrings.currentStreak}</Text>
+          </View>
+          <View style={styles.summaryTile}>
+            <Text style={styles.summaryValue}>{statsStrings.days(stats.streaks.longest)}</Text>
+            <Text style={styles.summaryLabel}>{statsStrings.longestStreak}</Text>
+          </View>
+          <View style={styles.summaryTile}>
+            <Text style={styles.summaryValue}>
+              {statsStrings.average(stats.averagePerWeek.toFixed(1))}
+            </Text>
+            <Text style={styles.summaryLabel}>{statsStrings.perWeek}</Text>
+          </View>
+          <View style={styles.summaryTile}>
+            <Text style={styles.summaryValue}>{statsStrings.entries(stats.entries)}</Text>
+            <Text style={styles.summaryLabel}>{statsStrings.totalEntries}</Text>
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <View style={styles.cardHeader}>
+            <Text style={styles.cardTitle}>{statsStrings.heatmap}</Text>
+            <Text style={styles.cardNote}>{statsStrings.heatmapLegend(HEATMAP_WEEKS * 7)}</Text>
+          </View>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            <ContributionHeatmap weeks={heatmap} />
+          </ScrollView>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{statsStrings.weekly}</Text>
+          <View style={styles.weeklyChart}>
+            {stats.weekly.map(week => (
+              <View key={week.weekStart} style={styles.weeklyColumn}>
+                <Text style={styles.weeklyCount}>{week.count > 0 ? week.count : ''}</Text>
+                <View
+                  style={[styles.weeklyBar, { height: `${(week.count / maxWeekly) * 100}%` }]}
+                />
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{statsStrings.stateTime}</Text>
+          {renderDurationBars(
+            CIV_STATES,
+            stats.stateDurations,
+            state => strings.civilization.states[state],
+            state => STATE_COLORS[state]
+          )}
+        </View>
+
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>{statsStrings.levelTime}</Text>
+          {renderDurationBars(
+            CIV_LEVELS,
+            stats.levelDurations,
+            level => statsStrings.levels[level],
+            level => colors[level]
+          )}
+          {!selectedId && <Text style={styles.cardNote}>{statsStrings.planetDurationNote}</Text>}
+        </View>
+      </ScrollView>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContainer: {
+    paddingBottom: spacing.lg,
+  },
+  chipRow: {
+    gap: spacing.sm,
+    paddingBottom: spacing.md,
+  },
+  chip: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.lg,
+    borderWidth: 1,
+    borderColor: colors.border,
+  },
+  chipSelected: {
+    backgroundColor: colors.primary,
+    borderColor: colors.primary,
+  },
+  chipText: {
+    ...typography.caption,
+    color: colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.sm,
+    marginBottom: spacing.md,
+  },
+  summaryTile: {
+    ...ui.card,
+    flexGrow: 1,
+    flexBasis: '45%',
+    marginBottom: 0,
+    alignItems: 'center',
+  },
+  summaryValue: {
+    ...typography.heading,
+    color: colors.text,
+  },
+  summaryLabel: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+  },
+  card: {
+    ...ui.card,
+    gap: spacing.sm,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  cardTitle: {
+    ...typography.subheading,
+    color: colors.text,
+  },
+  cardNote: {
+    ...typography.small,
+    color: colors.textTertiary,
+  },
+  weeklyChart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: spacing.xs,
+    height: 96,
+  },
+  weeklyColumn: {
+    flex: 1,
+    height: '100%',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+  },
+  weeklyCount: {
+    ...typography.small,
+    color: colors.textTertiary,
+  },
+  weeklyBar: {
+    width: '100%',
+    minHeight: 2,
+    borderRadius: 2,
+    backgroundColor: colors.primary,
+  },
+  durationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  durationLabel: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    width: 64,
+  },
+  durationTrack: {
+    flex: 1,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: colors.divider,
+    overflow: 'hidden',
+  },
+  durationFill: {
+    height: '100%',
+  },
+  durationValue: {
+    ...typography.small,
+    color: colors.textSecondary,
+    width: 48,
+    textAlign: 'right',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyStateIconContainer: {
+    marginBottom: spacing.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyStateTitle: {
+    ...typography.subheading,
+    color: colors.text,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  emptyStateSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,285 @@
+// Trash - deleted civilizations and progress memos, restorable until the retention window expires
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Alert } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { Screen } from '../components/UI/Screen';
+import { Icon } from '../components/UI/Icon';
+import { useAppStore } from '../stores';
+import { Civilization, ProgressEvent } from '../types';
+import { formatDate } from '../lib/dateUtils';
+import { toCalendarDate } from '../lib/calendarDay';
+import {
+  TRASH_RETENTION_DAYS,
+  countTrashItems,
+  getDeletedProgressEvents,
+  getRestoreBlocker,
+  getTrashDaysLeft,
+} from '../lib/trash';
+import { strings } from '../i18n/strings';
+import { colors } from '../theme/colors';
+import { spacing } from '../theme/spacing';
+import { typography } from '../theme/typography';
+import { RootStackParamList } from '../navigation/navigation/RootNavigator';
+import { ui } from '../theme/ui';
+
+type TrashScreenNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Trash'>;
+
+interface TrashScreenProps {
+  navigation: TrashScreenNavigationProp;
+}
+
+export const TrashScreen: React.FC<TrashScreenProps> = ({ navigation: _navigation }) => {
+  const {
+    civilizations,
+    progressEvents,
+    trash,
+    restoreCiv,
+    restoreProgressEvent,
+    emptyTrash,
+    showToast,
+  } = useAppStore();
+  const trashStrings = strings.screens.trash;
+
+  const deletedCivilizations = useMemo(
+    () => [...trash.civilizations].sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0)),
+    [trash]
+  );
+  const deletedEvents = useMemo(() => getDeletedProgressEvents(trash), [trash]);
+
+  const getCivilizationName = (civId: string): string => {
+    const civilization = [...civilizations, ...trash.civilizations].find(civ => civ.id === civId);
+    return civilization?.name ?? '';
+  };
+
+  const handleRestoreCivilization = async (civilization: Civilization) => {
+    try {
+      await restoreCiv(civilization.id);
+      showToast(trashStrings.restored, 'success');
+    } catch (error) {
+      console.error('Failed to restore civilization:', error);
+      showToast(trashStrings.restoreFailed, 'error');
+    }
+  };
+
+  const handleRestoreEvent = async (event: ProgressEvent) => {
+    // Explain why instead of failing when the memo cannot go back
+    const blocker = getRestoreBlocker(event, civilizations, progressEvents);
+    if (blocker) {
+      showToast(
+        blocker === 'dateTaken'
+          ? trashStrings.restoreMemoConflict
+          : trashStrings.restoreMemoNeedsCivilization,
+        'error'
+      );
+      return;
+    }
+
+    try {
+      await restoreProgressEvent(event.id);
+      showToast(trashStrings.restored, 'success');
+    } catch (error) {
+      console.error('Failed to restore progress memo:', error);
+      showToast(trashStrings.restoreFailed, 'error');
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    Alert.alert(trashStrings.emptyConfirmTitle, trashStrings.emptyConfirmMessage, [
+      { text: strings.actions.cancel, style: 'cancel' },
+      {
+        text: trashStrings.empty,
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await emptyTrash();
+            showToast(trashStrings.emptied, 'success');
+          } catch (error) {
+            console.error('Failed to empty trash:', error);
+            showToast(trashStrings.emptyFailed, 'error');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderItem = (
+    key: string,
+    title: string,
+    subtitle: string | undefined,
+    deletedAt: number,
+    onRestore: () => void
+  ) => (
+    <View key={key} style={styles.card}>
+      <View style={styles.cardBody}>
+        <Text style={styles.itemTitle}>{title}</Text>
+        {subtitle && <Text style={styles.itemSubtitle}>{subtitle}</Text>}
+        <Text style={styles.detail}>
+          {trashStrings.deletedOn(formatDate(toCalendarDate(deletedAt)))}・
+          {trashStrings.daysLeft(getTrashDaysLeft(deletedAt))}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.restoreButton} onPress={onRestore}>
+        <Text style={styles.restoreButtonText}>{trashStrings.restore}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (countTrashItems(trash) === 0) {
+    return (
+      <Screen>
+        <View style={styles.emptyState}>
+          <View style={styles.emptyStateIconContainer}>
+            <Icon name="delete" size="xl" color={colors.textTertiary} />
+          </View>
+          <Text style={styles.emptyStateTitle}>{trashStrings.emptyTitle}</Text>
+          <Text style={styles.emptyStateSubtitle}>
+            {trashStrings.emptySubtitle(TRASH_RETENTION_DAYS)}
+          </Text>
+        </View>
+      </Screen>
+    );
+  }
+
+  return (
+    <Screen>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.listContainer}
+        showsVerticalScrollIndicator={false}
+      >
+        <Text style={styles.notice}>{trashStrings.emptySubtitle(TRASH_RETENTION_DAYS)}</Text>
+
+        {deletedCivilizations.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{trashStrings.civilizations}</Text>
+            {deletedCivilizations.map(civilization =>
+              renderItem(
+                civilization.id,
+                civilization.name,
+                civilization.purpose,
+                civilization.deletedAt ?? 0,
+                () => handleRestoreCivilization(civilization)
+              )
+            )}
+          </View>
+        )}
+
+        {deletedEvents.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{trashStrings.memos}</Text>
+            {deletedEvents.map(event =>
+              renderItem(
+                event.id,
+                `${formatDate(event.date)} ${trashStrings.memoOf(getCivilizationName(event.civId))}`,
+                event.memo || trashStrings.noMemo,
+                event.deletedAt ?? 0,
+                () => handleRestoreEvent(event)
+              )
+            )}
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.emptyButton} onPress={handleEmptyTrash}>
+          <Icon name="delete" size="sm" color={colors.error} />
+          <Text style={styles.emptyButtonText}>{trashStrings.empty}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </Screen>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  listContainer: {
+    paddingBottom: spacing.lg,
+  },
+  notice: {
+    ...typography.caption,
+    color: colors.textSecondary,
+    marginBottom: spacing.md,
+  },
+  section: {
+    marginBottom: spacing.md,
+  },
+  sectionTitle: {
+    ...typography.subheading,
+    color: colors.text,
+    marginBottom: spacing.sm,
+  },
+  card: {
+    ...ui.card,
+    marginBottom: spacing.sm,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+  },
+  cardBody: {
+    flex: 1,
+  },
+  itemTitle: {
+    ...typography.body,
+    color: colors.text,
+    fontWeight: '600',
+  },
+  itemSubtitle: {
+    ...typography.caption,
+    color: colors.textTertiary,
+    fontStyle: 'italic',
+    marginTop: spacing.xs / 2,
+  },
+  detail: {
+    ...typography.small,
+    color: colors.textSecondary,
+    marginTop: spacing.xs / 2,
+  },
+  restoreButton: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderRadius: spacing.sm,
+    borderWidth: 1,
+    borderColor: colors.primary,
+  },
+  restoreButtonText: {
+    ...typography.caption,
+    color: colors.primary,
+    fontWeight: '600',
+  },
+  emptyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: spacing.xs,
+    paddingVertical: spacing.md,
+  },
+  emptyButtonText: {
+    ...typography.body,
+    color: colors.error,
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: spacing.xl,
+  },
+  emptyStateIconContainer: {
+    marginBottom: spacing.lg,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  emptyStateTitle: {
+    ...typography.subheading,
+    color: colors.text,
+    marginBottom: spacing.sm,
+    textAlign: 'center',
+  },
+  emptyStateSubtitle: {
+    ...typography.body,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
@@ -0,0 +1,297 @@
+// Store write tests - interleaved actions must not lose each other's updates, and each planet
+// keeps its own data
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAppStore } from '../useAppStore';
+import { getStorageBackend } from '../../repositories/storageBackend';
+import { EMPTY_TRASH } from '../../lib/trash';
+import { DEFAULT_PLANET_ID, withDefaultPlanet } from '../../lib/planets';
+import { createPlanetBackup } from '../../lib/planetBackup';
+import { Civilization, CreateCivilizationRequest, ProgressEvent } from '../../types';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+jest.mock('expo-constants', () => ({ expoConfig: { extra: {} } }));
+
+jest.mock('../../lib/notifications', () => ({
+  notificationScheduler: {
+    cancelAll: async () => undefined,
+    schedule: async () => undefined,
+  },
+}));
+
+const UID = 'test-user';
+const DAYS_TO_MS = 24 * 60 * 60 * 1000;
+
+const createCivilization = (id: string, extra: Partial<Civilization> = {}): Civilization => ({
+  id,
+  name: `Civilization ${id}`,
+  deadline: '2099-12-31',
+  state: 'developing',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+  lastProgressAt: Date.now(),
+  createdAt: 0,
+  updatedAt: 0,
+  ...extra,
+});
+
+const NEW_CIVILIZATION: CreateCivilizationRequest = {
+  name: 'New',
+  deadline: '2099-12-31',
+  state: 'uninitialized',
+  levels: { culturalLevel: 0, growthLevel: 0, totalLevel: 0, classification: 'grassland' },
+};
+
+/**
+ * Start from a planet with the given civilizations, stored and loaded into the store
+ */
+const setUp = async (civilizations: Civilization[]) => {
+  await AsyncStorage.clear();
+  const backend = await getStorageBackend('local');
+  await backend.saveCivilizations(UID, DEFAULT_PLANET_ID, civilizations);
+  useAppStore.setState({
+    uid: UID,
+    isAuthenticated: true,
+    storageBackend: 'local',
+    planets: withDefaultPlanet([]),
+    activePlanetId: DEFAULT_PLANET_ID,
+    planetGoal: null,
+    goalRevisions: [],
+    civilizations,
+    progressEvents: [],
+    stateTransitions: [],
+    trash: EMPTY_TRASH,
+  });
+  return backend;
+};
+
+describe('useAppStore writes', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('keeps every update when actions interleave with state derivation', async () => {
+    // civ-c has gone stale, so deriving moves it to decaying and persists the transition
+    const backend = await setUp([
+      createCivilization('civ-a'),
+      createCivilization('civ-b'),
+      createCivilization('civ-c', { lastProgressAt: Date.now() - 10 * DAYS_TO_MS }),
+    ]);
+    const store = useAppStore.getState();
+
+    await Promise.all([
+      store.recordProgress('civ-a', { memo: 'progress' }),
+      store.deriveCivStates(),
+      store.updateCiv('civ-b', { name: 'Renamed' }),
+      store.recordProgress('civ-b'),
+    ]);
+    await useAppStore.getState().flushWrites();
+
+    for (const civilizations of [
+      useAppStore.getState().civilizations,
+      await backend.getCivilizations(UID, DEFAULT_PLANET_ID),
+    ]) {
+      const byId = new Map(civilizations.map(civ => [civ.id, civ]));
+      expect(byId.get('civ-b')?.name).toBe('Renamed');
+      expect(byId.get('civ-c')?.state).toBe('decaying');
+      expect(byId.get('civ-a')?.updatedAt).toBeGreaterThan(0);
+      expect(byId.get('civ-b')?.updatedAt).toBeGreaterThan(0);
+    }
+
+    const storedEvents = await backend.getProgressEvents(UID, DEFAULT_PLANET_ID);
+    expect(storedEvents.map(event => event.civId).sort()).toEqual(['civ-a', 'civ-b']);
+    expect(useAppStore.getState().progressEvents).toHaveLength(2);
+    expect(await backend.getStateTransitions(UID, DEFAULT_PLANET_ID)).toEqual([
+      expect.objectContaining({ civId: 'civ-c', to: 'decaying' }),
+    ]);
+  });
+
+  it('keeps civilizations created while progress is being recorded', async () => {
+    const backend = await setUp([createCivilization('civ-a')]);
+    const store = useAppStore.getState();
+
+    const [, createdId] = await Promise.all([
+      store.recordProgress('civ-a'),
+      store.createCiv(NEW_CIVILIZATION),
+      store.deleteCiv('civ-a'),
+    ]);
+    await useAppStore.getState().flushWrites();
+
+    expect(useAppStore.getState().civilizations.map(civ => civ.id)).toEqual([createdId]);
+    expect(useAppStore.getState().trash.civilizations.map(civ => civ.id)).toEqual(['civ-a']);
+    expect(useAppStore.getState().trash.progressEvents).toHaveLength(1);
+    const stored = await backend.getCivilizations(UID, DEFAULT_PLANET_ID);
+    expect(stored.map(civ => civ.id).sort()).toEqual(['civ-a', createdId].sort());
+    expect(stored.find(civ => civ.id === 'civ-a')?.deletedAt).toBeDefined();
+  });
+
+  it('runs the writes queued after a failed one', async () => {
+    await setUp([createCivilization('civ-a', { archivedAt: 1 }), createCivilization('civ-b')]);
+    const store = useAppStore.getState();
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const results = await Promise.allSettled([
+      store.recordProgress('civ-a'),
+      store.recordProgress('civ-b'),
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['rejected', 'fulfilled']);
+    expect(useAppStore.getState().progressEvents.map(event => event.civId)).toEqual(['civ-b']);
+  });
+
+  it("keeps each planet's civilizations and progress apart", async () => {
+    const backend = await setUp([createCivilization('civ-a')]);
+
+    const planetId = await useAppStore.getState().addPlanet(' Health ', 'forest');
+    await useAppStore.getState().switchPlanet(planetId);
+    expect(useAppStore.getState().activePlanetId).toBe(planetId);
+    expect(useAppStore.getState().civilizations).toEqual([]);
+
+    const civId = await useAppStore.getState().createCiv(NEW_CIVILIZATION);
+    await useAppStore.getState().recordProgress(civId);
+    await useAppStore.getState().flushWrites();
+
+    expect((await backend.getCivilizations(UID, planetId)).map(civ => civ.id)).toEqual([civId]);
+    expect((await backend.getProgressEvents(UID, planetId)).map(event => event.civId)).toEqual([
+      civId,
+    ]);
+    expect((await backend.getCivilizations(UID, DEFAULT_PLANET_ID)).map(civ => civ.id)).toEqual([
+      'civ-a',
+    ]);
+    const defaultPlanetEvents = await backend.getProgressEvents(UID, DEFAULT_PLANET_ID);
+    expect(defaultPlanetEvents.some(event => event.civId === civId)).toBe(false);
+
+    await useAppStore.getState().switchPlanet(DEFAULT_PLANET_ID);
+    const state = useAppStore.getState();
+    expect(state.civilizations.map(civ => civ.id)).toEqual(['civ-a']);
+    expect(state.progressEvents.some(event => event.civId === civId)).toBe(false);
+    expect(state.planets.map(planet => [planet.id, planet.name, planet.appearance])).toEqual([
+      [DEFAULT_PLANET_ID, '', undefined],
+      [planetId, 'Health', 'forest'],
+    ]);
+  });
+
+  it("gives progress events the civilization's own levels, metric and milestones included", async () => {
+    const now = Date.UTC(2025, 5, 30, 12);
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+    await setUp([
+      createCivilization('civ-a', {
+        lastProgressAt: now - DAYS_TO_MS,
+        metric: { unit: 'km', target: 100, mode: 'cumulative' },
+        milestones: [{ id: 'm-1', title: 'First race', weight: 1, completedAt: now - DAYS_TO_MS }],
+      }),
+    ]);
+
+    await useAppStore.getState().recordProgress('civ-a', { amount: 40 });
+    await useAppStore.getState().deriveCivStates();
+    await useAppStore.getState().flushWrites();
+    nowSpy.mockRestore();
+
+    const [event] = useAppStore.getState().progressEvents;
+    const [civilization] = useAppStore.getState().civilizations;
+    expect(event.levelAfter).toBe(civilization.levels.totalLevel);
+    expect(event.levelBefore).toBeLessThan(event.levelAfter);
+  });
+
+  it('records vision changes as revisions and restores an earlier vision', async () => {
+    // Every save lands in the same millisecond, so the order must not depend on the clock
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(Date.UTC(2025, 5, 30, 12));
+    const backend = await setUp([]);
+    const { savePlanetGoal } = useAppStore.getState();
+
+    await savePlanetGoal({ title: 'Work abroad', deadline: '2099-12-31' });
+    await savePlanetGoal({ title: 'Work abroad', deadline: '2099-12-31', dayStartHour: 4 });
+    await savePlanetGoal(
+      { title: 'Start a company', deadline: '2099-12-31', dayStartHour: 4 },
+      ' Found co-founders '
+    );
+    const [first, second] = useAppStore.getState().goalRevisions;
+    expect(useAppStore.getState().goalRevisions).toHaveLength(2);
+    expect(second).toMatchObject({ title: 'Start a company', reason: 'Found co-founders' });
+
+    // Restoring keeps the current settings and is itself recorded
+    await useAppStore.getState().restoreGoalRevision(first.id, 'Changed my mind');
+    nowSpy.mockRestore();
+    const state = useAppStore.getState();
+    expect(state.planetGoal).toEqual({
+      title: 'Work abroad',
+      deadline: '2099-12-31',
+      dayStartHour: 4,
+    });
+    expect(state.getGoalRevisions()[0]).toMatchObject({
+      title: 'Work abroad',
+      reason: 'Changed my mind',
+      restoredFrom: first.id,
+    });
+    expect(state.getGoalRevisions().map(revision => revision.title)).toEqual([
+      'Work abroad',
+      'Start a company',
+      'Work abroad',
+    ]);
+    expect(await backend.getGoalRevisions(UID, DEFAULT_PLANET_ID)).toEqual(state.goalRevisions);
+  });
+
+  it('carries the vision history through a backup', async () => {
+    await setUp([]);
+    await useAppStore.getState().savePlanetGoal({ title: 'Work abroad', deadline: '2099-12-31' });
+    await useAppStore
+      .getState()
+      .savePlanetGoal({ title: 'Start a company', deadline: '2099-12-31' }, 'Found co-founders');
+    const exported = useAppStore.getState().exportPlanet();
+    expect(exported.goalRevisions).toHaveLength(2);
+
+    const backend = await setUp([]);
+    await useAppStore.getState().importPlanet(exported, 'replace');
+
+    const { planetGoal, goalRevisions } = useAppStore.getState();
+    expect(planetGoal?.title).toBe('Start a company');
+    // The exported history, then the import itself as a vision change
+    expect(goalRevisions.slice(0, 2)).toEqual(exported.goalRevisions);
+    expect(goalRevisions[2]).toMatchObject({ title: 'Start a company' });
+    expect(await backend.getGoalRevisions(UID, DEFAULT_PLANET_ID)).toEqual(goalRevisions);
+  });
+
+  it('puts imported items that were deleted when exported into the trash', async () => {
+    const event = (id: string, civId: string, extra: Partial<ProgressEvent> = {}) => ({
+      id,
+      civId,
+      date: '2025-06-01',
+      createdAt: 0,
+      updatedAt: 0,
+      levelBefore: 0,
+      levelAfter: 1,
+      levelChange: 1,
+      ...extra,
+    });
+    const backup = createPlanetBackup({
+      planetGoal: null,
+      goalRevisions: [],
+      civilizations: [
+        createCivilization('civ-live'),
+        createCivilization('civ-deleted', { deletedAt: 1000 }),
+      ],
+      progressEvents: [
+        event('event-live', 'civ-live', { date: '2025-06-02' }),
+        event('event-deleted', 'civ-live', { deletedAt: 1000 }),
+        event('event-of-deleted-civ', 'civ-deleted'),
+      ],
+      stateTransitions: [],
+    });
+
+    const backend = await setUp([]);
+    await useAppStore.getState().importPlanet(backup, 'replace');
+
+    const { civilizations, progressEvents, trash } = useAppStore.getState();
+    expect(civilizations.map(civ => civ.id)).toEqual(['civ-live']);
+    expect(progressEvents.map(e => e.id)).toEqual(['event-live']);
+    expect(trash.civilizations.map(civ => civ.id)).toEqual(['civ-deleted']);
+    expect(trash.progressEvents.map(e => e.id)).toEqual(['event-deleted', 'event-of-deleted-civ']);
+    // The trash is stored too, so it survives a reload
+    expect(
+      (await backend.getCivilizations(UID, DEFAULT_PLANET_ID)).map(civ => civ.id).sort()
+    ).toEqual(['civ-deleted', 'civ-live']);
+  });
+});
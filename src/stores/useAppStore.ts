@@ -2,120 +2,213 @@
 
 import { create } from 'zustand';
 import {
+  Planet,
+  PlanetAppearance,
   PlanetGoal,
+  PlanetGoalRevision,
   Civilization,
   CreateCivilizationRequest,
   UpdateCivilizationRequest,
-  CreateProgressLogRequest,
-  ProgressMemo,
-  CreateProgressMemoRequest,
-  UpdateProgressMemoRequest,
+  ProgressEvent,
+  RecordProgressRequest,
+  SearchQuery,
+  StateTransition,
 } from '../types';
 import {
   deriveCivilizationState,
   shouldPersistStateTransition,
   calculateCivilizationLevels,
+  isSameCadence,
+  resolveRevivalState,
+  createStateTransition,
+  inferTransitionTrigger,
 } from '../lib/civilizationStateMachine';
-import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
 import { 
   createSampleCivilizations, 
   createSamplePlanetGoal, 
   shouldSeedSampleData 
 } from '../lib/sampleData';
 import {
-  createProgressMemo,
-  updateProgressMemo,
-  getTodayProgressMemo,
-  getProgressMemos,
-  hasTodayProgressMemo,
-} from '../repositories/progressMemoRepository';
-
-// Local storage keys
-const STORAGE_KEYS = {
-  PLANET_GOAL: 'planet_goal',
-  CIVILIZATIONS: 'civilizations',
-  PROGRESS_LOGS: 'progress_logs',
-} as const;
-
-// Local storage helpers
-const saveToStorage = async (key: string, data: any) => {
-  try {
-    await AsyncStorage.setItem(key, JSON.stringify(data));
-  } catch (error) {
-    console.error(`Failed to save ${key}:`, error);
-  }
-};
-
-const loadFromStorage = async (key: string) => {
-  try {
-    const data = await AsyncStorage.getItem(key);
-    return data ? JSON.parse(data) : null;
-  } catch (error) {
-    console.error(`Failed to load ${key}:`, error);
-    return null;
-  }
-};
+  createProgressEvent,
+  updateProgressEvent,
+  findProgressEvent,
+  sortEventsNewestFirst,
+  countConsecutiveProgressDays,
+  isWithinBackfillWindow,
+  recalculateProgressLevels,
+  DEFAULT_BACKFILL_WINDOW_DAYS,
+} from '../lib/progressEvents';
+import { getTodayDate, setDayStartHour } from '../lib/calendarDay';
+import {
+  StorageBackendKind,
+  getStorageBackend,
+  parseStorageBackendKind,
+  migrateUserData,
+  readUserData,
+  writeUserData,
+} from '../repositories/storageBackend';
+import { loadActivePlanetId, saveActivePlanetId } from '../repositories/localBackend';
+import type { AuthCredential } from 'firebase/auth';
+import { AuthProvider, resolveIdentity, upgradeToPermanentAccount } from '../lib/identity';
+import { runStorageMigrations } from '../lib/migrations';
+import {
+  PlanetBackup,
+  PlanetImportMode,
+  createPlanetBackup,
+  applyPlanetBackup,
+} from '../lib/planetBackup';
+import { syncReminders } from '../lib/reminders';
+import { isArchived } from '../lib/civilizationArchive';
+import { toggleMilestone } from '../lib/milestones';
+import { getMetricProgress } from '../lib/metrics';
+import { searchCivilizations, searchProgressEvents } from '../lib/search';
+import { notificationScheduler } from '../lib/notifications';
+import { createWriteQueue } from '../lib/writeQueue';
+import {
+  applyGoalRevision,
+  createGoalRevision,
+  getNextRevisionTime,
+  isCurrentVision,
+  isVisionChange,
+  sortRevisionsNewestFirst,
+} from '../lib/goalRevisions';
+import {
+  DEFAULT_PLANET_ID,
+  createPlanet,
+  resolveActivePlanetId,
+  withDefaultPlanet,
+} from '../lib/planets';
+import {
+  Trash,
+  EMPTY_TRASH,
+  splitTrash,
+  planTrashPurge,
+  withTrashedCivilizations,
+  getRestoreBlocker,
+  TRASH_RETENTION_DAYS,
+} from '../lib/trash';
+
+// Storage backend selected at build time (STORAGE_BACKEND=firestore enables sync)
+const CONFIGURED_STORAGE_BACKEND = parseStorageBackendKind(
+  Constants.expoConfig?.extra?.storageBackend
+);
+
+// Every action that reads state, persists it and sets the result runs on this queue, so
+// concurrent actions (e.g. recording progress while a state transition persists) never
+// overwrite each other's writes (see lib/writeQueue.ts)
+const writeQueue = createWriteQueue();
 
 interface AppState {
   // State
   uid: string | null;
+  authProvider: AuthProvider | null;
   isAuthenticated: boolean;
+  planets: Planet[]; // every planet of the user, the default planet first
+  activePlanetId: string; // planet whose data the state below holds
   planetGoal: PlanetGoal | null;
+  goalRevisions: PlanetGoalRevision[]; // vision history of the planet (oldest first)
   civilizations: Civilization[];
+  progressEvents: ProgressEvent[];
+  stateTransitions: StateTransition[];
+  trash: Trash;
   loading: boolean;
   authLoading: boolean;
+  storageBackend: StorageBackendKind;
   
   // Toast state
   toast: {
     visible: boolean;
     message: string;
     type: 'success' | 'error' | 'info';
+    action?: { label: string; onPress: () => void }; // e.g. undo
   };
 
   // Actions
   initializeAuth: () => Promise<void>;
+  signInWithAccount: (credential: AuthCredential) => Promise<void>;
   loadAll: () => Promise<void>;
   loadPlanetGoal: () => Promise<void>;
   loadCivilizations: () => Promise<void>;
+  loadProgressEvents: () => Promise<void>;
+  loadStateTransitions: () => Promise<void>;
+  setStorageBackend: (kind: StorageBackendKind) => Promise<void>;
+
+  // Planet actions (the goal, civilizations and history below belong to the active planet)
+  addPlanet: (name: string, appearance?: PlanetAppearance) => Promise<string>;
+  updatePlanet: (id: string, patch: Partial<Pick<Planet, 'name' | 'appearance'>>) => Promise<void>;
+  switchPlanet: (id: string) => Promise<void>;
+
+  // Trash actions (deleted civilizations and memos are kept for TRASH_RETENTION_DAYS)
+  purgeTrash: (retentionDays?: number) => Promise<void>;
+  emptyTrash: () => Promise<void>;
 
   // Planet Goal actions
-  savePlanetGoal: (goal: PlanetGoal) => Promise<void>;
+  savePlanetGoal: (goal: PlanetGoal, reason?: string) => Promise<void>;
+  restoreGoalRevision: (revisionId: string, reason?: string) => Promise<void>;
+  getGoalRevisions: () => PlanetGoalRevision[];
+
+  // Backup actions
+  exportPlanet: () => PlanetBackup;
+  importPlanet: (backup: PlanetBackup, mode: PlanetImportMode) => Promise<void>;
 
   // Civilization actions
   createCiv: (data: CreateCivilizationRequest) => Promise<string>;
   updateCiv: (id: string, patch: UpdateCivilizationRequest) => Promise<void>;
   deleteCiv: (id: string) => Promise<void>;
+  archiveCiv: (id: string) => Promise<void>;
+  completeCiv: (id: string, monument: boolean) => Promise<void>;
   refreshCiv: (id: string) => Promise<void>;
+  restoreCiv: (id: string) => Promise<void>;
+  toggleMilestone: (civId: string, milestoneId: string) => Promise<void>;
 
-  // Progress actions
-  logProgress: (id: string, note?: string) => Promise<void>;
-
-  // Progress memo actions
-  createProgressMemo: (civId: string, data: CreateProgressMemoRequest) => Promise<string>;
-  updateProgressMemo: (civId: string, data: UpdateProgressMemoRequest) => Promise<void>;
-  getTodayProgressMemo: (civId: string) => Promise<ProgressMemo | null>;
-  getProgressMemos: (civId: string) => Promise<ProgressMemo[]>;
-  hasTodayProgressMemo: (civId: string) => Promise<boolean>;
+  // Progress actions (a memo is optional; both create or update the day's event,
+  // today unless data.date picks a past day within the backfill window)
+  recordProgress: (civId: string, data?: RecordProgressRequest) => Promise<string>;
+  deleteProgressEvent: (eventId: string) => Promise<void>;
+  restoreProgressEvent: (eventId: string) => Promise<void>;
+  getProgressEvents: (civId?: string) => ProgressEvent[];
+  searchProgressEvents: (query: SearchQuery) => ProgressEvent[];
+  searchCivilizations: (query: SearchQuery) => Civilization[];
+  getTodayProgressEvent: (civId: string) => ProgressEvent | null;
+  getBackfillWindowDays: () => number;
 
   // State derivation
   deriveCivStates: () => Promise<void>;
+  getStateTransitions: (civId?: string) => StateTransition[];
+  scheduleReminders: () => Promise<void>;
 
   // Sample data seeding
   seedSampleData: () => Promise<void>;
+
+  // Resolve once every queued write (including background persistence) has finished
+  flushWrites: () => Promise<void>;
   
   // Toast actions
-  showToast: (message: string, type: 'success' | 'error' | 'info') => void;
+  showToast: (
+    message: string,
+    type: 'success' | 'error' | 'info',
+    action?: { label: string; onPress: () => void }
+  ) => void;
   hideToast: () => void;
 }
 
 export const useAppStore = create<AppState>((set, get) => ({
   // Initial state
   uid: null,
+  authProvider: null,
   isAuthenticated: false,
+  planets: withDefaultPlanet([]),
+  activePlanetId: DEFAULT_PLANET_ID,
   planetGoal: null,
+  goalRevisions: [],
   civilizations: [],
+  progressEvents: [],
+  stateTransitions: [],
+  trash: EMPTY_TRASH,
   loading: false,
   authLoading: false,
+  storageBackend: CONFIGURED_STORAGE_BACKEND,
   
   // Toast initial state
   toast: {
@@ -124,16 +217,31 @@ export const useAppStore = create<AppState>((set, get) => ({
     type: 'info' as const,
   },
 
-  // Initialize authentication - Local storage based
+  // Initialize authentication - persisted local uid, upgraded to anonymous auth when syncing
   initializeAuth: async () => {
     set({ authLoading: true });
     
     try {
-      // Use local storage based authentication
-      const localUid = 'local-user-' + Date.now();
-      console.log('Using local storage authentication:', localUid);
+      const kind = get().storageBackend;
+      const { identity, previousIdentity } = await resolveIdentity({
+        anonymousAuth: kind === 'firestore',
+      });
+
+      // Carry data keyed by the previous uid over to the linked uid
+      if (previousIdentity) {
+        const backend = await getStorageBackend(kind);
+        const sourceBackend =
+          previousIdentity.provider === 'local' ? await getStorageBackend('local') : backend;
+        await migrateUserData(
+          { backend: sourceBackend, uid: previousIdentity.uid },
+          { backend, uid: identity.uid }
+        );
+      }
+
+      console.log(`Authenticated (${identity.provider}):`, identity.uid);
       set({ 
-        uid: localUid, 
+        uid: identity.uid, 
+        authProvider: identity.provider,
         isAuthenticated: true, 
         authLoading: false 
       });
@@ -144,7 +252,42 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  // Load all data - Local storage based
+  // Sign in with a permanent account (Firestore sync only), keeping the data of this device
+  signInWithAccount: async (credential: AuthCredential) => {
+    if (get().storageBackend !== 'firestore') {
+      throw new Error('Permanent accounts require the Firestore backend');
+    }
+
+    set({ authLoading: true });
+
+    try {
+      await writeQueue.run(async () => {
+        // Read the current data first: once signed in to another account, the old uid's data
+        // can no longer be read
+        const backend = await getStorageBackend('firestore');
+        const { uid } = get();
+        const snapshot = uid ? await readUserData(backend, uid) : null;
+
+        const { identity, previousIdentity } = await upgradeToPermanentAccount(credential);
+
+        // Signing in to an existing account switches uid: carry this device's data over
+        if (previousIdentity && snapshot) {
+          await writeUserData(snapshot, { backend, uid: identity.uid });
+        }
+
+        console.log(`Authenticated (${identity.provider}):`, identity.uid);
+        set({ uid: identity.uid, authProvider: identity.provider, authLoading: false });
+      });
+
+      await get().loadAll();
+    } catch (error) {
+      console.error('Failed to sign in with account:', error);
+      set({ authLoading: false });
+      throw error;
+    }
+  },
+
+  // Load all data from the active storage backend
   loadAll: async () => {
     const { uid, isAuthenticated } = get();
     
@@ -156,27 +299,47 @@ export const useAppStore = create<AppState>((set, get) => ({
     set({ loading: true });
 
     try {
-      // Load planet goal from local storage
-      const planetGoal = await loadFromStorage(STORAGE_KEYS.PLANET_GOAL);
-      if (planetGoal) {
-        set({ planetGoal });
-      }
+      // Load on the write queue so no action persists a half-loaded state
+      await writeQueue.run(async () => {
+        // Upgrade locally stored data to the current schema before reading it
+        await runStorageMigrations();
 
-      // Load civilizations from local storage
-      const loadedCivilizations = await loadFromStorage(STORAGE_KEYS.CIVILIZATIONS);
-      if (loadedCivilizations) {
-        set({ civilizations: loadedCivilizations });
-      }
+        const backend = await getStorageBackend(get().storageBackend);
+
+        // Load planets and pick the one last shown on this device
+        const planets = withDefaultPlanet(await backend.getPlanets(uid));
+        const planetId = resolveActivePlanetId(planets, await loadActivePlanetId());
+        set({ planets, activePlanetId: planetId });
+
+        // Load planet goal and its revision history
+        const planetGoal = await backend.getPlanetGoal(uid, planetId);
+        const goalRevisions = await backend.getGoalRevisions(uid, planetId);
+        set({ planetGoal, goalRevisions });
+
+        // Load civilizations and progress events, setting deleted ones aside in the trash
+        const { trash, ...live } = splitTrash(
+          await backend.getCivilizations(uid, planetId),
+          await backend.getProgressEvents(uid, planetId)
+        );
+        set({ civilizations: live.civilizations, progressEvents: live.progressEvents, trash });
+
+        // Load state transition log
+        const stateTransitions = await backend.getStateTransitions(uid, planetId);
+        set({ stateTransitions });
+      });
 
       // Derive states after loading
       await get().deriveCivStates();
 
-      // Seed sample data if no civilizations exist
-      const { civilizations } = get();
-      if (shouldSeedSampleData(civilizations)) {
+      // Seed sample data if no civilizations exist (new planets start empty)
+      const { civilizations, activePlanetId } = get();
+      if (activePlanetId === DEFAULT_PLANET_ID && shouldSeedSampleData(civilizations)) {
         console.log('No civilizations found, seeding sample data...');
         await get().seedSampleData();
       }
+
+      // Purge trash past its retention window, with the events of purged civilizations
+      await get().purgeTrash();
     } catch (error) {
       console.error('Failed to load all data:', error);
     } finally {
@@ -184,7 +347,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  // Load planet goal - Local storage based
+  // Load planet goal from the active storage backend
   loadPlanetGoal: async () => {
     const { uid } = get();
     
@@ -194,17 +357,22 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
 
     try {
-      const goal = await loadFromStorage(STORAGE_KEYS.PLANET_GOAL);
-      if (goal) {
-        set({ planetGoal: goal });
-      }
+      await writeQueue.run(async () => {
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        const goal = await backend.getPlanetGoal(uid, planetId);
+        if (goal) {
+          const goalRevisions = await backend.getGoalRevisions(uid, planetId);
+          set({ planetGoal: goal, goalRevisions });
+        }
+      });
     } catch (error) {
       console.error('Failed to load planet goal:', error);
       throw error;
     }
   },
 
-  // Load civilizations - Local storage based
+  // Load civilizations from the active storage backend
   loadCivilizations: async () => {
     const { uid } = get();
     
@@ -214,18 +382,237 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
 
     try {
-      const civilizations = await loadFromStorage(STORAGE_KEYS.CIVILIZATIONS);
-      if (civilizations) {
-        set({ civilizations });
-      }
+      await writeQueue.run(async () => {
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        const { civilizations, trash } = splitTrash(
+          await backend.getCivilizations(uid, planetId),
+          [...get().progressEvents, ...get().trash.progressEvents]
+        );
+        set({ civilizations, trash });
+      });
     } catch (error) {
       console.error('Failed to load civilizations:', error);
       throw error;
     }
   },
 
-  // Save planet goal - Local storage based
-  savePlanetGoal: async (goal: PlanetGoal) => {
+  // Load progress events from the active storage backend
+  loadProgressEvents: async () => {
+    const { uid } = get();
+
+    if (!uid) {
+      console.warn('Cannot load progress events: no UID');
+      return;
+    }
+
+    try {
+      await writeQueue.run(async () => {
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        const { progressEvents, trash } = splitTrash(
+          [...get().civilizations, ...get().trash.civilizations],
+          await backend.getProgressEvents(uid, planetId)
+        );
+        set({ progressEvents, trash });
+      });
+    } catch (error) {
+      console.error('Failed to load progress events:', error);
+      throw error;
+    }
+  },
+
+  // Load state transition log from the active storage backend
+  loadStateTransitions: async () => {
+    const { uid } = get();
+
+    if (!uid) {
+      console.warn('Cannot load state transitions: no UID');
+      return;
+    }
+
+    try {
+      await writeQueue.run(async () => {
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        const stateTransitions = await backend.getStateTransitions(uid, planetId);
+        set({ stateTransitions });
+      });
+    } catch (error) {
+      console.error('Failed to load state transitions:', error);
+      throw error;
+    }
+  },
+
+  // Switch storage backend and reload data from it
+  setStorageBackend: async (kind: StorageBackendKind) => {
+    if (get().storageBackend === kind) {
+      return;
+    }
+
+    try {
+      // Resolve first so a failing backend (e.g. missing Firebase config) leaves state untouched
+      await getStorageBackend(kind);
+      set({ storageBackend: kind });
+      console.log('Storage backend switched to:', kind);
+
+      // Re-resolve identity: syncing requires (and may link to) an anonymous auth uid
+      await get().initializeAuth();
+      await get().loadAll();
+    } catch (error) {
+      console.error('Failed to switch storage backend:', error);
+      throw error;
+    }
+  },
+
+  // Add a planet (it starts without a goal or civilizations; switch to it to set them up)
+  addPlanet: async (name: string, appearance?: PlanetAppearance) => {
+    const { uid } = get();
+
+    if (!uid) {
+      console.warn('Cannot add planet: no UID');
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      return await writeQueue.run(async () => {
+        const planet = createPlanet(name, appearance);
+        const backend = await getStorageBackend(get().storageBackend);
+        await backend.savePlanet(uid, planet);
+        set({ planets: [...get().planets, planet] });
+        console.log(`Planet added (${backend.kind}):`, planet.id);
+        return planet.id;
+      });
+    } catch (error) {
+      console.error('Failed to add planet:', error);
+      throw error;
+    }
+  },
+
+  // Rename a planet or change its appearance
+  updatePlanet: async (id: string, patch: Partial<Pick<Planet, 'name' | 'appearance'>>) => {
+    const { uid } = get();
+
+    if (!uid) {
+      console.warn('Cannot update planet: no UID');
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      await writeQueue.run(async () => {
+        const planet = get().planets.find(p => p.id === id);
+        if (!planet) {
+          console.warn('Planet not found:', id);
+          return;
+        }
+
+        const updatedPlanet: Planet = {
+          ...planet,
+          ...patch,
+          name: patch.name !== undefined ? patch.name.trim() : planet.name,
+          updatedAt: Date.now(),
+        };
+        const backend = await getStorageBackend(get().storageBackend);
+        await backend.savePlanet(uid, updatedPlanet);
+        set({ planets: get().planets.map(p => (p.id === id ? updatedPlanet : p)) });
+        console.log(`Planet updated (${backend.kind}):`, id);
+      });
+    } catch (error) {
+      console.error('Failed to update planet:', error);
+      throw error;
+    }
+  },
+
+  // Show another planet: its goal, civilizations and history replace the current ones
+  switchPlanet: async (id: string) => {
+    if (get().activePlanetId === id) {
+      return;
+    }
+
+    try {
+      await writeQueue.run(async () => {
+        if (!get().planets.some(planet => planet.id === id)) {
+          throw new Error(`Planet not found: ${id}`);
+        }
+        await saveActivePlanetId(id);
+        // Clear the previous planet's data so nothing of it is shown or saved to the new one
+        set({
+          activePlanetId: id,
+          planetGoal: null,
+          goalRevisions: [],
+          civilizations: [],
+          progressEvents: [],
+          stateTransitions: [],
+          trash: EMPTY_TRASH,
+        });
+      });
+      console.log('Switched to planet:', id);
+
+      await get().loadAll();
+    } catch (error) {
+      console.error('Failed to switch planet:', error);
+      throw error;
+    }
+  },
+
+  // Delete trash past the retention window for good (a retention of 0 empties the trash)
+  purgeTrash: async (retentionDays: number = TRASH_RETENTION_DAYS) => {
+    const { uid } = get();
+
+    if (!uid) {
+      console.warn('Cannot purge trash: no UID');
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      await writeQueue.run(async () => {
+        const { civilizations, trash } = get();
+        const purge = planTrashPurge(
+          trash,
+          civilizations.map(civ => civ.id),
+          Date.now(),
+          retentionDays
+        );
+        if (purge.civilizations.length === 0 && purge.progressEvents.length === 0) {
+          return;
+        }
+
+        const backend = await getStorageBackend(get().storageBackend);
+
+        const planetId = get().activePlanetId;
+        // Events first, so a civilization is never removed while its events are still stored
+        for (const event of purge.progressEvents) {
+          await backend.deleteProgressEvent(uid, planetId, event.civId, event.id);
+        }
+        if (purge.civilizations.length > 0) {
+          await backend.saveCivilizations(
+            uid,
+            planetId,
+            withTrashedCivilizations(get().civilizations, purge.trash)
+          );
+        }
+        set({ trash: purge.trash });
+        console.log(
+          `Trash purged (${backend.kind}):`,
+          purge.civilizations.length,
+          'civilizations,',
+          purge.progressEvents.length,
+          'progress events'
+        );
+      });
+    } catch (error) {
+      console.error('Failed to purge trash:', error);
+      throw error;
+    }
+  },
+
+  // Delete everything in the trash for good
+  emptyTrash: async () => {
+    await get().purgeTrash(0);
+  },
+
+  // Save planet goal, recording a revision when the vision (title or deadline) changes
+  savePlanetGoal: async (goal: PlanetGoal, reason?: string) => {
     const { uid } = get();
     
     if (!uid) {
@@ -234,16 +621,196 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
 
     try {
-      await saveToStorage(STORAGE_KEYS.PLANET_GOAL, goal);
-      set({ planetGoal: goal });
-      console.log('Planet goal saved to local storage');
+      await writeQueue.run(async () => {
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        const { planetGoal, goalRevisions } = get();
+        await backend.savePlanetGoal(uid, planetId, goal);
+
+        if (isVisionChange(planetGoal, goal)) {
+          const revision = createGoalRevision(
+            goal,
+            reason,
+            undefined,
+            getNextRevisionTime(goalRevisions)
+          );
+          await backend.appendGoalRevision(uid, planetId, revision);
+          set({ planetGoal: goal, goalRevisions: [...goalRevisions, revision] });
+        } else {
+          set({ planetGoal: goal });
+        }
+        console.log(`Planet goal saved (${backend.kind})`);
+      });
     } catch (error) {
       console.error('Failed to save planet goal:', error);
       throw error;
     }
   },
 
-  // Create civilization - Local storage based
+  // Bring back the vision of an earlier revision (recorded as a new revision)
+  restoreGoalRevision: async (revisionId: string, reason?: string) => {
+    const { uid } = get();
+
+    if (!uid) {
+      console.warn('Cannot restore planet goal revision: no UID');
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      await writeQueue.run(async () => {
+        const { planetGoal, goalRevisions } = get();
+        const restoredRevision = goalRevisions.find(r => r.id === revisionId);
+        if (!restoredRevision) {
+          throw new Error(`Planet goal revision not found: ${revisionId}`);
+        }
+        if (isCurrentVision(planetGoal, restoredRevision)) {
+          return;
+        }
+
+        const goal = applyGoalRevision(planetGoal, restoredRevision);
+        const revision = createGoalRevision(
+          goal,
+          reason,
+          revisionId,
+          getNextRevisionTime(goalRevisions)
+        );
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        await backend.savePlanetGoal(uid, planetId, goal);
+        await backend.appendGoalRevision(uid, planetId, revision);
+        set({ planetGoal: goal, goalRevisions: [...goalRevisions, revision] });
+        console.log(`Planet goal revision restored (${backend.kind}):`, revisionId);
+      });
+    } catch (error) {
+      console.error('Failed to restore planet goal revision:', error);
+      throw error;
+    }
+  },
+
+  // Get the vision history (newest first)
+  getGoalRevisions: () => {
+    return sortRevisionsNewestFirst(get().goalRevisions);
+  },
+
+  // Export the whole planet as a versioned backup
+  exportPlanet: () => {
+    const { planetGoal, goalRevisions, civilizations, progressEvents, stateTransitions } = get();
+    return createPlanetBackup({
+      planetGoal,
+      goalRevisions,
+      civilizations,
+      progressEvents,
+      stateTransitions,
+    });
+  },
+
+  // Import a validated backup, merging with or replacing the current planet
+  importPlanet: async (backup: PlanetBackup, mode: PlanetImportMode) => {
+    const { uid } = get();
+    
+    if (!uid) {
+      console.warn('Cannot import planet: no UID');
+      throw new Error('Not authenticated');
+    }
+
+    try {
+      const imported = await writeQueue.run(async () => {
+        const { planetGoal, goalRevisions, civilizations, progressEvents, stateTransitions } =
+          get();
+        const result = applyPlanetBackup(
+          { planetGoal, goalRevisions, civilizations, progressEvents, stateTransitions },
+          backup,
+          mode
+        );
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+
+        // The revision log is append-only: add imported revisions, never drop local ones
+        const loggedRevisionIds = new Set(goalRevisions.map(revision => revision.id));
+        const importedRevisions = result.goalRevisions.filter(r => !loggedRevisionIds.has(r.id));
+        for (const revision of importedRevisions) {
+          await backend.appendGoalRevision(uid, planetId, revision);
+        }
+        let revisions = [...goalRevisions, ...importedRevisions];
+
+        if (result.planetGoal && result.planetGoal !== planetGoal) {
+          await backend.savePlanetGoal(uid, planetId, result.planetGoal);
+          // An imported vision is a vision change like any other
+          if (isVisionChange(planetGoal, result.planetGoal)) {
+            const revision = createGoalRevision(
+              result.planetGoal,
+              undefined,
+              undefined,
+              getNextRevisionTime(revisions)
+            );
+            await backend.appendGoalRevision(uid, planetId, revision);
+            revisions = [...revisions, revision];
+          }
+        }
+        // Imported items replace trashed ones with the same id, and imported items that were
+        // deleted when exported go back to the trash
+        const importedCivIds = new Set(result.civilizations.map(civ => civ.id));
+        const keptEventIds = new Set(result.progressEvents.map(event => event.id));
+        const { trash: importedTrash, ...live } = splitTrash(
+          result.civilizations,
+          result.progressEvents
+        );
+        const trash: Trash = {
+          civilizations: [
+            ...get().trash.civilizations.filter(civ => !importedCivIds.has(civ.id)),
+            ...importedTrash.civilizations,
+          ],
+          progressEvents: [
+            ...get().trash.progressEvents.filter(event => !keptEventIds.has(event.id)),
+            ...importedTrash.progressEvents,
+          ],
+        };
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(live.civilizations, trash)
+        );
+
+        // Drop events that did not survive the import, then write the rest
+        for (const event of progressEvents) {
+          if (!keptEventIds.has(event.id)) {
+            await backend.deleteProgressEvent(uid, planetId, event.civId, event.id);
+          }
+        }
+        for (const event of result.progressEvents) {
+          await backend.saveProgressEvent(uid, planetId, event);
+        }
+
+        // The transition log is append-only: add imported entries, never drop local ones
+        const loggedIds = new Set(stateTransitions.map(transition => transition.id));
+        const importedTransitions = result.stateTransitions.filter(t => !loggedIds.has(t.id));
+        for (const transition of importedTransitions) {
+          await backend.appendStateTransition(uid, planetId, transition);
+        }
+
+        set({
+          planetGoal: result.planetGoal,
+          goalRevisions: revisions,
+          civilizations: live.civilizations,
+          progressEvents: live.progressEvents,
+          stateTransitions: [...stateTransitions, ...importedTransitions],
+          trash,
+        });
+        return { backendKind: backend.kind, civilizationCount: live.civilizations.length };
+      });
+      await get().deriveCivStates();
+      console.log(
+        `Planet imported (${mode}, ${imported.backendKind}):`,
+        imported.civilizationCount,
+        'civilizations'
+      );
+    } catch (error) {
+      console.error('Failed to import planet:', error);
+      throw error;
+    }
+  },
+
+  // Create civilization
   createCiv: async (data: CreateCivilizationRequest) => {
     const { uid } = get();
     
@@ -268,13 +835,21 @@ export const useAppStore = create<AppState>((set, get) => ({
       };
 
       // Add to local civilizations
-      const { civilizations } = get();
-      const updatedCivilizations = [...civilizations, civilization];
-      await saveToStorage(STORAGE_KEYS.CIVILIZATIONS, updatedCivilizations);
-      set({ civilizations: updatedCivilizations });
+      const backendKind = await writeQueue.run(async () => {
+        const updatedCivilizations = [...get().civilizations, civilization];
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(updatedCivilizations, get().trash)
+        );
+        set({ civilizations: updatedCivilizations });
+        return backend.kind;
+      });
 
       await get().deriveCivStates();
-      console.log('Civilization created and saved to local storage');
+      console.log(`Civilization created (${backendKind})`);
       return civId;
     } catch (error) {
       console.error('Failed to create civilization:', error);
@@ -282,7 +857,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  // Update civilization - Local storage based
+  // Update civilization
   updateCiv: async (id: string, patch: UpdateCivilizationRequest) => {
     const { uid } = get();
     
@@ -292,23 +867,62 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
 
     try {
-      const { civilizations } = get();
-      const updatedCivilizations = civilizations.map(civ => 
-        civ.id === id 
-          ? { ...civ, ...patch, updatedAt: Date.now() }
-          : civ
-      );
+      const backendKind = await writeQueue.run(async () => {
+        const { civilizations, progressEvents } = get();
+        const now = Date.now();
+        const transitions: StateTransition[] = [];
+        const updatedCivilizations = civilizations.map(civ => {
+          if (civ.id !== id) {
+            return civ;
+          }
+
+          const updated = { ...civ, ...patch, updatedAt: now };
+
+          // A new cadence moves the decay thresholds, so re-base the stored state on them
+          if ('cadence' in patch && !isSameCadence(patch.cadence, civ.cadence)) {
+            const derivedState = resolveRevivalState(
+              deriveCivilizationState(now, civ.lastProgressAt, patch.cadence),
+              civ.state,
+              countConsecutiveProgressDays(progressEvents, civ.id),
+              updated.revivalDays
+            );
+            if (shouldPersistStateTransition(derivedState, civ.state, true)) {
+              transitions.push(createStateTransition(civ, derivedState, 'cadence', now));
+              updated.state = derivedState;
+            }
+          }
+
+          return updated;
+        });
       
-      await saveToStorage(STORAGE_KEYS.CIVILIZATIONS, updatedCivilizations);
-      set({ civilizations: updatedCivilizations });
-      console.log('Civilization updated and saved to local storage');
+        const backend = await getStorageBackend(get().storageBackend);
+      
+        const planetId = get().activePlanetId;
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(updatedCivilizations, get().trash)
+        );
+        for (const transition of transitions) {
+          await backend.appendStateTransition(uid, planetId, transition);
+        }
+        set({
+          civilizations: updatedCivilizations,
+          stateTransitions: [...get().stateTransitions, ...transitions],
+        });
+        return backend.kind;
+      });
+      console.log(`Civilization updated (${backendKind})`);
+
+      // Reminder settings or the name changed, so re-plan notifications without blocking UI
+      get().scheduleReminders();
     } catch (error) {
       console.error('Failed to update civilization:', error);
       throw error;
     }
   },
 
-  // Delete civilization - Local storage based
+  // Delete civilization: moves it and its progress events to the trash until restored or purged
   deleteCiv: async (id: string) => {
     const { uid } = get();
     
@@ -318,19 +932,68 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
 
     try {
-      const { civilizations } = get();
-      const updatedCivilizations = civilizations.filter(civ => civ.id !== id);
+      const backendKind = await writeQueue.run(async () => {
+        const { civilizations, progressEvents, trash } = get();
+        const civilization = civilizations.find(civ => civ.id === id);
+        if (!civilization) {
+          return;
+        }
+
+        const now = Date.now();
+        const updatedCivilizations = civilizations.filter(civ => civ.id !== id);
+        const updatedTrash: Trash = {
+          civilizations: [
+            ...trash.civilizations,
+            { ...civilization, deletedAt: now, updatedAt: now },
+          ],
+          progressEvents: [
+            ...trash.progressEvents,
+            ...progressEvents.filter(event => event.civId === id),
+          ],
+        };
       
-      await saveToStorage(STORAGE_KEYS.CIVILIZATIONS, updatedCivilizations);
-      set({ civilizations: updatedCivilizations });
-      console.log('Civilization deleted and saved to local storage');
+        const backend = await getStorageBackend(get().storageBackend);
+      
+        const planetId = get().activePlanetId;
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(updatedCivilizations, updatedTrash)
+        );
+        set({
+          civilizations: updatedCivilizations,
+          progressEvents: progressEvents.filter(event => event.civId !== id),
+          trash: updatedTrash,
+        });
+        return backend.kind;
+      });
+      if (!backendKind) {
+        return;
+      }
+      console.log(`Civilization moved to trash (${backendKind})`);
+
+      get().scheduleReminders();
     } catch (error) {
       console.error('Failed to delete civilization:', error);
       throw error;
     }
   },
 
-  // Refresh single civilization - Local storage based
+  // Archive civilization (closes its deadline; progress and history are kept)
+  // Levels are brought up to date first, then frozen: archived civilizations are not re-derived
+  archiveCiv: async (id: string) => {
+    await get().deriveCivStates();
+    await get().updateCiv(id, { archivedAt: Date.now() });
+  },
+
+  // Complete civilization: archive it into the hall of fame, optionally as a planet monument
+  completeCiv: async (id: string, monument: boolean) => {
+    await get().deriveCivStates();
+    const now = Date.now();
+    await get().updateCiv(id, { archivedAt: now, completedAt: now, monument });
+  },
+
+  // Refresh single civilization
   refreshCiv: async (id: string) => {
     const { uid } = get();
     
@@ -349,195 +1012,481 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
-  // Log progress for a civilization - Local storage based
-  logProgress: async (id: string, note?: string) => {
+  // Check a milestone off (or reopen it); the civilization's levels follow
+  toggleMilestone: async (civId: string, milestoneId: string) => {
+    const civilization = get().civilizations.find(civ => civ.id === civId);
+    if (!civilization) {
+      return;
+    }
+
+    await get().updateCiv(civId, {
+      milestones: toggleMilestone(civilization.milestones ?? [], milestoneId),
+    });
+    await get().deriveCivStates();
+  },
+
+  // Restore a civilization from the trash, with the progress events deleted along with it
+  restoreCiv: async (id: string) => {
     const { uid } = get();
-    
+
     if (!uid) {
-      console.warn('Cannot log progress: no UID');
+      console.warn('Cannot restore civilization: no UID');
       throw new Error('Not authenticated');
     }
 
     try {
-      // Update civilization's lastProgressAt timestamp
-      const { civilizations } = get();
-      const updatedCivilizations = civilizations.map(civ => 
-        civ.id === id 
-          ? { ...civ, lastProgressAt: Date.now(), updatedAt: Date.now() }
-          : civ
-      );
-      
-      await saveToStorage(STORAGE_KEYS.CIVILIZATIONS, updatedCivilizations);
-      set({ civilizations: updatedCivilizations });
-      
-      // Create progress log entry
-      const progressLog = {
-        id: 'log-' + Date.now(),
-        civId: id,
-        createdAt: Date.now(),
-        note: note || undefined,
-      };
-      
-      const existingLogs = await loadFromStorage(STORAGE_KEYS.PROGRESS_LOGS) || [];
-      const updatedLogs = [...existingLogs, progressLog];
-      await saveToStorage(STORAGE_KEYS.PROGRESS_LOGS, updatedLogs);
-      
-      console.log('Progress logged and saved to local storage');
+      const backendKind = await writeQueue.run(async () => {
+        const { civilizations, progressEvents, trash } = get();
+        const deleted = trash.civilizations.find(civ => civ.id === id);
+        if (!deleted) {
+          return;
+        }
+
+        const restored: Civilization = { ...deleted, updatedAt: Date.now() };
+        delete restored.deletedAt;
+        const updatedCivilizations = [...civilizations, restored];
+        // Memos deleted one by one before the civilization stay in the trash
+        const restoredEvents = trash.progressEvents.filter(
+          event => event.civId === id && event.deletedAt === undefined
+        );
+        const updatedTrash: Trash = {
+          civilizations: trash.civilizations.filter(civ => civ.id !== id),
+          progressEvents: trash.progressEvents.filter(event => !restoredEvents.includes(event)),
+        };
+
+        const backend = await getStorageBackend(get().storageBackend);
+
+        const planetId = get().activePlanetId;
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(updatedCivilizations, updatedTrash)
+        );
+        set({
+          civilizations: updatedCivilizations,
+          progressEvents: [...progressEvents, ...restoredEvents],
+          trash: updatedTrash,
+        });
+        return backend.kind;
+      });
+      if (!backendKind) {
+        return;
+      }
+
+      // It may have decayed while in the trash
+      await get().deriveCivStates();
+      console.log(`Civilization restored (${backendKind})`);
     } catch (error) {
-      console.error('Failed to log progress:', error);
+      console.error('Failed to restore civilization:', error);
       throw error;
     }
   },
 
-  // Create progress memo for a civilization
-  createProgressMemo: async (civId: string, data: CreateProgressMemoRequest) => {
+  // Record progress for a civilization (creates the day's event, or updates its memo)
+  // Backfilling a past day also recomputes the levels of the entries after it
+  recordProgress: async (civId: string, data: RecordProgressRequest = {}) => {
     const { uid } = get();
     
     if (!uid) {
-      console.warn('Cannot create progress memo: no UID');
+      console.warn('Cannot record progress: no UID');
       throw new Error('Not authenticated');
     }
 
     try {
-      const memoId = await createProgressMemo(civId, data);
-      console.log('Progress memo created:', memoId);
-      return memoId;
+      const recorded = await writeQueue.run(async () => {
+        const now = Date.now();
+        const today = getTodayDate(now);
+        const date = data.date ?? today;
+        if (!isWithinBackfillWindow(date, get().getBackfillWindowDays(), today)) {
+          throw new Error(`Cannot record progress for ${date}: outside the backfill window`);
+        }
+
+        const { progressEvents, civilizations: currentCivilizations } = get();
+        const civilization = currentCivilizations.find(civ => civ.id === civId);
+        if (civilization && isArchived(civilization)) {
+          throw new Error(`Cannot record progress for ${civId}: the civilization is archived`);
+        }
+        const existingEvent = findProgressEvent(progressEvents, civId, date);
+        const event = existingEvent
+          ? updateProgressEvent(existingEvent, data, now)
+          : createProgressEvent(progressEvents, civId, { ...data, date }, now, civilization);
+        const withEvent = existingEvent
+          ? progressEvents.map(e => (e.id === event.id ? event : e))
+          : [...progressEvents, event];
+
+        // The new entry and every later one of this civilization get fresh levels
+        const recalculated = recalculateProgressLevels(withEvent, civId, date, civilization);
+        const changedEvents = recalculated.some(e => e.id === event.id)
+          ? recalculated
+          : [event, ...recalculated];
+
+        const backend = await getStorageBackend(get().storageBackend);
+
+        const planetId = get().activePlanetId;
+        for (const changedEvent of changedEvents) {
+          await backend.saveProgressEvent(uid, planetId, changedEvent);
+        }
+        set({
+          progressEvents: withEvent.map(e => changedEvents.find(c => c.id === e.id) ?? e),
+        });
+
+        // Update civilization's lastProgressAt timestamp (a backfilled day never moves it back)
+        const { civilizations } = get();
+        const updatedCivilizations = civilizations.map(civ =>
+          civ.id === civId
+            ? {
+                ...civ,
+                lastProgressAt:
+                  date === today ? now : Math.max(civ.lastProgressAt ?? 0, event.createdAt),
+                updatedAt: now,
+              }
+            : civ
+        );
+      
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(updatedCivilizations, get().trash)
+        );
+        set({ civilizations: updatedCivilizations });
+        return { backendKind: backend.kind, eventId: event.id };
+      });
+      await get().deriveCivStates();
+
+      console.log(`Progress recorded (${recorded.backendKind}):`, recorded.eventId);
+      return recorded.eventId;
     } catch (error) {
-      console.error('Failed to create progress memo:', error);
+      console.error('Failed to record progress:', error);
       throw error;
     }
   },
 
-  // Update progress memo for a civilization
-  updateProgressMemo: async (civId: string, data: UpdateProgressMemoRequest) => {
+  // Delete a progress event within the backfill window, recomputing the levels after it
+  // The event is kept in the trash (marked deletedAt) so it can be restored
+  deleteProgressEvent: async (eventId: string) => {
     const { uid } = get();
     
     if (!uid) {
-      console.warn('Cannot update progress memo: no UID');
+      console.warn('Cannot delete progress event: no UID');
       throw new Error('Not authenticated');
     }
 
     try {
-      await updateProgressMemo(civId, data);
-      console.log('Progress memo updated');
+      const backendKind = await writeQueue.run(async () => {
+        const { progressEvents } = get();
+        const event = progressEvents.find(e => e.id === eventId);
+        if (!event) {
+          return;
+        }
+
+        if (!isWithinBackfillWindow(event.date, get().getBackfillWindowDays())) {
+          throw new Error(`Cannot delete progress for ${event.date}: outside the backfill window`);
+        }
+
+        const now = Date.now();
+        const civilization = get().civilizations.find(civ => civ.id === event.civId);
+        const remaining = progressEvents.filter(e => e.id !== eventId);
+        const recalculated = recalculateProgressLevels(
+          remaining,
+          event.civId,
+          event.date,
+          civilization
+        );
+
+        const deletedEvent: ProgressEvent = { ...event, deletedAt: now, updatedAt: now };
+
+        const backend = await getStorageBackend(get().storageBackend);
+
+        const planetId = get().activePlanetId;
+        await backend.saveProgressEvent(uid, planetId, deletedEvent);
+        for (const changedEvent of recalculated) {
+          await backend.saveProgressEvent(uid, planetId, changedEvent);
+        }
+        const { trash } = get();
+        set({
+          progressEvents: remaining.map(e => recalculated.find(c => c.id === e.id) ?? e),
+          trash: { ...trash, progressEvents: [...trash.progressEvents, deletedEvent] },
+        });
+
+        // Deleting the latest entry moves lastProgressAt back to the one before it
+        const civRemaining = remaining.filter(e => e.civId === event.civId);
+        if (civilization && !civRemaining.some(e => e.date > event.date)) {
+          const updatedCivilizations = get().civilizations.map(civ =>
+            civ.id === event.civId
+              ? {
+                  ...civ,
+                  lastProgressAt: civRemaining.length
+                    ? Math.max(...civRemaining.map(e => e.createdAt))
+                    : undefined,
+                  updatedAt: now,
+                }
+              : civ
+          );
+          await backend.saveCivilizations(
+            uid,
+            planetId,
+            withTrashedCivilizations(updatedCivilizations, get().trash)
+          );
+          set({ civilizations: updatedCivilizations });
+        }
+        return backend.kind;
+      });
+      if (!backendKind) {
+        return;
+      }
+      await get().deriveCivStates();
+      console.log(`Progress event moved to trash (${backendKind})`);
     } catch (error) {
-      console.error('Failed to update progress memo:', error);
+      console.error('Failed to delete progress event:', error);
       throw error;
     }
   },
 
-  // Get today's progress memo for a civilization
-  getTodayProgressMemo: async (civId: string) => {
+  // Restore a deleted progress event from the trash, recomputing the levels after it
+  restoreProgressEvent: async (eventId: string) => {
     const { uid } = get();
-    
+
     if (!uid) {
-      console.warn('Cannot get today\'s progress memo: no UID');
-      return null;
+      console.warn('Cannot restore progress event: no UID');
+      throw new Error('Not authenticated');
     }
 
     try {
-      return await getTodayProgressMemo(civId);
+      const backendKind = await writeQueue.run(async () => {
+        const { progressEvents, civilizations, trash } = get();
+        const deleted = trash.progressEvents.find(e => e.id === eventId);
+        if (!deleted) {
+          return;
+        }
+
+        const blocker = getRestoreBlocker(deleted, civilizations, progressEvents);
+        const civilization = civilizations.find(civ => civ.id === deleted.civId);
+        if (blocker || !civilization) {
+          throw new Error(`Cannot restore ${eventId}: ${blocker}`);
+        }
+
+        const now = Date.now();
+        const restored: ProgressEvent = { ...deleted, updatedAt: now };
+        delete restored.deletedAt;
+        const withEvent = [...progressEvents, restored];
+        const recalculated = recalculateProgressLevels(
+          withEvent,
+          restored.civId,
+          restored.date,
+          civilization
+        );
+        const changedEvents = recalculated.some(e => e.id === restored.id)
+          ? recalculated
+          : [restored, ...recalculated];
+
+        const backend = await getStorageBackend(get().storageBackend);
+
+        const planetId = get().activePlanetId;
+        for (const changedEvent of changedEvents) {
+          await backend.saveProgressEvent(uid, planetId, changedEvent);
+        }
+
+        // Restoring the latest entry moves lastProgressAt forward again
+        const updatedCivilizations = civilizations.map(civ =>
+          civ.id === restored.civId
+            ? {
+                ...civ,
+                lastProgressAt: Math.max(civ.lastProgressAt ?? 0, restored.createdAt),
+                updatedAt: now,
+              }
+            : civ
+        );
+        const updatedTrash: Trash = {
+          ...get().trash,
+          progressEvents: get().trash.progressEvents.filter(e => e.id !== eventId),
+        };
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(updatedCivilizations, updatedTrash)
+        );
+        set({
+          progressEvents: withEvent.map(e => changedEvents.find(c => c.id === e.id) ?? e),
+          civilizations: updatedCivilizations,
+          trash: updatedTrash,
+        });
+        return backend.kind;
+      });
+      if (!backendKind) {
+        return;
+      }
+      await get().deriveCivStates();
+      console.log(`Progress event restored (${backendKind})`);
     } catch (error) {
-      console.error('Failed to get today\'s progress memo:', error);
-      return null;
+      console.error('Failed to restore progress event:', error);
+      throw error;
     }
   },
 
-  // Get all progress memos for a civilization
-  getProgressMemos: async (civId: string) => {
-    const { uid } = get();
-    
-    if (!uid) {
-      console.warn('Cannot get progress memos: no UID');
-      return [];
-    }
+  // Get progress events, newest first (all civilizations when civId is omitted)
+  getProgressEvents: (civId?: string) => {
+    const { progressEvents } = get();
+    return sortEventsNewestFirst(
+      civId ? progressEvents.filter(event => event.civId === civId) : progressEvents
+    );
+  },
 
-    try {
-      return await getProgressMemos(civId);
-    } catch (error) {
-      console.error('Failed to get progress memos:', error);
-      return [];
-    }
+  // Search loaded progress events and civilizations (see lib/search.ts)
+  searchProgressEvents: (query: SearchQuery) => {
+    const { civilizations, progressEvents } = get();
+    return sortEventsNewestFirst(searchProgressEvents(progressEvents, civilizations, query));
   },
 
-  // Check if civilization has progress memo for today
-  hasTodayProgressMemo: async (civId: string) => {
-    const { uid } = get();
-    
-    if (!uid) {
-      console.warn('Cannot check today\'s progress memo: no UID');
-      return false;
-    }
+  searchCivilizations: (query: SearchQuery) => {
+    const { civilizations, progressEvents } = get();
+    return searchCivilizations(civilizations, progressEvents, query);
+  },
 
-    try {
-      return await hasTodayProgressMemo(civId);
-    } catch (error) {
-      console.error('Failed to check today\'s progress memo:', error);
-      return false;
-    }
+  // Get today's progress event for a civilization
+  getTodayProgressEvent: (civId: string) => {
+    return findProgressEvent(get().progressEvents, civId, getTodayDate());
   },
 
-  // Derive current states and levels for all civilizations - Local storage based
+  // Days before today progress can be added, edited or deleted for
+  getBackfillWindowDays: () => {
+    return get().planetGoal?.backfillWindowDays ?? DEFAULT_BACKFILL_WINDOW_DAYS;
+  },
+
+  // Derive current states and levels for all civilizations
   deriveCivStates: async () => {
-    const { civilizations, uid } = get();
+    const { uid } = get();
     
     if (!uid) {
       console.warn('Cannot derive states: no UID');
       return;
     }
     
-    const now = Date.now();
+    // Derive from the state left by earlier writes, so their results are never overwritten
+    const { derivedPlanetId, newTransitions } = await writeQueue.run(async () => {
+      const { civilizations, progressEvents, activePlanetId } = get();
+      const now = Date.now();
 
-    // Load progress logs for level calculation
-    const progressLogs = await loadFromStorage(STORAGE_KEYS.PROGRESS_LOGS) || [];
-    console.log('Progress logs loaded:', progressLogs.length);
+      const transitions: StateTransition[] = [];
+      const updatedCivilizations = civilizations.map(civ => {
+        // Archived civilizations keep the state and levels they were archived with
+        if (isArchived(civ)) {
+          return civ;
+        }
 
-    const updatedCivilizations = civilizations.map(civ => {
-      // Derive current state based on staleness
-      const derivedState = deriveCivilizationState(now, civ.lastProgressAt);
+        // Derive current state based on staleness, then apply the ocean revival phase
+        const derivedState = resolveRevivalState(
+          deriveCivilizationState(now, civ.lastProgressAt, civ.cadence),
+          civ.state,
+          countConsecutiveProgressDays(progressEvents, civ.id),
+          civ.revivalDays
+        );
 
-      // Calculate levels based on progress logs
-      const civProgressLogs = progressLogs
-        .filter((log: any) => log.civId === civ.id)
-        .map((log: any) => log.createdAt);
+        // Calculate levels based on progress events
+        const civProgressEvents = progressEvents.filter(event => event.civId === civ.id);
+        const civProgressTimestamps = civProgressEvents.map(event => event.createdAt);
       
-      console.log(`Civilization ${civ.name} progress logs:`, civProgressLogs.length);
+        console.log(`Civilization ${civ.name} progress events:`, civProgressTimestamps.length);
       
-      // Use existing levels if available (for sample data), otherwise calculate from progress logs
-      const levels = civ.levels || calculateCivilizationLevels(now, civProgressLogs);
-      console.log(`Civilization ${civ.name} final levels:`, levels);
-
-      // Check if we need to persist state transition
-      const needsPersist = shouldPersistStateTransition(derivedState, civ.state);
-
-      // If persistence is needed, update local storage
-      if (needsPersist) {
-        // Async update without blocking UI
-        const { civilizations: currentCivs } = get();
-        const updatedCivs = currentCivs.map(c => 
-          c.id === civ.id ? { ...c, state: derivedState, updatedAt: Date.now() } : c
-        );
-        
-        saveToStorage(STORAGE_KEYS.CIVILIZATIONS, updatedCivs)
-          .then(() => {
-            console.log(
-              `Persisted state transition for ${civ.name}: ${civ.state} → ${derivedState}`
-            );
-          })
-          .catch(error => {
-            console.error(`Failed to persist state for ${civ.name}:`, error);
-          });
-      }
+        // Score from progress events, milestones and the metric; civilizations without any of
+        // them (e.g. sample data) keep their levels
+        const levels =
+          civProgressTimestamps.length > 0 || civ.milestones?.length || civ.metric || !civ.levels
+            ? calculateCivilizationLevels(
+                now,
+                civProgressTimestamps,
+                civ.deadline,
+                civ.milestones,
+                civ.metric ? getMetricProgress(civProgressEvents, civ.metric, now) : undefined
+              )
+            : civ.levels;
+        console.log(`Civilization ${civ.name} final levels:`, levels);
 
-      // Return civilization with derived state and calculated levels
-      return {
-        ...civ,
-        state: derivedState, // Use derived state for display
-        levels,
-      };
+        // Check if we need to persist state transition
+        if (shouldPersistStateTransition(derivedState, civ.state)) {
+          transitions.push(
+            createStateTransition(civ, derivedState, inferTransitionTrigger(derivedState), now)
+          );
+          console.log(`State transition for ${civ.name}: ${civ.state} → ${derivedState}`);
+          return { ...civ, state: derivedState, levels, updatedAt: now };
+        }
+
+        // Return civilization with derived state and calculated levels
+        return {
+          ...civ,
+          state: derivedState, // Use derived state for display
+          levels,
+        };
+      });
+
+      set({
+        civilizations: updatedCivilizations,
+        stateTransitions: [...get().stateTransitions, ...transitions],
+      });
+      return { derivedPlanetId: activePlanetId, newTransitions: transitions };
     });
 
-    set({ civilizations: updatedCivilizations });
+    // Persist new states and append them to the transition log, without blocking UI
+    // Queued, so the snapshot saved is the latest one and later writes are not overwritten
+    if (newTransitions.length > 0) {
+      writeQueue
+        .run(async () => {
+          // After a planet switch the transitions are derived again when the planet is loaded
+          if (get().activePlanetId !== derivedPlanetId) {
+            return;
+          }
+          const backend = await getStorageBackend(get().storageBackend);
+          const planetId = get().activePlanetId;
+          await backend.saveCivilizations(
+            uid,
+            planetId,
+            withTrashedCivilizations(get().civilizations, get().trash)
+          );
+          for (const transition of newTransitions) {
+            await backend.appendStateTransition(uid, planetId, transition);
+          }
+          console.log(`Persisted ${newTransitions.length} state transitions`);
+        })
+        .catch(error => {
+          console.error('Failed to persist state transitions:', error);
+        });
+    }
+
+    // Staleness and progress move the reminder times, so re-plan them without blocking UI
+    get().scheduleReminders();
+  },
+
+  // Get the state transition log (newest first), optionally for one civilization
+  getStateTransitions: (civId?: string) => {
+    const { stateTransitions } = get();
+    return stateTransitions
+      .filter(transition => !civId || transition.civId === civId)
+      .sort((a, b) => b.timestamp - a.timestamp);
+  },
+
+  // Replace scheduled local notifications with the reminders of every planet's civilizations
+  // Best effort: a notification failure never fails the data change that triggered it
+  scheduleReminders: async () => {
+    try {
+      const { uid, planets, activePlanetId, civilizations } = get();
+      // Other planets are not loaded, so their reminders come from their stored civilizations
+      const otherPlanetIds = planets.map(p => p.id).filter(id => id !== activePlanetId);
+      let otherCivilizations: Civilization[] = [];
+      if (uid && otherPlanetIds.length > 0) {
+        const backend = await getStorageBackend(get().storageBackend);
+        const stored = await Promise.all(
+          otherPlanetIds.map(planetId => backend.getCivilizations(uid, planetId))
+        );
+        otherCivilizations = splitTrash(stored.flat(), []).civilizations;
+      }
+
+      const planned = await syncReminders(notificationScheduler, [
+        ...civilizations,
+        ...otherCivilizations,
+      ]);
+      console.log(`Scheduled ${planned.length} reminders`);
+    } catch (error) {
+      console.error('Failed to schedule reminders:', error);
+    }
   },
 
   // Seed sample data for testing
@@ -553,24 +1502,33 @@ export const useAppStore = create<AppState>((set, get) => ({
       // Create sample civilizations
       const sampleCivilizations = createSampleCivilizations();
       
-      // Save civilizations to local storage
-      await saveToStorage(STORAGE_KEYS.CIVILIZATIONS, sampleCivilizations);
-      set({ civilizations: sampleCivilizations });
-
-      // Create sample planet goal if none exists
-      const { planetGoal } = get();
-      if (!planetGoal) {
-        const samplePlanetGoal = createSamplePlanetGoal();
-        await saveToStorage(STORAGE_KEYS.PLANET_GOAL, samplePlanetGoal);
-        set({ planetGoal: samplePlanetGoal });
-      }
+      const hadPlanetGoal = await writeQueue.run(async () => {
+        // Save civilizations to the active backend
+        const backend = await getStorageBackend(get().storageBackend);
+        const planetId = get().activePlanetId;
+        await backend.saveCivilizations(
+          uid,
+          planetId,
+          withTrashedCivilizations(sampleCivilizations, get().trash)
+        );
+        set({ civilizations: sampleCivilizations });
+
+        // Create sample planet goal if none exists
+        const { planetGoal } = get();
+        if (!planetGoal) {
+          const samplePlanetGoal = createSamplePlanetGoal();
+          await backend.savePlanetGoal(uid, planetId, samplePlanetGoal);
+          set({ planetGoal: samplePlanetGoal });
+        }
+        return !!planetGoal;
+      });
 
       // Derive states for sample data
       await get().deriveCivStates();
       
       console.log('Sample data seeded successfully:', {
         civilizations: sampleCivilizations.length,
-        planetGoal: !!planetGoal,
+        planetGoal: hadPlanetGoal,
       });
     } catch (error) {
       console.error('Failed to seed sample data:', error);
@@ -578,13 +1536,23 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
 
+  // Resolve once every queued write has finished
+  flushWrites: () => {
+    return writeQueue.idle();
+  },
+
   // Toast actions
-  showToast: (message: string, type: 'success' | 'error' | 'info') => {
+  showToast: (
+    message: string,
+    type: 'success' | 'error' | 'info',
+    action?: { label: string; onPress: () => void }
+  ) => {
     set({
       toast: {
         visible: true,
         message,
         type,
+        action,
       },
     });
   },
@@ -600,3 +1568,8 @@ export const useAppStore = create<AppState>((set, get) => ({
     });
   },
 }));
+
+// Calendar days everywhere follow the planet goal's day-start hour
+useAppStore.subscribe(state => {
+  setDayStartHour(state.planetGoal?.dayStartHour);
+});
@@ -27,6 +27,12 @@ import {
   Building,
   Building2,
   X,
+  Upload,
+  Download,
+  Sprout,
+  BarChart3,
+  Search,
+  SlidersHorizontal,
   type LucideIcon,
 } from 'lucide-react-native';
 import { colors } from './colors';
@@ -59,12 +65,17 @@ export const icons = {
   save: CheckCircle,
   confirm: CheckCircle,
   close: X,
+  export: Upload,
+  import: Download,
+  search: Search,
+  filter: SlidersHorizontal,
   
   // Civilization states (legacy)
   uninitialized: Circle,
   developing: TrendingUp,
   decaying: TrendingDown,
   ocean: Globe,
+  reviving: Sprout,
   
   // Civilization levels (new system)
   grassland: TreePine,
@@ -83,6 +94,7 @@ export const icons = {
   calendar: Calendar,
   clock: Clock,
   history: BookOpen,
+  stats: BarChart3,
   
   // Special effects
   highlight: Star,
@@ -119,6 +131,8 @@ export const getIconColor = (name: IconName, variant?: 'default' | 'success' | '
     case 'warning':
     case 'decaying':
       return colors.warning;
+    case 'reviving':
+      return colors.secondary;
     case 'error':
     case 'delete':
       return colors.error;
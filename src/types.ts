@@ -6,12 +6,62 @@
 export type PlanetGoal = {
   title: string;
   deadline: string; // ISO date string (YYYY-MM-DD)
+  backfillWindowDays?: number; // how many past days progress can be added, edited or deleted for
+  dayStartHour?: number; // local hour a new day starts (0 = midnight, later for night owls)
+};
+
+/**
+ * Append-only record of a change to the planet's vision (goal title and deadline)
+ */
+export type PlanetGoalRevision = {
+  id: string;
+  title: string; // vision after the change
+  deadline: string; // ISO date string (YYYY-MM-DD)
+  timestamp: number; // timestamp in milliseconds
+  reason?: string; // why the vision changed, as entered by the user
+  restoredFrom?: string; // id of the earlier revision this one restored
+};
+
+/**
+ * Colour preset of a planet's 3D appearance
+ */
+export type PlanetAppearance = 'ocean' | 'forest' | 'desert' | 'ice' | 'volcanic';
+
+/**
+ * A planet owned by the user - each has its own vision (PlanetGoal), civilizations and look
+ */
+export type Planet = {
+  id: string;
+  name: string; // e.g. "Career" or "Health" (empty = default display name)
+  appearance?: PlanetAppearance; // undefined = ocean
+  createdAt: number; // timestamp in milliseconds
+  updatedAt: number; // timestamp in milliseconds
 };
 
 /**
  * Civilization development states (legacy - kept for backward compatibility)
  */
-export type CivState = 'uninitialized' | 'developing' | 'decaying' | 'ocean';
+export type CivState = 'uninitialized' | 'developing' | 'decaying' | 'ocean' | 'reviving';
+
+/**
+ * What caused a state transition
+ * - staleness: time passed without progress (decaying / ocean)
+ * - progress: recorded progress (reviving / recovery to developing)
+ * - cadence: the civilization's cadence was changed
+ */
+export type StateTransitionTrigger = 'staleness' | 'progress' | 'cadence';
+
+/**
+ * Append-only record of a civilization's state change
+ */
+export type StateTransition = {
+  id: string;
+  civId: string;
+  from: CivState;
+  to: CivState;
+  timestamp: number; // timestamp in milliseconds
+  trigger: StateTransitionTrigger;
+};
 
 /**
  * Civilization level classifications based on cultural and growth levels
@@ -28,6 +78,58 @@ export type CivilizationLevels = {
   classification: CivLevel; // derived from totalLevel
 };
 
+/**
+ * How often a civilization is expected to see progress
+ * Decay thresholds scale with the cadence (weekdays: 0 = Sunday ... 6 = Saturday)
+ */
+export type CivCadence =
+  | { type: 'daily' }
+  | { type: 'weekly' }
+  | { type: 'interval'; days: number }
+  | { type: 'weekdays'; weekdays: number[] };
+
+/**
+ * Local reminder settings of a civilization
+ */
+export type CivReminder = {
+  enabled: boolean; // daily nudge at `time` on days without progress
+  time: string; // local time of day (HH:mm)
+  decayWarning: boolean; // warn the day before the civilization starts decaying
+};
+
+/**
+ * Sub-goal of a civilization - one item of its ordered milestone checklist
+ */
+export type CivMilestone = {
+  id: string;
+  title: string;
+  dueDate?: string; // ISO date string (YYYY-MM-DD), optional
+  weight: number; // share of the civilization's milestone progress relative to the others
+  completedAt?: number; // timestamp in milliseconds when checked off (undefined = open)
+};
+
+/**
+ * Numeric metric of a civilization (e.g. 100 km run, 20 books read)
+ * - cumulative: amounts recorded on each entry add up (km run this year)
+ * - latest: the most recent amount is the current value (body weight, savings balance)
+ */
+export type CivMetricMode = 'cumulative' | 'latest';
+
+export type CivMetric = {
+  unit: string; // shown after values, e.g. "km"
+  target: number; // value that means 100% of the goal
+  mode: CivMetricMode;
+};
+
+/**
+ * Where a civilization or the planet goal stands against its deadline
+ * - onTrack: more than a week left
+ * - dueSoon: a week or less left (including the deadline day)
+ * - overdue: the deadline has passed
+ * - completed: archived, so the deadline no longer applies
+ */
+export type DeadlineState = 'onTrack' | 'dueSoon' | 'overdue' | 'completed';
+
 /**
  * Individual civilization entity
  */
@@ -38,13 +140,41 @@ export type Civilization = {
   deadline: string; // ISO date string (YYYY-MM-DD)
   state: CivState; // stored last-known state (legacy)
   levels: CivilizationLevels; // new level system
+  cadence?: CivCadence; // expected progress cadence (undefined = default 7/21 day thresholds)
+  revivalDays?: number; // consecutive progress days needed to revive from the ocean (default 3)
+  reminder?: CivReminder; // local notifications (undefined = off)
+  milestones?: CivMilestone[]; // ordered checklist of sub-goals, feeds into the levels
+  metric?: CivMetric; // numeric goal measured by the amounts of progress entries
+  archivedAt?: number; // timestamp in milliseconds when archived (undefined = active)
+  completedAt?: number; // timestamp in milliseconds when the goal was achieved (archived too)
+  monument?: boolean; // completed civilization stays on the planet as a monument
+  deletedAt?: number; // timestamp in milliseconds when moved to the trash (undefined = not deleted)
   lastProgressAt?: number; // server timestamp in milliseconds
   createdAt: number; // server timestamp in milliseconds
   updatedAt: number; // server timestamp in milliseconds
 };
 
 /**
- * Progress log entry for civilization tracking
+ * Progress event - the single record of progress for a civilization on a given day
+ * Both "record progress" and "progress memo" actions create or update this entry
+ */
+export type ProgressEvent = {
+  id: string;
+  civId: string;
+  date: string; // ISO date string (YYYY-MM-DD), one event per civilization per day
+  memo?: string; // optional memo (max 30 characters)
+  amount?: number; // amount in the civilization's metric unit (when it has a metric)
+  createdAt: number; // timestamp in milliseconds of the first progress that day
+  updatedAt: number; // timestamp in milliseconds
+  levelBefore: number; // civilization level before this entry
+  levelAfter: number; // civilization level after this entry
+  levelChange: number; // level change amount (can be negative)
+  backfilled?: boolean; // recorded after its date (added later for a past day)
+  deletedAt?: number; // timestamp in milliseconds when moved to the trash (undefined = not deleted)
+};
+
+/**
+ * Progress log entry (legacy - merged into ProgressEvent, kept for migrations)
  */
 export type ProgressLog = {
   id: string;
@@ -54,7 +184,7 @@ export type ProgressLog = {
 };
 
 /**
- * Daily progress memo entry for civilization history tracking
+ * Daily progress memo entry (legacy - merged into ProgressEvent, kept for migrations)
  */
 export type ProgressMemo = {
   id: string;
@@ -75,8 +205,33 @@ export type ISODateString = string;
 // Request/Response types for repositories
 export type CreateCivilizationRequest = Omit<Civilization, 'id' | 'createdAt' | 'updatedAt'>;
 export type UpdateCivilizationRequest = Partial<
-  Pick<Civilization, 'name' | 'purpose' | 'deadline' | 'state'>
+  Pick<
+    Civilization,
+    | 'name'
+    | 'purpose'
+    | 'deadline'
+    | 'state'
+    | 'cadence'
+    | 'revivalDays'
+    | 'reminder'
+    | 'milestones'
+    | 'metric'
+    | 'archivedAt'
+    | 'completedAt'
+    | 'monument'
+  >
 >;
-export type CreateProgressLogRequest = Omit<ProgressLog, 'id' | 'createdAt'>;
-export type CreateProgressMemoRequest = Omit<ProgressMemo, 'id' | 'createdAt' | 'updatedAt' | 'levelBefore' | 'levelAfter' | 'levelChange'>;
-export type UpdateProgressMemoRequest = Pick<ProgressMemo, 'memo'>;
+export type RecordProgressRequest = Pick<ProgressEvent, 'memo'> &
+  Partial<Pick<ProgressEvent, 'date' | 'amount'>>; // date defaults to today
+
+/**
+ * Search over progress memos and civilizations (every field is optional and narrows the result)
+ */
+export type SearchQuery = {
+  text?: string; // matched against memos, civilization names and purposes (all words must match)
+  states?: CivState[]; // civilization state
+  levels?: CivLevel[]; // civilization level classification
+  from?: ISODateString; // progress on or after this date
+  to?: ISODateString; // progress on or before this date
+  levelChange?: 'gain' | 'loss'; // sign of the progress entry's level change
+};